@@ -0,0 +1,173 @@
+// Reference sync server for the kanban board (see useKanbanSync).
+//
+//   KANBAN_SYNC_PORT=8787 KANBAN_SYNC_DATA=./kanban-sync.json node server/kanban-sync-server.mjs
+//
+// Stores every book's entities in a single JSON file. Each accepted change
+// bumps the book's revision; clients pull with `?since=<revision>`.
+//
+//   GET  /api/books/:bookId/changes?since=N  -> { changes, cursor }
+//   POST /api/books/:bookId/changes { changes } -> { applied, conflicts, cursor }
+//
+// A pushed change is rejected when the stored version is neither the one the
+// client last synced (`baseUpdatedAt`) nor the pushed one; the stored version
+// is returned as a conflict and wins.
+
+import http from 'node:http';
+import { readFile, writeFile, rename } from 'node:fs/promises';
+import path from 'node:path';
+
+const PORT = Number(process.env.KANBAN_SYNC_PORT) || 8787;
+const DATA_FILE = path.resolve(process.env.KANBAN_SYNC_DATA || 'kanban-sync.json');
+const MAX_BODY_BYTES = 10 * 1024 * 1024;
+
+// ========== STORE ==========
+
+/** @type {{ books: Record<string, { revision: number, entities: Record<string, any> }> }} */
+let db = { books: {} };
+
+async function loadData() {
+  try {
+    db = JSON.parse(await readFile(DATA_FILE, 'utf8'));
+    if (!db.books) db.books = {};
+  } catch (error) {
+    if (error.code !== 'ENOENT') throw error;
+  }
+}
+
+// Writes are chained and go through a temp file so a crash never leaves a half-written file.
+// The chain carries on past a failed write (each write saves the whole db, so the next
+// one catches up); the caller gets its own write's result
+let writeQueue = Promise.resolve();
+function persist() {
+  const write = writeQueue.catch(() => {}).then(async () => {
+    const tmpFile = `${DATA_FILE}.tmp`;
+    await writeFile(tmpFile, JSON.stringify(db));
+    await rename(tmpFile, DATA_FILE);
+  });
+  writeQueue = write;
+  return write;
+}
+
+function getBook(bookId) {
+  if (!db.books[bookId]) db.books[bookId] = { revision: 0, entities: {} };
+  return db.books[bookId];
+}
+
+const entityKey = change => `${change.entityType}:${change.id}`;
+const withoutRevision = ({ revision, ...change }) => change;
+
+function getChanges(bookId, since) {
+  const book = getBook(bookId);
+  const changes = Object.values(book.entities)
+    .filter(entity => entity.revision > since)
+    // A client starting from scratch has nothing to delete
+    .filter(entity => since > 0 || !entity.deleted)
+    .sort((a, b) => a.revision - b.revision)
+    .map(withoutRevision);
+  return { changes, cursor: book.revision };
+}
+
+function applyChanges(bookId, changes) {
+  const book = getBook(bookId);
+  const applied = [];
+  const conflicts = [];
+
+  for (const change of changes) {
+    if (!change || typeof change.id !== 'string' || typeof change.entityType !== 'string' || !change.updatedAt) {
+      continue;
+    }
+    const key = entityKey(change);
+    const stored = book.entities[key];
+    const baseUpdatedAt = change.baseUpdatedAt ?? null;
+
+    if (stored && stored.updatedAt !== baseUpdatedAt && stored.updatedAt !== change.updatedAt) {
+      conflicts.push(withoutRevision(stored));
+      continue;
+    }
+    if (stored && stored.updatedAt === change.updatedAt && !!stored.deleted === !!change.deleted) {
+      // Retried push that already landed
+      applied.push({ entityType: change.entityType, id: change.id, updatedAt: change.updatedAt, deleted: change.deleted });
+      continue;
+    }
+
+    book.revision += 1;
+    book.entities[key] = {
+      entityType: change.entityType,
+      id: change.id,
+      updatedAt: change.updatedAt,
+      ...(change.deleted ? { deleted: true } : { data: change.data }),
+      revision: book.revision,
+    };
+    applied.push({ entityType: change.entityType, id: change.id, updatedAt: change.updatedAt, deleted: change.deleted });
+  }
+
+  return { applied, conflicts, cursor: book.revision };
+}
+
+// ========== HTTP ==========
+
+function send(res, status, body) {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type',
+  });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks = [];
+    req.on('data', chunk => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(Object.assign(new Error('Payload too large'), { status: 413 }));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}'));
+      } catch {
+        reject(Object.assign(new Error('Invalid JSON'), { status: 400 }));
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+const server = http.createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') return send(res, 204);
+
+  const url = new URL(req.url, `http://${req.headers.host || 'localhost'}`);
+  const match = url.pathname.match(/^\/api\/books\/([^/]+)\/changes$/);
+  if (!match) return send(res, 404, { error: 'Not found' });
+  const bookId = decodeURIComponent(match[1]);
+
+  try {
+    if (req.method === 'GET') {
+      const since = Number(url.searchParams.get('since')) || 0;
+      return send(res, 200, getChanges(bookId, since));
+    }
+    if (req.method === 'POST') {
+      const body = await readBody(req);
+      if (!Array.isArray(body.changes)) return send(res, 400, { error: 'Expected { changes: [] }' });
+      const result = applyChanges(bookId, body.changes);
+      if (result.applied.length > 0) await persist();
+      return send(res, 200, result);
+    }
+    return send(res, 405, { error: 'Method not allowed' });
+  } catch (error) {
+    console.error('[Kanban Sync Server]', error);
+    return send(res, error.status || 500, { error: error.message });
+  }
+});
+
+await loadData();
+server.listen(PORT, () => {
+  console.log(`[Kanban Sync Server] Listening on http://localhost:${PORT} (data: ${DATA_FILE})`);
+});
@@ -0,0 +1,1136 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Plus, Trash2, Zap, Filter, Play, CheckCircle, XCircle, FlaskConical, ScanSearch, Timer } from 'lucide-react';
+import { Task, Column, Tag, Priority, TaskStatus } from '@/types/kanban';
+import {
+  Automation,
+  AutomationDraft,
+  AutomationTriggerType,
+  AutomationCondition,
+  AutomationConditionType,
+  AutomationAction,
+  AutomationActionType,
+  AutomationTrigger,
+  AutomationTargetKind,
+  AutomationLimits,
+  AutomationConditionGroup,
+  AutomationConditionNode,
+  ConditionGroupOperator,
+  isConditionGroup,
+  CONDITION_GROUP_LABELS,
+  TRIGGER_LABELS,
+  CONDITION_LABELS,
+  ACTION_LABELS,
+  TARGET_LABELS,
+  SCHEDULED_TRIGGER_TYPES,
+} from '@/types/automation';
+import { TestAutomationResult, ConditionEvaluation } from '@/hooks/kanban/kanban.automations';
+import { SimulationResult, SimulationTaskDiff, SimulatedTaskFields } from '@/hooks/kanban/kanban.simulator';
+import { subtaskTemplates } from '@/hooks/kanban/kanban.seed';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+
+interface AutomationRuleBuilderProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Automation being edited, or null to create a new one */
+  automation: Automation | null;
+  columns: Column[];
+  tags: Tag[];
+  tasks: Task[];
+  onSave: (draft: AutomationDraft) => void;
+  validate: (draft: AutomationDraft) => string[];
+  onTest: (draft: AutomationDraft, taskId: string) => TestAutomationResult | null;
+  /** Dry-run the draft against the whole board */
+  onSimulate: (draft: AutomationDraft & { id?: string }) => SimulationResult;
+}
+
+const priorityOptions: { value: Priority; label: string; color: string }[] = [
+  { value: 'critical', label: 'Crítica', color: '#EF4444' },
+  { value: 'high', label: 'Alta', color: '#FB923C' },
+  { value: 'medium', label: 'Media', color: '#F59E0B' },
+  { value: 'low', label: 'Baja', color: '#22C55E' },
+];
+
+const statusOptions: { value: TaskStatus; label: string }[] = [
+  { value: 'not_started', label: 'Sin empezar' },
+  { value: 'in_progress', label: 'En curso' },
+  { value: 'paused', label: 'Pausado' },
+  { value: 'waiting', label: 'En espera' },
+  { value: 'completed', label: 'Terminado' },
+  { value: 'archived', label: 'Archivado' },
+];
+
+const progressOptions = [0, 25, 50, 75, 100] as const;
+
+function createEmptyDraft(): AutomationDraft {
+  return {
+    name: '',
+    enabled: true,
+    trigger: { type: 'TASK_UPDATED' },
+    conditions: { operator: 'AND', children: [] },
+    actions: [],
+    scope: { columnIds: [], tagIds: [] },
+  };
+}
+
+function createDefaultTrigger(type: AutomationTriggerType): AutomationTrigger {
+  switch (type) {
+    case 'DUE_DATE_APPROACHING':
+      return { type, days: 2 };
+    case 'STALE_IN_COLUMN_FOR_DAYS':
+      return { type, days: 7 };
+    case 'DAILY':
+      return { type, hour: 9 };
+    default:
+      return { type };
+  }
+}
+
+function createDefaultCondition(
+  type: AutomationConditionType,
+  columns: Column[],
+  tags: Tag[]
+): AutomationCondition {
+  switch (type) {
+    case 'PRIORITY_IS':
+      return { type, value: 'high' };
+    case 'COLUMN_IS':
+      return { type, columnId: columns[0]?.id ?? '' };
+    case 'HAS_TAG':
+    case 'MISSING_TAG':
+      return { type, tagId: tags[0]?.id ?? '' };
+    case 'DUE_IN_DAYS_LESS_THAN':
+      return { type, value: 3 };
+    case 'PROGRESS_EQUALS':
+      return { type, value: 100 };
+    case 'SUBTASKS_ALL_COMPLETED':
+    case 'SUBTASKS_INCOMPLETE':
+      return { type };
+    case 'STATUS_IS':
+      return { type, value: 'in_progress' };
+  }
+}
+
+function createDefaultAction(
+  type: AutomationActionType,
+  columns: Column[],
+  tags: Tag[],
+  tasks: Task[]
+): AutomationAction {
+  switch (type) {
+    case 'MOVE_TO_COLUMN':
+      return { type, columnId: columns[0]?.id ?? '' };
+    case 'SET_PRIORITY':
+      return { type, value: 'high' };
+    case 'ADD_TAG':
+    case 'REMOVE_TAG':
+      return { type, tagId: tags[0]?.id ?? '' };
+    case 'ARCHIVE_TASK':
+    case 'UNARCHIVE_TASK':
+      return { type };
+    case 'SET_DUE_DATE_IN_DAYS':
+      return { type, value: 7 };
+    case 'NOTIFY_IN_APP':
+      return { type, message: '' };
+    case 'SET_STATUS':
+      return { type, value: 'in_progress' };
+    case 'SET_ASSIGNEE':
+      return { type, assignee: '' };
+    case 'ADD_SUBTASKS_FROM_TEMPLATE':
+      return { type, templateId: subtaskTemplates[0]?.id ?? '' };
+    case 'SET_START_DATE_IN_DAYS':
+      return { type, value: 0 };
+    case 'CREATE_FOLLOW_UP_TASK':
+      return { type, columnId: columns[0]?.id ?? '', title: 'Seguimiento: {title}' };
+    case 'ADD_DEPENDENCY':
+      return { type, dependsOnTaskId: tasks[0]?.id ?? '' };
+    case 'SHIFT_DATES_BY_SOURCE_SLIP':
+      return { type, target: { kind: 'DEPENDENTS' } };
+  }
+}
+
+/** Human-readable summary of a condition, resolving column/tag names */
+function describeCondition(condition: AutomationCondition, columns: Column[], tags: Tag[]): string {
+  const label = CONDITION_LABELS[condition.type];
+  switch (condition.type) {
+    case 'PRIORITY_IS':
+      return `${label} ${priorityOptions.find(p => p.value === condition.value)?.label ?? condition.value}`;
+    case 'COLUMN_IS':
+      return `${label} "${columns.find(c => c.id === condition.columnId)?.title ?? '?'}"`;
+    case 'HAS_TAG':
+    case 'MISSING_TAG':
+      return `${label} "${tags.find(t => t.id === condition.tagId)?.name ?? '?'}"`;
+    case 'DUE_IN_DAYS_LESS_THAN':
+      return `Fecha límite en menos de ${condition.value} días`;
+    case 'PROGRESS_EQUALS':
+      return `${label} ${condition.value}%`;
+    case 'STATUS_IS':
+      return `${label} ${statusOptions.find(s => s.value === condition.value)?.label ?? condition.value}`;
+    default:
+      return label;
+  }
+}
+
+// ========== PARAMETER PICKERS ==========
+
+function ColumnPicker({ value, columns, onChange }: { value: string; columns: Column[]; onChange: (id: string) => void }) {
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="h-8 bg-background flex-1">
+        <SelectValue placeholder="Columna..." />
+      </SelectTrigger>
+      <SelectContent>
+        {columns.map(col => (
+          <SelectItem key={col.id} value={col.id}>
+            <span className="flex items-center gap-2">
+              <span className="w-2 h-2 rounded-full" style={{ backgroundColor: col.color }} />
+              {col.title}
+            </span>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+function TagPicker({ value, tags, onChange }: { value: string; tags: Tag[]; onChange: (id: string) => void }) {
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="h-8 bg-background flex-1">
+        <SelectValue placeholder="Etiqueta..." />
+      </SelectTrigger>
+      <SelectContent>
+        {tags.map(tag => (
+          <SelectItem key={tag.id} value={tag.id}>
+            <span className="flex items-center gap-2">
+              <span className="w-2 h-2 rounded-full" style={{ backgroundColor: tag.color }} />
+              {tag.name}
+            </span>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+function PriorityPicker({ value, onChange }: { value: Priority; onChange: (value: Priority) => void }) {
+  return (
+    <Select value={value} onValueChange={(v: Priority) => onChange(v)}>
+      <SelectTrigger className="h-8 bg-background flex-1">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {priorityOptions.map(opt => (
+          <SelectItem key={opt.value} value={opt.value}>
+            <span className="flex items-center gap-2">
+              <span className="w-2 h-2 rounded-full" style={{ backgroundColor: opt.color }} />
+              {opt.label}
+            </span>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+function StatusPicker({ value, onChange }: { value: TaskStatus; onChange: (value: TaskStatus) => void }) {
+  return (
+    <Select value={value} onValueChange={(v: TaskStatus) => onChange(v)}>
+      <SelectTrigger className="h-8 bg-background flex-1">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {statusOptions.map(opt => (
+          <SelectItem key={opt.value} value={opt.value}>{opt.label}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+function DaysInput({ value, min, onChange }: { value: number; min: number; onChange: (value: number) => void }) {
+  return (
+    <div className="flex items-center gap-2 flex-1">
+      <Input
+        type="number"
+        min={min}
+        value={Number.isFinite(value) ? value : ''}
+        onChange={(e) => onChange(parseInt(e.target.value, 10))}
+        className="h-8 w-20 bg-background"
+      />
+      <span className="text-xs text-muted-foreground">días</span>
+    </div>
+  );
+}
+
+// ========== ROW EDITORS ==========
+
+interface ConditionRowProps {
+  condition: AutomationCondition;
+  columns: Column[];
+  tags: Tag[];
+  onChange: (condition: AutomationCondition) => void;
+  onRemove: () => void;
+}
+
+function ConditionRow({ condition, columns, tags, onChange, onRemove }: ConditionRowProps) {
+  const renderParams = () => {
+    switch (condition.type) {
+      case 'PRIORITY_IS':
+        return <PriorityPicker value={condition.value} onChange={(value) => onChange({ ...condition, value })} />;
+      case 'COLUMN_IS':
+        return <ColumnPicker value={condition.columnId} columns={columns} onChange={(columnId) => onChange({ ...condition, columnId })} />;
+      case 'HAS_TAG':
+      case 'MISSING_TAG':
+        return <TagPicker value={condition.tagId} tags={tags} onChange={(tagId) => onChange({ ...condition, tagId })} />;
+      case 'DUE_IN_DAYS_LESS_THAN':
+        return <DaysInput value={condition.value} min={1} onChange={(value) => onChange({ ...condition, value })} />;
+      case 'PROGRESS_EQUALS':
+        return (
+          <Select
+            value={String(condition.value)}
+            onValueChange={(v) => onChange({ ...condition, value: Number(v) as typeof condition.value })}
+          >
+            <SelectTrigger className="h-8 bg-background flex-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {progressOptions.map(p => (
+                <SelectItem key={p} value={String(p)}>{p}%</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      case 'STATUS_IS':
+        return <StatusPicker value={condition.value} onChange={(value) => onChange({ ...condition, value })} />;
+      default:
+        return <div className="flex-1" />;
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2 p-2 rounded-lg bg-muted/50">
+      <Select
+        value={condition.type}
+        onValueChange={(type: AutomationConditionType) => onChange(createDefaultCondition(type, columns, tags))}
+      >
+        <SelectTrigger className="h-8 bg-background w-[220px]">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(CONDITION_LABELS) as AutomationConditionType[]).map(type => (
+            <SelectItem key={type} value={type}>{CONDITION_LABELS[type]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {renderParams()}
+      <Button variant="ghost" size="sm" className="h-8 w-8 p-0 text-destructive hover:text-destructive" onClick={onRemove}>
+        <Trash2 className="w-4 h-4" />
+      </Button>
+    </div>
+  );
+}
+
+interface ConditionGroupEditorProps {
+  group: AutomationConditionGroup;
+  columns: Column[];
+  tags: Tag[];
+  onChange: (group: AutomationConditionGroup) => void;
+  onRemove?: () => void;
+  depth?: number;
+}
+
+const MAX_GROUP_DEPTH = 3;
+
+function ConditionGroupEditor({ group, columns, tags, onChange, onRemove, depth = 0 }: ConditionGroupEditorProps) {
+  const updateChild = (index: number, child: AutomationConditionNode) => {
+    onChange({ ...group, children: group.children.map((c, i) => (i === index ? child : c)) });
+  };
+  const removeChild = (index: number) => {
+    onChange({ ...group, children: group.children.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <div className={cn("space-y-2", depth > 0 && "p-2 rounded-lg border border-dashed border-border")}>
+      <div className="flex items-center gap-2">
+        <Select
+          value={group.operator}
+          onValueChange={(operator: ConditionGroupOperator) => onChange({ ...group, operator })}
+        >
+          <SelectTrigger className="h-8 bg-background w-[220px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(CONDITION_GROUP_LABELS) as ConditionGroupOperator[]).map(op => (
+              <SelectItem key={op} value={op}>{CONDITION_GROUP_LABELS[op]} ({op})</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <div className="flex-1" />
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-7 gap-1"
+          onClick={() => onChange({
+            ...group,
+            children: [...group.children, createDefaultCondition('PRIORITY_IS', columns, tags)],
+          })}
+        >
+          <Plus className="w-3 h-3" />
+          Condición
+        </Button>
+        {depth < MAX_GROUP_DEPTH - 1 && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-7 gap-1"
+            onClick={() => onChange({
+              ...group,
+              children: [...group.children, { operator: 'OR', children: [] }],
+            })}
+          >
+            <Plus className="w-3 h-3" />
+            Grupo
+          </Button>
+        )}
+        {onRemove && (
+          <Button variant="ghost" size="sm" className="h-7 w-7 p-0 text-destructive hover:text-destructive" onClick={onRemove}>
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        )}
+      </div>
+      {group.children.length === 0 ? (
+        <p className="text-xs text-muted-foreground italic">
+          {depth === 0 ? 'Sin condiciones: se ejecuta siempre.' : 'Grupo vacío: siempre se cumple.'}
+        </p>
+      ) : (
+        group.children.map((child, index) =>
+          isConditionGroup(child) ? (
+            <ConditionGroupEditor
+              key={index}
+              group={child}
+              columns={columns}
+              tags={tags}
+              depth={depth + 1}
+              onChange={(updated) => updateChild(index, updated)}
+              onRemove={() => removeChild(index)}
+            />
+          ) : (
+            <ConditionRow
+              key={index}
+              condition={child}
+              columns={columns}
+              tags={tags}
+              onChange={(updated) => updateChild(index, updated)}
+              onRemove={() => removeChild(index)}
+            />
+          )
+        )
+      )}
+    </div>
+  );
+}
+
+function EvaluationTree({ evaluation, columns, tags }: { evaluation: ConditionEvaluation; columns: Column[]; tags: Tag[] }) {
+  const Icon = evaluation.passed ? CheckCircle : XCircle;
+  const label = evaluation.children
+    ? CONDITION_GROUP_LABELS[(evaluation.node as AutomationConditionGroup).operator]
+    : describeCondition(evaluation.node as AutomationCondition, columns, tags);
+
+  return (
+    <li>
+      <span className={cn("inline-flex items-center gap-1", evaluation.passed ? "text-green-600" : "text-destructive")}>
+        <Icon className="w-3 h-3" />
+        {label}
+      </span>
+      {evaluation.children && evaluation.children.length > 0 && (
+        <ul className="ml-4 mt-0.5 space-y-0.5">
+          {evaluation.children.map((child, i) => (
+            <EvaluationTree key={i} evaluation={child} columns={columns} tags={tags} />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+interface ActionRowProps {
+  action: AutomationAction;
+  columns: Column[];
+  tags: Tag[];
+  tasks: Task[];
+  onChange: (action: AutomationAction) => void;
+  onRemove: () => void;
+}
+
+function ActionRow({ action, columns, tags, tasks, onChange, onRemove }: ActionRowProps) {
+  const renderParams = () => {
+    switch (action.type) {
+      case 'MOVE_TO_COLUMN':
+        return <ColumnPicker value={action.columnId} columns={columns} onChange={(columnId) => onChange({ ...action, columnId })} />;
+      case 'SET_PRIORITY':
+        return <PriorityPicker value={action.value} onChange={(value) => onChange({ ...action, value })} />;
+      case 'ADD_TAG':
+      case 'REMOVE_TAG':
+        return <TagPicker value={action.tagId} tags={tags} onChange={(tagId) => onChange({ ...action, tagId })} />;
+      case 'SET_DUE_DATE_IN_DAYS':
+        return <DaysInput value={action.value} min={0} onChange={(value) => onChange({ ...action, value })} />;
+      case 'NOTIFY_IN_APP':
+        return (
+          <Input
+            value={action.message}
+            onChange={(e) => onChange({ ...action, message: e.target.value })}
+            placeholder="Mensaje de la notificación..."
+            className="h-8 bg-background flex-1"
+          />
+        );
+      case 'SET_STATUS':
+        return <StatusPicker value={action.value} onChange={(value) => onChange({ ...action, value })} />;
+      case 'SET_ASSIGNEE':
+        return (
+          <Input
+            value={action.assignee ?? ''}
+            onChange={(e) => onChange({ ...action, assignee: e.target.value })}
+            placeholder="Responsable (vacío = sin asignar)"
+            className="h-8 bg-background flex-1"
+          />
+        );
+      case 'ADD_SUBTASKS_FROM_TEMPLATE':
+        return (
+          <Select value={action.templateId} onValueChange={(templateId) => onChange({ ...action, templateId })}>
+            <SelectTrigger className="h-8 bg-background flex-1">
+              <SelectValue placeholder="Plantilla..." />
+            </SelectTrigger>
+            <SelectContent>
+              {subtaskTemplates.map(template => (
+                <SelectItem key={template.id} value={template.id}>
+                  {template.name} ({template.subtasks.length})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      case 'SET_START_DATE_IN_DAYS':
+        return <DaysInput value={action.value} min={0} onChange={(value) => onChange({ ...action, value })} />;
+      case 'CREATE_FOLLOW_UP_TASK':
+        return (
+          <div className="flex items-center gap-2 flex-1">
+            <Input
+              value={action.title}
+              onChange={(e) => onChange({ ...action, title: e.target.value })}
+              placeholder="Título ({title} = tarea original)"
+              className="h-8 bg-background flex-1"
+            />
+            <ColumnPicker value={action.columnId} columns={columns} onChange={(columnId) => onChange({ ...action, columnId })} />
+          </div>
+        );
+      case 'ADD_DEPENDENCY':
+        return (
+          <Select value={action.dependsOnTaskId} onValueChange={(dependsOnTaskId) => onChange({ ...action, dependsOnTaskId })}>
+            <SelectTrigger className="h-8 bg-background flex-1">
+              <SelectValue placeholder="Depende de..." />
+            </SelectTrigger>
+            <SelectContent>
+              {tasks.map(task => (
+                <SelectItem key={task.id} value={task.id}>{task.title}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      default:
+        return <div className="flex-1" />;
+    }
+  };
+
+  const target = action.target ?? { kind: 'SELF' as AutomationTargetKind };
+  const setTarget = (next: typeof target) => {
+    onChange({ ...action, target: next.kind === 'SELF' ? undefined : next });
+  };
+
+  return (
+    <div className="p-2 rounded-lg bg-muted/50 space-y-2">
+      <div className="flex items-center gap-2">
+        <Select
+          value={action.type}
+          onValueChange={(type: AutomationActionType) => {
+            const next = createDefaultAction(type, columns, tags, tasks);
+            onChange(action.target ? { ...next, target: action.target } : next);
+          }}
+        >
+          <SelectTrigger className="h-8 bg-background w-[220px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(ACTION_LABELS) as AutomationActionType[]).map(type => (
+              <SelectItem key={type} value={type}>{ACTION_LABELS[type]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {renderParams()}
+        <Button variant="ghost" size="sm" className="h-8 w-8 p-0 text-destructive hover:text-destructive" onClick={onRemove}>
+          <Trash2 className="w-4 h-4" />
+        </Button>
+      </div>
+
+      {/* Target */}
+      <div className="flex items-center gap-2 pl-2">
+        <span className="text-xs text-muted-foreground w-16">Aplicar a</span>
+        <Select
+          value={target.kind}
+          onValueChange={(kind: AutomationTargetKind) =>
+            setTarget({
+              ...target,
+              kind,
+              tagId: kind === 'TASKS_WITH_TAG' ? target.tagId ?? tags[0]?.id ?? '' : undefined,
+            })
+          }
+        >
+          <SelectTrigger className="h-8 bg-background w-[220px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(TARGET_LABELS) as AutomationTargetKind[]).map(kind => (
+              <SelectItem key={kind} value={kind}>{TARGET_LABELS[kind]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {target.kind === 'TASKS_WITH_TAG' && (
+          <TagPicker value={target.tagId ?? ''} tags={tags} onChange={(tagId) => setTarget({ ...target, tagId })} />
+        )}
+        {target.kind !== 'SELF' && !target.conditions && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-8"
+            onClick={() => setTarget({ ...target, conditions: { operator: 'AND', children: [] } })}
+          >
+            <Filter className="w-3 h-3 mr-1" />
+            Filtrar destino
+          </Button>
+        )}
+      </div>
+      {target.kind !== 'SELF' && target.conditions && (
+        <div className="pl-2 space-y-1">
+          <p className="text-xs text-muted-foreground">Solo si la tarea destino cumple:</p>
+          <ConditionGroupEditor
+            group={target.conditions}
+            columns={columns}
+            tags={tags}
+            onChange={(conditions) => setTarget({ ...target, conditions })}
+            onRemove={() => setTarget({ ...target, conditions: undefined })}
+            depth={1}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ========== SIMULATION ==========
+
+const simulatedFieldLabels: Record<keyof SimulatedTaskFields, string> = {
+  columnId: 'Columna',
+  priority: 'Prioridad',
+  tagIds: 'Etiquetas',
+  isArchived: 'Archivada',
+};
+
+function SimulationTable({ result, columns, tags }: { result: SimulationResult; columns: Column[]; tags: Tag[] }) {
+  const formatField = (field: keyof SimulatedTaskFields, fields: SimulatedTaskFields | null) => {
+    if (!fields) return '—';
+    switch (field) {
+      case 'columnId':
+        return columns.find(c => c.id === fields.columnId)?.title ?? fields.columnId;
+      case 'priority':
+        return priorityOptions.find(p => p.value === fields.priority)?.label ?? fields.priority;
+      case 'tagIds':
+        return fields.tagIds.map(id => tags.find(t => t.id === id)?.name ?? id).join(', ') || 'Ninguna';
+      case 'isArchived':
+        return fields.isArchived ? 'Sí' : 'No';
+    }
+  };
+
+  const rows = result.diffs.flatMap((diff: SimulationTaskDiff) =>
+    diff.created
+      ? [{ diff, field: null as keyof SimulatedTaskFields | null }]
+      : diff.changedFields.map(field => ({ diff, field }))
+  );
+
+  return (
+    <div className="space-y-2 text-xs">
+      <p className="text-muted-foreground">
+        Evaluadas {result.evaluatedTasks} tareas · la regla se aplicaría a {result.matchedTasks} ·{' '}
+        {result.diffs.length} tarea(s) cambiarían
+        {result.notifications.length > 0 && ` · ${result.notifications.length} notificación(es)`}
+      </p>
+      {rows.length === 0 ? (
+        <p className="text-muted-foreground italic">Ninguna tarea cambiaría.</p>
+      ) : (
+        <div className="max-h-60 overflow-auto rounded-md border border-border">
+          <table className="w-full">
+            <thead className="bg-muted/50 text-muted-foreground sticky top-0">
+              <tr>
+                <th className="text-left font-medium px-2 py-1">Tarea</th>
+                <th className="text-left font-medium px-2 py-1">Campo</th>
+                <th className="text-left font-medium px-2 py-1">Antes</th>
+                <th className="text-left font-medium px-2 py-1">Después</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(({ diff, field }) => (
+                <tr key={`${diff.taskId}-${field ?? 'created'}`} className="border-t border-border">
+                  <td className="px-2 py-1 max-w-[180px] truncate" title={diff.taskTitle}>{diff.taskTitle}</td>
+                  {field ? (
+                    <>
+                      <td className="px-2 py-1 text-muted-foreground">{simulatedFieldLabels[field]}</td>
+                      <td className="px-2 py-1">{formatField(field, diff.before)}</td>
+                      <td className="px-2 py-1 font-medium">{formatField(field, diff.after)}</td>
+                    </>
+                  ) : (
+                    <td colSpan={3} className="px-2 py-1 text-green-700 dark:text-green-400">
+                      Nueva tarea en {formatField('columnId', diff.after)}
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ========== MAIN DIALOG ==========
+
+export function AutomationRuleBuilder({
+  open,
+  onOpenChange,
+  automation,
+  columns,
+  tags,
+  tasks,
+  onSave,
+  validate,
+  onTest,
+  onSimulate,
+}: AutomationRuleBuilderProps) {
+  const [draft, setDraft] = useState<AutomationDraft>(createEmptyDraft);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [testTaskId, setTestTaskId] = useState<string>('');
+  const [testResult, setTestResult] = useState<TestAutomationResult | null>(null);
+  const [simulation, setSimulation] = useState<SimulationResult | null>(null);
+
+  // Reset the form every time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    if (automation) {
+      const { id, createdAt, updatedAt, ...rest } = automation;
+      setDraft({
+        ...rest,
+        scope: { columnIds: rest.scope?.columnIds ?? [], tagIds: rest.scope?.tagIds ?? [] },
+      });
+    } else {
+      setDraft(createEmptyDraft());
+    }
+    setErrors([]);
+    setTestTaskId('');
+    setTestResult(null);
+    setSimulation(null);
+  }, [open, automation]);
+
+  const testableTasks = useMemo(() => tasks.filter(t => !t.isArchived), [tasks]);
+
+  const updateDraft = (updates: Partial<AutomationDraft>) => {
+    setDraft(prev => ({ ...prev, ...updates }));
+    setTestResult(null);
+    setSimulation(null);
+  };
+
+  const toggleScopeColumn = (columnId: string) => {
+    const current = draft.scope?.columnIds ?? [];
+    updateDraft({
+      scope: {
+        ...draft.scope,
+        columnIds: current.includes(columnId) ? current.filter(id => id !== columnId) : [...current, columnId],
+      },
+    });
+  };
+
+  const toggleScopeTag = (tagId: string) => {
+    const current = draft.scope?.tagIds ?? [];
+    updateDraft({
+      scope: {
+        ...draft.scope,
+        tagIds: current.includes(tagId) ? current.filter(id => id !== tagId) : [...current, tagId],
+      },
+    });
+  };
+
+  const updateLimits = (updates: Partial<AutomationLimits>) => {
+    updateDraft({ limits: { ...draft.limits, ...updates } });
+  };
+
+  // Empty input clears the limit
+  const parseLimit = (value: string) => (value === '' ? undefined : parseInt(value, 10));
+
+  const handleSave = () => {
+    const cleanDraft: AutomationDraft = { ...draft, name: draft.name.trim() };
+    const validationErrors = validate(cleanDraft);
+    setErrors(validationErrors);
+    if (validationErrors.length > 0) return;
+    onSave(cleanDraft);
+    onOpenChange(false);
+  };
+
+  const handleTest = () => {
+    if (!testTaskId) return;
+    // Test the rule logic even if the rule is currently switched off
+    setTestResult(onTest({ ...draft, enabled: true }, testTaskId));
+  };
+
+  const handleSimulate = () => {
+    setSimulation(onSimulate({ ...draft, id: automation?.id }));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[680px] bg-card border-border p-0 gap-0">
+        <DialogHeader className="px-6 pt-6 pb-4 border-b border-border">
+          <DialogTitle className="font-heading text-xl flex items-center gap-2">
+            <Zap className="w-5 h-5 text-primary" />
+            {automation ? 'Editar automatización' : 'Nueva automatización'}
+          </DialogTitle>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-[65vh]">
+          <div className="px-6 py-4 space-y-6">
+            {/* Name & enabled */}
+            <div className="flex items-end gap-4">
+              <div className="flex-1 space-y-2">
+                <label className="text-sm font-medium text-foreground">
+                  Nombre <span className="text-destructive">*</span>
+                </label>
+                <Input
+                  value={draft.name}
+                  onChange={(e) => updateDraft({ name: e.target.value })}
+                  placeholder="Ej: Prioridad crítica → Añadir etiqueta Urgente"
+                  className="bg-background"
+                  autoFocus
+                />
+              </div>
+              <label className="flex items-center gap-2 pb-2 text-sm text-muted-foreground">
+                <Switch checked={draft.enabled} onCheckedChange={(enabled) => updateDraft({ enabled })} />
+                Activa
+              </label>
+            </div>
+
+            {/* Trigger */}
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-muted-foreground">Cuando</label>
+              <div className="flex items-center gap-2">
+                <Select
+                  value={draft.trigger.type}
+                  onValueChange={(type: AutomationTriggerType) => updateDraft({ trigger: createDefaultTrigger(type) })}
+                >
+                  <SelectTrigger className="bg-background flex-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(TRIGGER_LABELS) as AutomationTriggerType[]).map(type => (
+                      <SelectItem key={type} value={type}>
+                        {TRIGGER_LABELS[type]}
+                        {SCHEDULED_TRIGGER_TYPES.includes(type) && ' (programado)'}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {(draft.trigger.type === 'DUE_DATE_APPROACHING' || draft.trigger.type === 'STALE_IN_COLUMN_FOR_DAYS') && (
+                  <div className="w-[140px]">
+                    <DaysInput
+                      value={draft.trigger.days ?? 1}
+                      min={1}
+                      onChange={(days) => updateDraft({ trigger: { ...draft.trigger, days } })}
+                    />
+                  </div>
+                )}
+                {draft.trigger.type === 'DAILY' && (
+                  <div className="flex items-center gap-2 w-[140px]">
+                    <span className="text-xs text-muted-foreground">desde las</span>
+                    <Input
+                      type="number"
+                      min={0}
+                      max={23}
+                      value={Number.isFinite(draft.trigger.hour) ? draft.trigger.hour : ''}
+                      onChange={(e) => updateDraft({ trigger: { ...draft.trigger, hour: parseInt(e.target.value, 10) } })}
+                      className="h-8 w-16 bg-background"
+                    />
+                    <span className="text-xs text-muted-foreground">h</span>
+                  </div>
+                )}
+              </div>
+              {SCHEDULED_TRIGGER_TYPES.includes(draft.trigger.type) && (
+                <p className="text-xs text-muted-foreground">
+                  Se evalúa al abrir el tablero y cada minuto; se ejecuta una sola vez por tarea y periodo.
+                </p>
+              )}
+            </div>
+
+            {/* Conditions */}
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-muted-foreground">Si</label>
+              <ConditionGroupEditor
+                group={draft.conditions}
+                columns={columns}
+                tags={tags}
+                onChange={(conditions) => updateDraft({ conditions })}
+              />
+            </div>
+
+            {/* Actions */}
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <label className="text-sm font-medium text-muted-foreground">
+                  Entonces <span className="text-destructive">*</span>
+                </label>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-7 gap-1"
+                  onClick={() => updateDraft({
+                    actions: [...draft.actions, createDefaultAction('MOVE_TO_COLUMN', columns, tags, testableTasks)],
+                  })}
+                >
+                  <Plus className="w-3 h-3" />
+                  Acción
+                </Button>
+              </div>
+              {draft.actions.length === 0 ? (
+                <p className="text-xs text-muted-foreground italic">Añade al menos una acción.</p>
+              ) : (
+                draft.actions.map((action, index) => (
+                  <ActionRow
+                    key={index}
+                    action={action}
+                    columns={columns}
+                    tags={tags}
+                    tasks={testableTasks}
+                    onChange={(updated) => updateDraft({
+                      actions: draft.actions.map((a, i) => (i === index ? updated : a)),
+                    })}
+                    onRemove={() => updateDraft({
+                      actions: draft.actions.filter((_, i) => i !== index),
+                    })}
+                  />
+                ))
+              )}
+            </div>
+
+            {/* Rate limits */}
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-muted-foreground flex items-center gap-2">
+                <Timer className="w-4 h-4" />
+                Límites de ejecución (opcional)
+              </label>
+              <div className="grid grid-cols-3 gap-2">
+                <label className="space-y-1 text-xs text-muted-foreground">
+                  <span>Espera por tarea (min)</span>
+                  <Input
+                    type="number"
+                    min={0}
+                    value={draft.limits?.cooldownMinutesPerTask ?? ''}
+                    onChange={(e) => updateLimits({ cooldownMinutesPerTask: parseLimit(e.target.value) })}
+                    className="h-8 bg-background"
+                  />
+                </label>
+                <label className="space-y-1 text-xs text-muted-foreground">
+                  <span>Espera global (min)</span>
+                  <Input
+                    type="number"
+                    min={0}
+                    value={draft.limits?.cooldownMinutesGlobal ?? ''}
+                    onChange={(e) => updateLimits({ cooldownMinutesGlobal: parseLimit(e.target.value) })}
+                    className="h-8 bg-background"
+                  />
+                </label>
+                <label className="space-y-1 text-xs text-muted-foreground">
+                  <span>Máximo al día</span>
+                  <Input
+                    type="number"
+                    min={0}
+                    value={draft.limits?.maxRunsPerDay ?? ''}
+                    onChange={(e) => updateLimits({ maxRunsPerDay: parseLimit(e.target.value) })}
+                    className="h-8 bg-background"
+                  />
+                </label>
+              </div>
+              <label className="flex items-center gap-2 text-sm cursor-pointer">
+                <Checkbox
+                  checked={draft.limits?.oncePerTask ?? false}
+                  onCheckedChange={(checked) => updateLimits({ oncePerTask: checked === true })}
+                />
+                Ejecutar solo una vez por tarea
+              </label>
+            </div>
+
+            {/* Scope */}
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-muted-foreground flex items-center gap-2">
+                <Filter className="w-4 h-4" />
+                Alcance (opcional)
+              </label>
+              <p className="text-xs text-muted-foreground">
+                Limita la regla a tareas de estas columnas y/o con alguna de estas etiquetas.
+              </p>
+              <div className="grid grid-cols-2 gap-2">
+                {columns.map(col => (
+                  <label key={col.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                    <Checkbox
+                      checked={draft.scope?.columnIds?.includes(col.id) ?? false}
+                      onCheckedChange={() => toggleScopeColumn(col.id)}
+                    />
+                    <span className="w-2 h-2 rounded-full" style={{ backgroundColor: col.color }} />
+                    {col.title}
+                  </label>
+                ))}
+              </div>
+              <div className="flex flex-wrap gap-2 pt-1">
+                {tags.map(tag => {
+                  const isSelected = draft.scope?.tagIds?.includes(tag.id) ?? false;
+                  return (
+                    <button
+                      key={tag.id}
+                      type="button"
+                      onClick={() => toggleScopeTag(tag.id)}
+                      className={cn(
+                        "px-3 py-1 rounded-full text-xs font-medium border transition-all",
+                        isSelected ? "border-transparent" : "border-border bg-transparent hover:bg-muted"
+                      )}
+                      style={isSelected ? {
+                        backgroundColor: `${tag.color}20`,
+                        color: tag.color,
+                        borderColor: tag.color,
+                      } : {}}
+                    >
+                      {tag.name}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+
+            {/* Test against task */}
+            <div className="space-y-2 p-3 rounded-lg border border-dashed border-border">
+              <label className="text-sm font-medium text-muted-foreground flex items-center gap-2">
+                <FlaskConical className="w-4 h-4" />
+                Probar contra una tarea
+              </label>
+              <div className="flex gap-2">
+                <Select value={testTaskId} onValueChange={(id) => { setTestTaskId(id); setTestResult(null); }}>
+                  <SelectTrigger className="h-8 bg-background flex-1">
+                    <SelectValue placeholder="Selecciona una tarea..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {testableTasks.map(task => (
+                      <SelectItem key={task.id} value={task.id}>{task.title}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button variant="outline" size="sm" className="h-8 gap-1" disabled={!testTaskId} onClick={handleTest}>
+                  <Play className="w-3 h-3" />
+                  Probar
+                </Button>
+              </div>
+              {testResult && (
+                <div
+                  className={cn(
+                    "text-xs rounded-md p-2 space-y-1",
+                    testResult.wouldApply ? "bg-green-500/10 text-green-700 dark:text-green-400" : "bg-muted text-muted-foreground"
+                  )}
+                >
+                  <p className="flex items-center gap-1.5 font-medium">
+                    {testResult.wouldApply ? <CheckCircle className="w-3.5 h-3.5" /> : <XCircle className="w-3.5 h-3.5" />}
+                    {testResult.wouldApply ? 'Se aplicaría' : 'No se aplicaría'}
+                  </p>
+                  {testResult.evaluation ? (
+                    <ul className="space-y-0.5">
+                      <EvaluationTree evaluation={testResult.evaluation} columns={columns} tags={tags} />
+                    </ul>
+                  ) : (
+                    <p>{testResult.reason}</p>
+                  )}
+                  {testResult.wouldApply && (
+                    <ul className="ml-5 list-disc">
+                      {testResult.actionsToApply.map((action, i) => (
+                        <li key={i}>{ACTION_LABELS[action.type]}</li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+            </div>
+
+            {/* Dry-run over the whole board */}
+            <div className="space-y-2 p-3 rounded-lg border border-dashed border-border">
+              <div className="flex items-center justify-between gap-2">
+                <label className="text-sm font-medium text-muted-foreground flex items-center gap-2">
+                  <ScanSearch className="w-4 h-4" />
+                  Simular en todo el tablero
+                </label>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-8 gap-1"
+                  disabled={draft.actions.length === 0}
+                  onClick={handleSimulate}
+                >
+                  <Play className="w-3 h-3" />
+                  Simular
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Aplica la regla a todas las tareas del libro, incluidas las reglas que se encadenen, sin guardar cambios.
+              </p>
+              {simulation && <SimulationTable result={simulation} columns={columns} tags={tags} />}
+            </div>
+
+            {/* Validation errors */}
+            {errors.length > 0 && (
+              <ul className="text-xs text-destructive bg-destructive/10 rounded-md p-3 space-y-1">
+                {errors.map((error, i) => (
+                  <li key={i}>• {error}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </ScrollArea>
+
+        <div className="flex justify-end gap-2 px-6 py-4 border-t border-border">
+          <Button type="button" variant="ghost" onClick={() => onOpenChange(false)}>
+            Cancelar
+          </Button>
+          <Button onClick={handleSave} className="bg-primary hover:bg-primary/90">
+            {automation ? 'Guardar cambios' : 'Crear automatización'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
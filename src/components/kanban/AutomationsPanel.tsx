@@ -1,19 +1,37 @@
-import { useState } from 'react';
+import { useState, useMemo, useRef } from 'react';
 import { 
   Zap, Plus, Trash2, Play, Pause, ChevronDown, ChevronRight,
-  CheckCircle, XCircle, Clock, AlertTriangle
+  CheckCircle, XCircle, Clock, AlertTriangle, Download, Upload, X, LayoutTemplate, Timer
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { Switch } from '@/components/ui/switch';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import {
   Automation,
   AutomationExecution,
+  AutomationExecutionResult,
   TRIGGER_LABELS,
   ACTION_LABELS,
 } from '@/types/automation';
-import { cn } from '@/lib/utils';
-import { format } from 'date-fns';
+import { collectConditions } from '@/hooks/kanban/kanban.automations';
+import { automationTemplates } from '@/hooks/kanban/kanban.seed';
+import {
+  filterAutomationLogs,
+  automationLogsToCsv,
+  automationLogsToJson,
+  getAutomationRunStats,
+  LOG_RETENTION_DAYS,
+} from '@/hooks/kanban/kanban.logs';
+import { cn, downloadFile } from '@/lib/utils';
+import { format, formatDistanceToNow, endOfDay, startOfDay } from 'date-fns';
 import { es } from 'date-fns/locale';
 
 interface AutomationsPanelProps {
@@ -23,6 +41,9 @@ interface AutomationsPanelProps {
   onDelete: (id: string) => void;
   onEdit: (automation: Automation) => void;
   onCreate: () => void;
+  onExport: () => void;
+  onImport: (json: string) => void;
+  onInstallTemplate: (templateId: string) => void;
 }
 
 const resultConfig = {
@@ -31,9 +52,19 @@ const resultConfig = {
   skipped_disabled: { icon: Pause, color: 'text-muted-foreground', label: 'Desactivada' },
   skipped_no_change: { icon: Clock, color: 'text-muted-foreground', label: 'Sin cambios' },
   skipped_scope: { icon: AlertTriangle, color: 'text-amber-500', label: 'Fuera de alcance' },
+  skipped_rate_limit: { icon: Timer, color: 'text-muted-foreground', label: 'Límite de frecuencia' },
   error: { icon: AlertTriangle, color: 'text-destructive', label: 'Error' },
 };
 
+const ALL = 'all';
+
+// Parse a yyyy-MM-dd input value as a local date
+function parseDateInput(value: string): Date | null {
+  if (!value) return null;
+  const [y, m, d] = value.split('-').map(Number);
+  return new Date(y, m - 1, d);
+}
+
 export function AutomationsPanel({
   automations,
   logs,
@@ -41,9 +72,71 @@ export function AutomationsPanel({
   onDelete,
   onEdit,
   onCreate,
+  onExport,
+  onImport,
+  onInstallTemplate,
 }: AutomationsPanelProps) {
-  const [activeTab, setActiveTab] = useState<'list' | 'logs'>('list');
+  const [activeTab, setActiveTab] = useState<'list' | 'templates' | 'logs'>('list');
+  const importInputRef = useRef<HTMLInputElement>(null);
   const [expandedLog, setExpandedLog] = useState<string | null>(null);
+  const [logAutomationId, setLogAutomationId] = useState<string>(ALL);
+  const [logResult, setLogResult] = useState<AutomationExecutionResult | typeof ALL>(ALL);
+  const [logTaskQuery, setLogTaskQuery] = useState('');
+  const [logFrom, setLogFrom] = useState('');
+  const [logTo, setLogTo] = useState('');
+
+  const filteredLogs = useMemo(() => {
+    const from = parseDateInput(logFrom);
+    const to = parseDateInput(logTo);
+    return filterAutomationLogs(logs, {
+      automationId: logAutomationId === ALL ? undefined : logAutomationId,
+      results: logResult === ALL ? undefined : [logResult],
+      taskQuery: logTaskQuery,
+      from: from && startOfDay(from),
+      to: to && endOfDay(to),
+    });
+  }, [logs, logAutomationId, logResult, logTaskQuery, logFrom, logTo]);
+
+  const hasLogFilters = logAutomationId !== ALL || logResult !== ALL || !!logTaskQuery || !!logFrom || !!logTo;
+
+  const clearLogFilters = () => {
+    setLogAutomationId(ALL);
+    setLogResult(ALL);
+    setLogTaskQuery('');
+    setLogFrom('');
+    setLogTo('');
+  };
+
+  // Automations referenced by logs may since have been deleted
+  const logAutomationOptions = useMemo(() => {
+    const names = new Map<string, string>();
+    logs.forEach(log => names.set(log.automationId, log.automationName));
+    automations.forEach(a => names.set(a.id, a.name));
+    return Array.from(names, ([id, name]) => ({ id, name }));
+  }, [logs, automations]);
+
+  const runStats = useMemo(() => getAutomationRunStats(logs), [logs]);
+
+  const installedNames = useMemo(
+    () => new Set(automations.map(a => a.name.trim().toLowerCase())),
+    [automations]
+  );
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    onImport(await file.text());
+  };
+
+  const exportLogs = (kind: 'csv' | 'json') => {
+    const stamp = format(new Date(), 'yyyyMMdd-HHmm');
+    if (kind === 'csv') {
+      downloadFile(automationLogsToCsv(filteredLogs), `automatizaciones-${stamp}.csv`, 'text/csv;charset=utf-8');
+    } else {
+      downloadFile(automationLogsToJson(filteredLogs), `automatizaciones-${stamp}.json`, 'application/json');
+    }
+  };
 
   return (
     <div className="h-full flex flex-col bg-card rounded-lg border border-border overflow-hidden">
@@ -56,10 +149,31 @@ export function AutomationsPanel({
             {automations.filter(a => a.enabled).length} activas
           </span>
         </div>
-        <Button size="sm" onClick={onCreate}>
-          <Plus className="w-4 h-4 mr-1" />
-          Nueva
-        </Button>
+        <div className="flex items-center gap-1">
+          <input
+            ref={importInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={handleImportFile}
+          />
+          <Button variant="ghost" size="sm" onClick={() => importInputRef.current?.click()} title="Importar reglas">
+            <Upload className="w-4 h-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onExport}
+            disabled={automations.length === 0}
+            title="Exportar reglas"
+          >
+            <Download className="w-4 h-4" />
+          </Button>
+          <Button size="sm" onClick={onCreate}>
+            <Plus className="w-4 h-4 mr-1" />
+            Nueva
+          </Button>
+        </div>
       </div>
 
       {/* Tabs */}
@@ -75,6 +189,17 @@ export function AutomationsPanel({
         >
           Reglas ({automations.length})
         </button>
+        <button
+          className={cn(
+            "flex-1 px-4 py-2 text-sm font-medium transition-colors",
+            activeTab === 'templates' 
+              ? "text-primary border-b-2 border-primary" 
+              : "text-muted-foreground hover:text-foreground"
+          )}
+          onClick={() => setActiveTab('templates')}
+        >
+          Plantillas
+        </button>
         <button
           className={cn(
             "flex-1 px-4 py-2 text-sm font-medium transition-colors",
@@ -121,8 +246,20 @@ export function AutomationsPanel({
                         Cuando: {TRIGGER_LABELS[automation.trigger.type]}
                       </p>
                       <p className="text-xs text-muted-foreground">
-                        {automation.conditions.length} condición(es) · {automation.actions.length} acción(es)
+                        {collectConditions(automation.conditions).length} condición(es) · {automation.actions.length} acción(es)
                       </p>
+                      {(() => {
+                        const stats = runStats.get(automation.id);
+                        if (!stats) return null;
+                        return (
+                          <p className="text-xs text-muted-foreground mt-1">
+                            {stats.applied} ejecución(es)
+                            {stats.lastFiredAt && ` · última ${formatDistanceToNow(stats.lastFiredAt, { addSuffix: true, locale: es })}`}
+                            {stats.appliedRatio !== null && ` · ${Math.round(stats.appliedRatio * 100)}% aplicadas`}
+                            {stats.errors > 0 && <span className="text-destructive"> · {stats.errors} error(es)</span>}
+                          </p>
+                        );
+                      })()}
                     </div>
                     <div className="flex items-center gap-2">
                       <Switch
@@ -147,15 +284,128 @@ export function AutomationsPanel({
               ))
             )}
           </div>
+        ) : activeTab === 'templates' ? (
+          <div className="p-4 space-y-3">
+            {automationTemplates.map(template => {
+              const installed = installedNames.has(template.automation.name.trim().toLowerCase());
+              return (
+                <div key={template.id} className="p-4 rounded-lg border border-border flex items-start gap-3">
+                  <LayoutTemplate className="w-4 h-4 mt-0.5 text-primary flex-shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <h3 className="font-medium text-sm">{template.name}</h3>
+                    <p className="text-xs text-muted-foreground">{template.description}</p>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Cuando: {TRIGGER_LABELS[template.automation.trigger.type]}
+                    </p>
+                  </div>
+                  <Button
+                    variant={installed ? 'ghost' : 'outline'}
+                    size="sm"
+                    disabled={installed}
+                    onClick={() => onInstallTemplate(template.id)}
+                  >
+                    {installed ? 'Instalada' : 'Instalar'}
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
         ) : (
           <div className="p-4 space-y-2">
-            {logs.length === 0 ? (
+            {/* Log filters */}
+            <div className="space-y-2 pb-2 border-b border-border">
+              <div className="grid grid-cols-2 gap-2">
+                <Select value={logAutomationId} onValueChange={setLogAutomationId}>
+                  <SelectTrigger className="h-8 bg-background">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>Todas las reglas</SelectItem>
+                    {logAutomationOptions.map(opt => (
+                      <SelectItem key={opt.id} value={opt.id}>{opt.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={logResult}
+                  onValueChange={(value: AutomationExecutionResult | typeof ALL) => setLogResult(value)}
+                >
+                  <SelectTrigger className="h-8 bg-background">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>Todos los resultados</SelectItem>
+                    {(Object.keys(resultConfig) as AutomationExecutionResult[]).map(result => (
+                      <SelectItem key={result} value={result}>{resultConfig[result].label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Input
+                value={logTaskQuery}
+                onChange={(e) => setLogTaskQuery(e.target.value)}
+                placeholder="Buscar tarea..."
+                className="h-8 bg-background"
+              />
+              <div className="flex items-center gap-2">
+                <Input
+                  type="date"
+                  value={logFrom}
+                  onChange={(e) => setLogFrom(e.target.value)}
+                  className="h-8 bg-background"
+                  aria-label="Desde"
+                />
+                <span className="text-xs text-muted-foreground">—</span>
+                <Input
+                  type="date"
+                  value={logTo}
+                  onChange={(e) => setLogTo(e.target.value)}
+                  className="h-8 bg-background"
+                  aria-label="Hasta"
+                />
+              </div>
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-xs text-muted-foreground">
+                  {filteredLogs.length} de {logs.length} · se conservan {LOG_RETENTION_DAYS} días
+                </span>
+                <div className="flex items-center gap-1">
+                  {hasLogFilters && (
+                    <Button variant="ghost" size="sm" className="h-7 px-2" onClick={clearLogFilters}>
+                      <X className="w-3 h-3 mr-1" />
+                      Limpiar
+                    </Button>
+                  )}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="h-7 px-2"
+                    disabled={filteredLogs.length === 0}
+                    onClick={() => exportLogs('csv')}
+                  >
+                    <Download className="w-3 h-3 mr-1" />
+                    CSV
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="h-7 px-2"
+                    disabled={filteredLogs.length === 0}
+                    onClick={() => exportLogs('json')}
+                  >
+                    <Download className="w-3 h-3 mr-1" />
+                    JSON
+                  </Button>
+                </div>
+              </div>
+            </div>
+
+            {filteredLogs.length === 0 ? (
               <div className="text-center py-8 text-muted-foreground">
                 <Clock className="w-12 h-12 mx-auto mb-2 opacity-30" />
-                <p>No hay ejecuciones registradas</p>
+                <p>{logs.length === 0 ? 'No hay ejecuciones registradas' : 'Ninguna ejecución coincide con los filtros'}</p>
               </div>
             ) : (
-              logs.map(log => {
+              filteredLogs.map(log => {
                 const config = resultConfig[log.result];
                 const Icon = config.icon;
                 const isExpanded = expandedLog === log.id;
@@ -178,7 +428,7 @@ export function AutomationsPanel({
                       </div>
                       <div className="flex items-center gap-2">
                         <span className="text-xs text-muted-foreground">
-                          {format(new Date(log.timestamp), 'HH:mm', { locale: es })}
+                          {format(new Date(log.timestamp), 'd MMM HH:mm', { locale: es })}
                         </span>
                         {isExpanded ? (
                           <ChevronDown className="w-4 h-4 text-muted-foreground" />
@@ -190,6 +440,9 @@ export function AutomationsPanel({
                     {isExpanded && (
                       <div className="mt-3 pt-3 border-t border-border text-xs space-y-1">
                         <p><span className="text-muted-foreground">Trigger:</span> {TRIGGER_LABELS[log.triggerType]}</p>
+                        {log.affectedTaskIds && log.affectedTaskIds.length > 0 && (
+                          <p><span className="text-muted-foreground">Otras tareas afectadas:</span> {log.affectedTaskIds.length}</p>
+                        )}
                         {log.actionsApplied.length > 0 && (
                           <div>
                             <span className="text-muted-foreground">Acciones:</span>
@@ -200,6 +453,9 @@ export function AutomationsPanel({
                             </ul>
                           </div>
                         )}
+                        {log.skipReason && (
+                          <p><span className="text-muted-foreground">Motivo:</span> {log.skipReason}</p>
+                        )}
                         {log.errorMessage && (
                           <p className="text-destructive">Error: {log.errorMessage}</p>
                         )}
@@ -0,0 +1,198 @@
+import { useState, useEffect, useRef } from 'react';
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { DatabaseBackup, Download, Upload, AlertTriangle, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ArchiveCollection, BookArchiveImport, RestoreMode } from '@/hooks/kanban/kanban.backup';
+
+interface BookBackupDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onExport: () => void;
+  /** Throws when the file isn't a valid archive */
+  onParse: (json: string) => BookArchiveImport;
+  onRestore: (imported: BookArchiveImport, mode: RestoreMode) => Promise<void>;
+}
+
+const collectionLabels: Record<ArchiveCollection, string> = {
+  tasks: 'Tareas',
+  columns: 'Columnas',
+  tags: 'Etiquetas',
+  notes: 'Notas',
+  automations: 'Automatizaciones',
+  logs: 'Registros',
+};
+
+export function BookBackupDialog({
+  open,
+  onOpenChange,
+  onExport,
+  onParse,
+  onRestore,
+}: BookBackupDialogProps) {
+  const [imported, setImported] = useState<BookArchiveImport | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('replace');
+  const [isRestoring, setIsRestoring] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setImported(null);
+    setFileName('');
+    setParseError(null);
+    setMode('replace');
+  }, [open]);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setFileName(file.name);
+    try {
+      setImported(onParse(await file.text()));
+      setParseError(null);
+    } catch (error) {
+      setImported(null);
+      setParseError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!imported) return;
+    setIsRestoring(true);
+    try {
+      await onRestore(imported, mode);
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px] bg-card border-border">
+        <DialogHeader>
+          <DialogTitle className="font-heading text-xl flex items-center gap-2">
+            <DatabaseBackup className="w-5 h-5" />
+            Copia de seguridad
+          </DialogTitle>
+        </DialogHeader>
+
+        {/* Export */}
+        <div className="flex items-center gap-3 rounded-lg border border-border p-3">
+          <p className="flex-1 text-sm text-muted-foreground">
+            Descarga el libro completo (tareas, columnas, etiquetas, notas, automatizaciones y registros) como archivo JSON.
+          </p>
+          <Button variant="outline" size="sm" onClick={onExport} className="gap-2 flex-shrink-0">
+            <Download className="w-4 h-4" />
+            Descargar
+          </Button>
+        </div>
+
+        {/* Import */}
+        <div className="space-y-3">
+          <div className="flex items-center gap-3">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={handleFile}
+            />
+            <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} className="gap-2">
+              <Upload className="w-4 h-4" />
+              Restaurar desde archivo...
+            </Button>
+            {fileName && <span className="text-xs text-muted-foreground truncate">{fileName}</span>}
+          </div>
+
+          {parseError && (
+            <p className="text-sm text-destructive">{parseError}</p>
+          )}
+
+          {imported && (
+            <>
+              <div className="rounded-lg bg-muted/50 p-3 space-y-2">
+                <p className="text-xs text-muted-foreground">
+                  {imported.sourceBookId ? `Libro "${imported.sourceBookId}"` : 'Libro sin identificar'}
+                  {imported.exportedAt && ` · exportado el ${format(new Date(imported.exportedAt), "d MMM yyyy HH:mm", { locale: es })}`}
+                  {` · formato v${imported.storageVersion}`}
+                </p>
+                <div className="grid grid-cols-3 gap-2">
+                  {(Object.keys(collectionLabels) as ArchiveCollection[]).map(collection => (
+                    <div key={collection} className="text-sm">
+                      <span className="font-medium">{imported.accepted[collection]}</span>{' '}
+                      <span className="text-muted-foreground">{collectionLabels[collection].toLowerCase()}</span>
+                    </div>
+                  ))}
+                </div>
+                {imported.repairs.length > 0 && (
+                  <p className="text-xs text-muted-foreground">
+                    {imported.repairs.length === 1
+                      ? '1 campo no válido se sustituirá por su valor por defecto'
+                      : `${imported.repairs.length} campos no válidos se sustituirán por su valor por defecto`}
+                  </p>
+                )}
+              </div>
+
+              {imported.rejected.length > 0 && (
+                <div className="space-y-1.5">
+                  <h3 className="text-sm font-medium flex items-center gap-2">
+                    <AlertTriangle className="w-4 h-4 text-amber-500" />
+                    {imported.rejected.length === 1 ? '1 registro rechazado' : `${imported.rejected.length} registros rechazados`}
+                  </h3>
+                  <div className="rounded-lg border border-border divide-y divide-border max-h-40 overflow-y-auto">
+                    {imported.rejected.map((record, i) => (
+                      <div key={`${record.collection}-${record.index}-${i}`} className="px-3 py-1.5 text-xs">
+                        <span className="font-medium">{collectionLabels[record.collection]}</span>
+                        {record.index >= 0 && <span className="text-muted-foreground"> #{record.index + 1}</span>}
+                        {(record.label || record.id) && <span> · {record.label || record.id}</span>}
+                        <span className="text-muted-foreground"> — {record.reason}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <RadioGroup value={mode} onValueChange={(value) => setMode(value as RestoreMode)} className="space-y-2">
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="replace" id="restore-replace" />
+                  <Label htmlFor="restore-replace" className="text-sm font-normal">
+                    Reemplazar este libro <span className="text-muted-foreground">(se puede deshacer)</span>
+                  </Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="new-book" id="restore-new-book" />
+                  <Label htmlFor="restore-new-book" className="text-sm font-normal">
+                    Importar como libro nuevo
+                  </Label>
+                </div>
+              </RadioGroup>
+            </>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cerrar
+          </Button>
+          {imported && (
+            <Button onClick={handleRestore} disabled={isRestoring} className="gap-2">
+              {isRestoring && <Loader2 className="w-4 h-4 animate-spin" />}
+              Restaurar
+            </Button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
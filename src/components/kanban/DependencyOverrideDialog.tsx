@@ -0,0 +1,92 @@
+import { useState, useEffect } from 'react';
+import { Lock, ShieldAlert } from 'lucide-react';
+import { Task } from '@/types/kanban';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+interface DependencyOverrideDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  taskTitle: string;
+  /** What the user tried to do, e.g. 'marcar como completada' */
+  transitionLabel: string;
+  blockingTasks: Task[];
+  onConfirm: (reason: string) => void;
+}
+
+export function DependencyOverrideDialog({
+  open,
+  onOpenChange,
+  taskTitle,
+  transitionLabel,
+  blockingTasks,
+  onConfirm,
+}: DependencyOverrideDialogProps) {
+  const [reason, setReason] = useState('');
+
+  useEffect(() => {
+    if (open) setReason('');
+  }, [open]);
+
+  const canConfirm = reason.trim().length > 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[460px] bg-card border-border">
+        <DialogHeader>
+          <DialogTitle className="font-heading text-xl flex items-center gap-2">
+            <ShieldAlert className="w-5 h-5 text-amber-500" />
+            Prerequisitos pendientes
+          </DialogTitle>
+        </DialogHeader>
+
+        <p className="text-sm text-muted-foreground">
+          No se puede {transitionLabel} <span className="font-medium text-foreground">"{taskTitle}"</span> mientras
+          estas tareas sigan abiertas:
+        </p>
+
+        <ul className="space-y-1.5">
+          {blockingTasks.map(t => (
+            <li key={t.id} className="flex items-center gap-2 text-sm p-2 rounded-md bg-amber-500/10 border border-amber-500/20">
+              <Lock className="w-3.5 h-3.5 text-amber-500 flex-shrink-0" />
+              <span className="truncate">{t.title}</span>
+            </li>
+          ))}
+        </ul>
+
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-muted-foreground">
+            Motivo para forzar el cambio
+          </label>
+          <Input
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && canConfirm) onConfirm(reason);
+            }}
+            placeholder="Ej.: la portada se entrega en paralelo"
+            autoFocus
+          />
+          <p className="text-xs text-muted-foreground">
+            El motivo queda registrado en la tarea.
+          </p>
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancelar
+          </Button>
+          <Button variant="destructive" disabled={!canConfirm} onClick={() => onConfirm(reason)}>
+            Forzar igualmente
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,417 @@
+import { useState, useRef, useMemo, useEffect } from 'react';
+import { Network, Lock, CheckCircle, X, Link } from 'lucide-react';
+import { Task, Priority, TaskStatus } from '@/types/kanban';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { DependencyEdge, DEPENDENCY_TYPE_LABELS } from '@/hooks/kanban/kanban.dependencies';
+
+interface GraphViewProps {
+  tasks: Task[];
+  onTaskClick: (task: Task) => void;
+  getDependencyEdges: () => DependencyEdge[];
+  getTaskBlockedStatus: (taskId: string) => { blocked: boolean; blockingTasks: Task[] };
+  wouldCreateCycle: (taskId: string, dependsOnTaskId: string) => boolean;
+  onAddDependency: (taskId: string, dependsOnTaskId: string) => void;
+  onRemoveDependency: (taskId: string, dependencyId: string) => void;
+}
+
+const NODE_WIDTH = 200;
+const NODE_HEIGHT = 56;
+const COLUMN_GAP = 90;
+const ROW_GAP = 20;
+const PADDING = 24;
+
+const priorityColors: Record<Priority, string> = {
+  critical: '#EF4444',
+  high: '#FB923C',
+  medium: '#F59E0B',
+  low: '#22C55E',
+};
+
+const statusConfig: Record<TaskStatus, { label: string; color: string }> = {
+  not_started: { label: 'Sin empezar', color: '#6B7280' },
+  in_progress: { label: 'En curso', color: '#3B82F6' },
+  paused: { label: 'Pausado', color: '#F59E0B' },
+  waiting: { label: 'En espera', color: '#8B5CF6' },
+  archived: { label: 'Archivado', color: '#6B7280' },
+  completed: { label: 'Terminado', color: '#22C55E' },
+};
+
+interface NodePosition {
+  x: number;
+  y: number;
+  depth: number;
+}
+
+/**
+ * Left-to-right layout: a task's column is its dependency depth (longest
+ * chain of prerequisites). Within a column, tasks are ordered by the average
+ * row of their prerequisites to keep edges short.
+ */
+function layoutGraph(tasks: Task[], edges: DependencyEdge[]): Map<string, NodePosition> {
+  const depth = new Map(tasks.map(t => [t.id, 0]));
+  const maxDepth = Math.max(0, tasks.length - 1);
+  // SS/FF links may point both ways between two tasks, so relax with a bound
+  for (let i = 0, changed = true; changed && i < tasks.length; i++) {
+    changed = false;
+    for (const edge of edges) {
+      const next = Math.min(maxDepth, (depth.get(edge.fromTaskId) ?? 0) + 1);
+      if (next > (depth.get(edge.toTaskId) ?? 0)) {
+        depth.set(edge.toTaskId, next);
+        changed = true;
+      }
+    }
+  }
+
+  const columns = new Map<number, Task[]>();
+  tasks.forEach(task => {
+    const d = depth.get(task.id) ?? 0;
+    const column = columns.get(d);
+    if (column) column.push(task);
+    else columns.set(d, [task]);
+  });
+
+  const rows = new Map<string, number>();
+  const positions = new Map<string, NodePosition>();
+  Array.from(columns.keys()).sort((a, b) => a - b).forEach(d => {
+    const column = columns.get(d)!;
+    const barycenter = (task: Task) => {
+      const parentRows = edges
+        .filter(e => e.toTaskId === task.id && rows.has(e.fromTaskId))
+        .map(e => rows.get(e.fromTaskId)!);
+      return parentRows.length > 0 ? parentRows.reduce((a, b) => a + b, 0) / parentRows.length : Infinity;
+    };
+    column
+      .map(task => ({ task, weight: barycenter(task) }))
+      .sort((a, b) => a.weight - b.weight || a.task.title.localeCompare(b.task.title))
+      .forEach(({ task }, row) => {
+        rows.set(task.id, row);
+        positions.set(task.id, {
+          x: PADDING + d * (NODE_WIDTH + COLUMN_GAP),
+          y: PADDING + row * (NODE_HEIGHT + ROW_GAP),
+          depth: d,
+        });
+      });
+  });
+
+  return positions;
+}
+
+export function GraphView({
+  tasks,
+  onTaskClick,
+  getDependencyEdges,
+  getTaskBlockedStatus,
+  wouldCreateCycle,
+  onAddDependency,
+  onRemoveDependency,
+}: GraphViewProps) {
+  const [linking, setLinking] = useState<{ fromTaskId: string; x: number; y: number } | null>(null);
+  const [linkTargetId, setLinkTargetId] = useState<string | null>(null);
+  const [hoveredEdgeId, setHoveredEdgeId] = useState<string | null>(null);
+  const [selectedEdgeId, setSelectedEdgeId] = useState<string | null>(null);
+  const canvasRef = useRef<HTMLDivElement>(null);
+
+  const graphTasks = useMemo(() => tasks.filter(t => !t.isArchived), [tasks]);
+
+  const edges = useMemo(() => {
+    const ids = new Set(graphTasks.map(t => t.id));
+    return getDependencyEdges().filter(e => ids.has(e.fromTaskId) && ids.has(e.toTaskId));
+  }, [getDependencyEdges, graphTasks]);
+
+  const positions = useMemo(() => layoutGraph(graphTasks, edges), [graphTasks, edges]);
+
+  const canvasSize = useMemo(() => {
+    let width = 0;
+    let height = 0;
+    positions.forEach(p => {
+      width = Math.max(width, p.x + NODE_WIDTH + PADDING);
+      height = Math.max(height, p.y + NODE_HEIGHT + PADDING);
+    });
+    return { width, height };
+  }, [positions]);
+
+  const selectedEdge = edges.find(e => e.dependencyId === selectedEdgeId) ?? null;
+
+  // Delete / Escape shortcuts for the selected edge and an in-progress link
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        setLinking(null);
+        setLinkTargetId(null);
+        setSelectedEdgeId(null);
+      }
+      const target = e.target as HTMLElement;
+      if ((e.key === 'Delete' || e.key === 'Backspace') && selectedEdge && !target.closest('input, textarea')) {
+        onRemoveDependency(selectedEdge.toTaskId, selectedEdge.dependencyId);
+        setSelectedEdgeId(null);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [selectedEdge, onRemoveDependency]);
+
+  /** Why a link from the dragged prerequisite to `taskId` is not allowed, if it isn't */
+  const getLinkError = (fromTaskId: string, toTaskId: string): string | null => {
+    if (fromTaskId === toTaskId) return null;
+    if (edges.some(e => e.fromTaskId === fromTaskId && e.toTaskId === toTaskId)) {
+      return 'Esta dependencia ya existe';
+    }
+    if (wouldCreateCycle(toTaskId, fromTaskId)) {
+      return 'No se puede enlazar: crearía un ciclo de dependencias';
+    }
+    return null;
+  };
+
+  const linkError = linking && linkTargetId ? getLinkError(linking.fromTaskId, linkTargetId) : null;
+
+  const getPointer = (e: React.MouseEvent) => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  const handleLinkStart = (e: React.MouseEvent, taskId: string) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setSelectedEdgeId(null);
+    setLinking({ fromTaskId: taskId, ...getPointer(e) });
+  };
+
+  const handleLinkDrop = (taskId: string) => {
+    if (!linking) return;
+    if (taskId !== linking.fromTaskId && !getLinkError(linking.fromTaskId, taskId)) {
+      onAddDependency(taskId, linking.fromTaskId);
+    }
+    setLinking(null);
+    setLinkTargetId(null);
+  };
+
+  const edgePath = (edge: DependencyEdge) => {
+    const from = positions.get(edge.fromTaskId)!;
+    const to = positions.get(edge.toTaskId)!;
+    const x1 = from.x + NODE_WIDTH;
+    const y1 = from.y + NODE_HEIGHT / 2;
+    const x2 = to.x - 6;
+    const y2 = to.y + NODE_HEIGHT / 2;
+    const bend = Math.max(40, Math.abs(x2 - x1) / 2);
+    return {
+      d: `M ${x1} ${y1} C ${x1 + bend} ${y1}, ${x2 - bend} ${y2}, ${x2} ${y2}`,
+      midX: (x1 + x2) / 2,
+      midY: (y1 + y2) / 2,
+    };
+  };
+
+  if (graphTasks.length === 0) {
+    return (
+      <div className="h-full flex items-center justify-center text-muted-foreground p-6">
+        <div className="text-center">
+          <Network className="w-12 h-12 mx-auto mb-2 opacity-50" />
+          <p className="text-lg font-medium">No hay tareas</p>
+          <p className="text-sm">Crea tareas para ver su grafo de dependencias</p>
+        </div>
+      </div>
+    );
+  }
+
+  const linkingFrom = linking ? positions.get(linking.fromTaskId) : null;
+
+  return (
+    <div className="h-full flex flex-col p-6 overflow-hidden">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-4 flex-shrink-0 gap-4">
+        <h2 className="text-xl font-heading font-semibold text-foreground">Grafo de dependencias</h2>
+        <p className={cn("text-sm", linkError ? "text-destructive" : "text-muted-foreground")}>
+          {linkError
+            ?? (linking
+              ? 'Suelta sobre la tarea que depende de esta'
+              : 'Arrastra desde el conector de una tarea a otra para crear una dependencia. Haz clic en una flecha para eliminarla.')}
+        </p>
+      </div>
+
+      <div
+        className="flex-1 bg-card rounded-lg border border-border overflow-auto scrollbar-thin min-h-0"
+        onMouseMove={(e) => linking && setLinking({ ...linking, ...getPointer(e) })}
+        onMouseUp={() => {
+          setLinking(null);
+          setLinkTargetId(null);
+        }}
+        onClick={() => setSelectedEdgeId(null)}
+      >
+        <div
+          ref={canvasRef}
+          className={cn("relative", linking && "cursor-crosshair select-none")}
+          style={{ width: canvasSize.width, height: canvasSize.height, minWidth: '100%', minHeight: '100%' }}
+        >
+          {/* Edges */}
+          <svg
+            className="absolute inset-0 pointer-events-none"
+            width={canvasSize.width}
+            height={canvasSize.height}
+          >
+            <defs>
+              <marker id="graph-arrowhead" markerWidth="8" markerHeight="6" refX="7" refY="3" orient="auto">
+                <polygon points="0 0, 8 3, 0 6" fill="hsl(var(--muted-foreground))" />
+              </marker>
+              <marker id="graph-arrowhead-active" markerWidth="8" markerHeight="6" refX="7" refY="3" orient="auto">
+                <polygon points="0 0, 8 3, 0 6" fill="hsl(var(--primary))" />
+              </marker>
+            </defs>
+
+            {edges.map(edge => {
+              const { d, midX, midY } = edgePath(edge);
+              const isActive = hoveredEdgeId === edge.dependencyId || selectedEdgeId === edge.dependencyId;
+              const lag = edge.lagDays;
+              return (
+                <g key={edge.dependencyId}>
+                  <path
+                    d={d}
+                    fill="none"
+                    stroke="transparent"
+                    strokeWidth={12}
+                    className="pointer-events-auto cursor-pointer"
+                    onMouseEnter={() => setHoveredEdgeId(edge.dependencyId)}
+                    onMouseLeave={() => setHoveredEdgeId(null)}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setSelectedEdgeId(edge.dependencyId);
+                    }}
+                  >
+                    <title>{`${edge.fromTask.title} → ${edge.toTask.title} (${DEPENDENCY_TYPE_LABELS[edge.type]})`}</title>
+                  </path>
+                  <path
+                    d={d}
+                    fill="none"
+                    stroke={isActive ? "hsl(var(--primary))" : "hsl(var(--muted-foreground) / 0.6)"}
+                    strokeWidth={isActive ? 2.5 : 1.5}
+                    markerEnd={isActive ? "url(#graph-arrowhead-active)" : "url(#graph-arrowhead)"}
+                  />
+                  {(edge.type !== 'FS' || lag !== 0) && (
+                    <text
+                      x={midX}
+                      y={midY - 6}
+                      textAnchor="middle"
+                      className="fill-muted-foreground text-[10px]"
+                    >
+                      {`${edge.type}${lag !== 0 ? ` ${lag > 0 ? '+' : ''}${lag}d` : ''}`}
+                    </text>
+                  )}
+                </g>
+              );
+            })}
+
+            {/* Link being drawn */}
+            {linking && linkingFrom && (
+              <line
+                x1={linkingFrom.x + NODE_WIDTH}
+                y1={linkingFrom.y + NODE_HEIGHT / 2}
+                x2={linking.x}
+                y2={linking.y}
+                stroke={linkError ? "hsl(var(--destructive))" : "hsl(var(--primary))"}
+                strokeWidth={2}
+                strokeDasharray="5 3"
+              />
+            )}
+          </svg>
+
+          {/* Selected edge delete button */}
+          {selectedEdge && (() => {
+            const { midX, midY } = edgePath(selectedEdge);
+            return (
+              <Button
+                variant="destructive"
+                size="sm"
+                className="absolute h-7 px-2 gap-1 text-xs z-20 -translate-x-1/2 -translate-y-1/2"
+                style={{ left: midX, top: midY }}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onRemoveDependency(selectedEdge.toTaskId, selectedEdge.dependencyId);
+                  setSelectedEdgeId(null);
+                }}
+              >
+                <X className="w-3 h-3" />
+                Eliminar
+              </Button>
+            );
+          })()}
+
+          {/* Nodes */}
+          {graphTasks.map(task => {
+            const position = positions.get(task.id);
+            if (!position) return null;
+            const blockStatus = getTaskBlockedStatus(task.id);
+            const status = statusConfig[task.status] ?? statusConfig.not_started;
+            const isLinkSource = linking?.fromTaskId === task.id;
+            const isLinkTarget = !!linking && linkTargetId === task.id && !isLinkSource;
+            const isInvalidTarget = isLinkTarget && !!linkError;
+
+            return (
+              <div
+                key={task.id}
+                className={cn(
+                  "absolute rounded-lg border bg-card shadow-sm px-3 py-2 cursor-pointer group transition-shadow",
+                  "hover:shadow-md",
+                  isLinkSource && "ring-2 ring-primary",
+                  isLinkTarget && !isInvalidTarget && "ring-2 ring-primary",
+                  isInvalidTarget && "ring-2 ring-destructive cursor-not-allowed"
+                )}
+                style={{
+                  left: position.x,
+                  top: position.y,
+                  width: NODE_WIDTH,
+                  height: NODE_HEIGHT,
+                  borderLeft: `4px solid ${priorityColors[task.priority]}`,
+                  backgroundColor: `${status.color}14`,
+                }}
+                title={blockStatus.blocked
+                  ? `Bloqueada por: ${blockStatus.blockingTasks.map(t => t.title).join(', ')}`
+                  : task.title}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  if (!linking) onTaskClick(task);
+                }}
+                onMouseEnter={() => linking && setLinkTargetId(task.id)}
+                onMouseLeave={() => linking && setLinkTargetId(null)}
+                onMouseUp={(e) => {
+                  if (!linking) return;
+                  e.stopPropagation();
+                  handleLinkDrop(task.id);
+                }}
+              >
+                <div className="flex items-center gap-1.5 min-w-0">
+                  {blockStatus.blocked && <Lock className="w-3.5 h-3.5 text-amber-500 flex-shrink-0" />}
+                  {task.status === 'completed' && <CheckCircle className="w-3.5 h-3.5 text-green-500 flex-shrink-0" />}
+                  <span className="text-sm font-medium text-foreground truncate">{task.title}</span>
+                </div>
+                <div className="flex items-center gap-1.5 mt-1">
+                  <span className="w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: status.color }} />
+                  <span className="text-xs text-muted-foreground truncate">{status.label}</span>
+                </div>
+
+                {/* Connector handle: drag from here to the dependent task */}
+                <div
+                  className={cn(
+                    "absolute -right-2 top-1/2 -translate-y-1/2 w-4 h-4 rounded-full border-2 border-primary bg-card",
+                    "flex items-center justify-center cursor-crosshair transition-opacity",
+                    isLinkSource ? "opacity-100" : "opacity-0 group-hover:opacity-100"
+                  )}
+                  title="Arrastra hasta la tarea que depende de esta"
+                  onMouseDown={(e) => handleLinkStart(e, task.id)}
+                  onClick={(e) => e.stopPropagation()}
+                >
+                  <Link className="w-2 h-2 text-primary" />
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Legend */}
+      <div className="mt-4 flex items-center gap-4 text-xs text-muted-foreground flex-shrink-0 flex-wrap">
+        <span className="flex items-center gap-1"><Lock className="w-3 h-3 text-amber-500" /> Bloqueada</span>
+        <span className="flex items-center gap-1"><CheckCircle className="w-3 h-3 text-green-500" /> Terminada</span>
+        <span>Borde izquierdo: prioridad · Fondo: estado</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+import { ShieldCheck, Link2Off, Columns, Tag as TagIcon, Wrench } from 'lucide-react';
+import { Column } from '@/types/kanban';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { IntegrityIssue, IntegrityIssueKind } from '@/hooks/kanban/kanban.integrity';
+
+interface IntegrityReportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  issues: IntegrityIssue[];
+  /** Where tasks in missing columns will be moved */
+  fallbackColumn?: Column;
+  onRepair: (issueIds?: string[]) => void;
+}
+
+const ISSUE_SECTIONS: Record<IntegrityIssueKind, { title: string; icon: typeof Link2Off; repairLabel: string }> = {
+  orphaned_dependency: { title: 'Dependencias rotas', icon: Link2Off, repairLabel: 'Quitar' },
+  missing_column: { title: 'Tareas en columnas inexistentes', icon: Columns, repairLabel: 'Mover' },
+  missing_tag: { title: 'Etiquetas no registradas', icon: TagIcon, repairLabel: 'Registrar' },
+};
+
+function describeIssue(issue: IntegrityIssue, fallbackColumn?: Column): string {
+  switch (issue.kind) {
+    case 'orphaned_dependency':
+      return `Depende de una tarea eliminada (${issue.missingId}). Se quitará la dependencia.`;
+    case 'missing_column':
+      return `Está en la columna ${issue.missingId}, que ya no existe. Se moverá a "${fallbackColumn?.title ?? 'la primera columna'}".`;
+    case 'missing_tag':
+      return `Usa la etiqueta "${issue.tag?.name ?? issue.missingId}", que no está en la lista. Se volverá a añadir.`;
+  }
+}
+
+export function IntegrityReportDialog({
+  open,
+  onOpenChange,
+  issues,
+  fallbackColumn,
+  onRepair,
+}: IntegrityReportDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px] bg-card border-border">
+        <DialogHeader>
+          <DialogTitle className="font-heading text-xl flex items-center gap-2">
+            <ShieldCheck className="w-5 h-5" />
+            Integridad del tablero
+          </DialogTitle>
+        </DialogHeader>
+
+        {issues.length === 0 ? (
+          <div className="py-8 text-center text-muted-foreground">
+            <ShieldCheck className="w-10 h-10 mx-auto mb-2 text-green-500" />
+            <p className="text-sm">No se han encontrado referencias rotas</p>
+          </div>
+        ) : (
+          <>
+            <p className="text-sm text-muted-foreground">
+              {issues.length === 1 ? 'Hay 1 referencia' : `Hay ${issues.length} referencias`} a elementos que ya no existen.
+            </p>
+
+            <div className="max-h-96 overflow-y-auto space-y-4">
+              {(Object.keys(ISSUE_SECTIONS) as IntegrityIssueKind[]).map(kind => {
+                const sectionIssues = issues.filter(i => i.kind === kind);
+                if (sectionIssues.length === 0) return null;
+                const section = ISSUE_SECTIONS[kind];
+                return (
+                  <div key={kind} className="space-y-1.5">
+                    <h3 className="text-sm font-medium flex items-center gap-2">
+                      <section.icon className="w-4 h-4 text-amber-500" />
+                      {section.title}
+                      <span className="text-xs bg-muted-foreground/20 rounded-full px-1.5">{sectionIssues.length}</span>
+                    </h3>
+                    <div className="rounded-lg border border-border divide-y divide-border">
+                      {sectionIssues.map(issue => (
+                        <div key={issue.id} className="flex items-center gap-3 px-3 py-2">
+                          <div className="flex-1 min-w-0">
+                            <p className="text-sm font-medium truncate">{issue.taskTitle}</p>
+                            <p className="text-xs text-muted-foreground">{describeIssue(issue, fallbackColumn)}</p>
+                          </div>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="h-7 text-xs flex-shrink-0"
+                            onClick={() => onRepair([issue.id])}
+                          >
+                            {section.repairLabel}
+                          </Button>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cerrar
+          </Button>
+          {issues.length > 0 && (
+            <Button onClick={() => onRepair()} className="gap-2">
+              <Wrench className="w-4 h-4" />
+              Reparar todo
+            </Button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
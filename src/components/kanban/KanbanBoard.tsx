@@ -1,5 +1,6 @@
-import { useState, useEffect, useMemo, useCallback, lazy, Suspense } from 'react';
-import { Plus, Search, Filter, LayoutGrid, List, Calendar, GanttChart, Tag, FileText, Undo2, Redo2, EyeOff, Eye, Archive, Info } from 'lucide-react';
+import { useState, useEffect, useMemo, useCallback, useRef, lazy, Suspense } from 'react';
+import { Plus, Search, Filter, LayoutGrid, List, Calendar, GanttChart, Tag, FileText, Undo2, Redo2, EyeOff, Eye, Archive, Info, Zap, Flag, ShieldAlert, ShieldCheck, Network, Loader2, GitMerge, DatabaseBackup, History, LifeBuoy, HardDrive, AlertTriangle } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Progress } from '@/components/ui/progress';
@@ -11,13 +12,28 @@ import { NewTaskDialog } from './NewTaskDialog';
 import { TagManager } from './TagManager';
 import { SaveIndicator } from './SaveIndicator';
 import { ArchivedTasksPanel } from './ArchivedTasksPanel';
-import { Task, ViewType } from '@/types/kanban';
+import { AutomationsPanel } from './AutomationsPanel';
+import { AutomationRuleBuilder } from './AutomationRuleBuilder';
+import { DependencyOverrideDialog } from './DependencyOverrideDialog';
+import { TaskDeletionDialog } from './TaskDeletionDialog';
+import { IntegrityReportDialog } from './IntegrityReportDialog';
+import { SyncConflictDialog } from './SyncConflictDialog';
+import { BookBackupDialog } from './BookBackupDialog';
+import { VersionsPanel } from './VersionsPanel';
+import { RecoveryDialog } from './RecoveryDialog';
+import { StorageUsageDialog } from './StorageUsageDialog';
+import { Task, Subtask, ViewType, Automation, DependencyEnforcementMode } from '@/types/kanban';
+import { TaskTransition } from '@/hooks/kanban/kanban.dependencies';
+import { DependencyOverrideRequest, getSubtaskDerivedStatus } from '@/hooks/kanban/kanban.reducer';
 
 const ListView = lazy(() => import('./ListView').then(m => ({ default: m.ListView })));
 const CalendarView = lazy(() => import('./CalendarView').then(m => ({ default: m.CalendarView })));
 const TimelineView = lazy(() => import('./TimelineView').then(m => ({ default: m.TimelineView })));
 const NotesView = lazy(() => import('./NotesView').then(m => ({ default: m.NotesView })));
-import { cn } from '@/lib/utils';
+const GraphView = lazy(() => import('./GraphView').then(m => ({ default: m.GraphView })));
+import { cn, downloadFile } from '@/lib/utils';
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
 import { toast } from 'sonner';
 import {
   Tooltip,
@@ -25,14 +41,27 @@ import {
   TooltipProvider,
   TooltipTrigger,
 } from '@/components/ui/tooltip';
+import {
+  Dialog,
+  DialogContent,
+} from '@/components/ui/dialog';
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
   DropdownMenuTrigger,
   DropdownMenuSeparator,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
 } from '@/components/ui/dropdown-menu';
 
+const ENFORCEMENT_OPTIONS: Record<DependencyEnforcementMode, { label: string; description: string }> = {
+  strict: { label: 'Dependencias: estricto', description: 'Bloquea el cambio; se puede forzar indicando un motivo' },
+  warn: { label: 'Dependencias: aviso', description: 'Permite el cambio y muestra un aviso' },
+  off: { label: 'Dependencias: sin control', description: 'No comprueba los prerequisitos' },
+};
+
 interface KanbanBoardProps {
   bookId: string;
 }
@@ -48,6 +77,55 @@ export function KanbanBoard({ bookId }: KanbanBoardProps) {
   const [newTaskColumnId, setNewTaskColumnId] = useState<string | undefined>(undefined);
   const [showTagManager, setShowTagManager] = useState(false);
   const [showArchivedPanel, setShowArchivedPanel] = useState(false);
+  const [showAutomationsPanel, setShowAutomationsPanel] = useState(false);
+  const [showRuleBuilder, setShowRuleBuilder] = useState(false);
+  const [editingAutomation, setEditingAutomation] = useState<Automation | null>(null);
+  const [pendingOverride, setPendingOverride] = useState<{
+    taskId: string;
+    transitionLabel: string;
+    blockingTasks: Task[];
+    apply: (override?: DependencyOverrideRequest) => void;
+  } | null>(null);
+  const [pendingDeletion, setPendingDeletion] = useState<{ taskId: string; onDeleted?: () => void } | null>(null);
+  const [showIntegrityReport, setShowIntegrityReport] = useState(false);
+  const [showSyncConflicts, setShowSyncConflicts] = useState(false);
+  const [showBackupDialog, setShowBackupDialog] = useState(false);
+  const [showVersionsPanel, setShowVersionsPanel] = useState(false);
+  const [showRecoveryDialog, setShowRecoveryDialog] = useState(false);
+  const [showStorageDialog, setShowStorageDialog] = useState(false);
+  const navigate = useNavigate();
+  const shownNotificationIdsRef = useRef<Set<string>>(new Set());
+  const shownConflictIdsRef = useRef<Set<string>>(new Set());
+
+  // Surface in-app notifications raised by automations
+  useEffect(() => {
+    for (const notification of [...kanban.notifications].reverse()) {
+      if (shownNotificationIdsRef.current.has(notification.id)) continue;
+      shownNotificationIdsRef.current.add(notification.id);
+      toast.info(notification.message, {
+        description: `${notification.automationName} · ${notification.taskTitle}`,
+      });
+    }
+  }, [kanban.notifications]);
+
+  // Announce sync conflicts that need a decision (once per detection)
+  useEffect(() => {
+    const fresh = kanban.syncConflicts.filter(c => !shownConflictIdsRef.current.has(`${c.id}-${c.detectedAt}`));
+    if (fresh.length === 0) return;
+    fresh.forEach(c => shownConflictIdsRef.current.add(`${c.id}-${c.detectedAt}`));
+    toast.warning(fresh.length === 1 ? 'Un cambio choca con otro dispositivo' : `${fresh.length} cambios chocan con otro dispositivo`, {
+      action: { label: 'Revisar', onClick: () => setShowSyncConflicts(true) },
+    });
+  }, [kanban.syncConflicts]);
+
+  // A failed write means the board on screen is ahead of what is stored
+  useEffect(() => {
+    if (kanban.saveStatus !== 'quota') return;
+    toast.error('No queda espacio para guardar', {
+      description: 'Los últimos cambios no se han guardado en este navegador',
+      action: { label: 'Liberar espacio', onClick: () => setShowStorageDialog(true) },
+    });
+  }, [kanban.saveStatus]);
 
   // BUG FIX: Derive selectedTask from tasks array for real-time reactivity
   const selectedTask = useMemo(() => {
@@ -63,11 +141,112 @@ export function KanbanBoard({ bookId }: KanbanBoardProps) {
     setSelectedTaskId(null);
   }, []);
 
+  const handleOpenRuleBuilder = useCallback((automation: Automation | null) => {
+    setEditingAutomation(automation);
+    setShowRuleBuilder(true);
+  }, []);
+
   const handleOpenNewTaskDialog = useCallback((columnId?: string) => {
     setNewTaskColumnId(columnId);
     setShowNewTaskDialog(true);
   }, []);
 
+  // Dependency enforcement: strict mode asks for a recorded override, warn mode only warns
+  const runGuardedTransition = useCallback((
+    taskId: string,
+    transition: TaskTransition,
+    apply: (override?: DependencyOverrideRequest) => void
+  ) => {
+    const block = kanban.getTransitionBlock(taskId, transition);
+    if (!block.blocked) {
+      apply();
+      return;
+    }
+    if (block.mode === 'warn') {
+      apply();
+      toast.warning('Prerequisitos pendientes', { description: block.reason });
+      return;
+    }
+
+    let transitionLabel = 'cambiar';
+    if (transition.status === 'in_progress') transitionLabel = 'empezar';
+    else if (transition.status === 'completed') transitionLabel = 'completar';
+    else if (transition.columnId) {
+      const column = kanban.allColumns.find(c => c.id === transition.columnId);
+      transitionLabel = `mover a "${column?.title ?? transition.columnId}"`;
+    }
+    setPendingOverride({ taskId, transitionLabel, blockingTasks: block.blockingTasks, apply });
+  }, [kanban]);
+
+  // Subtask edits can complete or reopen a task; the reducer gates that derived
+  // change like a manual one (strict mode rejects the edit that would complete
+  // it), and here it gets the same warning
+  const runSubtaskChange = useCallback((taskId: string, nextSubtasks: Subtask[], apply: () => void) => {
+    const task = kanban.tasks.find(t => t.id === taskId);
+    const status = task ? getSubtaskDerivedStatus({ ...task, subtasks: nextSubtasks }) : undefined;
+    const block = task && status !== task.status ? kanban.getTransitionBlock(taskId, { status }) : null;
+    if (block?.blocked && block.mode === 'strict' && status === 'completed') {
+      toast.error('No se puede completar la tarea', { description: block.reason });
+      return;
+    }
+    apply();
+    if (!block?.blocked) return;
+    if (block.mode === 'warn') {
+      toast.warning('Prerequisitos pendientes', { description: block.reason });
+    } else {
+      toast.warning('La tarea mantiene su estado', { description: block.reason });
+    }
+  }, [kanban]);
+
+  const handleToggleChecklistItem = useCallback((taskId: string, itemId: string) => {
+    const task = kanban.tasks.find(t => t.id === taskId);
+    const nextSubtasks = (task?.subtasks ?? []).map(s => (s.id === itemId ? { ...s, completed: !s.completed } : s));
+    runSubtaskChange(taskId, nextSubtasks, () => kanban.toggleChecklistItem(taskId, itemId));
+  }, [kanban, runSubtaskChange]);
+
+  const handleDeleteChecklistItem = useCallback((taskId: string, itemId: string) => {
+    const task = kanban.tasks.find(t => t.id === taskId);
+    const nextSubtasks = (task?.subtasks ?? []).filter(s => s.id !== itemId);
+    runSubtaskChange(taskId, nextSubtasks, () => kanban.deleteChecklistItem(taskId, itemId));
+  }, [kanban, runSubtaskChange]);
+
+  const handleUpdateTask = useCallback((taskId: string, updates: Partial<Task>) => {
+    if (updates.status === undefined && updates.columnId === undefined) {
+      kanban.updateTask(taskId, updates);
+      return;
+    }
+    runGuardedTransition(
+      taskId,
+      { status: updates.status, columnId: updates.columnId },
+      override => kanban.updateTask(taskId, updates, override)
+    );
+  }, [kanban, runGuardedTransition]);
+
+  // Tasks with dependents ask what to do with those links before deleting
+  const requestDeleteTask = useCallback((taskId: string, onDeleted?: () => void) => {
+    if (kanban.getDependents(taskId).length > 0) {
+      setPendingDeletion({ taskId, onDeleted });
+      return;
+    }
+    kanban.deleteTask(taskId);
+    onDeleted?.();
+  }, [kanban]);
+
+  const pendingDeletionTask = useMemo(
+    () => (pendingDeletion ? kanban.tasks.find(t => t.id === pendingDeletion.taskId) ?? null : null),
+    [pendingDeletion, kanban.tasks]
+  );
+  const pendingDeletionDependents = useMemo(
+    () => (pendingDeletion ? kanban.getDependents(pendingDeletion.taskId) : []),
+    [pendingDeletion, kanban]
+  );
+  const repointCandidates = useMemo(
+    () => (pendingDeletion
+      ? kanban.tasks.filter(t => t.id !== pendingDeletion.taskId && !t.isArchived)
+      : []),
+    [pendingDeletion, kanban.tasks]
+  );
+
   // WIP Limit check wrapper for moveTask
   const handleMoveTask = useCallback((taskId: string, targetColumnId: string, targetIndex: number) => {
     const task = kanban.tasks.find(t => t.id === taskId);
@@ -85,8 +264,12 @@ export function KanbanBoard({ bookId }: KanbanBoardProps) {
       }
     }
     
-    kanban.moveTask(taskId, targetColumnId, targetIndex);
-  }, [kanban]);
+    runGuardedTransition(
+      taskId,
+      { columnId: targetColumnId },
+      override => kanban.moveTask(taskId, targetColumnId, targetIndex, override)
+    );
+  }, [kanban, runGuardedTransition]);
 
   // BUG FIX: Task drag handlers - completely isolated from column drag
   const handleDragStart = useCallback((e: React.DragEvent, taskId: string) => {
@@ -134,6 +317,7 @@ export function KanbanBoard({ bookId }: KanbanBoardProps) {
     { id: 'list' as ViewType, icon: List, label: 'Lista' },
     { id: 'calendar' as ViewType, icon: Calendar, label: 'Calendario' },
     { id: 'timeline' as ViewType, icon: GanttChart, label: 'Timeline' },
+    { id: 'graph' as ViewType, icon: Network, label: 'Grafo' },
     { id: 'notes' as ViewType, icon: FileText, label: 'Notas' },
   ];
 
@@ -151,6 +335,19 @@ export function KanbanBoard({ bookId }: KanbanBoardProps) {
   // Check if board is empty (no tasks)
   const isEmpty = kanban.tasks.filter(t => !t.isArchived).length === 0;
 
+  if (!kanban.isLoaded) {
+    return (
+      <div className="h-screen flex items-center justify-center gap-2 bg-background text-muted-foreground">
+        <Loader2 className="w-5 h-5 animate-spin" />
+        <span className="text-sm">
+          {kanban.storageAvailability === 'blocked'
+            ? 'Actualizando el almacenamiento: cierra las demás pestañas de Publify para continuar...'
+            : 'Cargando tablero...'}
+        </span>
+      </div>
+    );
+  }
+
   return (
     <div className="h-screen flex flex-col bg-background overflow-hidden">
       {/* Header */}
@@ -164,7 +361,31 @@ export function KanbanBoard({ bookId }: KanbanBoardProps) {
               </p>
             </div>
             {/* Save Indicator */}
-            <SaveIndicator status={kanban.saveStatus} />
+            <SaveIndicator status={kanban.saveStatus} pendingChanges={kanban.pendingChanges} />
+            {kanban.syncConflicts.length > 0 && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setShowSyncConflicts(true)}
+                className="h-7 gap-1.5 border-orange-500/40 text-orange-600"
+                title="Resolver conflictos de sincronización"
+              >
+                <GitMerge className="w-3.5 h-3.5" />
+                <span className="text-xs">{kanban.syncConflicts.length}</span>
+              </Button>
+            )}
+            {(kanban.pendingRepair || kanban.recoveryItems.length > 0) && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setShowRecoveryDialog(true)}
+                className="h-7 gap-1.5 border-amber-500/40 text-amber-600"
+                title="Datos reparados y registros apartados"
+              >
+                <LifeBuoy className="w-3.5 h-3.5" />
+                {kanban.recoveryItems.length > 0 && <span className="text-xs">{kanban.recoveryItems.length}</span>}
+              </Button>
+            )}
           </div>
           
           {/* Book Progress Indicator */}
@@ -192,6 +413,28 @@ export function KanbanBoard({ bookId }: KanbanBoardProps) {
                 </TooltipContent>
               </Tooltip>
             </TooltipProvider>
+
+            {/* Projected Completion (critical path) */}
+            {kanban.criticalPath.projectedCompletion && (
+              <TooltipProvider>
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <div className="flex items-center gap-2 bg-muted/50 px-4 py-2 rounded-lg">
+                      <Flag className="w-4 h-4 text-muted-foreground" />
+                      <span className="text-sm font-medium text-muted-foreground">Fin previsto</span>
+                      <span className="text-sm font-semibold text-foreground">
+                        {format(kanban.criticalPath.projectedCompletion, 'd MMM yyyy', { locale: es })}
+                      </span>
+                    </div>
+                  </TooltipTrigger>
+                  <TooltipContent side="bottom" className="max-w-xs">
+                    <p className="text-xs">
+                      Fecha calculada con la ruta crítica: {kanban.criticalPath.criticalTaskIds.size} {kanban.criticalPath.criticalTaskIds.size === 1 ? 'tarea' : 'tareas'} sin holgura. Se usan las fechas de inicio y límite o el tiempo estimado, y las dependencias con su desfase.
+                    </p>
+                  </TooltipContent>
+                </Tooltip>
+              </TooltipProvider>
+            )}
             
             {/* Archived Tasks Button */}
             <Button
@@ -305,6 +548,108 @@ export function KanbanBoard({ bookId }: KanbanBoardProps) {
             <span className="hidden sm:inline text-xs">Etiquetas</span>
           </Button>
 
+          {/* Automations Button */}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setShowAutomationsPanel(true)}
+            className="border-border gap-2"
+          >
+            <Zap className="w-4 h-4" />
+            <span className="hidden sm:inline text-xs">Automatizaciones</span>
+            {kanban.automations.some(a => a.enabled) && (
+              <span className="text-xs bg-primary/20 text-primary rounded-full px-1.5">
+                {kanban.automations.filter(a => a.enabled).length}
+              </span>
+            )}
+          </Button>
+
+          {/* Dependency Enforcement Setting */}
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                variant="outline"
+                size="sm"
+                className="border-border gap-2"
+                title="Control de dependencias"
+              >
+                <ShieldAlert className="w-4 h-4" />
+                <span className="hidden sm:inline text-xs">
+                  {ENFORCEMENT_OPTIONS[kanban.settings.dependencyEnforcement].label}
+                </span>
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="w-72">
+              <DropdownMenuLabel className="text-xs text-muted-foreground">
+                Al empezar, completar o entrar en columnas con prerequisitos
+              </DropdownMenuLabel>
+              <DropdownMenuRadioGroup
+                value={kanban.settings.dependencyEnforcement}
+                onValueChange={(value) => kanban.updateSettings({ dependencyEnforcement: value as DependencyEnforcementMode })}
+              >
+                {(Object.keys(ENFORCEMENT_OPTIONS) as DependencyEnforcementMode[]).map(mode => (
+                  <DropdownMenuRadioItem key={mode} value={mode} className="flex-col items-start">
+                    <span className="text-sm">{ENFORCEMENT_OPTIONS[mode].label}</span>
+                    <span className="text-xs text-muted-foreground">{ENFORCEMENT_OPTIONS[mode].description}</span>
+                  </DropdownMenuRadioItem>
+                ))}
+              </DropdownMenuRadioGroup>
+            </DropdownMenuContent>
+          </DropdownMenu>
+
+          {/* Backup Button */}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setShowBackupDialog(true)}
+            className="border-border gap-2"
+            title="Exportar o restaurar el libro"
+          >
+            <DatabaseBackup className="w-4 h-4" />
+            <span className="hidden sm:inline text-xs">Copia</span>
+          </Button>
+
+          {/* Storage Usage Button */}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setShowStorageDialog(true)}
+            className={cn("border-border gap-2", kanban.saveStatus === 'quota' && "border-destructive text-destructive")}
+            title="Espacio ocupado por cada libro"
+          >
+            <HardDrive className="w-4 h-4" />
+            <span className="hidden sm:inline text-xs">Espacio</span>
+          </Button>
+
+          {/* Versions Button */}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setShowVersionsPanel(true)}
+            className="border-border gap-2"
+            title="Versiones guardadas automáticamente"
+          >
+            <History className="w-4 h-4" />
+            <span className="hidden sm:inline text-xs">Versiones</span>
+          </Button>
+
+          {/* Integrity Report Button */}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setShowIntegrityReport(true)}
+            className="border-border gap-2"
+            title="Buscar referencias rotas"
+          >
+            <ShieldCheck className="w-4 h-4" />
+            <span className="hidden sm:inline text-xs">Integridad</span>
+            {kanban.integrityIssues.length > 0 && (
+              <span className="text-xs bg-amber-500/20 text-amber-600 rounded-full px-1.5">
+                {kanban.integrityIssues.length}
+              </span>
+            )}
+          </Button>
+
           {/* Column Visibility Manager */}
           <DropdownMenu>
             <DropdownMenuTrigger asChild>
@@ -383,6 +728,32 @@ export function KanbanBoard({ bookId }: KanbanBoardProps) {
         )}
       </header>
 
+      {/* A newer version took over storage in another tab; this one can no longer save */}
+      {kanban.storageAvailability === 'outdated' && (
+        <div className="flex items-center gap-3 border-b border-destructive/40 bg-destructive/10 px-6 py-2 text-sm flex-shrink-0">
+          <AlertTriangle className="w-4 h-4 text-destructive flex-shrink-0" />
+          <span className="flex-1">
+            Se ha abierto una versión más reciente de Publify en otra pestaña. Recarga esta pestaña para seguir guardando cambios.
+          </span>
+          <Button variant="outline" size="sm" onClick={() => window.location.reload()} className="h-7">
+            Recargar
+          </Button>
+        </div>
+      )}
+
+      {/* Pending load repair: nothing is saved until it is confirmed */}
+      {kanban.pendingRepair && (
+        <div className="flex items-center gap-3 border-b border-amber-500/40 bg-amber-500/10 px-6 py-2 text-sm flex-shrink-0">
+          <LifeBuoy className="w-4 h-4 text-amber-600 flex-shrink-0" />
+          <span className="flex-1">
+            Los datos guardados de este libro se han reparado al cargarlos. Los cambios no se guardarán hasta que confirmes la reparación.
+          </span>
+          <Button variant="outline" size="sm" onClick={() => setShowRecoveryDialog(true)} className="h-7">
+            Revisar
+          </Button>
+        </div>
+      )}
+
       {/* Main Content */}
       <main className="flex-1 overflow-hidden">
         {currentView === 'kanban' && (
@@ -446,10 +817,9 @@ export function KanbanBoard({ bookId }: KanbanBoardProps) {
                       kanban.updateTask(taskId, { isArchived: false });
                       toast.success('Tarea restaurada');
                     }}
-                    onUpdateTask={kanban.updateTask}
+                    onUpdateTask={handleUpdateTask}
                     onDeleteTask={(taskId) => {
-                      kanban.deleteTask(taskId);
-                      toast.success('Tarea eliminada');
+                      requestDeleteTask(taskId, () => toast.success('Tarea eliminada'));
                     }}
                     onMoveTaskToColumn={(taskId, targetColumnId) => {
                       const tasksInTarget = kanban.getTasksByColumn(targetColumnId).length;
@@ -478,11 +848,12 @@ export function KanbanBoard({ bookId }: KanbanBoardProps) {
               tasks={kanban.getFilteredTasks()}
               columns={kanban.columns}
               onTaskClick={handleTaskClick}
-              onUpdateTask={kanban.updateTask}
+              onUpdateTask={handleUpdateTask}
               getTaskBlockedStatus={(taskId) => {
                 const result = kanban.isTaskBlocked(taskId);
                 return { blocked: result.blocked, blockingTasks: result.blockingTasks };
               }}
+              criticalPath={kanban.criticalPath}
             />
           )}
 
@@ -493,7 +864,7 @@ export function KanbanBoard({ bookId }: KanbanBoardProps) {
               availableTags={kanban.availableTags}
               onTaskClick={handleTaskClick}
               onAddTask={kanban.addTask}
-              onUpdateTask={kanban.updateTask}
+              onUpdateTask={handleUpdateTask}
             />
           )}
 
@@ -502,8 +873,45 @@ export function KanbanBoard({ bookId }: KanbanBoardProps) {
               tasks={kanban.getFilteredTasks()}
               columns={kanban.columns}
               onTaskClick={handleTaskClick}
-              onUpdateTask={kanban.updateTask}
+              onUpdateTask={handleUpdateTask}
               getDependencyEdges={kanban.getDependencyEdges}
+              criticalPath={kanban.criticalPath}
+              previewReschedule={kanban.previewReschedule}
+              onApplyReschedule={(shifts) => {
+                kanban.applyReschedule(shifts);
+                toast.success(`${shifts.length} ${shifts.length === 1 ? 'tarea reprogramada' : 'tareas reprogramadas'}`);
+              }}
+              wouldCreateCycle={kanban.wouldCreateCycle}
+              onAddDependency={(taskId, dependsOnTaskId, type) => {
+                kanban.addDependency(taskId, dependsOnTaskId, type);
+                toast.success('Dependencia creada');
+              }}
+              onUpdateDependency={kanban.updateDependency}
+              onRemoveDependency={(taskId, dependencyId) => {
+                kanban.removeDependency(taskId, dependencyId);
+                toast.success('Dependencia eliminada');
+              }}
+            />
+          )}
+
+          {currentView === 'graph' && (
+            <GraphView
+              tasks={kanban.getFilteredTasks()}
+              onTaskClick={handleTaskClick}
+              getDependencyEdges={kanban.getDependencyEdges}
+              getTaskBlockedStatus={(taskId) => {
+                const result = kanban.isTaskBlocked(taskId);
+                return { blocked: result.blocked, blockingTasks: result.blockingTasks };
+              }}
+              wouldCreateCycle={(taskId, dependsOnTaskId) => kanban.wouldCreateCycle(taskId, dependsOnTaskId)}
+              onAddDependency={(taskId, dependsOnTaskId) => {
+                kanban.addDependency(taskId, dependsOnTaskId);
+                toast.success('Dependencia creada');
+              }}
+              onRemoveDependency={(taskId, dependencyId) => {
+                kanban.removeDependency(taskId, dependencyId);
+                toast.success('Dependencia eliminada');
+              }}
             />
           )}
 
@@ -537,10 +945,9 @@ export function KanbanBoard({ bookId }: KanbanBoardProps) {
           availableTags={kanban.availableTags}
           allTasks={kanban.tasks}
           onClose={handleClosePanel}
-          onUpdate={(updates) => kanban.updateTask(selectedTaskId, updates)}
+          onUpdate={(updates) => handleUpdateTask(selectedTaskId, updates)}
           onDelete={() => {
-            kanban.deleteTask(selectedTaskId);
-            handleClosePanel();
+            requestDeleteTask(selectedTaskId, handleClosePanel);
           }}
           onDuplicate={() => kanban.duplicateTask(selectedTaskId)}
           onArchive={() => {
@@ -552,13 +959,14 @@ export function KanbanBoard({ bookId }: KanbanBoardProps) {
             }
           }}
           onAddChecklistItem={(text) => kanban.addChecklistItem(selectedTaskId, text)}
-          onToggleChecklistItem={(itemId) => kanban.toggleChecklistItem(selectedTaskId, itemId)}
-          onDeleteChecklistItem={(itemId) => kanban.deleteChecklistItem(selectedTaskId, itemId)}
-          onAddDependency={(dependsOnTaskId) => kanban.addDependency(selectedTaskId, dependsOnTaskId)}
+          onToggleChecklistItem={(itemId) => handleToggleChecklistItem(selectedTaskId, itemId)}
+          onDeleteChecklistItem={(itemId) => handleDeleteChecklistItem(selectedTaskId, itemId)}
+          onAddDependency={(dependsOnTaskId, type, lagDays) => kanban.addDependency(selectedTaskId, dependsOnTaskId, type, lagDays)}
+          onUpdateDependency={(dependencyId, updates) => kanban.updateDependency(selectedTaskId, dependencyId, updates)}
           onRemoveDependency={(dependencyId) => kanban.removeDependency(selectedTaskId, dependencyId)}
           isBlocked={kanban.isTaskBlocked(selectedTaskId).blocked}
           blockingTasks={kanban.isTaskBlocked(selectedTaskId).blockingTasks}
-          wouldCreateCycle={(dependsOnTaskId) => kanban.wouldCreateCycle(selectedTaskId, dependsOnTaskId)}
+          wouldCreateCycle={(dependsOnTaskId, type) => kanban.wouldCreateCycle(selectedTaskId, dependsOnTaskId, type)}
         />
       )}
 
@@ -582,6 +990,229 @@ export function KanbanBoard({ bookId }: KanbanBoardProps) {
         onDeleteTag={kanban.deleteTag}
       />
 
+      {/* Automations Panel */}
+      <Dialog open={showAutomationsPanel} onOpenChange={setShowAutomationsPanel}>
+        <DialogContent className="sm:max-w-[560px] h-[80vh] p-0 gap-0 border-0 bg-transparent">
+          <AutomationsPanel
+            automations={kanban.automations}
+            logs={kanban.automationLogs}
+            onToggle={kanban.toggleAutomation}
+            onDelete={(automationId) => {
+              kanban.deleteAutomation(automationId);
+              toast.success('Automatización eliminada');
+            }}
+            onEdit={(automation) => handleOpenRuleBuilder(automation)}
+            onCreate={() => handleOpenRuleBuilder(null)}
+            onExport={() => {
+              downloadFile(kanban.exportAutomations(), `automatizaciones-${kanban.bookId}.json`, 'application/json');
+            }}
+            onImport={(json) => {
+              try {
+                const { drafts, warnings } = kanban.importAutomations(json);
+                toast.success(`${drafts.length} automatización(es) importada(s)`);
+                if (warnings.length > 0) {
+                  toast.warning('Revisa las reglas importadas', {
+                    description: warnings.join('\n'),
+                    duration: 10000,
+                  });
+                }
+              } catch (error) {
+                toast.error('No se pudo importar', {
+                  description: error instanceof Error ? error.message : String(error),
+                });
+              }
+            }}
+            onInstallTemplate={(templateId) => {
+              const result = kanban.installAutomationTemplate(templateId);
+              if (!result) return;
+              toast.success('Plantilla instalada');
+              if (result.warnings.length > 0) {
+                toast.warning('Revisa la regla instalada', { description: result.warnings.join('\n') });
+              }
+            }}
+          />
+        </DialogContent>
+      </Dialog>
+
+      {/* Automation Rule Builder */}
+      <AutomationRuleBuilder
+        open={showRuleBuilder}
+        onOpenChange={setShowRuleBuilder}
+        automation={editingAutomation}
+        columns={kanban.allColumns}
+        tags={kanban.availableTags}
+        tasks={kanban.tasks}
+        validate={kanban.validateAutomation}
+        onTest={kanban.testAutomation}
+        onSimulate={kanban.simulateAutomation}
+        onSave={(draft) => {
+          if (editingAutomation) {
+            kanban.updateAutomation(editingAutomation.id, draft);
+            toast.success('Automatización actualizada');
+          } else {
+            kanban.addAutomation(draft);
+            toast.success('Automatización creada');
+          }
+        }}
+      />
+
+      {/* Dependency Override Dialog */}
+      {pendingOverride && (
+        <DependencyOverrideDialog
+          open
+          onOpenChange={(open) => !open && setPendingOverride(null)}
+          taskTitle={kanban.tasks.find(t => t.id === pendingOverride.taskId)?.title ?? ''}
+          transitionLabel={pendingOverride.transitionLabel}
+          blockingTasks={pendingOverride.blockingTasks}
+          onConfirm={(reason) => {
+            pendingOverride.apply({ reason });
+            setPendingOverride(null);
+            toast.success('Cambio forzado y registrado en la tarea');
+          }}
+        />
+      )}
+
+      {/* Delete a task that others depend on */}
+      {pendingDeletion && pendingDeletionTask && (
+        <TaskDeletionDialog
+          open
+          onOpenChange={(open) => !open && setPendingDeletion(null)}
+          task={pendingDeletionTask}
+          dependents={pendingDeletionDependents}
+          candidates={repointCandidates}
+          onConfirm={(repointDependenciesTo) => {
+            kanban.deleteTask(pendingDeletion.taskId, repointDependenciesTo);
+            pendingDeletion.onDeleted?.();
+            setPendingDeletion(null);
+          }}
+        />
+      )}
+
+      <IntegrityReportDialog
+        open={showIntegrityReport}
+        onOpenChange={setShowIntegrityReport}
+        issues={kanban.integrityIssues}
+        fallbackColumn={visibleColumns[0]}
+        onRepair={(issueIds) => {
+          const count = issueIds?.length ?? kanban.integrityIssues.length;
+          kanban.repairIntegrity(issueIds);
+          toast.success(count === 1 ? 'Referencia reparada' : `${count} referencias reparadas`);
+        }}
+      />
+
+      <BookBackupDialog
+        open={showBackupDialog}
+        onOpenChange={setShowBackupDialog}
+        onExport={() => {
+          const stamp = format(new Date(), 'yyyyMMdd-HHmm');
+          downloadFile(kanban.exportBook(), `libro-${kanban.bookId}-${stamp}.json`, 'application/json');
+        }}
+        onParse={kanban.parseBackup}
+        onRestore={async (imported, mode) => {
+          try {
+            const targetBookId = await kanban.restoreBackup(imported, mode);
+            setShowBackupDialog(false);
+            if (mode === 'replace') {
+              toast.success('Libro restaurado', { description: 'Puedes deshacerlo con Ctrl+Z' });
+            } else {
+              toast.success('Copia importada como libro nuevo', {
+                description: targetBookId,
+                action: { label: 'Abrir', onClick: () => navigate(`/?book=${encodeURIComponent(targetBookId)}`) },
+              });
+            }
+          } catch (error) {
+            toast.error('No se pudo restaurar', {
+              description: error instanceof Error ? error.message : String(error),
+            });
+          }
+        }}
+      />
+
+      <StorageUsageDialog
+        open={showStorageDialog}
+        onOpenChange={setShowStorageDialog}
+        currentBookId={kanban.bookId}
+        saveStatus={kanban.saveStatus}
+        onMeasure={kanban.measureStorage}
+        onRetrySave={kanban.retrySave}
+        onPurgeLogs={async (bookId, before) => {
+          try {
+            await kanban.purgeLogs(bookId, before);
+            toast.success('Registros borrados');
+          } catch (error) {
+            toast.error('No se pudieron borrar los registros', {
+              description: error instanceof Error ? error.message : String(error),
+            });
+          }
+        }}
+        onPurgeSnapshots={async (bookId) => {
+          try {
+            await kanban.purgeSnapshots(bookId);
+            toast.success('Versiones antiguas borradas');
+          } catch (error) {
+            toast.error('No se pudieron borrar las versiones', {
+              description: error instanceof Error ? error.message : String(error),
+            });
+          }
+        }}
+        onPurgeArchived={() => {
+          kanban.purgeArchivedTasks();
+          toast.success('Tareas archivadas eliminadas', { description: 'Puedes deshacerlo con Ctrl+Z' });
+        }}
+        onEmptyRecovery={(bookId) => {
+          kanban.emptyRecoveryBin(bookId);
+          toast.success('Papelera de recuperación vaciada');
+        }}
+      />
+
+      <RecoveryDialog
+        open={showRecoveryDialog}
+        onOpenChange={setShowRecoveryDialog}
+        repair={kanban.pendingRepair}
+        items={kanban.recoveryItems}
+        onConfirm={() => {
+          kanban.confirmRepair();
+          toast.success('Reparación confirmada', { description: 'El tablero reparado se ha guardado' });
+        }}
+        onDownload={(items) => {
+          const stamp = format(new Date(), 'yyyyMMdd-HHmm');
+          downloadFile(JSON.stringify(items, null, 2), `recuperacion-${kanban.bookId}-${stamp}.json`, 'application/json');
+        }}
+        onDiscard={kanban.discardRecoveryItems}
+      />
+
+      <VersionsPanel
+        open={showVersionsPanel}
+        onOpenChange={setShowVersionsPanel}
+        onList={kanban.listSnapshots}
+        onLoad={kanban.loadSnapshot}
+        onDiff={kanban.diffSnapshot}
+        backend={kanban.storageBackend}
+        onRestore={(snapshotState) => {
+          kanban.restoreSnapshot(snapshotState);
+          setShowVersionsPanel(false);
+          toast.success('Versión restaurada', { description: 'Puedes deshacerlo con Ctrl+Z' });
+        }}
+        onRestoreTasks={(tasks) => {
+          kanban.restoreSnapshotTasks(tasks);
+          toast.success(tasks.length === 1 ? 'Tarea restaurada' : `${tasks.length} tareas restauradas`);
+        }}
+      />
+
+      <SyncConflictDialog
+        open={showSyncConflicts}
+        onOpenChange={setShowSyncConflicts}
+        conflicts={kanban.syncConflicts}
+        resolved={kanban.resolvedConflicts}
+        columns={kanban.allColumns}
+        onResolve={(choices) => {
+          const count = Object.keys(choices).length;
+          kanban.resolveConflicts(choices);
+          toast.success(count === 1 ? 'Conflicto resuelto' : `${count} conflictos resueltos`);
+          if (count >= kanban.syncConflicts.length) setShowSyncConflicts(false);
+        }}
+      />
+
       {/* Archived Tasks Panel */}
       <ArchivedTasksPanel
         open={showArchivedPanel}
@@ -595,8 +1226,7 @@ export function KanbanBoard({ bookId }: KanbanBoardProps) {
           toast.success('Tarea restaurada');
         }}
         onDeleteTask={(taskId) => {
-          kanban.deleteTask(taskId);
-          toast.success('Tarea eliminada');
+          requestDeleteTask(taskId, () => toast.success('Tarea eliminada'));
         }}
         onBulkRestore={(taskIds, targetColumnId) => {
           taskIds.forEach(taskId => {
@@ -2,9 +2,8 @@ import { useState, useRef } from 'react';
 import { 
   MoreHorizontal, Plus, GripVertical, Pencil, Trash2, EyeOff,
   Search, Layout, FileText, Edit3, Palette, CheckCircle, Upload,
-  TrendingUp, Megaphone, Settings, Check, Folder, Ban, Archive, Lock, Lightbulb
+  TrendingUp, Megaphone, Settings, Check, Folder, Archive, Lock, Lightbulb
 } from 'lucide-react';
-import { toast } from 'sonner';
 import { Column, Task } from '@/types/kanban';
 import { TaskCard } from './TaskCard';
 import { Button } from '@/components/ui/button';
@@ -14,6 +13,7 @@ import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuCheckboxItem,
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
@@ -160,18 +160,7 @@ export function KanbanColumn({
     const taskId = draggedTaskId || e.dataTransfer.getData('application/x-task-id') || e.dataTransfer.getData('text/plain');
     
     if (taskId && dropIndex !== null) {
-      if (shouldBlockMoveToColumn) {
-        const blockCheck = shouldBlockMoveToColumn(taskId, column.id);
-        if (blockCheck.blocked) {
-          const blockingNames = blockCheck.blockingTasks.map(t => `"${t.title}"`).join(', ');
-          toast.error('No se puede mover a esta columna', {
-            description: `Tareas bloqueando: ${blockingNames}`,
-            icon: <Ban className="w-4 h-4" />,
-          });
-          setDropIndex(null);
-          return;
-        }
-      }
+      // Prerequisite blocks are resolved by the board (override dialog / warning)
       onMoveTask(taskId, column.id, dropIndex);
     }
     setDropIndex(null);
@@ -218,6 +207,7 @@ export function KanbanColumn({
 
   const isOverWipLimit = column.wipLimit !== null && tasks.length >= column.wipLimit;
   const showWipWarning = wouldExceedWipLimit && draggedTaskId !== null;
+  const showPrerequisiteWarning = !!draggedTaskId && !!shouldBlockMoveToColumn?.(draggedTaskId, column.id).blocked;
   const columnIcon = iconMap[column.icon] || <Folder className="w-4 h-4" />;
 
   const [isColumnDropTarget, setIsColumnDropTarget] = useState(false);
@@ -229,7 +219,8 @@ export function KanbanColumn({
         "kanban-column transition-all duration-200 overflow-hidden relative",
         isDraggingColumn && "opacity-50 scale-95 ring-2 ring-primary/50",
         isColumnDropTarget && !isDraggingColumn && !isAnyTaskDragging && "ring-2 ring-primary/50",
-        showWipWarning && "ring-2 ring-destructive/50 bg-destructive/5"
+        showWipWarning && "ring-2 ring-destructive/50 bg-destructive/5",
+        showPrerequisiteWarning && !showWipWarning && "ring-2 ring-amber-500/50 bg-amber-500/5"
       )}
       onDragOver={(e) => {
         handleColumnDragOver(e);
@@ -288,6 +279,11 @@ export function KanbanColumn({
               {column.title}
             </h3>
           )}
+          {column.requiresPrerequisites && (
+            <span title="Requiere prerequisitos completados" className="flex-shrink-0">
+              <Lock className="w-3 h-3 text-muted-foreground" />
+            </span>
+          )}
           
           <span className={cn(
             "text-xs font-medium px-2 py-0.5 rounded-full flex-shrink-0",
@@ -315,6 +311,12 @@ export function KanbanColumn({
               <EyeOff className="w-4 h-4 mr-2" />
               Ocultar columna
             </DropdownMenuItem>
+            <DropdownMenuCheckboxItem
+              checked={!!column.requiresPrerequisites}
+              onCheckedChange={(checked) => onUpdateColumn({ requiresPrerequisites: checked })}
+            >
+              Requiere prerequisitos
+            </DropdownMenuCheckboxItem>
             <DropdownMenuSeparator />
             {column.isSystemColumn ? (
               <DropdownMenuItem disabled className="text-muted-foreground">
@@ -2,7 +2,7 @@ import { useState, useRef, useCallback, useEffect } from 'react';
 import { 
   ChevronDown, ChevronUp, Calendar, User, Tag, AlertCircle, Globe, Circle,
   Search, Layout, FileText, Edit3, Palette, CheckCircle, Upload,
-  TrendingUp, Megaphone, Settings, Check, Folder, GripVertical, Ban, Percent
+  TrendingUp, Megaphone, Settings, Check, Folder, GripVertical, Ban, Percent, Route
 } from 'lucide-react';
 import {
   Tooltip,
@@ -15,6 +15,7 @@ import { cn } from '@/lib/utils';
 import { format } from 'date-fns';
 import { es } from 'date-fns/locale';
 import { InlinePrioritySelect, InlineStatusSelect } from './InlineEditors';
+import { CriticalPathResult } from '@/hooks/kanban/kanban.criticalPath';
 
 // Icon mapping for rendering column icons in list view
 const iconMap: Record<string, React.ReactNode> = {
@@ -38,6 +39,7 @@ interface ListViewProps {
   onTaskClick: (task: Task) => void;
   onUpdateTask: (taskId: string, updates: Partial<Task>) => void;
   getTaskBlockedStatus?: (taskId: string) => { blocked: boolean; blockingTasks: Task[] };
+  criticalPath?: CriticalPathResult;
 }
 
 type SortField = 'title' | 'priority' | 'dueDate' | 'createdAt' | 'status' | 'assignee' | 'market' | 'taskStatus' | 'progress';
@@ -87,7 +89,7 @@ const getTaskProgress = (task: Task) => {
   return Math.round((completed / subtasks.length) * 100);
 };
 
-export function ListView({ tasks, columns, onTaskClick, onUpdateTask, getTaskBlockedStatus }: ListViewProps) {
+export function ListView({ tasks, columns, onTaskClick, onUpdateTask, getTaskBlockedStatus, criticalPath }: ListViewProps) {
   const [sortField, setSortField] = useState<SortField>('createdAt');
   const [sortDirection, setSortDirection] = useState<SortDirection>('desc');
   const [columnWidths, setColumnWidths] = useState(DEFAULT_WIDTHS);
@@ -250,10 +252,14 @@ export function ListView({ tasks, columns, onTaskClick, onUpdateTask, getTaskBlo
               {sortedTasks.map(task => {
                 const column = getColumnById(task.columnId);
                 const progress = getTaskProgress(task);
+                const schedule = criticalPath?.schedules.get(task.id);
                 return (
                   <tr
                     key={task.id}
-                    className="hover:bg-muted/30 cursor-pointer transition-colors"
+                    className={cn(
+                      "hover:bg-muted/30 cursor-pointer transition-colors",
+                      schedule?.isCritical && "bg-destructive/5"
+                    )}
                     onClick={() => onTaskClick(task)}
                   >
                     <td className="px-4 py-3" style={{ width: columnWidths.title }}>
@@ -284,8 +290,32 @@ export function ListView({ tasks, columns, onTaskClick, onUpdateTask, getTaskBlo
                           }
                           return null;
                         })()}
+                        {/* Critical path indicator */}
+                        {schedule?.isCritical && (
+                          <TooltipProvider>
+                            <Tooltip>
+                              <TooltipTrigger asChild>
+                                <span className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded text-xs font-medium bg-destructive/10 text-destructive flex-shrink-0 mt-0.5">
+                                  <Route className="w-3 h-3" />
+                                </span>
+                              </TooltipTrigger>
+                              <TooltipContent side="right" className="max-w-xs">
+                                <p className="font-medium mb-1">Ruta crítica</p>
+                                <p className="text-xs">
+                                  Inicio: {format(schedule.earlyStart, 'd MMM', { locale: es })} · Fin: {format(schedule.earlyFinish, 'd MMM', { locale: es })}
+                                </p>
+                                <p className="text-xs text-muted-foreground">Cualquier retraso mueve la fecha de fin del libro.</p>
+                              </TooltipContent>
+                            </Tooltip>
+                          </TooltipProvider>
+                        )}
                         <div className="min-w-0 flex-1">
                           <p className="font-medium text-foreground truncate">{task.title}</p>
+                          {schedule && !schedule.isCritical && schedule.totalFloat > 0 && task.status !== 'completed' && (
+                            <p className="text-xs text-muted-foreground mt-0.5">
+                              Holgura: {schedule.totalFloat} {schedule.totalFloat === 1 ? 'día' : 'días'}
+                            </p>
+                          )}
                           {task.description && (
                             <p className="text-sm text-muted-foreground line-clamp-1 mt-0.5">
                               {task.description}
@@ -0,0 +1,179 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { LifeBuoy, Wrench, Download, Trash2, AlertTriangle, ChevronRight } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { StateSection } from '@/hooks/kanban/kanban.schema';
+import { LoadRepair, RecoveryItem } from '@/hooks/kanban/kanban.recovery';
+import { cn } from '@/lib/utils';
+
+interface RecoveryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Repair waiting for confirmation, if the last load needed one */
+  repair: LoadRepair | null;
+  items: RecoveryItem[];
+  onConfirm: () => void;
+  onDownload: (items: RecoveryItem[]) => void;
+  onDiscard: (itemIds: string[]) => void;
+}
+
+const sectionLabels: Record<StateSection | 'payload', string> = {
+  tasks: 'Tarea',
+  columns: 'Columna',
+  tags: 'Etiqueta',
+  notes: 'Nota',
+  automations: 'Automatización',
+  filter: 'Filtro',
+  settings: 'Ajustes',
+  payload: 'Tablero completo',
+};
+
+export function RecoveryDialog({
+  open,
+  onOpenChange,
+  repair,
+  items,
+  onConfirm,
+  onDownload,
+  onDiscard,
+}: RecoveryDialogProps) {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px] max-h-[85vh] flex flex-col bg-card border-border">
+        <DialogHeader>
+          <DialogTitle className="font-heading text-xl flex items-center gap-2">
+            <LifeBuoy className="w-5 h-5" />
+            Recuperación de datos
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="flex-1 min-h-0 overflow-y-auto space-y-4">
+          {/* Pending repair */}
+          {repair && (
+            <div className="rounded-lg border border-amber-500/40 bg-amber-500/5 p-3 space-y-2">
+              <h3 className="text-sm font-medium flex items-center gap-2">
+                <AlertTriangle className="w-4 h-4 text-amber-500" />
+                {repair.unreadable
+                  ? 'No se pudo leer el tablero guardado'
+                  : 'El tablero guardado tenía datos no válidos'}
+              </h3>
+              <p className="text-xs text-muted-foreground">
+                {repair.unreadable
+                  ? 'Se muestra un tablero nuevo. '
+                  : 'Se muestra una versión reparada. '}
+                Los datos originales no se modificarán hasta que confirmes; mientras tanto, los cambios no se guardan.
+              </p>
+              {repair.repairs.length > 0 && (
+                <div className="rounded border border-border divide-y divide-border max-h-40 overflow-y-auto bg-card">
+                  {repair.repairs.map((fieldRepair, i) => (
+                    <div key={`${fieldRepair.section}-${fieldRepair.id}-${fieldRepair.field}-${i}`} className="px-3 py-1.5 text-xs">
+                      <span className="font-medium">{sectionLabels[fieldRepair.section]}</span>
+                      {(fieldRepair.label || fieldRepair.id) && <span> · {fieldRepair.label || fieldRepair.id}</span>}
+                      <span className="text-muted-foreground"> — {fieldRepair.field}: {fieldRepair.reason}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+              {repair.quarantined.length > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  {repair.quarantined.length === 1
+                    ? '1 registro no se pudo reparar y se ha movido a la papelera de recuperación.'
+                    : `${repair.quarantined.length} registros no se pudieron reparar y se han movido a la papelera de recuperación.`}
+                </p>
+              )}
+              <div className="flex justify-end">
+                <Button size="sm" onClick={onConfirm} className="gap-2">
+                  <Wrench className="w-4 h-4" />
+                  {repair.unreadable ? 'Usar el tablero nuevo' : 'Confirmar reparación'}
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {/* Recovery bin */}
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <h3 className="flex-1 text-sm font-medium">Papelera de recuperación</h3>
+              {items.length > 0 && (
+                <>
+                  <Button variant="outline" size="sm" onClick={() => onDownload(items)} className="gap-2">
+                    <Download className="w-4 h-4" />
+                    Descargar
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => onDiscard(items.map(item => item.id))}
+                    className="gap-2 text-destructive"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                    Vaciar
+                  </Button>
+                </>
+              )}
+            </div>
+
+            {items.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No hay registros apartados.</p>
+            ) : (
+              <div className="rounded-lg border border-border divide-y divide-border">
+                {items.map(item => (
+                  <div key={item.id}>
+                    <div className="flex items-center gap-2 px-3 py-2 text-sm">
+                      <button
+                        type="button"
+                        onClick={() => setExpandedId(expandedId === item.id ? null : item.id)}
+                        className="flex-1 min-w-0 flex items-center gap-2 text-left"
+                      >
+                        <ChevronRight
+                          className={cn('w-4 h-4 flex-shrink-0 transition-transform', expandedId === item.id && 'rotate-90')}
+                        />
+                        <span className="font-medium">{sectionLabels[item.collection]}</span>
+                        {(item.label || item.recordId) && (
+                          <span className="truncate">· {item.label || item.recordId}</span>
+                        )}
+                        <span className="text-xs text-muted-foreground truncate">— {item.reason}</span>
+                      </button>
+                      <span className="text-xs text-muted-foreground flex-shrink-0">
+                        {format(new Date(item.quarantinedAt), 'd MMM HH:mm', { locale: es })}
+                      </span>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7 flex-shrink-0"
+                        onClick={() => onDiscard([item.id])}
+                        title="Descartar"
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </Button>
+                    </div>
+                    {expandedId === item.id && (
+                      <pre className="mx-3 mb-2 max-h-48 overflow-auto rounded bg-muted/50 p-2 text-[11px] whitespace-pre-wrap break-all">
+                        {typeof item.raw === 'string' ? item.raw : JSON.stringify(item.raw, null, 2)}
+                      </pre>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="flex justify-end">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cerrar
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
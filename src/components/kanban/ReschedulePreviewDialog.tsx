@@ -0,0 +1,80 @@
+import { ArrowRight, CalendarClock } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { RescheduleShift } from '@/hooks/kanban/kanban.reschedule';
+
+interface ReschedulePreviewDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Task whose new dates triggered the cascade */
+  sourceTaskTitle: string;
+  shifts: RescheduleShift[];
+  /** Title lookup for the prerequisite that forced each move */
+  getTaskTitle: (taskId: string) => string;
+  onConfirm: () => void;
+}
+
+const formatDate = (date: Date | null) => (date ? format(new Date(date), 'd MMM', { locale: es }) : '—');
+
+export function ReschedulePreviewDialog({
+  open,
+  onOpenChange,
+  sourceTaskTitle,
+  shifts,
+  getTaskTitle,
+  onConfirm,
+}: ReschedulePreviewDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px] bg-card border-border">
+        <DialogHeader>
+          <DialogTitle className="font-heading text-xl flex items-center gap-2">
+            <CalendarClock className="w-5 h-5" />
+            Reprogramar dependientes
+          </DialogTitle>
+        </DialogHeader>
+
+        <p className="text-sm text-muted-foreground">
+          Las nuevas fechas de <span className="font-medium text-foreground">"{sourceTaskTitle}"</span> no
+          dejan margen a {shifts.length === 1 ? 'una tarea dependiente' : `${shifts.length} tareas dependientes`}.
+          Se moverán manteniendo su duración en días laborables:
+        </p>
+
+        <div className="max-h-72 overflow-y-auto rounded-lg border border-border divide-y divide-border">
+          {shifts.map(shift => (
+            <div key={shift.taskId} className="px-3 py-2 text-sm">
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium truncate">{shift.taskTitle}</span>
+                <span className="text-xs px-1.5 py-0.5 rounded bg-amber-500/15 text-amber-600 flex-shrink-0">
+                  +{shift.shiftDays} {shift.shiftDays === 1 ? 'día' : 'días'}
+                </span>
+              </div>
+              <div className="flex items-center gap-2 text-xs text-muted-foreground mt-1">
+                <span>{formatDate(shift.previousStartDate)} – {formatDate(shift.previousDueDate)}</span>
+                <ArrowRight className="w-3 h-3" />
+                <span className="text-foreground">{formatDate(shift.startDate)} – {formatDate(shift.dueDate)}</span>
+                <span className="ml-auto truncate">por "{getTaskTitle(shift.causedByTaskId)}"</span>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Mantener fechas
+          </Button>
+          <Button onClick={onConfirm}>
+            Reprogramar {shifts.length} {shifts.length === 1 ? 'tarea' : 'tareas'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,12 +1,14 @@
-import { Check, Loader2, Cloud } from 'lucide-react';
+import { Check, Loader2, Cloud, CloudOff, RefreshCw, AlertTriangle, HardDrive } from 'lucide-react';
 import { SaveStatus } from '@/hooks/kanban';
 import { cn } from '@/lib/utils';
 
 interface SaveIndicatorProps {
   status: SaveStatus;
+  /** Local changes waiting to be synced */
+  pendingChanges?: number;
 }
 
-export function SaveIndicator({ status }: SaveIndicatorProps) {
+export function SaveIndicator({ status, pendingChanges = 0 }: SaveIndicatorProps) {
   if (status === 'idle') {
     return null;
   }
@@ -17,8 +19,17 @@ export function SaveIndicator({ status }: SaveIndicatorProps) {
         "flex items-center gap-1.5 text-xs font-medium px-2 py-1 rounded-md transition-all",
         status === 'saving' && "text-muted-foreground bg-muted/50",
         status === 'saved' && "text-emerald-600 bg-emerald-50 dark:text-emerald-400 dark:bg-emerald-950/30",
-        status === 'error' && "text-destructive bg-destructive/10"
+        status === 'error' && "text-destructive bg-destructive/10",
+        status === 'quota' && "text-destructive bg-destructive/10",
+        status === 'syncing' && "text-muted-foreground bg-muted/50",
+        status === 'offline' && "text-amber-600 bg-amber-50 dark:text-amber-400 dark:bg-amber-950/30",
+        status === 'conflict' && "text-orange-600 bg-orange-50 dark:text-orange-400 dark:bg-orange-950/30"
       )}
+      title={
+        status === 'conflict' ? 'Otro dispositivo modificó los mismos elementos; se ha aplicado la versión del servidor'
+          : status === 'quota' ? 'El almacenamiento del navegador está lleno; los últimos cambios no se han guardado'
+          : undefined
+      }
     >
       {status === 'saving' && (
         <>
@@ -38,6 +49,30 @@ export function SaveIndicator({ status }: SaveIndicatorProps) {
           <span>Error</span>
         </>
       )}
+      {status === 'quota' && (
+        <>
+          <HardDrive className="w-3 h-3" />
+          <span>Sin espacio</span>
+        </>
+      )}
+      {status === 'syncing' && (
+        <>
+          <RefreshCw className="w-3 h-3 animate-spin" />
+          <span>Sincronizando...</span>
+        </>
+      )}
+      {status === 'offline' && (
+        <>
+          <CloudOff className="w-3 h-3" />
+          <span>Sin conexión{pendingChanges > 0 && ` · ${pendingChanges} pendiente${pendingChanges === 1 ? '' : 's'}`}</span>
+        </>
+      )}
+      {status === 'conflict' && (
+        <>
+          <AlertTriangle className="w-3 h-3" />
+          <span>Conflicto</span>
+        </>
+      )}
     </div>
   );
 }
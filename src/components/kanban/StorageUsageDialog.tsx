@@ -0,0 +1,293 @@
+import { useState, useEffect, useCallback } from 'react';
+import { HardDrive, Loader2, AlertTriangle, Eraser, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { SaveStatus } from '@/hooks/kanban';
+import { BookUsage, StorageEstimate, UsageCategory } from '@/hooks/kanban/kanban.usage';
+
+interface StorageUsageDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  currentBookId: string;
+  saveStatus: SaveStatus;
+  onMeasure: () => Promise<{ books: BookUsage[]; estimate: StorageEstimate } | null>;
+  onRetrySave: () => void;
+  onPurgeLogs: (bookId: string, before: Date | null) => Promise<void>;
+  onPurgeSnapshots: (bookId: string) => Promise<void>;
+  onPurgeArchived: () => void;
+  onEmptyRecovery: (bookId: string) => void;
+}
+
+const categoryConfig: Record<UsageCategory, { label: string; color: string }> = {
+  tasks: { label: 'Tareas', color: '#6366F1' },
+  attachments: { label: 'Adjuntos', color: '#F59E0B' },
+  notes: { label: 'Notas', color: '#10B981' },
+  logs: { label: 'Registros', color: '#8B5CF6' },
+  snapshots: { label: 'Versiones', color: '#06B6D4' },
+  other: { label: 'Otros', color: '#94A3B8' },
+};
+
+const backendLabels: Record<StorageEstimate['backend'], string> = {
+  indexeddb: 'IndexedDB',
+  localstorage: 'localStorage',
+};
+
+const LOG_AGE_DAYS = 30;
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toLocaleString('es', { maximumFractionDigits: 1 })} KB`;
+  return `${(bytes / 1024 / 1024).toLocaleString('es', { maximumFractionDigits: 1 })} MB`;
+}
+
+interface PendingPurge {
+  description: string;
+  run: () => Promise<void> | void;
+}
+
+export function StorageUsageDialog({
+  open,
+  onOpenChange,
+  currentBookId,
+  saveStatus,
+  onMeasure,
+  onRetrySave,
+  onPurgeLogs,
+  onPurgeSnapshots,
+  onPurgeArchived,
+  onEmptyRecovery,
+}: StorageUsageDialogProps) {
+  const [usage, setUsage] = useState<{ books: BookUsage[]; estimate: StorageEstimate } | null>(null);
+  const [isMeasuring, setIsMeasuring] = useState(false);
+  const [pendingPurge, setPendingPurge] = useState<PendingPurge | null>(null);
+  const [isPurging, setIsPurging] = useState(false);
+
+  const measure = useCallback(async () => {
+    setIsMeasuring(true);
+    try {
+      setUsage(await onMeasure());
+    } catch (error) {
+      console.error('[Kanban Storage] Error measuring usage:', error);
+    } finally {
+      setIsMeasuring(false);
+    }
+  }, [onMeasure]);
+
+  useEffect(() => {
+    if (!open) return;
+    setPendingPurge(null);
+    measure();
+  }, [open, measure]);
+
+  // Board changes (e.g. purged archived tasks) reach storage with the next save
+  useEffect(() => {
+    if (open && saveStatus === 'saved') measure();
+  }, [open, saveStatus, measure]);
+
+  const runPurge = async () => {
+    if (!pendingPurge) return;
+    setIsPurging(true);
+    try {
+      await pendingPurge.run();
+      setPendingPurge(null);
+      await measure();
+    } finally {
+      setIsPurging(false);
+    }
+  };
+
+  const estimate = usage?.estimate;
+  const usedPercent = estimate?.used != null && estimate.quota
+    ? Math.min(100, Math.round((estimate.used / estimate.quota) * 100))
+    : null;
+  const logCutoff = () => new Date(Date.now() - LOG_AGE_DAYS * 24 * 60 * 60 * 1000);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px] max-h-[85vh] flex flex-col bg-card border-border">
+        <DialogHeader>
+          <DialogTitle className="font-heading text-xl flex items-center gap-2">
+            <HardDrive className="w-5 h-5" />
+            Almacenamiento
+          </DialogTitle>
+        </DialogHeader>
+
+        {saveStatus === 'quota' && (
+          <div className="flex items-center gap-3 rounded-lg border border-destructive/40 bg-destructive/10 p-3 text-sm">
+            <AlertTriangle className="w-4 h-4 text-destructive flex-shrink-0" />
+            <span className="flex-1">
+              El último guardado falló por falta de espacio. Libera espacio y vuelve a intentarlo.
+            </span>
+            <Button variant="outline" size="sm" onClick={onRetrySave} className="gap-2 flex-shrink-0">
+              <RefreshCw className="w-4 h-4" />
+              Reintentar
+            </Button>
+          </div>
+        )}
+
+        {/* Quota */}
+        {estimate && (
+          <div className="space-y-1.5">
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-muted-foreground">
+                {backendLabels[estimate.backend]}
+              </span>
+              <span className="font-medium">
+                {estimate.used != null ? formatBytes(estimate.used) : '—'}
+                {estimate.quota != null && (
+                  <span className="text-muted-foreground"> de {formatBytes(estimate.quota)}{estimate.backend === 'localstorage' && ' (aprox.)'}</span>
+                )}
+              </span>
+            </div>
+            {usedPercent !== null && <Progress value={usedPercent} className="h-2" />}
+          </div>
+        )}
+
+        {/* Legend */}
+        <div className="flex flex-wrap gap-3 text-xs text-muted-foreground">
+          {(Object.keys(categoryConfig) as UsageCategory[]).map(category => (
+            <span key={category} className="flex items-center gap-1">
+              <span className="w-2.5 h-2.5 rounded-sm" style={{ backgroundColor: categoryConfig[category].color }} />
+              {categoryConfig[category].label}
+            </span>
+          ))}
+        </div>
+
+        {/* Books */}
+        <div className="flex-1 min-h-0 overflow-y-auto space-y-2">
+          {isMeasuring && !usage && (
+            <div className="flex items-center justify-center p-6">
+              <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+            </div>
+          )}
+          {usage?.books.length === 0 && (
+            <p className="text-sm text-muted-foreground">No hay libros guardados todavía.</p>
+          )}
+          {usage?.books.map(book => {
+            const isCurrent = book.bookId === currentBookId;
+            return (
+              <div key={book.bookId} className="rounded-lg border border-border p-3 space-y-2">
+                <div className="flex items-center gap-2">
+                  <span className="flex-1 text-sm font-medium truncate">
+                    {book.bookId}
+                    {isCurrent && <span className="text-muted-foreground font-normal"> (este libro)</span>}
+                  </span>
+                  <span className="text-sm">{formatBytes(book.total)}</span>
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="outline" size="sm" className="h-7 gap-1.5" disabled={isPurging}>
+                        <Eraser className="w-3.5 h-3.5" />
+                        <span className="text-xs">Liberar espacio</span>
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      <DropdownMenuItem
+                        disabled={book.logEntries === 0}
+                        onClick={() => setPendingPurge({
+                          description: `Se borrarán los registros de automatizaciones de más de ${LOG_AGE_DAYS} días de "${book.bookId}".`,
+                          run: () => onPurgeLogs(book.bookId, logCutoff()),
+                        })}
+                      >
+                        Registros de más de {LOG_AGE_DAYS} días
+                      </DropdownMenuItem>
+                      <DropdownMenuItem
+                        disabled={book.logEntries === 0}
+                        onClick={() => setPendingPurge({
+                          description: `Se borrarán los ${book.logEntries} registros de automatizaciones de "${book.bookId}".`,
+                          run: () => onPurgeLogs(book.bookId, null),
+                        })}
+                      >
+                        Todos los registros ({book.logEntries})
+                      </DropdownMenuItem>
+                      <DropdownMenuItem
+                        disabled={book.snapshots <= 1}
+                        onClick={() => setPendingPurge({
+                          description: `Se borrarán ${book.snapshots - 1} versiones guardadas de "${book.bookId}"; se conserva la más reciente.`,
+                          run: () => onPurgeSnapshots(book.bookId),
+                        })}
+                      >
+                        Versiones antiguas ({Math.max(0, book.snapshots - 1)})
+                      </DropdownMenuItem>
+                      {isCurrent && (
+                        <DropdownMenuItem
+                          disabled={book.archivedTasks === 0}
+                          onClick={() => setPendingPurge({
+                            description: `Se eliminarán las ${book.archivedTasks} tareas archivadas de este libro. Puedes deshacerlo con Ctrl+Z mientras el tablero siga abierto.`,
+                            run: onPurgeArchived,
+                          })}
+                        >
+                          Tareas archivadas ({book.archivedTasks})
+                        </DropdownMenuItem>
+                      )}
+                      <DropdownMenuItem
+                        onClick={() => setPendingPurge({
+                          description: `Se vaciará la papelera de recuperación de "${book.bookId}".`,
+                          run: () => onEmptyRecovery(book.bookId),
+                        })}
+                      >
+                        Papelera de recuperación
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                </div>
+
+                {/* Breakdown bar */}
+                <div className="flex h-2 rounded-full overflow-hidden bg-muted">
+                  {book.total > 0 && (Object.keys(categoryConfig) as UsageCategory[]).map(category => (
+                    <div
+                      key={category}
+                      style={{
+                        width: `${(book.bytes[category] / book.total) * 100}%`,
+                        backgroundColor: categoryConfig[category].color,
+                      }}
+                      title={`${categoryConfig[category].label}: ${formatBytes(book.bytes[category])}`}
+                    />
+                  ))}
+                </div>
+                <div className="grid grid-cols-3 gap-x-3 gap-y-0.5 text-xs">
+                  {(Object.keys(categoryConfig) as UsageCategory[]).map(category => (
+                    <div key={category} className="flex justify-between gap-2">
+                      <span className="text-muted-foreground">{categoryConfig[category].label}</span>
+                      <span>{formatBytes(book.bytes[category])}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        {pendingPurge && (
+          <div className="flex items-center gap-3 rounded-lg border border-border bg-muted/50 p-3 text-sm">
+            <span className="flex-1">{pendingPurge.description}</span>
+            <Button variant="outline" size="sm" onClick={() => setPendingPurge(null)} disabled={isPurging}>
+              Cancelar
+            </Button>
+            <Button variant="destructive" size="sm" onClick={runPurge} disabled={isPurging} className="gap-2">
+              {isPurging && <Loader2 className="w-4 h-4 animate-spin" />}
+              Borrar
+            </Button>
+          </div>
+        )}
+
+        <div className="flex justify-end">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cerrar
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,229 @@
+import { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { GitMerge, Monitor, Cloud, History } from 'lucide-react';
+import { Column, Priority, TaskStatus } from '@/types/kanban';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ConflictChoice, ConflictResolution, FieldConflict } from '@/hooks/kanban/kanban.merge';
+import { cn } from '@/lib/utils';
+
+interface SyncConflictDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  conflicts: FieldConflict[];
+  /** Earlier decisions, most recent first */
+  resolved: ConflictResolution[];
+  columns: Column[];
+  onResolve: (choices: Record<string, ConflictChoice>) => void;
+}
+
+const entityLabels: Record<string, string> = {
+  task: 'Tarea',
+  column: 'Columna',
+  note: 'Nota',
+  automation: 'Automatización',
+};
+
+const fieldLabels: Record<string, string> = {
+  title: 'Título',
+  name: 'Nombre',
+  description: 'Descripción',
+  shortDescription: 'Descripción corta',
+  content: 'Contenido',
+  subtitle: 'Subtítulo',
+  columnId: 'Columna',
+  priority: 'Prioridad',
+  status: 'Estado',
+  tags: 'Etiquetas',
+  dueDate: 'Fecha límite',
+  startDate: 'Fecha de inicio',
+  assignee: 'Responsable',
+  subtasks: 'Subtareas',
+  estimatedTime: 'Tiempo estimado',
+  actualTime: 'Tiempo real',
+  relatedMarket: 'Mercado',
+  attachments: 'Adjuntos',
+  taskDependencies: 'Dependencias',
+  order: 'Orden',
+  isArchived: 'Archivada',
+  color: 'Color',
+  wipLimit: 'Límite WIP',
+  isHidden: 'Oculta',
+  enabled: 'Activa',
+  trigger: 'Disparador',
+  conditions: 'Condiciones',
+  actions: 'Acciones',
+};
+
+const priorityLabels: Record<Priority, string> = {
+  critical: 'Crítica',
+  high: 'Alta',
+  medium: 'Media',
+  low: 'Baja',
+};
+
+const statusLabels: Record<TaskStatus, string> = {
+  not_started: 'Sin empezar',
+  in_progress: 'En curso',
+  paused: 'Pausado',
+  waiting: 'En espera',
+  archived: 'Archivado',
+  completed: 'Terminado',
+};
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T/;
+
+function formatConflictValue(field: string, value: unknown, columns: Column[]): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Sí' : 'No';
+  if (field === 'columnId') return columns.find(c => c.id === value)?.title ?? String(value);
+  if (field === 'priority') return priorityLabels[value as Priority] ?? String(value);
+  if (field === 'status') return statusLabels[value as TaskStatus] ?? String(value);
+  if (typeof value === 'string') {
+    return ISO_DATE.test(value) ? format(new Date(value), "d MMM yyyy HH:mm", { locale: es }) : value;
+  }
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '—';
+    // Tags, subtasks and most nested lists carry a readable name or title
+    return value
+      .map(item => (typeof item === 'object' && item ? (item as { name?: string; title?: string }).name ?? (item as { title?: string }).title : undefined) ?? JSON.stringify(item))
+      .join(', ');
+  }
+  return JSON.stringify(value);
+}
+
+export function SyncConflictDialog({
+  open,
+  onOpenChange,
+  conflicts,
+  resolved,
+  columns,
+  onResolve,
+}: SyncConflictDialogProps) {
+  const [choices, setChoices] = useState<Record<string, ConflictChoice>>({});
+
+  useEffect(() => {
+    if (open) setChoices({});
+  }, [open]);
+
+  const chooseAll = (choice: ConflictChoice) => {
+    setChoices(Object.fromEntries(conflicts.map(c => [c.id, choice])));
+  };
+
+  const chosenCount = conflicts.filter(c => choices[c.id]).length;
+
+  const renderOption = (conflict: FieldConflict, choice: ConflictChoice) => {
+    const isLocal = choice === 'local';
+    const Icon = isLocal ? Monitor : Cloud;
+    const selected = choices[conflict.id] === choice;
+    return (
+      <button
+        type="button"
+        onClick={() => setChoices(prev => ({ ...prev, [conflict.id]: choice }))}
+        className={cn(
+          "flex-1 min-w-0 text-left rounded-md border p-2 transition-colors",
+          selected ? "border-primary bg-primary/10" : "border-border hover:bg-muted/50"
+        )}
+      >
+        <span className="flex items-center gap-1 text-[11px] font-medium text-muted-foreground mb-1">
+          <Icon className="w-3 h-3" />
+          {isLocal ? 'Tu versión' : 'Servidor'}
+        </span>
+        <span className="block text-sm break-words line-clamp-4">
+          {formatConflictValue(conflict.field, isLocal ? conflict.localValue : conflict.remoteValue, columns)}
+        </span>
+      </button>
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px] bg-card border-border">
+        <DialogHeader>
+          <DialogTitle className="font-heading text-xl flex items-center gap-2">
+            <GitMerge className="w-5 h-5" />
+            Conflictos de sincronización
+          </DialogTitle>
+        </DialogHeader>
+
+        {conflicts.length === 0 ? (
+          <div className="py-8 text-center text-muted-foreground">
+            <GitMerge className="w-10 h-10 mx-auto mb-2 text-green-500" />
+            <p className="text-sm">No hay conflictos pendientes</p>
+          </div>
+        ) : (
+          <>
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-sm text-muted-foreground">
+                Estos campos se cambiaron aquí y en otro dispositivo. Se muestra la versión del servidor hasta que elijas.
+              </p>
+              <div className="flex gap-1 flex-shrink-0">
+                <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => chooseAll('local')}>
+                  Todo mío
+                </Button>
+                <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => chooseAll('remote')}>
+                  Todo del servidor
+                </Button>
+              </div>
+            </div>
+
+            <div className="max-h-96 overflow-y-auto space-y-3">
+              {conflicts.map(conflict => (
+                <div key={conflict.id} className="rounded-lg border border-border p-3 space-y-2">
+                  <div className="flex items-baseline gap-2 min-w-0">
+                    <span className="text-xs text-muted-foreground flex-shrink-0">
+                      {entityLabels[conflict.entityType] ?? conflict.entityType}
+                    </span>
+                    <span className="text-sm font-medium truncate">{conflict.entityTitle}</span>
+                    <span className="text-xs text-muted-foreground ml-auto flex-shrink-0">
+                      {fieldLabels[conflict.field] ?? conflict.field}
+                    </span>
+                  </div>
+                  <div className="flex gap-2">
+                    {renderOption(conflict, 'local')}
+                    {renderOption(conflict, 'remote')}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+
+        {resolved.length > 0 && (
+          <div className="space-y-1">
+            <h3 className="text-xs font-medium text-muted-foreground flex items-center gap-1">
+              <History className="w-3 h-3" />
+              Resueltos recientemente
+            </h3>
+            <ul className="text-xs text-muted-foreground space-y-0.5 max-h-24 overflow-y-auto">
+              {resolved.slice(0, 10).map(resolution => (
+                <li key={`${resolution.id}-${resolution.resolvedAt}`} className="truncate">
+                  {format(new Date(resolution.resolvedAt), 'd MMM HH:mm', { locale: es })} · {resolution.entityTitle} ·{' '}
+                  {fieldLabels[resolution.field] ?? resolution.field}:{' '}
+                  {resolution.choice === 'local' ? 'se mantuvo tu versión' : 'se usó la del servidor'}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cerrar
+          </Button>
+          {conflicts.length > 0 && (
+            <Button onClick={() => onResolve(choices)} disabled={chosenCount === 0}>
+              Aplicar {chosenCount > 0 && `(${chosenCount})`}
+            </Button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
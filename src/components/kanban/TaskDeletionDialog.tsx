@@ -0,0 +1,127 @@
+import { useState, useEffect } from 'react';
+import { Trash2, Link } from 'lucide-react';
+import { Task } from '@/types/kanban';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+interface TaskDeletionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  task: Task;
+  /** Tasks that list `task` as a prerequisite */
+  dependents: Task[];
+  /** Tasks the dependents can be re-pointed to */
+  candidates: Task[];
+  onConfirm: (repointDependenciesTo?: string) => void;
+}
+
+export function TaskDeletionDialog({
+  open,
+  onOpenChange,
+  task,
+  dependents,
+  candidates,
+  onConfirm,
+}: TaskDeletionDialogProps) {
+  const [mode, setMode] = useState<'remove' | 'repoint'>('remove');
+  const [repointTo, setRepointTo] = useState<string>('');
+
+  useEffect(() => {
+    if (!open) return;
+    setMode('remove');
+    // The deleted task's own prerequisite is the natural replacement
+    const prerequisite = task.taskDependencies?.find(d => candidates.some(c => c.id === d.dependsOnTaskId));
+    setRepointTo(prerequisite?.dependsOnTaskId ?? '');
+  }, [open, task, candidates]);
+
+  const canConfirm = mode === 'remove' || !!repointTo;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px] bg-card border-border">
+        <DialogHeader>
+          <DialogTitle className="font-heading text-xl flex items-center gap-2">
+            <Trash2 className="w-5 h-5 text-destructive" />
+            Eliminar tarea
+          </DialogTitle>
+        </DialogHeader>
+
+        <p className="text-sm text-muted-foreground">
+          {dependents.length === 1 ? 'Una tarea depende' : `${dependents.length} tareas dependen`} de{' '}
+          <span className="font-medium text-foreground">"{task.title}"</span>:
+        </p>
+
+        <ul className="space-y-1.5 max-h-40 overflow-y-auto">
+          {dependents.map(t => (
+            <li key={t.id} className="flex items-center gap-2 text-sm p-2 rounded-md bg-muted/50">
+              <Link className="w-3.5 h-3.5 text-muted-foreground flex-shrink-0" />
+              <span className="truncate">{t.title}</span>
+            </li>
+          ))}
+        </ul>
+
+        <RadioGroup value={mode} onValueChange={(value) => setMode(value as 'remove' | 'repoint')} className="space-y-2">
+          <div className="flex items-center gap-2">
+            <RadioGroupItem value="remove" id="delete-deps-remove" />
+            <Label htmlFor="delete-deps-remove" className="text-sm font-normal">
+              Quitar estas dependencias
+            </Label>
+          </div>
+          <div className="flex items-center gap-2">
+            <RadioGroupItem value="repoint" id="delete-deps-repoint" disabled={candidates.length === 0} />
+            <Label htmlFor="delete-deps-repoint" className="text-sm font-normal">
+              Hacer que dependan de otra tarea
+            </Label>
+          </div>
+        </RadioGroup>
+
+        {mode === 'repoint' && (
+          <div className="space-y-1.5">
+            <Select value={repointTo} onValueChange={setRepointTo}>
+              <SelectTrigger>
+                <SelectValue placeholder="Elegir tarea..." />
+              </SelectTrigger>
+              <SelectContent>
+                {candidates.map(t => (
+                  <SelectItem key={t.id} value={t.id}>
+                    {t.title}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              Se mantienen el tipo y el desfase. Los enlaces que crearían un ciclo o un duplicado se quitan.
+            </p>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancelar
+          </Button>
+          <Button
+            variant="destructive"
+            disabled={!canConfirm}
+            onClick={() => onConfirm(mode === 'repoint' ? repointTo : undefined)}
+          >
+            Eliminar tarea
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
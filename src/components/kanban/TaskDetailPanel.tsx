@@ -6,7 +6,8 @@ import {
   TrendingUp, Megaphone, Settings, Check, Folder, Globe, GripVertical,
   Link, Lock, AlertTriangle, Maximize2, Minimize2, ChevronsUpDown
 } from 'lucide-react';
-import { Task, Column, Tag as TagType, Priority, TaskStatus } from '@/types/kanban';
+import { Task, Column, Tag as TagType, Priority, TaskStatus, DependencyType, TaskDependency } from '@/types/kanban';
+import { DEPENDENCY_TYPE_LABELS } from '@/hooks/kanban/kanban.dependencies';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import {
@@ -102,12 +103,13 @@ interface TaskDetailPanelProps {
   onToggleChecklistItem: (itemId: string) => void;
   onDeleteChecklistItem: (itemId: string) => void;
   // Dependency callbacks
-  onAddDependency?: (dependsOnTaskId: string) => void;
+  onAddDependency?: (dependsOnTaskId: string, type: DependencyType, lagDays: number) => void;
+  onUpdateDependency?: (dependencyId: string, updates: Partial<Pick<TaskDependency, 'type' | 'lagDays'>>) => void;
   onRemoveDependency?: (dependencyId: string) => void;
   // Dependency status
   isBlocked?: boolean;
   blockingTasks?: Task[];
-  wouldCreateCycle?: (dependsOnTaskId: string) => boolean;
+  wouldCreateCycle?: (dependsOnTaskId: string, type: DependencyType) => boolean;
 }
 
 const MIN_PANEL_WIDTH = 400;
@@ -153,21 +155,29 @@ function savePanelWide(wide: boolean): void {
 interface DependenciesSectionProps {
   task: Task;
   allTasks: Task[];
-  onAddDependency?: (dependsOnTaskId: string) => void;
+  columns: Column[];
+  onAddDependency?: (dependsOnTaskId: string, type: DependencyType, lagDays: number) => void;
+  onUpdateDependency?: (dependencyId: string, updates: Partial<Pick<TaskDependency, 'type' | 'lagDays'>>) => void;
   onRemoveDependency?: (dependencyId: string) => void;
-  wouldCreateCycle?: (dependsOnTaskId: string) => boolean;
+  wouldCreateCycle?: (dependsOnTaskId: string, type: DependencyType) => boolean;
 }
 
+const DEPENDENCY_TYPES = Object.keys(DEPENDENCY_TYPE_LABELS) as DependencyType[];
+
 function DependenciesSection({
   task,
   allTasks,
+  columns,
   onAddDependency,
+  onUpdateDependency,
   onRemoveDependency,
   wouldCreateCycle,
 }: DependenciesSectionProps) {
   const [showAddDependency, setShowAddDependency] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [cycleError, setCycleError] = useState<string | null>(null);
+  const [newType, setNewType] = useState<DependencyType>('FS');
+  const [newLagDays, setNewLagDays] = useState(0);
 
   const dependencies = task.taskDependencies || [];
   
@@ -194,16 +204,28 @@ function DependenciesSection({
 
   const handleAddDependency = (dependsOnTaskId: string) => {
     // Check for cycles
-    if (wouldCreateCycle && wouldCreateCycle(dependsOnTaskId)) {
+    if (wouldCreateCycle && wouldCreateCycle(dependsOnTaskId, newType)) {
       setCycleError('No se puede añadir: crearía un ciclo de dependencias');
       setTimeout(() => setCycleError(null), 3000);
       return;
     }
     
-    onAddDependency?.(dependsOnTaskId);
+    onAddDependency?.(dependsOnTaskId, newType, newLagDays);
     setShowAddDependency(false);
     setSearchQuery('');
     setCycleError(null);
+    setNewType('FS');
+    setNewLagDays(0);
+  };
+
+  const handleChangeType = (dependency: TaskDependency, type: DependencyType) => {
+    // The edge is replaced in place, so only its new shape needs a cycle check
+    if (wouldCreateCycle && type !== dependency.type && wouldCreateCycle(dependency.dependsOnTaskId, type)) {
+      setCycleError('No se puede cambiar: crearía un ciclo de dependencias');
+      setTimeout(() => setCycleError(null), 3000);
+      return;
+    }
+    onUpdateDependency?.(dependency.id, { type });
   };
 
   const handleRemoveDependency = (dependencyId: string) => {
@@ -263,6 +285,30 @@ function DependenciesSection({
                 )}>
                   {depTask.title}
                 </span>
+                <Select
+                  value={dependency.type}
+                  onValueChange={(value) => handleChangeType(dependency, value as DependencyType)}
+                  disabled={!onUpdateDependency}
+                >
+                  <SelectTrigger className="h-6 w-[72px] px-2 text-xs" title={DEPENDENCY_TYPE_LABELS[dependency.type]}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DEPENDENCY_TYPES.map(type => (
+                      <SelectItem key={type} value={type} className="text-xs">
+                        {type} · {DEPENDENCY_TYPE_LABELS[type]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="number"
+                  value={dependency.lagDays ?? 0}
+                  onChange={(e) => onUpdateDependency?.(dependency.id, { lagDays: parseInt(e.target.value, 10) || 0 })}
+                  disabled={!onUpdateDependency}
+                  className="h-6 w-14 px-1 text-xs"
+                  title="Desfase en días (negativo = adelanto)"
+                />
                 <span className={cn(
                   "text-xs px-1.5 py-0.5 rounded",
                   isCompleted 
@@ -311,6 +357,29 @@ function DependenciesSection({
             </Button>
           </div>
 
+          <div className="flex items-center gap-2">
+            <Select value={newType} onValueChange={(value) => setNewType(value as DependencyType)}>
+              <SelectTrigger className="h-8 flex-1 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DEPENDENCY_TYPES.map(type => (
+                  <SelectItem key={type} value={type} className="text-xs">
+                    {type} · {DEPENDENCY_TYPE_LABELS[type]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="number"
+              value={newLagDays}
+              onChange={(e) => setNewLagDays(parseInt(e.target.value, 10) || 0)}
+              className="h-8 w-20 text-xs"
+              title="Desfase en días (negativo = adelanto)"
+            />
+            <span className="text-xs text-muted-foreground">días</span>
+          </div>
+
           <div className="max-h-40 overflow-y-auto space-y-1">
             {filteredTasks.length === 0 ? (
               <p className="text-xs text-muted-foreground py-2 text-center">
@@ -349,9 +418,32 @@ function DependenciesSection({
         </Button>
       )}
 
+      {/* Forced transitions */}
+      {(task.dependencyOverrides || []).length > 0 && (
+        <div className="space-y-1.5">
+          <p className="text-xs font-medium text-muted-foreground flex items-center gap-1.5">
+            <AlertTriangle className="w-3.5 h-3.5 text-amber-500" />
+            Cambios forzados con prerequisitos pendientes
+          </p>
+          {task.dependencyOverrides!.map(override => {
+            const target = override.transition.status
+              ? statusOptions.find(o => o.value === override.transition.status)?.label
+              : columns.find(c => c.id === override.transition.columnId)?.title;
+            return (
+              <div key={override.id} className="text-xs p-2 rounded-md bg-muted/40">
+                <span className="text-muted-foreground">
+                  {format(new Date(override.createdAt), 'd MMM yyyy, HH:mm', { locale: es })} · {target ?? '—'}
+                </span>
+                <p className="text-foreground mt-0.5">{override.reason}</p>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
       {dependencyTasks.length > 0 && (
         <p className="text-xs text-muted-foreground">
-          Esta tarea no puede completarse hasta que las tareas pendientes estén terminadas.
+          Las dependencias Fin → Inicio e Inicio → Inicio bloquean el inicio de esta tarea; Fin → Fin e Inicio → Fin bloquean su cierre.
         </p>
       )}
     </div>
@@ -372,6 +464,7 @@ export function TaskDetailPanel({
   onToggleChecklistItem,
   onDeleteChecklistItem,
   onAddDependency,
+  onUpdateDependency,
   onRemoveDependency,
   isBlocked = false,
   blockingTasks = [],
@@ -924,7 +1017,9 @@ export function TaskDetailPanel({
             <DependenciesSection
               task={task}
               allTasks={allTasks}
+              columns={columns}
               onAddDependency={onAddDependency}
+              onUpdateDependency={onUpdateDependency}
               onRemoveDependency={onRemoveDependency}
               wouldCreateCycle={wouldCreateCycle}
             />
@@ -1,15 +1,37 @@
 import { useState, useRef, useEffect, useMemo, useCallback } from 'react';
-import { ChevronLeft, ChevronRight, GripVertical, Calendar, Link } from 'lucide-react';
-import { Task, Priority, Column, TaskStatus } from '@/types/kanban';
+import { ChevronLeft, ChevronRight, GripVertical, Calendar, Link, Route, CalendarClock, Trash2, ExternalLink } from 'lucide-react';
+import { Task, Priority, Column, TaskStatus, DependencyType, TaskDependency } from '@/types/kanban';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { cn } from '@/lib/utils';
+import {
+  DependencyEdge,
+  DependencyAnchor,
+  getDependencyAnchors,
+  getDependencyTypeForAnchors,
+  DEPENDENCY_TYPE_LABELS,
+} from '@/hooks/kanban/kanban.dependencies';
+import { CriticalPathResult } from '@/hooks/kanban/kanban.criticalPath';
+import { RescheduleShift } from '@/hooks/kanban/kanban.reschedule';
+import { ReschedulePreviewDialog } from './ReschedulePreviewDialog';
 import {
   Tooltip,
   TooltipContent,
   TooltipProvider,
   TooltipTrigger,
 } from '@/components/ui/tooltip';
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import {
   format,
   addDays,
@@ -24,9 +46,24 @@ interface TimelineViewProps {
   columns: Column[];
   onTaskClick: (task: Task) => void;
   onUpdateTask: (taskId: string, updates: Partial<Task>) => void;
-  getDependencyEdges?: () => { fromTaskId: string; toTaskId: string; fromTask: Task; toTask: Task }[];
+  getDependencyEdges?: () => DependencyEdge[];
+  criticalPath?: CriticalPathResult;
+  /** Auto-scheduling: dependents that must move after a task's dates changed */
+  previewReschedule?: (taskId: string) => RescheduleShift[];
+  onApplyReschedule?: (shifts: RescheduleShift[]) => void;
+  /** Draw-to-link: create and edit dependencies from the bars and arrows */
+  wouldCreateCycle?: (taskId: string, dependsOnTaskId: string, type: DependencyType) => boolean;
+  onAddDependency?: (taskId: string, dependsOnTaskId: string, type: DependencyType) => void;
+  onUpdateDependency?: (taskId: string, dependencyId: string, updates: Partial<Pick<TaskDependency, 'type'>>) => void;
+  onRemoveDependency?: (taskId: string, dependencyId: string) => void;
 }
 
+const AUTO_SCHEDULE_STORAGE_KEY = 'kanban-timeline-auto-schedule';
+const TASK_COLUMN_WIDTH = 224; // w-56
+const ROW_HEIGHT = 44;
+
+const DEPENDENCY_TYPES = Object.keys(DEPENDENCY_TYPE_LABELS) as DependencyType[];
+
 // HSL values for priority colors (without hsl() wrapper for alpha manipulation)
 const priorityColorsHSL: Record<Priority, string> = {
   critical: '0 84% 60%',
@@ -58,20 +95,60 @@ const statusLabels: Record<TaskStatus, string> = {
   completed: 'Terminado',
 };
 
-export function TimelineView({ tasks, columns, onTaskClick, onUpdateTask, getDependencyEdges }: TimelineViewProps) {
+export function TimelineView({
+  tasks,
+  columns,
+  onTaskClick,
+  onUpdateTask,
+  getDependencyEdges,
+  criticalPath,
+  previewReschedule,
+  onApplyReschedule,
+  wouldCreateCycle,
+  onAddDependency,
+  onUpdateDependency,
+  onRemoveDependency,
+}: TimelineViewProps) {
   const [startDateInput, setStartDateInput] = useState<Date>(addDays(new Date(), -7));
   const [endDateInput, setEndDateInput] = useState<Date>(addDays(new Date(), 30));
   const [draggedTask, setDraggedTask] = useState<{ id: string; type: 'move' | 'resize-start' | 'resize-end' } | null>(null);
   const [dragStartX, setDragStartX] = useState<number>(0);
   const [dragStartDate, setDragStartDate] = useState<Date | null>(null);
   const [showDependencies, setShowDependencies] = useState(true);
+  const [showCriticalPath, setShowCriticalPath] = useState(true);
+  const [autoSchedule, setAutoSchedule] = useState(() => {
+    try {
+      return localStorage.getItem(AUTO_SCHEDULE_STORAGE_KEY) === 'true';
+    } catch {
+      return false;
+    }
+  });
+  const [pendingReschedule, setPendingReschedule] = useState<{ taskId: string; shifts: RescheduleShift[] } | null>(null);
+  const dragChangedDatesRef = useRef(false);
   const [hoveredEdge, setHoveredEdge] = useState<string | null>(null);
+  // Draw-to-link: connector being dragged, in SVG overlay coordinates
+  const [linkDrag, setLinkDrag] = useState<{ fromTaskId: string; fromAnchor: DependencyAnchor; x: number; y: number } | null>(null);
+  const [linkTarget, setLinkTarget] = useState<{ taskId: string; anchor: DependencyAnchor } | null>(null);
+  const [linkError, setLinkError] = useState<string | null>(null);
+  const [selectedEdge, setSelectedEdge] = useState<{ dependencyId: string; x: number; y: number } | null>(null);
+  const [edgeError, setEdgeError] = useState<string | null>(null);
+  const suppressClickRef = useRef(false);
+  const canLink = !!onAddDependency;
   
   const headerRef = useRef<HTMLDivElement>(null);
+  const rowsRef = useRef<HTMLDivElement>(null);
   const contentRef = useRef<HTMLDivElement>(null);
   const taskColumnRef = useRef<HTMLDivElement>(null);
   const svgRef = useRef<SVGSVGElement>(null);
 
+  useEffect(() => {
+    try {
+      localStorage.setItem(AUTO_SCHEDULE_STORAGE_KEY, String(autoSchedule));
+    } catch {
+      // Ignore storage errors
+    }
+  }, [autoSchedule]);
+
   // Sync horizontal scroll between header and content
   const handleScroll = useCallback((e: React.UIEvent<HTMLDivElement>) => {
     const scrollLeft = e.currentTarget.scrollLeft;
@@ -149,6 +226,75 @@ export function TimelineView({ tasks, columns, onTaskClick, onUpdateTask, getDep
     });
   }, [getDependencyEdges, showDependencies, taskRowIndex]);
 
+  // Bar edges in SVG overlay coordinates, clipped to the visible range
+  const getBarStartX = (task: { startOffset: number }) => Math.max(0, task.startOffset) * dayWidth;
+  const getBarEndX = (task: { startOffset: number; duration: number }) => getBarStartX(task) +
+    Math.max((Math.min(days.length, task.startOffset + task.duration) - Math.max(0, task.startOffset)) * dayWidth, dayWidth);
+
+  /** Why linking `fromTaskId` (prerequisite) to `toTaskId` is not allowed, if it isn't */
+  const getLinkRejection = (fromTaskId: string, toTaskId: string, type: DependencyType): string | null => {
+    if (fromTaskId === toTaskId) return 'Una tarea no puede depender de sí misma';
+    const dependent = tasks.find(t => t.id === toTaskId);
+    if (dependent?.taskDependencies?.some(d => d.dependsOnTaskId === fromTaskId)) {
+      return 'Ya existe una dependencia entre estas tareas';
+    }
+    if (wouldCreateCycle?.(toTaskId, fromTaskId, type)) return 'Crearía un ciclo de dependencias';
+    return null;
+  };
+
+  const pendingLinkType = linkDrag && linkTarget ? getDependencyTypeForAnchors(linkDrag.fromAnchor, linkTarget.anchor) : null;
+  const pendingLinkRejection = linkDrag && linkTarget && pendingLinkType
+    ? getLinkRejection(linkDrag.fromTaskId, linkTarget.taskId, pendingLinkType)
+    : null;
+
+  const getOverlayPoint = (e: React.MouseEvent) => {
+    const rect = rowsRef.current!.getBoundingClientRect();
+    return { x: e.clientX - rect.left - TASK_COLUMN_WIDTH, y: e.clientY - rect.top };
+  };
+
+  const handleLinkStart = (e: React.MouseEvent, taskId: string, anchor: DependencyAnchor) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setSelectedEdge(null);
+    setLinkError(null);
+    setLinkDrag({ fromTaskId: taskId, fromAnchor: anchor, ...getOverlayPoint(e) });
+  };
+
+  /** While linking, the half of the bar under the pointer picks the dependent's anchor */
+  const handleLinkHover = (e: React.MouseEvent, taskId: string) => {
+    if (!linkDrag) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const anchor: DependencyAnchor = e.clientX < rect.left + rect.width / 2 ? 'start' : 'finish';
+    if (linkTarget?.taskId !== taskId || linkTarget.anchor !== anchor) setLinkTarget({ taskId, anchor });
+  };
+
+  const handleLinkEnd = () => {
+    if (!linkDrag) return;
+    // Swallow the click that follows the mouseup when the link ends on a bar
+    suppressClickRef.current = true;
+    setTimeout(() => { suppressClickRef.current = false; }, 0);
+    if (linkTarget && pendingLinkType) {
+      if (pendingLinkRejection) {
+        setLinkError(pendingLinkRejection);
+        setTimeout(() => setLinkError(null), 3000);
+      } else {
+        onAddDependency?.(linkTarget.taskId, linkDrag.fromTaskId, pendingLinkType);
+      }
+    }
+    setLinkDrag(null);
+    setLinkTarget(null);
+  };
+
+  const handleChangeEdgeType = (edge: DependencyEdge, type: DependencyType) => {
+    // The edge is replaced in place, so only its new shape needs a cycle check
+    if (type !== edge.type && wouldCreateCycle?.(edge.toTaskId, edge.fromTaskId, type)) {
+      setEdgeError('No se puede cambiar: crearía un ciclo de dependencias');
+      setTimeout(() => setEdgeError(null), 3000);
+      return;
+    }
+    onUpdateDependency?.(edge.toTaskId, edge.dependencyId, { type });
+  };
+
   // Get the book title for header
   const getBookTitle = useMemo(() => {
     // Find tasks with relatedBook and get unique books
@@ -175,11 +321,16 @@ export function TimelineView({ tasks, columns, onTaskClick, onUpdateTask, getDep
     if (!task) return;
 
     setDraggedTask({ id: taskId, type });
+    dragChangedDatesRef.current = false;
     setDragStartX(e.clientX);
     setDragStartDate(type === 'resize-start' ? task.taskStartDate : task.taskEndDate);
   };
 
   const handleMouseMove = (e: React.MouseEvent) => {
+    if (linkDrag) {
+      setLinkDrag({ ...linkDrag, ...getOverlayPoint(e) });
+      return;
+    }
     if (!draggedTask || !dragStartDate) return;
 
     const deltaX = e.clientX - dragStartX;
@@ -190,6 +341,7 @@ export function TimelineView({ tasks, columns, onTaskClick, onUpdateTask, getDep
     const task = timelineTasks.find(t => t.id === draggedTask.id);
     if (!task) return;
 
+    dragChangedDatesRef.current = true;
     if (draggedTask.type === 'move') {
       const newStartDate = addDays(task.taskStartDate, daysDelta);
       const newDueDate = addDays(task.taskEndDate, daysDelta);
@@ -212,6 +364,13 @@ export function TimelineView({ tasks, columns, onTaskClick, onUpdateTask, getDep
   };
 
   const handleMouseUp = () => {
+    handleLinkEnd();
+    // Once the drag settles, offer to push back any dependent the new dates collide with
+    if (draggedTask && dragChangedDatesRef.current && autoSchedule && previewReschedule) {
+      const shifts = previewReschedule(draggedTask.id);
+      if (shifts.length > 0) setPendingReschedule({ taskId: draggedTask.id, shifts });
+    }
+    dragChangedDatesRef.current = false;
     setDraggedTask(null);
     setDragStartDate(null);
   };
@@ -285,6 +444,37 @@ export function TimelineView({ tasks, columns, onTaskClick, onUpdateTask, getDep
             <Link className="w-4 h-4" />
             Dependencias
           </Button>
+
+          {/* Auto-scheduling Toggle */}
+          {previewReschedule && onApplyReschedule && (
+            <Button
+              variant={autoSchedule ? "default" : "outline"}
+              size="sm"
+              onClick={() => setAutoSchedule(!autoSchedule)}
+              className="gap-2"
+              title="Al mover una tarea, reprogramar las que dependen de ella"
+            >
+              <CalendarClock className="w-4 h-4" />
+              Auto-programar
+            </Button>
+          )}
+
+          {/* Critical Path Toggle */}
+          {criticalPath && (
+            <Button
+              variant={showCriticalPath ? "default" : "outline"}
+              size="sm"
+              onClick={() => setShowCriticalPath(!showCriticalPath)}
+              className="gap-2"
+            >
+              <Route className="w-4 h-4" />
+              Ruta crítica
+            </Button>
+          )}
+
+          {linkError && (
+            <span className="text-xs text-destructive">{linkError}</span>
+          )}
         </div>
       </div>
 
@@ -351,7 +541,7 @@ export function TimelineView({ tasks, columns, onTaskClick, onUpdateTask, getDep
               </div>
             </div>
           ) : (
-            <div className="relative">
+            <div ref={rowsRef} className={cn("relative", linkDrag && "cursor-crosshair select-none")}>
               {/* Task Rows */}
               {timelineTasks.map((task, rowIndex) => {
                 const left = Math.max(0, task.startOffset) * dayWidth;
@@ -359,11 +549,15 @@ export function TimelineView({ tasks, columns, onTaskClick, onUpdateTask, getDep
                 const visibleEnd = Math.min(days.length, task.startOffset + task.duration);
                 const width = Math.max((visibleEnd - visibleStart) * dayWidth, dayWidth);
                 const progress = getTaskProgress(task);
+                const schedule = criticalPath?.schedules.get(task.id);
+                const isCritical = showCriticalPath && !!schedule?.isCritical;
                 
                 const isHighlighted = dependencyEdges.some(
                   edge => (edge.fromTaskId === task.id || edge.toTaskId === task.id) && 
                          hoveredEdge === `${edge.fromTaskId}-${edge.toTaskId}`
                 );
+                const isLinkSource = linkDrag?.fromTaskId === task.id;
+                const isLinkTarget = linkTarget?.taskId === task.id && !isLinkSource;
 
                 return (
                   <div 
@@ -382,6 +576,7 @@ export function TimelineView({ tasks, columns, onTaskClick, onUpdateTask, getDep
                         isHighlighted && "bg-primary/10"
                       )}
                     >
+                      {isCritical && <Route className="w-3.5 h-3.5 text-destructive flex-shrink-0 mr-1.5" />}
                       <span className="text-sm truncate text-foreground font-medium">
                         {task.title}
                       </span>
@@ -413,7 +608,10 @@ export function TimelineView({ tasks, columns, onTaskClick, onUpdateTask, getDep
                                 "absolute top-1 bottom-1 rounded-md cursor-pointer transition-all group",
                                 "hover:ring-2 hover:ring-primary/50",
                                 draggedTask?.id === task.id && "opacity-70 ring-2 ring-primary",
-                                isHighlighted && "ring-2 ring-primary"
+                                isHighlighted && "ring-2 ring-primary",
+                                isCritical && !isHighlighted && "ring-2 ring-destructive ring-offset-1 ring-offset-card",
+                                isLinkSource && "ring-2 ring-primary",
+                                isLinkTarget && (pendingLinkRejection ? "ring-2 ring-destructive" : "ring-2 ring-primary")
                               )}
                               style={{
                                 left,
@@ -421,7 +619,15 @@ export function TimelineView({ tasks, columns, onTaskClick, onUpdateTask, getDep
                                 backgroundColor: `hsl(${priorityColorsHSL[task.priority]} / 0.3)`,
                                 border: `2px solid ${priorityColors[task.priority]}`,
                               }}
-                              onClick={() => onTaskClick(task)}
+                              onClick={() => {
+                                if (suppressClickRef.current) {
+                                  suppressClickRef.current = false;
+                                  return;
+                                }
+                                onTaskClick(task);
+                              }}
+                              onMouseMove={(e) => handleLinkHover(e, task.id)}
+                              onMouseLeave={() => linkTarget?.taskId === task.id && setLinkTarget(null)}
                             >
                               {/* Drag handle for moving */}
                               <div
@@ -442,6 +648,26 @@ export function TimelineView({ tasks, columns, onTaskClick, onUpdateTask, getDep
                                 className="absolute right-0 top-0 bottom-0 w-2 cursor-ew-resize opacity-0 group-hover:opacity-100 bg-primary/30 rounded-r-md transition-opacity"
                                 onMouseDown={(e) => handleDragStart(e, task.id, 'resize-end')}
                               />
+
+                              {/* Connector handles: drag to another bar to link its start or end */}
+                              {canLink && (['start', 'finish'] as DependencyAnchor[]).map(anchor => {
+                                const isActive = (isLinkSource && linkDrag?.fromAnchor === anchor) ||
+                                  (isLinkTarget && linkTarget?.anchor === anchor);
+                                return (
+                                  <div
+                                    key={anchor}
+                                    className={cn(
+                                      "absolute top-1/2 -translate-y-1/2 w-3 h-3 rounded-full border-2 bg-card cursor-crosshair z-10 transition-opacity",
+                                      anchor === 'start' ? "-left-4" : "-right-4",
+                                      isActive && isLinkTarget && pendingLinkRejection ? "border-destructive" : "border-primary",
+                                      isActive || (linkDrag && isLinkTarget) ? "opacity-100" : "opacity-0 group-hover:opacity-100"
+                                    )}
+                                    title={anchor === 'start' ? 'Arrastra para enlazar desde el inicio' : 'Arrastra para enlazar desde el fin'}
+                                    onMouseDown={(e) => handleLinkStart(e, task.id, anchor)}
+                                    onClick={(e) => e.stopPropagation()}
+                                  />
+                                );
+                              })}
                             </div>
                           </TooltipTrigger>
                           <TooltipContent side="top" className="max-w-xs">
@@ -472,6 +698,14 @@ export function TimelineView({ tasks, columns, onTaskClick, onUpdateTask, getDep
                                   <span>{progress}%</span>
                                 </div>
                               )}
+                              {schedule && task.status !== 'completed' && (
+                                <p className={cn("text-xs", schedule.isCritical ? "text-destructive" : "text-muted-foreground")}>
+                                  {schedule.isCritical
+                                    ? 'Ruta crítica: sin holgura'
+                                    : `Holgura: ${schedule.totalFloat} ${schedule.totalFloat === 1 ? 'día' : 'días'}`}
+                                  {' · '}inicio tardío {format(schedule.lateStart, 'd MMM', { locale: es })}
+                                </p>
+                              )}
                             </div>
                           </TooltipContent>
                         </Tooltip>
@@ -482,13 +716,13 @@ export function TimelineView({ tasks, columns, onTaskClick, onUpdateTask, getDep
               })}
 
               {/* Dependency Arrows SVG Overlay */}
-              {showDependencies && dependencyEdges.length > 0 && (
+              {((showDependencies && dependencyEdges.length > 0) || linkDrag) && (
                 <svg
                   ref={svgRef}
                   className="absolute top-0 left-56 pointer-events-none"
                   style={{
                     width: days.length * dayWidth,
-                    height: timelineTasks.length * 44,
+                    height: timelineTasks.length * ROW_HEIGHT,
                   }}
                 >
                   <defs>
@@ -518,6 +752,19 @@ export function TimelineView({ tasks, columns, onTaskClick, onUpdateTask, getDep
                         fill="hsl(var(--primary))"
                       />
                     </marker>
+                    <marker
+                      id="arrowhead-critical"
+                      markerWidth="8"
+                      markerHeight="6"
+                      refX="7"
+                      refY="3"
+                      orient="auto"
+                    >
+                      <polygon
+                        points="0 0, 8 3, 0 6"
+                        fill="hsl(var(--destructive))"
+                      />
+                    </marker>
                   </defs>
                   
                   {dependencyEdges.map(edge => {
@@ -529,22 +776,28 @@ export function TimelineView({ tasks, columns, onTaskClick, onUpdateTask, getDep
                     const toTask = timelineTasks.find(t => t.id === edge.toTaskId);
                     if (!fromTask || !toTask) return null;
 
-                    // Calculate positions
-                    const fromEndX = Math.max(0, fromTask.startOffset) * dayWidth + 
-                      Math.max((Math.min(days.length, fromTask.startOffset + fromTask.duration) - Math.max(0, fromTask.startOffset)) * dayWidth, dayWidth);
-                    const fromY = fromIndex * 44 + 22; // Center of row
+                    // Anchor each end on the bar edge that the dependency type links
+                    const anchors = getDependencyAnchors(edge.type);
+                    const fromX = anchors.from === 'finish' ? getBarEndX(fromTask) : getBarStartX(fromTask);
+                    const fromY = fromIndex * ROW_HEIGHT + ROW_HEIGHT / 2; // Center of row
 
-                    const toStartX = Math.max(0, toTask.startOffset) * dayWidth;
-                    const toY = toIndex * 44 + 22;
+                    const toFinish = anchors.to === 'finish';
+                    const toX = toFinish ? getBarEndX(toTask) + 4 : getBarStartX(toTask) - 4;
+                    const toY = toIndex * ROW_HEIGHT + ROW_HEIGHT / 2;
 
                     const edgeId = `${edge.fromTaskId}-${edge.toTaskId}`;
-                    const isHovered = hoveredEdge === edgeId;
-
-                    // Create a curved path
-                    const midX = (fromEndX + toStartX) / 2;
-                    const pathD = fromY === toY
-                      ? `M ${fromEndX} ${fromY} L ${toStartX - 4} ${toY}`
-                      : `M ${fromEndX} ${fromY} C ${midX} ${fromY}, ${midX} ${toY}, ${toStartX - 4} ${toY}`;
+                    const isHovered = hoveredEdge === edgeId || selectedEdge?.dependencyId === edge.dependencyId;
+                    const isCriticalEdge = showCriticalPath && !!criticalPath?.criticalDependencyIds.has(edge.dependencyId);
+
+                    // Create a curved path; finish/finish and start/start edges bow outwards
+                    const bow = 24;
+                    const c1X = anchors.from === 'finish' ? Math.max(fromX + bow, (fromX + toX) / 2) : Math.min(fromX - bow, (fromX + toX) / 2);
+                    const c2X = toFinish ? Math.max(toX + bow, (fromX + toX) / 2) : Math.min(toX - bow, (fromX + toX) / 2);
+                    const pathD = fromY === toY && anchors.from !== anchors.to
+                      ? `M ${fromX} ${fromY} L ${toX} ${toY}`
+                      : `M ${fromX} ${fromY} C ${c1X} ${fromY}, ${c2X} ${toY}, ${toX} ${toY}`;
+                    const lag = edge.lagDays ?? 0;
+                    const edgeLabel = `${edge.type}${lag !== 0 ? ` ${lag > 0 ? '+' : ''}${lag}d` : ''}`;
 
                     return (
                       <g key={edgeId}>
@@ -557,28 +810,157 @@ export function TimelineView({ tasks, columns, onTaskClick, onUpdateTask, getDep
                           className="pointer-events-auto cursor-pointer"
                           onMouseEnter={() => setHoveredEdge(edgeId)}
                           onMouseLeave={() => setHoveredEdge(null)}
-                          onClick={() => onTaskClick(edge.toTask)}
-                        />
+                          onClick={() => {
+                            setEdgeError(null);
+                            setSelectedEdge({ dependencyId: edge.dependencyId, x: (fromX + toX) / 2, y: (fromY + toY) / 2 });
+                          }}
+                        >
+                          <title>{`${DEPENDENCY_TYPE_LABELS[edge.type]}${lag !== 0 ? ` (${lag > 0 ? '+' : ''}${lag} d)` : ''}`}</title>
+                        </path>
                         {/* Visible path */}
                         <path
                           d={pathD}
                           fill="none"
-                          stroke={isHovered ? "hsl(var(--primary))" : "hsl(var(--primary) / 0.4)"}
-                          strokeWidth={isHovered ? 2.5 : 1.5}
-                          strokeDasharray={isHovered ? "none" : "4 2"}
-                          markerEnd={isHovered ? "url(#arrowhead-hover)" : "url(#arrowhead)"}
+                          stroke={isHovered ? "hsl(var(--primary))" : isCriticalEdge ? "hsl(var(--destructive))" : "hsl(var(--primary) / 0.4)"}
+                          strokeWidth={isHovered || isCriticalEdge ? 2.5 : 1.5}
+                          strokeDasharray={isHovered || isCriticalEdge ? "none" : "4 2"}
+                          markerEnd={isHovered ? "url(#arrowhead-hover)" : isCriticalEdge ? "url(#arrowhead-critical)" : "url(#arrowhead)"}
                           className="transition-all duration-150"
                         />
+                        {(isHovered || edge.type !== 'FS' || lag !== 0) && (
+                          <text
+                            x={(fromX + toX) / 2}
+                            y={(fromY + toY) / 2 - 4}
+                            textAnchor="middle"
+                            className="fill-muted-foreground text-[10px] pointer-events-none"
+                          >
+                            {edgeLabel}
+                          </text>
+                        )}
                       </g>
                     );
                   })}
+
+                  {/* Link being drawn */}
+                  {linkDrag && (() => {
+                    const fromIndex = taskRowIndex.get(linkDrag.fromTaskId);
+                    const fromTask = timelineTasks.find(t => t.id === linkDrag.fromTaskId);
+                    if (fromIndex === undefined || !fromTask) return null;
+                    return (
+                      <line
+                        x1={linkDrag.fromAnchor === 'finish' ? getBarEndX(fromTask) : getBarStartX(fromTask)}
+                        y1={fromIndex * ROW_HEIGHT + ROW_HEIGHT / 2}
+                        x2={linkDrag.x}
+                        y2={linkDrag.y}
+                        stroke={pendingLinkRejection ? "hsl(var(--destructive))" : "hsl(var(--primary))"}
+                        strokeWidth={2}
+                        strokeDasharray="5 3"
+                      />
+                    );
+                  })()}
                 </svg>
               )}
+
+              {/* Pending link feedback next to the pointer */}
+              {linkDrag && linkTarget && pendingLinkType && (
+                <div
+                  className={cn(
+                    "absolute z-30 pointer-events-none px-2 py-1 rounded-md text-xs shadow-md whitespace-nowrap",
+                    pendingLinkRejection ? "bg-destructive text-destructive-foreground" : "bg-popover text-popover-foreground border border-border"
+                  )}
+                  style={{ left: TASK_COLUMN_WIDTH + linkDrag.x + 12, top: linkDrag.y + 12 }}
+                >
+                  {pendingLinkRejection ?? `${pendingLinkType} · ${DEPENDENCY_TYPE_LABELS[pendingLinkType]}`}
+                </div>
+              )}
+
+              {/* Arrow popover: change the dependency type or remove it */}
+              {selectedEdge && (() => {
+                const edge = dependencyEdges.find(e => e.dependencyId === selectedEdge.dependencyId);
+                if (!edge) return null;
+                return (
+                  <Popover open onOpenChange={(open) => !open && setSelectedEdge(null)}>
+                    <PopoverTrigger asChild>
+                      <div
+                        className="absolute w-0 h-0"
+                        style={{ left: TASK_COLUMN_WIDTH + selectedEdge.x, top: selectedEdge.y }}
+                      />
+                    </PopoverTrigger>
+                    <PopoverContent side="top" className="w-72 p-3 space-y-3">
+                      <p className="text-sm font-medium truncate">
+                        {edge.fromTask.title} → {edge.toTask.title}
+                      </p>
+                      <div className="space-y-1.5">
+                        <label className="text-xs text-muted-foreground">Tipo de dependencia</label>
+                        <Select
+                          value={edge.type}
+                          onValueChange={(value) => handleChangeEdgeType(edge, value as DependencyType)}
+                          disabled={!onUpdateDependency}
+                        >
+                          <SelectTrigger className="h-8 text-xs">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {DEPENDENCY_TYPES.map(type => (
+                              <SelectItem key={type} value={type} className="text-xs">
+                                {type} · {DEPENDENCY_TYPE_LABELS[type]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        {edgeError && <p className="text-xs text-destructive">{edgeError}</p>}
+                      </div>
+                      <div className="flex justify-between gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="gap-1.5"
+                          onClick={() => {
+                            setSelectedEdge(null);
+                            onTaskClick(edge.toTask);
+                          }}
+                        >
+                          <ExternalLink className="w-3.5 h-3.5" />
+                          Abrir tarea
+                        </Button>
+                        {onRemoveDependency && (
+                          <Button
+                            variant="destructive"
+                            size="sm"
+                            className="gap-1.5"
+                            onClick={() => {
+                              onRemoveDependency(edge.toTaskId, edge.dependencyId);
+                              setSelectedEdge(null);
+                            }}
+                          >
+                            <Trash2 className="w-3.5 h-3.5" />
+                            Eliminar
+                          </Button>
+                        )}
+                      </div>
+                    </PopoverContent>
+                  </Popover>
+                );
+              })()}
             </div>
           )}
         </div>
       </div>
 
+      {pendingReschedule && (
+        <ReschedulePreviewDialog
+          open
+          onOpenChange={(open) => !open && setPendingReschedule(null)}
+          sourceTaskTitle={tasks.find(t => t.id === pendingReschedule.taskId)?.title ?? ''}
+          shifts={pendingReschedule.shifts}
+          getTaskTitle={(taskId) => tasks.find(t => t.id === taskId)?.title ?? ''}
+          onConfirm={() => {
+            onApplyReschedule?.(pendingReschedule.shifts);
+            setPendingReschedule(null);
+          }}
+        />
+      )}
+
       {/* Legend */}
       <div className="mt-4 flex items-center gap-4 text-xs text-muted-foreground flex-shrink-0">
         <span className="font-medium">Prioridad:</span>
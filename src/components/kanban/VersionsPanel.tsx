@@ -0,0 +1,276 @@
+import { useState, useEffect, useMemo } from 'react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { History, Loader2, Plus, Minus, ArrowRightLeft, Pencil } from 'lucide-react';
+import { Task } from '@/types/kanban';
+import { KanbanState } from '@/hooks/kanban/kanban.types';
+import { BoardSnapshotInfo, SnapshotDiff, SnapshotTier, LOCAL_SNAPSHOT_RETENTION } from '@/hooks/kanban/kanban.snapshots';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { cn } from '@/lib/utils';
+
+interface VersionsPanelProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onList: () => Promise<BoardSnapshotInfo[]>;
+  onLoad: (snapshotId: string) => Promise<KanbanState | null>;
+  onDiff: (snapshotState: KanbanState) => SnapshotDiff;
+  onRestore: (snapshotState: KanbanState) => void;
+  onRestoreTasks: (tasks: Task[]) => void;
+  /** Where snapshots are kept; localStorage keeps far fewer of them */
+  backend: 'indexeddb' | 'localstorage' | null;
+}
+
+const tierLabels: Record<SnapshotTier, string> = {
+  hourly: 'Hora',
+  daily: 'Día',
+  weekly: 'Semana',
+};
+
+type RestorableGroup = 'removed' | 'moved' | 'changed';
+
+const groupConfig: Record<RestorableGroup, { label: string; icon: typeof Plus; color: string }> = {
+  removed: { label: 'Eliminadas desde entonces', icon: Minus, color: 'text-destructive' },
+  moved: { label: 'Movidas de columna', icon: ArrowRightLeft, color: 'text-blue-500' },
+  changed: { label: 'Modificadas', icon: Pencil, color: 'text-amber-500' },
+};
+
+export function VersionsPanel({
+  open,
+  onOpenChange,
+  onList,
+  onLoad,
+  onDiff,
+  onRestore,
+  onRestoreTasks,
+  backend,
+}: VersionsPanelProps) {
+  const [snapshots, setSnapshots] = useState<BoardSnapshotInfo[]>([]);
+  const [isListing, setIsListing] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [snapshotState, setSnapshotState] = useState<KanbanState | null>(null);
+  const [isLoadingSnapshot, setIsLoadingSnapshot] = useState(false);
+  const [selectedTasks, setSelectedTasks] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    setSelectedId(null);
+    setSnapshotState(null);
+    setSelectedTasks(new Set());
+    setIsListing(true);
+    onList()
+      .then(list => {
+        if (!cancelled) setSnapshots(list);
+      })
+      .catch(error => console.error('[Kanban Storage] Error listing snapshots:', error))
+      .finally(() => {
+        if (!cancelled) setIsListing(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, onList]);
+
+  const selectSnapshot = async (snapshotId: string) => {
+    setSelectedId(snapshotId);
+    setSnapshotState(null);
+    setSelectedTasks(new Set());
+    setIsLoadingSnapshot(true);
+    try {
+      setSnapshotState(await onLoad(snapshotId));
+    } finally {
+      setIsLoadingSnapshot(false);
+    }
+  };
+
+  const diff = useMemo(() => (snapshotState ? onDiff(snapshotState) : null), [snapshotState, onDiff]);
+
+  const columnTitles = useMemo(
+    () => new Map((snapshotState?.columns ?? []).map(c => [c.id, c.title])),
+    [snapshotState]
+  );
+
+  const toggleTask = (taskId: string) => {
+    const next = new Set(selectedTasks);
+    if (next.has(taskId)) {
+      next.delete(taskId);
+    } else {
+      next.add(taskId);
+    }
+    setSelectedTasks(next);
+  };
+
+  const handleRestoreTasks = () => {
+    if (!snapshotState) return;
+    onRestoreTasks(snapshotState.tasks.filter(t => selectedTasks.has(t.id)));
+    setSelectedTasks(new Set());
+  };
+
+  const isUnchanged = diff && (['added', 'removed', 'moved', 'changed'] as const).every(key => diff[key].length === 0);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[760px] max-h-[85vh] flex flex-col bg-card border-border">
+        <DialogHeader>
+          <DialogTitle className="font-heading text-xl flex items-center gap-2">
+            <History className="w-5 h-5" />
+            Versiones
+          </DialogTitle>
+        </DialogHeader>
+
+        {backend === 'localstorage' && (
+          <p className="rounded-lg border border-border bg-muted/50 px-3 py-2 text-xs text-muted-foreground">
+            Este navegador guarda los datos en localStorage, con poco espacio: solo se conservan
+            {' '}{LOCAL_SNAPSHOT_RETENTION.hourly} versiones por hora, {LOCAL_SNAPSHOT_RETENTION.daily} diaria
+            y {LOCAL_SNAPSHOT_RETENTION.weekly} semanal, y no se guardan si el tablero es demasiado grande.
+          </p>
+        )}
+
+        <div className="flex-1 min-h-0 grid grid-cols-[220px_1fr] gap-4">
+          {/* Snapshot list */}
+          <div className="rounded-lg border border-border divide-y divide-border overflow-y-auto">
+            {isListing && (
+              <div className="flex items-center justify-center p-4">
+                <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+              </div>
+            )}
+            {!isListing && snapshots.length === 0 && (
+              <p className="p-3 text-sm text-muted-foreground">
+                Todavía no hay versiones. Se guarda una copia automática cada hora mientras el tablero está abierto.
+              </p>
+            )}
+            {!isListing && snapshots.map(snapshot => (
+              <button
+                key={snapshot.id}
+                type="button"
+                onClick={() => selectSnapshot(snapshot.id)}
+                className={cn(
+                  'w-full text-left px-3 py-2 hover:bg-muted/50 transition-colors',
+                  selectedId === snapshot.id && 'bg-muted'
+                )}
+              >
+                <div className="text-sm font-medium">
+                  {format(new Date(snapshot.takenAt), "d MMM yyyy HH:mm", { locale: es })}
+                </div>
+                <div className="flex items-center gap-1 mt-0.5">
+                  <span className="text-xs text-muted-foreground flex-1">
+                    {formatDistanceToNow(new Date(snapshot.takenAt), { locale: es, addSuffix: true })}
+                  </span>
+                  {snapshot.tiers.map(tier => (
+                    <span key={tier} className="text-[10px] bg-muted text-muted-foreground rounded px-1">
+                      {tierLabels[tier]}
+                    </span>
+                  ))}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {snapshot.taskCount === 1 ? '1 tarea' : `${snapshot.taskCount} tareas`}
+                </div>
+              </button>
+            ))}
+          </div>
+
+          {/* Diff against the current board */}
+          <div className="min-h-0 overflow-y-auto space-y-3">
+            {!selectedId && (
+              <p className="text-sm text-muted-foreground">
+                Elige una versión para ver qué ha cambiado desde entonces.
+              </p>
+            )}
+            {isLoadingSnapshot && (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Loader2 className="w-4 h-4 animate-spin" />
+                Cargando versión...
+              </div>
+            )}
+            {selectedId && !isLoadingSnapshot && !snapshotState && (
+              <p className="text-sm text-destructive">No se pudo cargar esta versión.</p>
+            )}
+
+            {diff && (
+              <>
+                <div className="flex flex-wrap gap-3 rounded-lg bg-muted/50 p-3 text-sm">
+                  <span className="flex items-center gap-1 text-green-600">
+                    <Plus className="w-3.5 h-3.5" />{diff.added.length} añadidas
+                  </span>
+                  <span className="flex items-center gap-1 text-destructive">
+                    <Minus className="w-3.5 h-3.5" />{diff.removed.length} eliminadas
+                  </span>
+                  <span className="flex items-center gap-1 text-blue-500">
+                    <ArrowRightLeft className="w-3.5 h-3.5" />{diff.moved.length} movidas
+                  </span>
+                  <span className="flex items-center gap-1 text-amber-500">
+                    <Pencil className="w-3.5 h-3.5" />{diff.changed.length} modificadas
+                  </span>
+                </div>
+
+                {isUnchanged && (
+                  <p className="text-sm text-muted-foreground">Las tareas no han cambiado desde esta versión.</p>
+                )}
+
+                {diff.added.length > 0 && (
+                  <div className="space-y-1">
+                    <h3 className="text-sm font-medium">Añadidas desde entonces</h3>
+                    <p className="text-xs text-muted-foreground">
+                      {diff.added.map(t => t.title).join(', ')}
+                    </p>
+                  </div>
+                )}
+
+                {(Object.keys(groupConfig) as RestorableGroup[]).map(group => {
+                  const tasks = diff[group];
+                  if (tasks.length === 0) return null;
+                  const { label, icon: Icon, color } = groupConfig[group];
+                  return (
+                    <div key={group} className="space-y-1">
+                      <h3 className="text-sm font-medium flex items-center gap-2">
+                        <Icon className={cn('w-4 h-4', color)} />
+                        {label}
+                      </h3>
+                      <div className="rounded-lg border border-border divide-y divide-border">
+                        {tasks.map(task => (
+                          <label key={task.id} className="flex items-center gap-2 px-3 py-1.5 text-sm cursor-pointer">
+                            <Checkbox
+                              checked={selectedTasks.has(task.id)}
+                              onCheckedChange={() => toggleTask(task.id)}
+                            />
+                            <span className="flex-1 truncate">{task.title}</span>
+                            <span className="text-xs text-muted-foreground">
+                              {columnTitles.get(task.columnId) ?? task.columnId}
+                            </span>
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+                  );
+                })}
+              </>
+            )}
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cerrar
+          </Button>
+          {snapshotState && (
+            <>
+              <Button variant="outline" onClick={handleRestoreTasks} disabled={selectedTasks.size === 0}>
+                {selectedTasks.size > 1 ? `Restaurar ${selectedTasks.size} tareas` : 'Restaurar tarea'}
+              </Button>
+              <Button onClick={() => onRestore(snapshotState)}>
+                Restaurar todo
+              </Button>
+            </>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
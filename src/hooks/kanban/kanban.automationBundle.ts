@@ -0,0 +1,245 @@
+import { Column, Tag } from '@/types/kanban';
+import {
+  AutomationDraft,
+  AutomationAction,
+  AutomationConditionGroup,
+  AutomationConditionNode,
+  isConditionGroup,
+} from '@/types/automation';
+import { KanbanState } from './kanban.types';
+import { defaultColumns, defaultTags, automationTemplates } from './kanban.seed';
+
+export const AUTOMATION_BUNDLE_FORMAT = 'publify.automations';
+export const AUTOMATION_BUNDLE_VERSION = 1;
+
+/**
+ * Portable set of automations. Column and tag IDs are book-specific, so the
+ * bundle carries their names and they are remapped by name on import.
+ */
+export interface AutomationBundle {
+  format: typeof AUTOMATION_BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  columns: { id: string; title: string }[];
+  tags: { id: string; name: string }[];
+  automations: AutomationDraft[];
+}
+
+export interface AutomationImportResult {
+  drafts: AutomationDraft[];
+  warnings: string[];
+}
+
+// ========== REFERENCE MAPPING ==========
+
+interface ReferenceMappers {
+  column: (id: string) => string;
+  tag: (id: string) => string;
+}
+
+function mapConditionTree(group: AutomationConditionGroup, mappers: ReferenceMappers): AutomationConditionGroup {
+  const mapNode = (node: AutomationConditionNode): AutomationConditionNode => {
+    if (isConditionGroup(node)) return mapConditionTree(node, mappers);
+    switch (node.type) {
+      case 'COLUMN_IS':
+        return { ...node, columnId: mappers.column(node.columnId) };
+      case 'HAS_TAG':
+      case 'MISSING_TAG':
+        return { ...node, tagId: mappers.tag(node.tagId) };
+      default:
+        return node;
+    }
+  };
+  return { ...group, children: group.children.map(mapNode) };
+}
+
+function mapAction(action: AutomationAction, mappers: ReferenceMappers): AutomationAction {
+  let mapped: AutomationAction = action;
+  switch (action.type) {
+    case 'MOVE_TO_COLUMN':
+    case 'CREATE_FOLLOW_UP_TASK':
+      mapped = { ...action, columnId: mappers.column(action.columnId) };
+      break;
+    case 'ADD_TAG':
+    case 'REMOVE_TAG':
+      mapped = { ...action, tagId: mappers.tag(action.tagId) };
+      break;
+  }
+  if (action.target) {
+    mapped = {
+      ...mapped,
+      target: {
+        ...action.target,
+        tagId: action.target.tagId && mappers.tag(action.target.tagId),
+        conditions: action.target.conditions && mapConditionTree(action.target.conditions, mappers),
+      },
+    };
+  }
+  return mapped;
+}
+
+/** Rewrite every column/tag reference of a rule through the given mappers */
+function mapAutomationReferences(draft: AutomationDraft, mappers: ReferenceMappers): AutomationDraft {
+  return {
+    ...draft,
+    conditions: mapConditionTree(draft.conditions, mappers),
+    actions: draft.actions.map(action => mapAction(action, mappers)),
+    scope: draft.scope && {
+      columnIds: draft.scope.columnIds?.map(mappers.column),
+      tagIds: draft.scope.tagIds?.map(mappers.tag),
+    },
+  };
+}
+
+const normalizeName = (name: string) => name.trim().toLowerCase();
+
+// ========== EXPORT ==========
+
+export function createAutomationBundle(
+  automations: AutomationDraft[],
+  source: Pick<KanbanState, 'columns' | 'tags'>
+): AutomationBundle {
+  const columnIds = new Set<string>();
+  const tagIds = new Set<string>();
+  const drafts = automations.map(automation => {
+    // Strip identity and timestamps; only the rule definition travels
+    const draft: AutomationDraft = {
+      name: automation.name,
+      enabled: automation.enabled,
+      trigger: automation.trigger,
+      conditions: automation.conditions,
+      actions: automation.actions,
+      scope: automation.scope,
+      limits: automation.limits,
+    };
+    mapAutomationReferences(draft, {
+      column: id => (columnIds.add(id), id),
+      tag: id => (tagIds.add(id), id),
+    });
+    return draft;
+  });
+
+  return {
+    format: AUTOMATION_BUNDLE_FORMAT,
+    version: AUTOMATION_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    columns: source.columns
+      .filter(c => columnIds.has(c.id))
+      .map(c => ({ id: c.id, title: c.title })),
+    tags: source.tags
+      .filter(t => tagIds.has(t.id))
+      .map(t => ({ id: t.id, name: t.name })),
+    automations: drafts,
+  };
+}
+
+// ========== IMPORT ==========
+
+/** Parse and validate the envelope of an exported bundle. Throws on invalid input. */
+export function parseAutomationBundle(json: string): AutomationBundle {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('El archivo no es un JSON válido');
+  }
+
+  const bundle = data as Partial<AutomationBundle>;
+  if (!bundle || bundle.format !== AUTOMATION_BUNDLE_FORMAT) {
+    throw new Error('El archivo no es una exportación de automatizaciones');
+  }
+  if (typeof bundle.version !== 'number' || bundle.version > AUTOMATION_BUNDLE_VERSION) {
+    throw new Error(`Versión de exportación no soportada (${bundle.version})`);
+  }
+  if (!Array.isArray(bundle.automations)) {
+    throw new Error('La exportación no contiene automatizaciones');
+  }
+
+  return {
+    format: AUTOMATION_BUNDLE_FORMAT,
+    version: bundle.version,
+    exportedAt: bundle.exportedAt ?? '',
+    columns: Array.isArray(bundle.columns) ? bundle.columns : [],
+    tags: Array.isArray(bundle.tags) ? bundle.tags : [],
+    automations: bundle.automations
+      .filter(a => a && typeof a.name === 'string' && a.trigger && Array.isArray(a.actions))
+      .map(a => ({
+        ...a,
+        enabled: a.enabled !== false,
+        conditions: a.conditions && isConditionGroup(a.conditions) ? a.conditions : { operator: 'AND' as const, children: [] },
+      })),
+  };
+}
+
+/**
+ * Remap a bundle's column/tag references by name onto the target book.
+ * Rules with references that cannot be resolved are imported disabled,
+ * with a warning for each missing reference.
+ */
+export function remapAutomationBundle(
+  bundle: AutomationBundle,
+  target: Pick<KanbanState, 'columns' | 'tags' | 'tasks' | 'automations'>
+): AutomationImportResult {
+  const columnsByName = new Map<string, Column>(target.columns.map(c => [normalizeName(c.title), c]));
+  const tagsByName = new Map<string, Tag>(target.tags.map(t => [normalizeName(t.name), t]));
+  const sourceColumns = new Map(bundle.columns.map(c => [c.id, c.title]));
+  const sourceTags = new Map(bundle.tags.map(t => [t.id, t.name]));
+  const existingNames = new Set(target.automations.map(a => normalizeName(a.name)));
+
+  const warnings: string[] = [];
+  const drafts = bundle.automations.map(automation => {
+    const missing: string[] = [];
+    const draft = mapAutomationReferences(automation, {
+      column: id => {
+        const title = sourceColumns.get(id);
+        const match = title !== undefined ? columnsByName.get(normalizeName(title)) : undefined;
+        if (match) return match.id;
+        missing.push(`columna "${title ?? id}"`);
+        return id;
+      },
+      tag: id => {
+        const name = sourceTags.get(id);
+        const match = name !== undefined ? tagsByName.get(normalizeName(name)) : undefined;
+        if (match) return match.id;
+        missing.push(`etiqueta "${name ?? id}"`);
+        return id;
+      },
+    });
+
+    // Task IDs only make sense within the book they came from
+    const actions = draft.actions.filter(action => {
+      if (action.type !== 'ADD_DEPENDENCY') return true;
+      if (target.tasks.some(t => t.id === action.dependsOnTaskId)) return true;
+      warnings.push(`"${automation.name}": se omitió "Añadir dependencia" (la tarea no existe en este libro)`);
+      return false;
+    });
+
+    if (missing.length > 0) {
+      warnings.push(`"${automation.name}": no se encontró ${Array.from(new Set(missing)).join(', ')}; se importa desactivada`);
+    }
+    if (existingNames.has(normalizeName(automation.name))) {
+      warnings.push(`"${automation.name}": ya existe una regla con ese nombre`);
+    }
+
+    return {
+      ...draft,
+      actions,
+      enabled: draft.enabled && missing.length === 0 && actions.length > 0,
+    };
+  });
+
+  return { drafts, warnings };
+}
+
+// ========== TEMPLATES ==========
+
+/** Resolve a built-in template against the target book */
+export function installAutomationTemplate(
+  templateId: string,
+  target: Pick<KanbanState, 'columns' | 'tags' | 'tasks' | 'automations'>
+): AutomationImportResult | null {
+  const template = automationTemplates.find(t => t.id === templateId);
+  if (!template) return null;
+  const bundle = createAutomationBundle([template.automation], { columns: defaultColumns, tags: defaultTags });
+  return remapAutomationBundle(bundle, target);
+}
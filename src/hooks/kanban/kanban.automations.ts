@@ -1,4 +1,4 @@
-import { Task, Tag, Priority } from '@/types/kanban';
+import { Task, Tag, Priority, Subtask, TaskDependency } from '@/types/kanban';
 import {
   Automation,
   AutomationAction,
@@ -7,17 +7,26 @@ import {
   AutomationExecution,
   AutomationNotification,
   AutomationTriggerType,
+  AutomationDraft,
+  AutomationConditionGroup,
+  AutomationConditionNode,
+  isConditionGroup,
+  TRIGGER_LABELS,
+  CONDITION_LABELS,
 } from '@/types/automation';
-import { KanbanState } from './kanban.types';
+import { KanbanState, HistoryState, KanbanAction, KanbanActionType } from './kanban.types';
 import { calculateTaskProgress } from './kanban.reducer';
+import { wouldCreateCycle, getTransitionBlock, shouldBlockMoveToColumn } from './kanban.dependencies';
+import { subtaskTemplates } from './kanban.seed';
+import { LOG_RETENTION_MAX_ENTRIES } from './kanban.logs';
+import { AutomationLedger, recordLedgerRun, toLedgerDay } from './kanban.ledger';
 
 const generateId = () => Math.random().toString(36).substr(2, 9);
-const MAX_ITERATIONS = 5;
-const MAX_LOGS = 200;
+const MAX_NOTIFICATIONS = 50;
 
 // ========== CONDITION EVALUATION ==========
 
-function getDaysUntilDue(task: Task): number | null {
+export function getDaysUntilDue(task: Task): number | null {
   if (!task.dueDate) return null;
   const now = new Date();
   const due = new Date(task.dueDate);
@@ -63,25 +72,85 @@ export function evaluateCondition(
       if (!task.subtasks || task.subtasks.length === 0) return false;
       return task.subtasks.some(s => !s.completed);
 
+    case 'STATUS_IS':
+      return task.status === condition.value;
+
     default:
       return false;
   }
 }
 
+export interface ConditionEvaluation {
+  node: AutomationConditionNode;
+  passed: boolean;
+  /** Child evaluations (condition groups only) */
+  children?: ConditionEvaluation[];
+}
+
+/**
+ * Evaluate a condition tree, keeping the result of every branch so callers
+ * can explain which part of the tree failed.
+ */
+export function evaluateConditionNode(
+  task: Task,
+  node: AutomationConditionNode,
+  state: KanbanState
+): ConditionEvaluation {
+  if (!isConditionGroup(node)) {
+    return { node, passed: evaluateCondition(task, node, state) };
+  }
+
+  const children = node.children.map(child => evaluateConditionNode(task, child, state));
+  // Empty groups = always true
+  if (children.length === 0) return { node, passed: true, children };
+
+  let passed: boolean;
+  switch (node.operator) {
+    case 'OR':
+      passed = children.some(c => c.passed);
+      break;
+    case 'NOT':
+      passed = children.every(c => !c.passed);
+      break;
+    default:
+      passed = children.every(c => c.passed);
+  }
+  return { node, passed, children };
+}
+
 export function evaluateConditions(
   task: Task,
-  conditions: AutomationCondition[],
+  conditions: AutomationConditionGroup,
   state: KanbanState
 ): boolean {
-  // Empty conditions = always true
-  if (conditions.length === 0) return true;
-  // AND logic: all conditions must be true
-  return conditions.every(condition => evaluateCondition(task, condition, state));
+  return evaluateConditionNode(task, conditions, state).passed;
+}
+
+/**
+ * Collect the leaf conditions responsible for a failed evaluation.
+ * For NOT groups the offending conditions are the ones that matched.
+ */
+export function getFailedConditions(evaluation: ConditionEvaluation): AutomationCondition[] {
+  if (evaluation.passed) return [];
+  if (!evaluation.children) return [evaluation.node as AutomationCondition];
+
+  const group = evaluation.node as AutomationConditionGroup;
+  if (group.operator === 'NOT') {
+    return evaluation.children.filter(c => c.passed).flatMap(collectConditions);
+  }
+  return evaluation.children.flatMap(getFailedConditions);
+}
+
+/** Flatten a condition tree into its leaf conditions */
+export function collectConditions(source: ConditionEvaluation | AutomationConditionNode): AutomationCondition[] {
+  const node = 'passed' in source ? source.node : source;
+  if (!isConditionGroup(node)) return [node];
+  return node.children.flatMap(collectConditions);
 }
 
 // ========== SCOPE CHECKING ==========
 
-function isInScope(task: Task, automation: Automation): boolean {
+function isInScope(task: Task, automation: Pick<Automation, 'scope'>): boolean {
   if (!automation.scope) return true;
 
   const { columnIds, tagIds } = automation.scope;
@@ -105,6 +174,10 @@ function isInScope(task: Task, automation: Automation): boolean {
 export interface ActionResult {
   updatedTask: Task;
   notifications: AutomationNotification[];
+  /** Reasons why an action could not be applied (e.g. WIP limit reached) */
+  errors: string[];
+  /** New tasks spawned by the action (e.g. follow-up tasks) */
+  createdTasks: Task[];
 }
 
 function addDays(date: Date, days: number): Date {
@@ -113,19 +186,63 @@ function addDays(date: Date, days: number): Date {
   return result;
 }
 
+/**
+ * Whether a column has no room left for one more of the book's active tasks.
+ * Same rule as the board's manual moves: archived tasks don't count.
+ */
+function isColumnAtWipLimit(columnId: string, relatedBook: string | null, state: KanbanState): boolean {
+  const column = state.columns.find(c => c.id === columnId);
+  if (!column?.wipLimit) return false;
+  const columnTaskCount = state.tasks.filter(
+    t => t.columnId === columnId && !t.isArchived && t.relatedBook === relatedBook
+  ).length;
+  return columnTaskCount >= column.wipLimit;
+}
+
+function wouldExceedWipLimit(task: Task, columnId: string, state: KanbanState): boolean {
+  if (task.columnId === columnId) return false;
+  return isColumnAtWipLimit(columnId, task.relatedBook, state);
+}
+
+/** Information about the task that fired the rule, for actions applied to other tasks */
+export interface ActionContext {
+  sourceTask: Task;
+  previousSourceTask?: AutomationEvent['previousTask'];
+}
+
 export function applyAction(
   task: Task,
   action: AutomationAction,
   state: KanbanState,
-  automationName: string
+  automationName: string,
+  context?: ActionContext
 ): ActionResult {
   let updatedTask = { ...task };
   const notifications: AutomationNotification[] = [];
+  const errors: string[] = [];
+  const createdTasks: Task[] = [];
 
   switch (action.type) {
-    case 'MOVE_TO_COLUMN':
+    case 'MOVE_TO_COLUMN': {
+      if (task.columnId === action.columnId) break;
+      if (wouldExceedWipLimit(task, action.columnId, state)) {
+        const column = state.columns.find(c => c.id === action.columnId);
+        errors.push(`Límite WIP alcanzado en "${column?.title ?? action.columnId}"`);
+        break;
+      }
+      const moveBlock = shouldBlockMoveToColumn(task, action.columnId, state);
+      if (moveBlock.blocked) {
+        errors.push(moveBlock.reason);
+        break;
+      }
       updatedTask.columnId = action.columnId;
+      updatedTask.columnEnteredAt = new Date();
+      // Append at the end of the target column
+      updatedTask.order = state.tasks.filter(
+        t => t.columnId === action.columnId && t.id !== task.id
+      ).length;
       break;
+    }
 
     case 'SET_PRIORITY':
       updatedTask.priority = action.value;
@@ -168,31 +285,282 @@ export function applyAction(
         timestamp: new Date(),
       });
       break;
+
+    case 'SET_STATUS': {
+      // Rules never override prerequisites; only strict mode stops them
+      const statusBlock = getTransitionBlock(task, { status: action.value }, state);
+      if (statusBlock.blocked && statusBlock.mode === 'strict') {
+        errors.push(statusBlock.reason);
+        break;
+      }
+      updatedTask.status = action.value;
+      updatedTask.isArchived = action.value === 'archived';
+      break;
+    }
+
+    case 'SET_ASSIGNEE':
+      updatedTask.assignee = action.assignee?.trim() || null;
+      break;
+
+    case 'ADD_SUBTASKS_FROM_TEMPLATE': {
+      const template = subtaskTemplates.find(t => t.id === action.templateId);
+      if (!template) {
+        errors.push(`Plantilla de subtareas no encontrada: ${action.templateId}`);
+        break;
+      }
+      // Idempotent: skip subtasks that already exist with the same title
+      const existingTitles = new Set(updatedTask.subtasks.map(st => st.title));
+      const newSubtasks: Subtask[] = template.subtasks
+        .filter(title => !existingTitles.has(title))
+        .map(title => ({
+          id: generateId(),
+          title,
+          completed: false,
+          assignedTo: null,
+          dueDate: null,
+          createdAt: new Date(),
+        }));
+      if (newSubtasks.length > 0) {
+        updatedTask.subtasks = [...updatedTask.subtasks, ...newSubtasks];
+        // New pending subtasks mean the task is no longer complete
+        if (updatedTask.status === 'completed') updatedTask.status = 'in_progress';
+      }
+      break;
+    }
+
+    case 'SET_START_DATE_IN_DAYS':
+      updatedTask.startDate = addDays(new Date(), action.value);
+      break;
+
+    case 'CREATE_FOLLOW_UP_TASK': {
+      if (!state.columns.some(c => c.id === action.columnId)) {
+        errors.push(`Columna no encontrada: ${action.columnId}`);
+        break;
+      }
+      if (isColumnAtWipLimit(action.columnId, task.relatedBook, state)) {
+        const column = state.columns.find(c => c.id === action.columnId);
+        errors.push(`Límite WIP alcanzado en "${column?.title ?? action.columnId}"`);
+        break;
+      }
+      const now = new Date();
+      createdTasks.push({
+        id: generateId(),
+        title: action.title.split('{title}').join(task.title),
+        description: `Seguimiento de "${task.title}" (creada por "${automationName}")`,
+        columnId: action.columnId,
+        priority: task.priority,
+        status: 'not_started',
+        tags: [],
+        dueDate: null,
+        startDate: now,
+        createdAt: now,
+        assignee: task.assignee,
+        checklist: [],
+        subtasks: [],
+        estimatedTime: null,
+        actualTime: null,
+        relatedBook: task.relatedBook,
+        relatedMarket: task.relatedMarket,
+        attachments: [],
+        dependencies: [],
+        taskDependencies: [{ id: generateId(), type: 'FS', dependsOnTaskId: task.id, createdAt: now }],
+        order: state.tasks.filter(t => t.columnId === action.columnId).length,
+        isArchived: false,
+        columnEnteredAt: now,
+      });
+      break;
+    }
+
+    case 'ADD_DEPENDENCY': {
+      const existing = updatedTask.taskDependencies || [];
+      if (existing.some(d => d.dependsOnTaskId === action.dependsOnTaskId)) break;
+      if (!state.tasks.some(t => t.id === action.dependsOnTaskId)) {
+        errors.push('La tarea de la dependencia ya no existe');
+        break;
+      }
+      if (wouldCreateCycle(task.id, action.dependsOnTaskId, state)) {
+        errors.push('La dependencia crearía un ciclo');
+        break;
+      }
+      const dependency: TaskDependency = {
+        id: generateId(),
+        type: 'FS',
+        dependsOnTaskId: action.dependsOnTaskId,
+        createdAt: new Date(),
+      };
+      updatedTask.taskDependencies = [...existing, dependency];
+      break;
+    }
+
+    case 'SHIFT_DATES_BY_SOURCE_SLIP': {
+      const previousDue = context?.previousSourceTask?.dueDate;
+      const currentDue = context?.sourceTask.dueDate;
+      if (!previousDue || !currentDue) break;
+      const deltaMs = new Date(currentDue).getTime() - new Date(previousDue).getTime();
+      if (deltaMs === 0) break;
+      if (updatedTask.startDate) updatedTask.startDate = new Date(new Date(updatedTask.startDate).getTime() + deltaMs);
+      if (updatedTask.dueDate) updatedTask.dueDate = new Date(new Date(updatedTask.dueDate).getTime() + deltaMs);
+      break;
+    }
   }
 
-  return { updatedTask, notifications };
+  return { updatedTask, notifications, errors, createdTasks };
 }
 
-export function applyActions(
-  task: Task,
-  actions: AutomationAction[],
+// ========== RATE LIMITS ==========
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Return why an automation may not run on a task right now, or null if it may.
+ * Limits are checked against the automation's ledger entry, which outlives
+ * the capped and purgeable execution log.
+ */
+export function getRateLimitReason(
+  automation: Pick<Automation, 'id' | 'limits'>,
+  taskId: string,
+  ledger: AutomationLedger,
+  now: Date = new Date()
+): string | null {
+  const limits = automation.limits;
+  const entry = ledger[automation.id];
+  if (!limits || !entry) return null;
+
+  const lastTaskRun = entry.taskRuns[taskId];
+  if (limits.oncePerTask && lastTaskRun) {
+    return 'Ya se ejecutó para esta tarea';
+  }
+  if (limits.cooldownMinutesPerTask && lastTaskRun) {
+    if (now.getTime() - new Date(lastTaskRun).getTime() < limits.cooldownMinutesPerTask * MINUTE_MS) {
+      return `Espera de ${limits.cooldownMinutesPerTask} min por tarea`;
+    }
+  }
+  if (limits.cooldownMinutesGlobal && entry.lastRunAt) {
+    if (now.getTime() - new Date(entry.lastRunAt).getTime() < limits.cooldownMinutesGlobal * MINUTE_MS) {
+      return `Espera global de ${limits.cooldownMinutesGlobal} min`;
+    }
+  }
+  if (limits.maxRunsPerDay && entry.runsToday.day === toLedgerDay(now)) {
+    if (entry.runsToday.count >= limits.maxRunsPerDay) {
+      return `Máximo de ${limits.maxRunsPerDay} ejecuciones al día`;
+    }
+  }
+  return null;
+}
+
+// ========== ACTION TARGETS ==========
+
+/**
+ * Resolve the tasks an action applies to, relative to the task that fired
+ * the rule. Other tasks must belong to the same book and, unless the action
+ * unarchives, must not be archived.
+ */
+export function resolveActionTargets(
+  sourceTask: Task,
+  action: AutomationAction,
+  state: KanbanState
+): Task[] {
+  const target = action.target;
+  if (!target || target.kind === 'SELF') return [sourceTask];
+
+  let candidates: Task[];
+  switch (target.kind) {
+    case 'DEPENDENTS':
+      candidates = state.tasks.filter(t =>
+        (t.taskDependencies || []).some(d => d.dependsOnTaskId === sourceTask.id)
+      );
+      break;
+    case 'PREREQUISITES': {
+      const prerequisiteIds = new Set((sourceTask.taskDependencies || []).map(d => d.dependsOnTaskId));
+      candidates = state.tasks.filter(t => prerequisiteIds.has(t.id));
+      break;
+    }
+    case 'TASKS_WITH_TAG':
+      candidates = state.tasks.filter(t => t.tags.some(tag => tag.id === target.tagId));
+      break;
+    default:
+      candidates = [];
+  }
+
+  return candidates.filter(t =>
+    t.id !== sourceTask.id &&
+    t.relatedBook === sourceTask.relatedBook &&
+    (!t.isArchived || action.type === 'UNARCHIVE_TASK') &&
+    (!target.conditions || evaluateConditions(t, target.conditions, state))
+  );
+}
+
+export interface AutomationActionsResult {
+  nextState: KanbanState;
+  notifications: AutomationNotification[];
+  errors: string[];
+  createdTasks: Task[];
+  /** Tasks whose fingerprint changed, keyed by id, with their state before the actions */
+  changedTasks: Map<string, Task>;
+}
+
+/**
+ * Apply all actions of an automation fired by `sourceTaskId`, resolving each
+ * action's targets against the state left by the previous action.
+ */
+export function applyAutomationActions(
+  sourceTaskId: string,
+  automation: Pick<Automation, 'actions' | 'name'>,
   state: KanbanState,
-  automationName: string
-): ActionResult {
-  let currentTask = task;
-  const allNotifications: AutomationNotification[] = [];
+  previousSourceTask?: AutomationEvent['previousTask']
+): AutomationActionsResult {
+  let currentState = state;
+  const notifications: AutomationNotification[] = [];
+  const errors: string[] = [];
+  const createdTasks: Task[] = [];
+  const originals = new Map<string, Task>();
+
+  for (const action of automation.actions) {
+    const sourceTask = currentState.tasks.find(t => t.id === sourceTaskId);
+    if (!sourceTask) break;
+
+    for (const target of resolveActionTargets(sourceTask, action, currentState)) {
+      const result = applyAction(target, action, currentState, automation.name, {
+        sourceTask,
+        previousSourceTask,
+      });
+      notifications.push(...result.notifications);
+      errors.push(...result.errors);
 
-  for (const action of actions) {
-    const result = applyAction(currentTask, action, state, automationName);
-    currentTask = result.updatedTask;
-    allNotifications.push(...result.notifications);
+      let tasks = currentState.tasks;
+      if (taskFingerprint(result.updatedTask) !== taskFingerprint(target)) {
+        if (!originals.has(target.id)) originals.set(target.id, target);
+        tasks = tasks.map(t => (t.id === target.id ? result.updatedTask : t));
+      }
+      if (result.createdTasks.length > 0) {
+        createdTasks.push(...result.createdTasks);
+        tasks = [...tasks, ...result.createdTasks];
+      }
+      if (tasks !== currentState.tasks) {
+        currentState = { ...currentState, tasks };
+      }
+    }
   }
 
-  return { updatedTask: currentTask, notifications: allNotifications };
+  // Drop tasks that ended up back where they started
+  const changedTasks = new Map<string, Task>();
+  originals.forEach((before, id) => {
+    const after = currentState.tasks.find(t => t.id === id);
+    if (after && taskFingerprint(after) !== taskFingerprint(before)) changedTasks.set(id, before);
+  });
+
+  return { nextState: currentState, notifications, errors, createdTasks, changedTasks };
 }
 
 // ========== MAIN AUTOMATION ENGINE ==========
 
+/** Max automation passes over the same task within one event */
+const MAX_ITERATIONS = 5;
+/** Max depth of cross-task cascades (A changes B, B's rules change C, ...) */
+const MAX_CASCADE_DEPTH = 3;
+/** Hard cap on events processed in a single run */
+const MAX_CASCADE_EVENTS = 50;
+
 function taskFingerprint(task: Task): string {
   return JSON.stringify({
     columnId: task.columnId,
@@ -200,17 +568,41 @@ function taskFingerprint(task: Task): string {
     tagIds: task.tags.map(t => t.id).sort(),
     isArchived: task.isArchived,
     status: task.status,
-    dueDate: task.dueDate?.toISOString(),
+    assignee: task.assignee,
+    dueDate: task.dueDate ? new Date(task.dueDate).toISOString() : undefined,
+    startDate: task.startDate ? new Date(task.startDate).toISOString() : undefined,
+    subtaskTitles: task.subtasks?.map(s => s.title),
     subtasksCompleted: task.subtasks?.filter(s => s.completed).length,
+    dependsOn: (task.taskDependencies || []).map(d => d.dependsOnTaskId).sort(),
   });
 }
 
+/** Snapshot of a task as seen by automation events */
+export function toEventSnapshot(task: Task): NonNullable<AutomationEvent['previousTask']> {
+  return {
+    columnId: task.columnId,
+    priority: task.priority,
+    tagIds: task.tags.map(t => t.id),
+    progress: calculateTaskProgress(task),
+    dueDate: task.dueDate,
+  };
+}
+
 export interface AutomationRunResult {
   nextState: KanbanState;
   executionLogs: AutomationExecution[];
   notifications: AutomationNotification[];
 }
 
+/**
+ * Run every matching automation for an event. Changes made to other tasks by
+ * cross-task actions are queued as new events so their own rules can react.
+ *
+ * Loop safety:
+ * - a rule fires at most once per task within a run
+ * - a task is not re-evaluated in a state (fingerprint) it was already evaluated in
+ * - cascades stop after MAX_CASCADE_DEPTH levels / MAX_CASCADE_EVENTS events
+ */
 export function runAutomations(
   event: AutomationEvent,
   state: KanbanState
@@ -218,127 +610,156 @@ export function runAutomations(
   const executionLogs: AutomationExecution[] = [];
   const allNotifications: AutomationNotification[] = [];
   let currentState = state;
-  let iterations = 0;
-  let hasChanges = true;
 
-  // Prevent infinite loops
   const processedFingerprints = new Set<string>();
-
-  while (hasChanges && iterations < MAX_ITERATIONS) {
-    hasChanges = false;
-    iterations++;
-
-    const task = currentState.tasks.find(t => t.id === event.taskId);
-    if (!task) break;
-
-    const taskFp = taskFingerprint(task);
-    if (processedFingerprints.has(taskFp)) break;
-    processedFingerprints.add(taskFp);
-
-    // Get enabled automations with matching trigger
-    const matchingAutomations = currentState.automations.filter(
-      a => a.enabled && a.trigger.type === event.type
-    );
-
-    for (const automation of matchingAutomations) {
-      const currentTask = currentState.tasks.find(t => t.id === event.taskId);
-      if (!currentTask) continue;
-
-      // Check if disabled
-      if (!automation.enabled) {
-        executionLogs.push({
-          id: generateId(),
-          automationId: automation.id,
-          automationName: automation.name,
-          taskId: event.taskId,
-          taskTitle: currentTask.title,
-          timestamp: new Date(),
-          triggerType: event.type,
-          actionsApplied: [],
-          result: 'skipped_disabled',
-        });
-        continue;
-      }
-
-      // Check scope
-      if (!isInScope(currentTask, automation)) {
-        executionLogs.push({
-          id: generateId(),
-          automationId: automation.id,
-          automationName: automation.name,
-          taskId: event.taskId,
-          taskTitle: currentTask.title,
-          timestamp: new Date(),
-          triggerType: event.type,
-          actionsApplied: [],
-          result: 'skipped_scope',
-        });
-        continue;
-      }
-
-      // Check conditions
-      if (!evaluateConditions(currentTask, automation.conditions, currentState)) {
-        executionLogs.push({
-          id: generateId(),
-          automationId: automation.id,
-          automationName: automation.name,
-          taskId: event.taskId,
-          taskTitle: currentTask.title,
-          timestamp: new Date(),
-          triggerType: event.type,
-          actionsApplied: [],
-          result: 'skipped_conditions',
-        });
-        continue;
-      }
-
-      // Apply actions
-      const beforeFp = taskFingerprint(currentTask);
-      const { updatedTask, notifications } = applyActions(
-        currentTask,
-        automation.actions,
-        currentState,
-        automation.name
+  const firedKeys = new Set<string>();
+  const queue: { event: AutomationEvent; depth: number }[] = [{ event, depth: 0 }];
+  let processedEvents = 0;
+
+  while (queue.length > 0 && processedEvents < MAX_CASCADE_EVENTS) {
+    const { event: current, depth } = queue.shift()!;
+    processedEvents++;
+
+    const makeLog = (
+      automation: Automation,
+      taskTitle: string,
+      result: AutomationExecution['result'],
+      extra: Partial<AutomationExecution> = {}
+    ): AutomationExecution => ({
+      id: generateId(),
+      automationId: automation.id,
+      automationName: automation.name,
+      taskId: current.taskId,
+      taskTitle,
+      timestamp: new Date(),
+      triggerType: current.type,
+      scheduleWindow: current.scheduleWindow,
+      actionsApplied: [],
+      result,
+      ...extra,
+    });
+
+    let iterations = 0;
+    let hasChanges = true;
+
+    while (hasChanges && iterations < MAX_ITERATIONS) {
+      hasChanges = false;
+      iterations++;
+
+      const task = currentState.tasks.find(t => t.id === current.taskId);
+      if (!task) break;
+
+      const fpKey = `${task.id}|${taskFingerprint(task)}`;
+      if (processedFingerprints.has(fpKey)) break;
+      processedFingerprints.add(fpKey);
+
+      // Get enabled automations with matching trigger
+      const matchingAutomations = currentState.automations.filter(
+        a =>
+          a.enabled &&
+          a.trigger.type === current.type &&
+          (!current.automationId || a.id === current.automationId)
       );
-      const afterFp = taskFingerprint(updatedTask);
 
-      if (beforeFp === afterFp) {
-        executionLogs.push({
-          id: generateId(),
-          automationId: automation.id,
-          automationName: automation.name,
-          taskId: event.taskId,
-          taskTitle: currentTask.title,
-          timestamp: new Date(),
-          triggerType: event.type,
-          actionsApplied: automation.actions,
-          result: 'skipped_no_change',
+      for (const automation of matchingAutomations) {
+        const fireKey = `${automation.id}|${current.taskId}`;
+        if (firedKeys.has(fireKey)) continue;
+
+        const currentTask = currentState.tasks.find(t => t.id === current.taskId);
+        if (!currentTask) continue;
+
+        // Check if disabled
+        if (!automation.enabled) {
+          executionLogs.push(makeLog(automation, currentTask.title, 'skipped_disabled'));
+          continue;
+        }
+
+        // Check scope
+        if (!isInScope(currentTask, automation)) {
+          executionLogs.push(makeLog(automation, currentTask.title, 'skipped_scope'));
+          continue;
+        }
+
+        // Check conditions
+        if (!evaluateConditions(currentTask, automation.conditions, currentState)) {
+          executionLogs.push(makeLog(automation, currentTask.title, 'skipped_conditions'));
+          continue;
+        }
+
+        // Check cooldowns and run limits; the ledger already has runs earlier in this cascade
+        const rateLimitReason = getRateLimitReason(automation, current.taskId, currentState.automationLedger);
+        if (rateLimitReason) {
+          executionLogs.push(makeLog(automation, currentTask.title, 'skipped_rate_limit', {
+            skipReason: rateLimitReason,
+          }));
+          continue;
+        }
+
+        // Apply actions
+        const outcome = applyAutomationActions(
+          current.taskId,
+          automation,
+          currentState,
+          current.previousTask
+        );
+        const errorMessage = outcome.errors.length > 0 ? outcome.errors.join('; ') : undefined;
+        // Notifications and spawned tasks count as an effect even if no task changed
+        const hasEffect =
+          outcome.changedTasks.size > 0 ||
+          outcome.notifications.length > 0 ||
+          outcome.createdTasks.length > 0;
+
+        if (!hasEffect) {
+          executionLogs.push(makeLog(automation, currentTask.title, errorMessage ? 'error' : 'skipped_no_change', {
+            actionsApplied: automation.actions,
+            errorMessage,
+          }));
+          continue;
+        }
+
+        firedKeys.add(fireKey);
+        currentState = {
+          ...outcome.nextState,
+          automationLedger: recordLedgerRun(
+            outcome.nextState.automationLedger,
+            automation.id,
+            current.taskId,
+            new Date(),
+            current.scheduleWindow
+          ),
+        };
+        allNotifications.push(...outcome.notifications);
+        if (outcome.changedTasks.has(current.taskId)) hasChanges = true;
+
+        // Queue cascades for other tasks changed by cross-task actions
+        const affectedTaskIds: string[] = [];
+        outcome.changedTasks.forEach((before, id) => {
+          if (id === current.taskId) return;
+          affectedTaskIds.push(id);
+          if (depth >= MAX_CASCADE_DEPTH) return;
+          const after = currentState.tasks.find(t => t.id === id);
+          const triggerType = detectTriggerType('TASK_UPDATED', before, after);
+          if (triggerType) {
+            queue.push({
+              event: { type: triggerType, taskId: id, previousTask: toEventSnapshot(before) },
+              depth: depth + 1,
+            });
+          }
         });
-        continue;
+        affectedTaskIds.push(...outcome.createdTasks.map(t => t.id));
+        // Spawned tasks fire TASK_CREATED rules like a task created by hand
+        if (depth < MAX_CASCADE_DEPTH) {
+          outcome.createdTasks.forEach(created => {
+            queue.push({ event: { type: 'TASK_CREATED', taskId: created.id }, depth: depth + 1 });
+          });
+        }
+
+        executionLogs.push(makeLog(automation, currentTask.title, 'applied', {
+          actionsApplied: automation.actions,
+          errorMessage,
+          affectedTaskIds: affectedTaskIds.length > 0 ? affectedTaskIds : undefined,
+        }));
       }
-
-      // Update state
-      currentState = {
-        ...currentState,
-        tasks: currentState.tasks.map(t =>
-          t.id === event.taskId ? updatedTask : t
-        ),
-      };
-
-      allNotifications.push(...notifications);
-      hasChanges = true;
-
-      executionLogs.push({
-        id: generateId(),
-        automationId: automation.id,
-        automationName: automation.name,
-        taskId: event.taskId,
-        taskTitle: currentTask.title,
-        timestamp: new Date(),
-        triggerType: event.type,
-        actionsApplied: automation.actions,
-        result: 'applied',
-      });
     }
   }
 
@@ -403,6 +824,88 @@ export function detectTriggerType(
   }
 }
 
+// ========== DISPATCH PIPELINE ==========
+
+/** Kanban actions that mutate a single task and may fire automations */
+const AUTOMATION_SOURCE_ACTIONS: KanbanActionType[] = [
+  'TASK_CREATED',
+  'TASK_UPDATED',
+  'TASK_MOVED',
+  'SUBTASK_CREATED',
+  'SUBTASK_UPDATED',
+  'SUBTASK_TOGGLED',
+  'SUBTASK_DELETED',
+  'CHECKLIST_ITEM_ADDED',
+  'CHECKLIST_ITEM_TOGGLED',
+  'CHECKLIST_ITEM_DELETED',
+];
+
+function getAffectedTaskId(
+  action: KanbanAction,
+  previousState: KanbanState,
+  nextState: KanbanState
+): string | null {
+  if (action.type === 'TASK_CREATED') {
+    const previousIds = new Set(previousState.tasks.map(t => t.id));
+    return nextState.tasks.find(t => !previousIds.has(t.id))?.id ?? null;
+  }
+  const payload = action.payload as { taskId?: string } | undefined;
+  return payload?.taskId ?? null;
+}
+
+/**
+ * Run automations for a task-mutating action that was just reduced.
+ * The automation side-effects are folded into `next.present`, so the user
+ * action and everything it triggered are undone together.
+ */
+export function applyAutomationsToHistory(
+  previous: HistoryState,
+  next: HistoryState,
+  action: KanbanAction
+): HistoryState {
+  if (next === previous || !AUTOMATION_SOURCE_ACTIONS.includes(action.type)) return next;
+
+  const taskId = getAffectedTaskId(action, previous.present, next.present);
+  if (!taskId) return next;
+
+  const previousTask = previous.present.tasks.find(t => t.id === taskId);
+  const currentTask = next.present.tasks.find(t => t.id === taskId);
+  if (!currentTask) return next;
+
+  // Reordering inside the same column is not a move
+  if (action.type === 'TASK_MOVED' && previousTask?.columnId === currentTask.columnId) {
+    return next;
+  }
+
+  const triggerType = detectTriggerType(action.type, previousTask, currentTask);
+  if (!triggerType) return next;
+
+  const hasMatchingAutomations = next.present.automations.some(
+    a => a.enabled && a.trigger.type === triggerType
+  );
+  if (!hasMatchingAutomations) return next;
+
+  const { nextState, executionLogs, notifications } = runAutomations(
+    {
+      type: triggerType,
+      taskId,
+      previousTask: previousTask && toEventSnapshot(previousTask),
+    },
+    next.present
+  );
+
+  if (executionLogs.length === 0 && notifications.length === 0) return next;
+
+  return {
+    ...next,
+    present: {
+      ...nextState,
+      automationLogs: addExecutionLogs(nextState.automationLogs, executionLogs),
+      notifications: addNotifications(nextState.notifications, notifications),
+    },
+  };
+}
+
 // ========== LOG MANAGEMENT ==========
 
 export function addExecutionLogs(
@@ -410,7 +913,133 @@ export function addExecutionLogs(
   newLogs: AutomationExecution[]
 ): AutomationExecution[] {
   const combined = [...newLogs, ...existingLogs];
-  return combined.slice(0, MAX_LOGS);
+  return combined.slice(0, LOG_RETENTION_MAX_ENTRIES);
+}
+
+export function addNotifications(
+  existing: AutomationNotification[],
+  added: AutomationNotification[]
+): AutomationNotification[] {
+  return [...added, ...existing].slice(0, MAX_NOTIFICATIONS);
+}
+
+// ========== VALIDATION ==========
+
+/**
+ * Validate an automation before saving it.
+ * Returns a list of human-readable errors (empty when valid).
+ */
+export function validateAutomation(
+  automation: AutomationDraft,
+  state: KanbanState
+): string[] {
+  const errors: string[] = [];
+  const columnIds = new Set(state.columns.map(c => c.id));
+  const tagIds = new Set(state.tags.map(t => t.id));
+
+  if (!automation.name.trim()) {
+    errors.push('La automatización necesita un nombre');
+  }
+  if (!TRIGGER_LABELS[automation.trigger.type]) {
+    errors.push('Selecciona un disparador válido');
+  }
+  const { days, hour } = automation.trigger;
+  if (
+    (automation.trigger.type === 'DUE_DATE_APPROACHING' || automation.trigger.type === 'STALE_IN_COLUMN_FOR_DAYS') &&
+    (!Number.isInteger(days) || days < 1)
+  ) {
+    errors.push('El disparador necesita un número de días (mínimo 1)');
+  }
+  if (automation.trigger.type === 'DAILY' && (!Number.isInteger(hour) || hour < 0 || hour > 23)) {
+    errors.push('La hora del disparador diario debe estar entre 0 y 23');
+  }
+  if (automation.actions.length === 0) {
+    errors.push('Añade al menos una acción');
+  }
+  const { cooldownMinutesPerTask, cooldownMinutesGlobal, maxRunsPerDay } = automation.limits ?? {};
+  for (const value of [cooldownMinutesPerTask, cooldownMinutesGlobal, maxRunsPerDay]) {
+    if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+      errors.push('Los límites de ejecución deben ser números enteros positivos');
+      break;
+    }
+  }
+
+  const validateConditions = (group: AutomationConditionGroup, prefix = '') => {
+    collectConditions(group).forEach((condition, i) => {
+      const label = `${prefix}Condición ${i + 1}`;
+      switch (condition.type) {
+        case 'COLUMN_IS':
+          if (!columnIds.has(condition.columnId)) errors.push(`${label}: columna no encontrada`);
+          break;
+        case 'HAS_TAG':
+        case 'MISSING_TAG':
+          if (!tagIds.has(condition.tagId)) errors.push(`${label}: etiqueta no encontrada`);
+          break;
+        case 'DUE_IN_DAYS_LESS_THAN':
+          if (!Number.isFinite(condition.value) || condition.value < 1) {
+            errors.push(`${label}: el número de días debe ser al menos 1`);
+          }
+          break;
+      }
+    });
+  };
+  validateConditions(automation.conditions);
+
+  automation.actions.forEach((action, i) => {
+    const label = `Acción ${i + 1}`;
+    if (action.target?.kind === 'TASKS_WITH_TAG' && !tagIds.has(action.target.tagId)) {
+      errors.push(`${label}: etiqueta de destino no encontrada`);
+    }
+    if (action.target?.conditions) {
+      validateConditions(action.target.conditions, `${label}, destino: `);
+    }
+    if (action.type === 'SHIFT_DATES_BY_SOURCE_SLIP' && (!action.target || action.target.kind === 'SELF')) {
+      errors.push(`${label}: desplazar fechas solo tiene sentido sobre otras tareas`);
+    }
+    switch (action.type) {
+      case 'MOVE_TO_COLUMN':
+        if (!columnIds.has(action.columnId)) errors.push(`${label}: columna no encontrada`);
+        break;
+      case 'ADD_TAG':
+      case 'REMOVE_TAG':
+        if (!tagIds.has(action.tagId)) errors.push(`${label}: etiqueta no encontrada`);
+        break;
+      case 'SET_DUE_DATE_IN_DAYS':
+        if (!Number.isInteger(action.value) || action.value < 0) {
+          errors.push(`${label}: el número de días debe ser 0 o mayor`);
+        }
+        break;
+      case 'NOTIFY_IN_APP':
+        if (!action.message.trim()) errors.push(`${label}: el mensaje no puede estar vacío`);
+        break;
+      case 'SET_START_DATE_IN_DAYS':
+        if (!Number.isInteger(action.value) || action.value < 0) {
+          errors.push(`${label}: el número de días debe ser 0 o mayor`);
+        }
+        break;
+      case 'ADD_SUBTASKS_FROM_TEMPLATE':
+        if (!subtaskTemplates.some(t => t.id === action.templateId)) {
+          errors.push(`${label}: plantilla no encontrada`);
+        }
+        break;
+      case 'CREATE_FOLLOW_UP_TASK':
+        if (!columnIds.has(action.columnId)) errors.push(`${label}: columna no encontrada`);
+        if (!action.title.trim()) errors.push(`${label}: la tarea de seguimiento necesita un título`);
+        break;
+      case 'ADD_DEPENDENCY':
+        if (!state.tasks.some(t => t.id === action.dependsOnTaskId)) {
+          errors.push(`${label}: tarea no encontrada`);
+        }
+        break;
+    }
+  });
+
+  const { columnIds: scopeColumns = [], tagIds: scopeTags = [] } = automation.scope || {};
+  if (scopeColumns.some(id => !columnIds.has(id)) || scopeTags.some(id => !tagIds.has(id))) {
+    errors.push('El alcance hace referencia a columnas o etiquetas que ya no existen');
+  }
+
+  return errors;
 }
 
 // ========== TEST AUTOMATION ==========
@@ -419,10 +1048,14 @@ export interface TestAutomationResult {
   wouldApply: boolean;
   reason: string;
   actionsToApply: AutomationAction[];
+  /** Leaf conditions responsible for the rule not applying */
+  failedConditions: AutomationCondition[];
+  /** Full evaluation of the condition tree (null if it wasn't evaluated) */
+  evaluation: ConditionEvaluation | null;
 }
 
 export function testAutomation(
-  automation: Automation,
+  automation: AutomationDraft,
   task: Task,
   state: KanbanState
 ): TestAutomationResult {
@@ -431,6 +1064,8 @@ export function testAutomation(
       wouldApply: false,
       reason: 'La automatización está desactivada',
       actionsToApply: [],
+      failedConditions: [],
+      evaluation: null,
     };
   }
 
@@ -439,17 +1074,20 @@ export function testAutomation(
       wouldApply: false,
       reason: 'La tarea no está en el alcance de la automatización',
       actionsToApply: [],
+      failedConditions: [],
+      evaluation: null,
     };
   }
 
-  if (!evaluateConditions(task, automation.conditions, state)) {
-    const failedConditions = automation.conditions
-      .filter(c => !evaluateCondition(task, c, state))
-      .map(c => c.type);
+  const evaluation = evaluateConditionNode(task, automation.conditions, state);
+  if (!evaluation.passed) {
+    const failedConditions = getFailedConditions(evaluation);
     return {
       wouldApply: false,
-      reason: `Condiciones no cumplidas: ${failedConditions.join(', ')}`,
+      reason: `Condiciones no cumplidas: ${failedConditions.map(c => CONDITION_LABELS[c.type]).join(', ')}`,
       actionsToApply: [],
+      failedConditions,
+      evaluation,
     };
   }
 
@@ -457,5 +1095,7 @@ export function testAutomation(
     wouldApply: true,
     reason: 'Todas las condiciones se cumplen',
     actionsToApply: automation.actions,
+    failedConditions: [],
+    evaluation,
   };
 }
@@ -0,0 +1,189 @@
+import { AutomationExecution } from '@/types/kanban';
+import { KanbanState } from './kanban.types';
+import { STORAGE_VERSION, SerializedKanbanState, serializeState, deserializeState } from './kanban.storage';
+import { applyLogRetention } from './kanban.logs';
+import { getStorageAdapter } from './kanban.storageAdapter';
+import { validateSerializedState, FieldRepair } from './kanban.schema';
+
+export const BOOK_ARCHIVE_FORMAT = 'publify.kanban-book';
+export const BOOK_ARCHIVE_VERSION = 1;
+
+type SerializedExecution = Omit<AutomationExecution, 'timestamp'> & { timestamp: string };
+
+/**
+ * Portable backup of one book. `data` is the same serialized shape the
+ * storage backends use, tagged with the `STORAGE_VERSION` it was written
+ * with, so restoring goes through the regular `deserializeState` migrations.
+ */
+export interface BookArchive {
+  format: typeof BOOK_ARCHIVE_FORMAT;
+  version: number;
+  storageVersion: number;
+  bookId: string;
+  exportedAt: string;
+  data: SerializedKanbanState;
+  logs: SerializedExecution[];
+}
+
+export type ArchiveCollection = 'tasks' | 'columns' | 'tags' | 'notes' | 'automations' | 'logs';
+
+/** A record left out of a restore, and why */
+export interface RejectedRecord {
+  collection: ArchiveCollection;
+  /** Position in the archive's array */
+  index: number;
+  id?: string;
+  label?: string;
+  reason: string;
+}
+
+export interface BookArchiveImport {
+  sourceBookId: string;
+  exportedAt: string;
+  storageVersion: number;
+  /** The restored board, logs included */
+  state: KanbanState;
+  accepted: Record<ArchiveCollection, number>;
+  /** Fields replaced with a default to make a record usable */
+  repairs: FieldRepair[];
+  rejected: RejectedRecord[];
+}
+
+export type RestoreMode = 'replace' | 'new-book';
+
+const generateId = () => Math.random().toString(36).substr(2, 9);
+
+// ========== EXPORT ==========
+
+export function createBookArchive(state: KanbanState, bookId: string): BookArchive {
+  return {
+    format: BOOK_ARCHIVE_FORMAT,
+    version: BOOK_ARCHIVE_VERSION,
+    storageVersion: STORAGE_VERSION,
+    bookId,
+    exportedAt: new Date().toISOString(),
+    data: serializeState(state),
+    logs: state.automationLogs.map(log => ({ ...log, timestamp: new Date(log.timestamp).toISOString() })),
+  };
+}
+
+// ========== VALIDATION ==========
+
+type RawRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is RawRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Board records are checked by the storage schemas; logs only need an id and a valid timestamp
+function validateLogs(items: unknown, rejected: RejectedRecord[]): SerializedExecution[] {
+  if (items === undefined) return [];
+  if (!Array.isArray(items)) {
+    rejected.push({ collection: 'logs', index: -1, reason: 'La sección no es una lista' });
+    return [];
+  }
+  const seen = new Set<string>();
+  return items.filter((item, index) => {
+    const reject = (reason: string) => {
+      const record = isRecord(item) ? item : {};
+      rejected.push({
+        collection: 'logs',
+        index,
+        id: typeof record.id === 'string' ? record.id : undefined,
+        label: typeof record.automationName === 'string' ? record.automationName : undefined,
+        reason,
+      });
+      return false;
+    };
+    if (!isRecord(item)) return reject('No es un objeto');
+    if (typeof item.id !== 'string' || item.id.trim() === '') return reject('Falta el identificador');
+    if (seen.has(item.id)) return reject('Identificador duplicado');
+    if (!item.timestamp || isNaN(new Date(item.timestamp as string).getTime())) {
+      return reject('Fecha no válida en "timestamp"');
+    }
+    seen.add(item.id);
+    return true;
+  }) as SerializedExecution[];
+}
+
+// ========== IMPORT ==========
+
+/**
+ * Parse and validate a book archive. Also accepts a raw storage payload
+ * (`{ version, data }`) copied out of localStorage. Throws when the file
+ * isn't an archive at all; invalid records are dropped and listed in
+ * `rejected`.
+ */
+export function parseBookArchive(json: string, bookId: string): BookArchiveImport {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('El archivo no es un JSON válido');
+  }
+  if (!isRecord(parsed)) {
+    throw new Error('El archivo no es una copia de seguridad del tablero');
+  }
+
+  let archive: Partial<BookArchive>;
+  if (parsed.format === BOOK_ARCHIVE_FORMAT) {
+    archive = parsed as Partial<BookArchive>;
+    if (typeof archive.version !== 'number' || archive.version > BOOK_ARCHIVE_VERSION) {
+      throw new Error(`Versión de copia no soportada (${archive.version})`);
+    }
+  } else if (typeof parsed.version === 'number' && isRecord(parsed.data)) {
+    archive = { storageVersion: parsed.version, data: parsed.data as unknown as SerializedKanbanState, logs: [] };
+  } else {
+    throw new Error('El archivo no es una copia de seguridad del tablero');
+  }
+
+  const storageVersion = Number(archive.storageVersion) || 0;
+  if (storageVersion > STORAGE_VERSION) {
+    throw new Error(`La copia es de una versión más reciente de la aplicación (v${storageVersion})`);
+  }
+  const data = archive.data as unknown as RawRecord | undefined;
+  if (!isRecord(data)) {
+    throw new Error('La copia no contiene datos del tablero');
+  }
+
+  const { data: serialized, report } = validateSerializedState(data);
+  const rejected: RejectedRecord[] = report.invalid.map(({ raw, ...record }) => record);
+  const logs = validateLogs(archive.logs, rejected);
+
+  const state = deserializeState(serialized, bookId);
+  state.tasks = state.tasks.map(task => ({ ...task, relatedBook: bookId }));
+  state.automationLogs = applyLogRetention(logs.map(log => ({ ...log, timestamp: new Date(log.timestamp) })));
+
+  return {
+    sourceBookId: typeof archive.bookId === 'string' ? archive.bookId : '',
+    exportedAt: typeof archive.exportedAt === 'string' ? archive.exportedAt : '',
+    storageVersion,
+    state,
+    accepted: {
+      tasks: serialized.tasks.length,
+      columns: serialized.columns.length,
+      tags: serialized.tags.length,
+      notes: serialized.notes.length,
+      automations: serialized.automations.length,
+      logs: logs.length,
+    },
+    repairs: report.repairs,
+    rejected,
+  };
+}
+
+/** A fresh book id derived from the archive's source book */
+export function createRestoredBookId(sourceBookId: string): string {
+  const base = sourceBookId.replace(/[^a-zA-Z0-9_-]/g, '') || 'libro';
+  return `${base}-copia-${generateId()}`;
+}
+
+/** Write a restored board to storage under a new book id, leaving the current book untouched */
+export async function saveAsNewBook(state: KanbanState, newBookId: string): Promise<void> {
+  const adapter = await getStorageAdapter();
+  const restored: KanbanState = {
+    ...state,
+    tasks: state.tasks.map(task => ({ ...task, relatedBook: newBookId })),
+  };
+  await adapter.save(restored, newBookId);
+  await adapter.saveLogs(restored.automationLogs, newBookId);
+}
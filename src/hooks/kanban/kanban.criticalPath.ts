@@ -0,0 +1,228 @@
+import { addDays, differenceInCalendarDays, startOfDay } from 'date-fns';
+import { Task, TaskDependency } from '@/types/kanban';
+import { KanbanState } from './kanban.types';
+import { isTaskCompleted, isTaskStarted } from './kanban.dependencies';
+import { calculateTaskProgress } from './kanban.progress';
+
+/** Working hours in a day when a duration comes from `estimatedTime` */
+export const HOURS_PER_DAY = 8;
+
+export interface TaskSchedule {
+  taskId: string;
+  durationDays: number;
+  /** First and last day (inclusive) of the earliest possible schedule */
+  earlyStart: Date;
+  earlyFinish: Date;
+  /** First and last day (inclusive) of the latest schedule that keeps the end date */
+  lateStart: Date;
+  lateFinish: Date;
+  /** Days the task can slip without moving the projected completion */
+  totalFloat: number;
+  isCritical: boolean;
+}
+
+export interface CriticalPathResult {
+  schedules: Map<string, TaskSchedule>;
+  criticalTaskIds: Set<string>;
+  /** Dependencies that drive a critical task's early start */
+  criticalDependencyIds: Set<string>;
+  projectedCompletion: Date | null;
+}
+
+/**
+ * Duration in days: the planned start/due span (inclusive, as in the
+ * timeline) or `estimatedTime` in working days, with a one-day minimum.
+ */
+export function getTaskDurationDays(task: Task): number {
+  if (task.startDate && task.dueDate) {
+    return Math.max(1, differenceInCalendarDays(new Date(task.dueDate), new Date(task.startDate)) + 1);
+  }
+  if (task.estimatedTime && task.estimatedTime > 0) {
+    return Math.max(1, Math.ceil(task.estimatedTime / HOURS_PER_DAY));
+  }
+  return 1;
+}
+
+interface ScheduleNode {
+  task: Task;
+  duration: number;
+  completed: boolean;
+  /** Earliest start offset from the task's own dates and progress */
+  minStart: number;
+  /** Earliest finish offset (exclusive) from the task's own progress */
+  minFinish: number;
+  es: number;
+  ef: number;
+  ls: number;
+  lf: number;
+}
+
+interface ScheduleLink {
+  dependency: TaskDependency;
+  from: ScheduleNode;
+  to: ScheduleNode;
+}
+
+/**
+ * Earliest start the dependency allows for its dependent.
+ * Offsets are in days; finish offsets are exclusive.
+ */
+function requiredStart(link: ScheduleLink): number {
+  const lag = link.dependency.lagDays ?? 0;
+  switch (link.dependency.type) {
+    case 'SS':
+      return link.from.es + lag;
+    case 'FF':
+      return link.from.ef + lag - link.to.duration;
+    case 'SF':
+      return link.from.es + lag - link.to.duration;
+    case 'FS':
+    default:
+      return link.from.ef + lag;
+  }
+}
+
+/** Latest finish the dependency allows for its prerequisite */
+function requiredLateFinish(link: ScheduleLink): number {
+  const lag = link.dependency.lagDays ?? 0;
+  switch (link.dependency.type) {
+    case 'SS':
+      return link.to.ls - lag + link.from.duration;
+    case 'FF':
+      return link.to.lf - lag;
+    case 'SF':
+      return link.to.lf - lag + link.from.duration;
+    case 'FS':
+    default:
+      return link.to.ls - lag;
+  }
+}
+
+/**
+ * Critical path analysis (CPM) over a book's dependency graph.
+ *
+ * Completed tasks keep their planned dates. Open tasks cannot be scheduled
+ * before today, and started tasks need at least their remaining share of
+ * the duration from today. Since SS/FF links can point both ways between
+ * two tasks, the passes relax all links until stable instead of relying on
+ * a task-level topological order.
+ */
+export function calculateCriticalPath(
+  state: KanbanState,
+  bookId: string,
+  now: Date = new Date()
+): CriticalPathResult {
+  const origin = startOfDay(now);
+  const toOffset = (date: Date | string) => differenceInCalendarDays(new Date(date), origin);
+  const toDate = (offset: number) => addDays(origin, offset);
+
+  const nodes = new Map<string, ScheduleNode>();
+  for (const task of state.tasks) {
+    if (task.relatedBook !== bookId || task.isArchived) continue;
+    const duration = getTaskDurationDays(task);
+    const completed = isTaskCompleted(task, state);
+
+    let plannedStart: number;
+    if (task.startDate) plannedStart = toOffset(task.startDate);
+    else if (task.dueDate) plannedStart = toOffset(task.dueDate) - duration + 1;
+    else plannedStart = 0;
+
+    let minStart = plannedStart;
+    let minFinish = plannedStart + duration;
+    if (!completed) {
+      if (isTaskStarted(task, state)) {
+        const remaining = Math.ceil(duration * (1 - calculateTaskProgress(task)));
+        minFinish = Math.max(minFinish, remaining);
+      } else {
+        minStart = Math.max(minStart, 0);
+      }
+    }
+
+    nodes.set(task.id, { task, duration, completed, minStart, minFinish, es: 0, ef: 0, ls: 0, lf: 0 });
+  }
+
+  if (nodes.size === 0) {
+    return { schedules: new Map(), criticalTaskIds: new Set(), criticalDependencyIds: new Set(), projectedCompletion: null };
+  }
+
+  const links: ScheduleLink[] = [];
+  nodes.forEach(node => {
+    for (const dependency of node.task.taskDependencies || []) {
+      const from = nodes.get(dependency.dependsOnTaskId);
+      if (from) links.push({ dependency, from, to: node });
+    }
+  });
+
+  // Forward pass: early start/finish
+  nodes.forEach(node => {
+    node.es = node.minStart;
+    node.ef = Math.max(node.es + node.duration, node.minFinish);
+  });
+  for (let i = 0, changed = true; changed && i <= nodes.size; i++) {
+    changed = false;
+    for (const link of links) {
+      // Completed work is history; it no longer moves with its prerequisites
+      if (link.to.completed) continue;
+      const start = requiredStart(link);
+      if (start > link.to.es) {
+        link.to.es = start;
+        link.to.ef = Math.max(start + link.to.duration, link.to.minFinish);
+        changed = true;
+      }
+    }
+  }
+
+  let projectFinish = -Infinity;
+  nodes.forEach(node => {
+    projectFinish = Math.max(projectFinish, node.ef);
+  });
+
+  // Backward pass: late start/finish
+  nodes.forEach(node => {
+    node.lf = projectFinish;
+    node.ls = node.lf - (node.ef - node.es);
+  });
+  for (let i = 0, changed = true; changed && i <= nodes.size; i++) {
+    changed = false;
+    for (const link of links) {
+      if (link.to.completed) continue;
+      const finish = requiredLateFinish(link);
+      if (finish < link.from.lf) {
+        link.from.lf = finish;
+        link.from.ls = finish - (link.from.ef - link.from.es);
+        changed = true;
+      }
+    }
+  }
+
+  const schedules = new Map<string, TaskSchedule>();
+  const criticalTaskIds = new Set<string>();
+  nodes.forEach(node => {
+    const totalFloat = node.ls - node.es;
+    const isCritical = !node.completed && totalFloat <= 0;
+    if (isCritical) criticalTaskIds.add(node.task.id);
+    schedules.set(node.task.id, {
+      taskId: node.task.id,
+      durationDays: node.duration,
+      earlyStart: toDate(node.es),
+      earlyFinish: toDate(node.ef - 1),
+      lateStart: toDate(node.ls),
+      lateFinish: toDate(node.lf - 1),
+      totalFloat,
+      isCritical,
+    });
+  });
+
+  const criticalDependencyIds = new Set<string>();
+  for (const link of links) {
+    if (!criticalTaskIds.has(link.from.task.id) || !criticalTaskIds.has(link.to.task.id)) continue;
+    if (requiredStart(link) === link.to.es) criticalDependencyIds.add(link.dependency.id);
+  }
+
+  return {
+    schedules,
+    criticalTaskIds,
+    criticalDependencyIds,
+    projectedCompletion: toDate(projectFinish - 1),
+  };
+}
@@ -0,0 +1,254 @@
+import { AutomationExecution } from '@/types/kanban';
+import { KanbanState, HistoryState } from './kanban.types';
+import { SyncChange, SyncEntityType, collectSyncEntities, applyRemoteChanges, getEntityKey, isSameValue } from './kanban.sync';
+import { AutomationLedger, mergeLedgers } from './kanban.ledger';
+
+/**
+ * Messages exchanged between tabs showing the same book. Reducer actions
+ * create ids and timestamps, so replaying one in another tab would diverge;
+ * each dispatched action is broadcast as the entity changes it produced.
+ */
+export type CrossTabMessage =
+  | { type: 'changes'; tabId: string; changes: SyncChange[]; newLogs: AutomationExecution[]; removedLogIds?: string[]; ledger?: AutomationLedger }
+  | { type: 'snapshot-request'; tabId: string }
+  | { type: 'snapshot'; tabId: string; to: string; changes: SyncChange[]; logs: AutomationExecution[]; ledger: AutomationLedger };
+
+export interface CrossTabChannel {
+  readonly transport: 'broadcastchannel' | 'storage';
+  post(message: CrossTabMessage): void;
+  close(): void;
+}
+
+const CHANNEL_VERSION = 1;
+
+function getChannelName(bookId: string): string {
+  return `publify.book.${bookId}.tabs.v${CHANNEL_VERSION}`;
+}
+
+// ========== TRANSPORT ==========
+
+/**
+ * BroadcastChannel when the browser has it; otherwise messages are written
+ * to a localStorage key and picked up through the `storage` event, which
+ * fires in every other tab of the same origin.
+ */
+export function openCrossTabChannel(bookId: string, onMessage: (message: CrossTabMessage) => void): CrossTabChannel {
+  const name = getChannelName(bookId);
+
+  if (typeof BroadcastChannel !== 'undefined') {
+    const channel = new BroadcastChannel(name);
+    channel.onmessage = (event: MessageEvent<CrossTabMessage>) => onMessage(event.data);
+    return {
+      transport: 'broadcastchannel',
+      post: message => channel.postMessage(message),
+      close: () => channel.close(),
+    };
+  }
+
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key !== name || !event.newValue) return;
+    try {
+      onMessage((JSON.parse(event.newValue) as { message: CrossTabMessage }).message);
+    } catch (error) {
+      console.error('[Kanban Tabs] Invalid cross-tab message:', error);
+    }
+  };
+  window.addEventListener('storage', handleStorage);
+  return {
+    transport: 'storage',
+    post: message => {
+      try {
+        // The nonce makes repeated identical messages still count as a change
+        localStorage.setItem(name, JSON.stringify({ message, nonce: Math.random() }));
+        localStorage.removeItem(name);
+      } catch (error) {
+        console.error('[Kanban Tabs] Error posting cross-tab message:', error);
+      }
+    },
+    close: () => window.removeEventListener('storage', handleStorage),
+  };
+}
+
+// ========== SCHEDULER LEADER ==========
+
+function getSchedulerLockName(bookId: string): string {
+  return `publify.book.${bookId}.scheduler.v${CHANNEL_VERSION}`;
+}
+
+/**
+ * Ask to be the one tab that runs scheduled automations for a book. With
+ * Web Locks the lock is held until `release` (or the tab closing) and the
+ * next waiting tab takes over; without them every tab is its own leader.
+ */
+export function requestSchedulerLeadership(bookId: string, onAcquired: () => void): () => void {
+  if (typeof navigator === 'undefined' || !navigator.locks) {
+    onAcquired();
+    return () => {};
+  }
+
+  const controller = new AbortController();
+  let release: () => void = () => {};
+  navigator.locks
+    .request(getSchedulerLockName(bookId), { signal: controller.signal }, () => {
+      onAcquired();
+      return new Promise<void>(resolve => {
+        release = resolve;
+      });
+    })
+    .catch(error => {
+      if ((error as DOMException)?.name !== 'AbortError') {
+        console.error('[Kanban Tabs] Error requesting scheduler lock:', error);
+      }
+    });
+
+  return () => {
+    controller.abort();
+    release();
+  };
+}
+
+// ========== DIFF ==========
+
+/** Entities added, changed or removed between two states, as sync changes */
+export function diffSyncEntities(prev: KanbanState, next: KanbanState, now: Date = new Date()): SyncChange[] {
+  const before = collectSyncEntities(prev);
+  const after = collectSyncEntities(next);
+  const changes: SyncChange[] = [];
+
+  after.forEach((entity, key) => {
+    const previous = before.get(key);
+    if (!previous || !isSameValue(previous.data, entity.data)) changes.push(entity);
+  });
+  before.forEach((entity, key) => {
+    if (!after.has(key)) {
+      changes.push({ entityType: entity.entityType, id: entity.id, updatedAt: now.toISOString(), deleted: true });
+    }
+  });
+
+  return changes;
+}
+
+/** Log entries in `next` that `prev` doesn't have (logs are kept newest first) */
+export function getNewLogs(prev: AutomationExecution[], next: AutomationExecution[]): AutomationExecution[] {
+  if (prev === next) return [];
+  const known = new Set(prev.map(log => log.id));
+  return next.filter(log => !known.has(log.id));
+}
+
+/** Ids of log entries `next` no longer has (purged, or trimmed to the retention cap) */
+export function getRemovedLogIds(prev: AutomationExecution[], next: AutomationExecution[]): string[] {
+  if (prev === next) return [];
+  const kept = new Set(next.map(log => log.id));
+  return prev.filter(log => !kept.has(log.id)).map(log => log.id);
+}
+
+/** Log entries as received from another tab; the storage transport turns dates into strings */
+export function reviveLogs(logs: AutomationExecution[]): AutomationExecution[] {
+  return logs.map(log => ({ ...log, timestamp: new Date(log.timestamp) }));
+}
+
+// ========== APPLY ==========
+
+export interface CrossTabPayload {
+  changes: SyncChange[];
+  bookId: string;
+  /** Log entries to add and drop (changes) or the full log (snapshot) */
+  newLogs?: AutomationExecution[];
+  removedLogIds?: string[];
+  logs?: AutomationExecution[];
+  /** The sender's automation ledger, merged into this tab's */
+  ledger?: AutomationLedger;
+  /** Snapshot from a sibling: replaces this tab's board */
+  replace?: boolean;
+}
+
+type EntityCollectionKey = 'tasks' | 'columns' | 'tags' | 'notes' | 'automations';
+
+const COLLECTION_BY_TYPE: Record<Exclude<SyncEntityType, 'settings'>, EntityCollectionKey> = {
+  task: 'tasks',
+  column: 'columns',
+  tag: 'tags',
+  note: 'notes',
+  automation: 'automations',
+};
+
+function patchCollection<T extends { id: string }>(items: T[], updated: Map<string, T>, deleted: Set<string>): T[] {
+  if (updated.size === 0 && deleted.size === 0) return items;
+  const seen = new Set<string>();
+  const patched = items
+    .filter(item => !deleted.has(item.id))
+    .map(item => {
+      seen.add(item.id);
+      return updated.get(item.id) ?? item;
+    });
+  updated.forEach((item, id) => {
+    if (!seen.has(id)) patched.push(item);
+  });
+  return patched;
+}
+
+/** Splice already-decoded entities into `state`, keeping untouched entities by reference */
+function patchState(state: KanbanState, decoded: KanbanState, changes: SyncChange[]): KanbanState {
+  const patched = { ...state };
+  for (const [entityType, collectionKey] of Object.entries(COLLECTION_BY_TYPE) as [SyncEntityType, EntityCollectionKey][]) {
+    const ofType = changes.filter(change => change.entityType === entityType);
+    if (ofType.length === 0) continue;
+    const changedIds = new Set(ofType.filter(change => !change.deleted).map(change => change.id));
+    const deleted = new Set(ofType.filter(change => change.deleted).map(change => change.id));
+    const updated = new Map<string, { id: string }>(
+      (decoded[collectionKey] as { id: string }[]).filter(item => changedIds.has(item.id)).map(item => [item.id, item])
+    );
+    (patched[collectionKey] as { id: string }[]) = patchCollection(state[collectionKey] as { id: string }[], updated, deleted);
+  }
+  if (changes.some(change => change.entityType === 'settings' && !change.deleted)) {
+    patched.settings = decoded.settings;
+  }
+  return patched;
+}
+
+/**
+ * Apply another tab's changes. The undo stack stays this tab's own: nothing
+ * is pushed to it, and the past/future states get the same changes so
+ * undoing here never reverts the other tab's work.
+ */
+export function applyCrossTabChanges(history: HistoryState, payload: CrossTabPayload): HistoryState {
+  const { changes, bookId, newLogs = [], removedLogIds = [], logs, ledger, replace = false } = payload;
+  const { present } = history;
+
+  let automationLogs = present.automationLogs;
+  if (logs) {
+    automationLogs = reviveLogs(logs);
+  } else {
+    if (newLogs.length > 0) {
+      const known = new Set(automationLogs.map(log => log.id));
+      automationLogs = [...reviveLogs(newLogs).filter(log => !known.has(log.id)), ...automationLogs];
+    }
+    // A purge in the sender must not be written back by this tab's next log save
+    if (removedLogIds.length > 0) {
+      const removed = new Set(removedLogIds);
+      automationLogs = automationLogs.filter(log => !removed.has(log.id));
+    }
+  }
+  // Ledgers are merged even on replace: neither tab's rule runs may be forgotten
+  const automationLedger = ledger ? mergeLedgers(present.automationLedger, ledger) : present.automationLedger;
+
+  if (replace) {
+    const replaced = applyRemoteChanges(present, changes, { cursor: 0, base: {} }, bookId, { replace: true });
+    return { ...history, past: [], present: { ...replaced, automationLogs, automationLedger }, future: [] };
+  }
+  if (changes.length === 0) {
+    return automationLogs === present.automationLogs && automationLedger === present.automationLedger
+      ? history
+      : { ...history, present: { ...present, automationLogs, automationLedger } };
+  }
+
+  // Decode once against the present, then splice the same entities everywhere
+  const decoded = applyRemoteChanges(present, changes, { cursor: 0, base: {} }, bookId, { force: true });
+  const unique = [...new Map(changes.map(change => [getEntityKey(change), change])).values()];
+  return {
+    ...history,
+    past: history.past.map(state => patchState(state, decoded, unique)),
+    present: { ...patchState(present, decoded, unique), automationLogs, automationLedger },
+    future: history.future.map(state => patchState(state, decoded, unique)),
+  };
+}
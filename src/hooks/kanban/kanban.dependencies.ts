@@ -1,41 +1,119 @@
-import { Task, Column, TaskDependency } from '@/types/kanban';
+import { Task, TaskDependency, DependencyType, TaskStatus, DependencyEnforcementMode } from '@/types/kanban';
 import { KanbanState } from './kanban.types';
+import { isTaskCompleted as isTaskProgressComplete, calculateTaskProgress } from './kanban.progress';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+export const DEPENDENCY_TYPE_LABELS: Record<DependencyType, string> = {
+  FS: 'Fin → Inicio',
+  SS: 'Inicio → Inicio',
+  FF: 'Fin → Fin',
+  SF: 'Inicio → Fin',
+};
+
+export type DependencyAnchor = 'start' | 'finish';
+
+/**
+ * Which end of each task a dependency links.
+ * `from` is the prerequisite's anchor, `to` is the dependent's.
+ */
+export function getDependencyAnchors(type: DependencyType): { from: DependencyAnchor; to: DependencyAnchor } {
+  switch (type) {
+    case 'SS':
+      return { from: 'start', to: 'start' };
+    case 'FF':
+      return { from: 'finish', to: 'finish' };
+    case 'SF':
+      return { from: 'start', to: 'finish' };
+    case 'FS':
+    default:
+      return { from: 'finish', to: 'start' };
+  }
+}
+
+/** Inverse of `getDependencyAnchors`: the type linking these two anchors */
+export function getDependencyTypeForAnchors(from: DependencyAnchor, to: DependencyAnchor): DependencyType {
+  if (from === 'start') return to === 'start' ? 'SS' : 'SF';
+  return to === 'start' ? 'FS' : 'FF';
+}
 
 /**
  * Check if a task is considered "completed"
- * A task is completed if it's in a column marked as isDoneColumn
- * or if its status is 'completed'
+ * A task is completed if it's in a column marked as isDoneColumn,
+ * its status is 'completed' or all its subtasks are done
  */
 export function isTaskCompleted(task: Task, state: KanbanState): boolean {
   const column = state.columns.find(c => c.id === task.columnId);
   if (column?.isDoneColumn) return true;
-  return task.status === 'completed';
+  return isTaskProgressComplete(task);
+}
+
+/** A task has started once it leaves 'not_started' or makes any progress */
+export function isTaskStarted(task: Task, state: KanbanState): boolean {
+  if (isTaskCompleted(task, state)) return true;
+  if (task.status && task.status !== 'not_started') return true;
+  return calculateTaskProgress(task) > 0;
 }
 
 /**
- * Check if a task is blocked by incomplete dependencies
+ * Check whether a single dependency is satisfied right now.
+ * The prerequisite's anchor event (start or finish) must have happened and,
+ * with a positive lag, the lag must have elapsed since its planned date.
+ * A negative lag (lead) releases the dependent that many days before the
+ * prerequisite's planned anchor date.
+ */
+export function isDependencySatisfied(
+  dependency: TaskDependency,
+  prerequisite: Task,
+  state: KanbanState,
+  now: Date = new Date()
+): boolean {
+  const { from } = getDependencyAnchors(dependency.type);
+  const lagDays = dependency.lagDays ?? 0;
+  const happened = from === 'start' ? isTaskStarted(prerequisite, state) : isTaskCompleted(prerequisite, state);
+  const anchorDate = from === 'start' ? prerequisite.startDate : prerequisite.dueDate;
+  const releaseTime = anchorDate ? new Date(anchorDate).getTime() + lagDays * DAY_MS : null;
+
+  if (happened) {
+    return lagDays <= 0 || releaseTime === null || now.getTime() >= releaseTime;
+  }
+  return lagDays < 0 && releaseTime !== null && now.getTime() >= releaseTime;
+}
+
+/**
+ * Check if a task is blocked by unsatisfied dependencies.
+ * `intent` selects the transition being checked: starting the task only
+ * depends on FS/SS links, finishing it depends on all of them.
  * Returns info about which tasks are blocking it
  */
 export function isTaskBlocked(
   task: Task,
-  state: KanbanState
-): { blocked: boolean; blockingTaskIds: string[]; blockingTasks: Task[] } {
+  state: KanbanState,
+  intent: DependencyAnchor = 'start',
+  now: Date = new Date()
+): { blocked: boolean; blockingTaskIds: string[]; blockingTasks: Task[]; blockingDependencies: TaskDependency[] } {
   const dependencies = task.taskDependencies || [];
   
   if (dependencies.length === 0) {
-    return { blocked: false, blockingTaskIds: [], blockingTasks: [] };
+    return { blocked: false, blockingTaskIds: [], blockingTasks: [], blockingDependencies: [] };
   }
 
   const blockingTasks: Task[] = [];
   const blockingTaskIds: string[] = [];
+  const blockingDependencies: TaskDependency[] = [];
 
   for (const dep of dependencies) {
+    if (intent === 'start' && getDependencyAnchors(dep.type).to !== 'start') continue;
+
     const dependsOnTask = state.tasks.find(t => t.id === dep.dependsOnTaskId);
     if (!dependsOnTask) continue; // Dependency task deleted, skip
     
-    if (!isTaskCompleted(dependsOnTask, state)) {
-      blockingTaskIds.push(dep.dependsOnTaskId);
-      blockingTasks.push(dependsOnTask);
+    if (!isDependencySatisfied(dep, dependsOnTask, state, now)) {
+      blockingDependencies.push(dep);
+      if (!blockingTaskIds.includes(dep.dependsOnTaskId)) {
+        blockingTaskIds.push(dep.dependsOnTaskId);
+        blockingTasks.push(dependsOnTask);
+      }
     }
   }
 
@@ -43,40 +121,60 @@ export function isTaskBlocked(
     blocked: blockingTaskIds.length > 0,
     blockingTaskIds,
     blockingTasks,
+    blockingDependencies,
   };
 }
 
 /**
- * Check if adding a dependency would create a cycle
- * Uses DFS to detect if dependsOnTaskId can reach taskId through the dependency graph
+ * Check if adding a dependency would create a cycle.
+ * Each task is modelled as two nodes (start → finish) and each dependency
+ * links the prerequisite's anchor to the dependent's anchor, so e.g.
+ * A SS B together with B FF A is allowed while A FS B with B FS A is not.
+ * Uses DFS to detect if the new edge's target can reach its source.
  */
 export function wouldCreateCycle(
   taskId: string,
   dependsOnTaskId: string,
-  state: KanbanState
+  state: KanbanState,
+  type: DependencyType = 'FS'
 ): boolean {
   if (taskId === dependsOnTaskId) return true;
 
+  // Outgoing edges per node ("taskId:start" / "taskId:finish")
+  const successors = new Map<string, string[]>();
+  const addEdge = (from: string, to: string) => {
+    const list = successors.get(from);
+    if (list) list.push(to);
+    else successors.set(from, [to]);
+  };
+  for (const task of state.tasks) {
+    addEdge(`${task.id}:start`, `${task.id}:finish`);
+    for (const dep of task.taskDependencies || []) {
+      const anchors = getDependencyAnchors(dep.type);
+      addEdge(`${dep.dependsOnTaskId}:${anchors.from}`, `${task.id}:${anchors.to}`);
+    }
+  }
+
+  // The new edge goes prerequisite anchor → dependent anchor; a cycle exists
+  // if the dependent anchor can already reach the prerequisite anchor
+  const anchors = getDependencyAnchors(type);
+  const source = `${dependsOnTaskId}:${anchors.from}`;
   const visited = new Set<string>();
-  const stack = [dependsOnTaskId];
+  const stack = [`${taskId}:${anchors.to}`];
 
   while (stack.length > 0) {
     const currentId = stack.pop()!;
     
-    if (currentId === taskId) {
+    if (currentId === source) {
       return true; // Found a cycle back to original task
     }
 
     if (visited.has(currentId)) continue;
     visited.add(currentId);
 
-    const currentTask = state.tasks.find(t => t.id === currentId);
-    if (!currentTask) continue;
-
-    const deps = currentTask.taskDependencies || [];
-    for (const dep of deps) {
-      if (!visited.has(dep.dependsOnTaskId)) {
-        stack.push(dep.dependsOnTaskId);
+    for (const next of successors.get(currentId) || []) {
+      if (!visited.has(next)) {
+        stack.push(next);
       }
     }
   }
@@ -84,14 +182,22 @@ export function wouldCreateCycle(
   return false;
 }
 
+export interface DependencyEdge {
+  dependencyId: string;
+  fromTaskId: string;
+  toTaskId: string;
+  fromTask: Task;
+  toTask: Task;
+  type: DependencyType;
+  lagDays: number;
+}
+
 /**
  * Get all dependency edges for visualization (e.g., Timeline arrows)
  * Returns edges from prerequisite -> dependent task
  */
-export function getDependencyEdges(
-  state: KanbanState
-): { fromTaskId: string; toTaskId: string; fromTask: Task; toTask: Task }[] {
-  const edges: { fromTaskId: string; toTaskId: string; fromTask: Task; toTask: Task }[] = [];
+export function getDependencyEdges(state: KanbanState): DependencyEdge[] {
+  const edges: DependencyEdge[] = [];
 
   for (const task of state.tasks) {
     const deps = task.taskDependencies || [];
@@ -99,10 +205,13 @@ export function getDependencyEdges(
       const fromTask = state.tasks.find(t => t.id === dep.dependsOnTaskId);
       if (fromTask) {
         edges.push({
+          dependencyId: dep.id,
           fromTaskId: dep.dependsOnTaskId,
           toTaskId: task.id,
           fromTask,
           toTask: task,
+          type: dep.type,
+          lagDays: dep.lagDays ?? 0,
         });
       }
     }
@@ -111,34 +220,71 @@ export function getDependencyEdges(
   return edges;
 }
 
+export interface TaskTransition {
+  status?: TaskStatus;
+  columnId?: string;
+}
+
+export interface TransitionBlock {
+  blocked: boolean;
+  reason: string;
+  blockingTasks: Task[];
+  mode: DependencyEnforcementMode;
+}
+
+/** Starting a task only needs its start-gating links; completing it needs all of them */
+const GATED_STATUS_INTENT: Partial<Record<TaskStatus, DependencyAnchor>> = {
+  in_progress: 'start',
+  completed: 'finish',
+};
+
+/**
+ * Check whether a status change or column move runs into open prerequisites.
+ * Gated transitions are starting/completing a task and entering a column
+ * flagged with `requiresPrerequisites`. The caller decides what to do with
+ * the block based on the returned enforcement mode.
+ */
+export function getTransitionBlock(task: Task, transition: TaskTransition, state: KanbanState): TransitionBlock {
+  const mode = state.settings?.dependencyEnforcement ?? 'strict';
+  const notBlocked: TransitionBlock = { blocked: false, reason: '', blockingTasks: [], mode };
+  if (mode === 'off') return notBlocked;
+
+  let intent: DependencyAnchor | null = null;
+  if (transition.status && transition.status !== task.status) {
+    intent = GATED_STATUS_INTENT[transition.status] ?? null;
+  }
+  if (transition.columnId && transition.columnId !== task.columnId) {
+    const targetColumn = state.columns.find(c => c.id === transition.columnId);
+    if (targetColumn?.requiresPrerequisites) intent = 'finish';
+  }
+  if (!intent) return notBlocked;
+
+  const blockInfo = isTaskBlocked(task, state, intent);
+  if (!blockInfo.blocked) return notBlocked;
+
+  const taskNames = blockInfo.blockingTasks.map(t => `"${t.title}"`).join(', ');
+  return {
+    blocked: true,
+    reason: `Bloqueada: depende de ${taskNames}`,
+    blockingTasks: blockInfo.blockingTasks,
+    mode,
+  };
+}
+
 /**
  * Check if moving a task to a target column should be blocked
- * Only blocks moves to "done" columns if task has incomplete dependencies
+ * Only strict mode blocks; warn mode lets the move through with a warning
  */
 export function shouldBlockMoveToColumn(
   task: Task,
   targetColumnId: string,
   state: KanbanState
 ): { blocked: boolean; reason: string; blockingTasks: Task[] } {
-  const targetColumn = state.columns.find(c => c.id === targetColumnId);
-  
-  // Only block moves to done columns
-  if (!targetColumn?.isDoneColumn) {
+  const block = getTransitionBlock(task, { columnId: targetColumnId }, state);
+  if (!block.blocked || block.mode !== 'strict') {
     return { blocked: false, reason: '', blockingTasks: [] };
   }
-
-  const blockInfo = isTaskBlocked(task, state);
-  
-  if (blockInfo.blocked) {
-    const taskNames = blockInfo.blockingTasks.map(t => t.title).join(', ');
-    return {
-      blocked: true,
-      reason: `Bloqueada: depende de "${taskNames}"`,
-      blockingTasks: blockInfo.blockingTasks,
-    };
-  }
-
-  return { blocked: false, reason: '', blockingTasks: [] };
+  return { blocked: true, reason: block.reason, blockingTasks: block.blockingTasks };
 }
 
 /**
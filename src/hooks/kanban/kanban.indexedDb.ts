@@ -0,0 +1,352 @@
+import { AutomationExecution, Automation } from '@/types/kanban';
+import { KanbanState } from './kanban.types';
+import type { KanbanStorageAdapter } from './kanban.storageAdapter';
+import {
+  STORAGE_VERSION,
+  SerializedKanbanState,
+  SerializedTask,
+  SerializedNote,
+  LoadedKanbanState,
+  serializeState,
+  deserializeState,
+  clearMigratedKanbanState,
+} from './kanban.storage';
+import { applyLogRetention, clearAutomationLogs } from './kanban.logs';
+import { validateSerializedState, hasValidationIssues } from './kanban.schema';
+import { quarantineInvalidRecords } from './kanban.recovery';
+import {
+  BookUsage,
+  createBookUsage,
+  addTasks,
+  addLogs,
+  byteSize,
+  measureLocalStorage,
+  mergeBookUsage,
+} from './kanban.usage';
+import { BoardSnapshot, toSnapshotInfo } from './kanban.snapshots';
+import { clearAutomationLedger } from './kanban.ledger';
+
+const DB_NAME = 'publify-kanban';
+// v2: snapshots store
+const DB_VERSION = 2;
+
+const BOARDS_STORE = 'boards';
+/** Per-record stores, keyed by [bookId, id] with a `bookId` index */
+const RECORD_STORES = ['tasks', 'notes', 'automations', 'logs'] as const;
+/** Record stores written with the board; their entities carry `updatedAt` */
+const BOARD_RECORD_STORES = ['tasks', 'notes', 'automations'] as const;
+/** Whole-board snapshots, keyed like the record stores */
+const SNAPSHOTS_STORE = 'snapshots';
+
+/** Board-level fields; tasks, notes, automations and logs live in their own stores */
+interface BoardRecord {
+  bookId: string;
+  version: number;
+  columns: SerializedKanbanState['columns'];
+  tags: SerializedKanbanState['tags'];
+  filter: SerializedKanbanState['filter'];
+  settings?: SerializedKanbanState['settings'];
+  savedAt: string;
+}
+
+interface BookRecord<T> {
+  bookId: string;
+  id: string;
+  /** Original array position, since the store returns records in key order */
+  position: number;
+  data: T;
+}
+
+export function isIndexedDbAvailable(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+// ========== IDB HELPERS ==========
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('Transaction aborted'));
+  });
+}
+
+/** Connection lifecycle hooks: upgrades need every other connection closed */
+export interface IndexedDbEvents {
+  /** An open connection in another tab is holding up the upgrade; opening resumes once it closes */
+  onBlocked?: () => void;
+  /** Another tab opened a newer version, so this connection was closed */
+  onClosed?: () => void;
+}
+
+function openDatabase(events: IndexedDbEvents): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(BOARDS_STORE)) {
+        db.createObjectStore(BOARDS_STORE, { keyPath: 'bookId' });
+      }
+      for (const name of [...RECORD_STORES, SNAPSHOTS_STORE]) {
+        if (!db.objectStoreNames.contains(name)) {
+          const store = db.createObjectStore(name, { keyPath: ['bookId', 'id'] });
+          store.createIndex('bookId', 'bookId');
+        }
+      }
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // Step aside so a newer version can upgrade instead of being blocked by this tab
+      db.onversionchange = () => {
+        db.close();
+        events.onClosed?.();
+      };
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error);
+    // Not an error: the request stays pending and succeeds once the other tab lets go
+    request.onblocked = () => events.onBlocked?.();
+  });
+}
+
+// All [bookId, *] keys: arrays sort after strings, so [bookId, []] is past every record id
+function bookKeyRange(bookId: string): IDBKeyRange {
+  return IDBKeyRange.bound([bookId], [bookId, []]);
+}
+
+/** Record signature per id: what has to change for a record to be written again */
+type RecordVersions = Map<string, string>;
+type BoardRecordVersions = Record<(typeof BOARD_RECORD_STORES)[number], RecordVersions>;
+
+function getRecordSignature(data: { updatedAt?: unknown }, position: number): string {
+  const version = data.updatedAt ? new Date(data.updatedAt as string).getTime() : '';
+  return `${position}|${version}`;
+}
+
+/**
+ * Write a book's records to a store. Given the versions already stored, only
+ * records whose version or position changed are put and only ids that are
+ * gone are deleted; without them the book's records are replaced.
+ * Returns the versions written.
+ */
+function writeRecords<T extends { id: string; updatedAt?: unknown }>(
+  store: IDBObjectStore,
+  bookId: string,
+  items: T[],
+  stored?: RecordVersions
+): RecordVersions {
+  const written: RecordVersions = new Map();
+  if (!stored) store.delete(bookKeyRange(bookId));
+  items.forEach((data, position) => {
+    const signature = getRecordSignature(data, position);
+    written.set(data.id, signature);
+    if (stored?.get(data.id) === signature) return;
+    const record: BookRecord<T> = { bookId, id: data.id, position, data };
+    store.put(record);
+  });
+  stored?.forEach((_, id) => {
+    if (!written.has(id)) store.delete([bookId, id]);
+  });
+  return written;
+}
+
+function getStoredVersions(records: BookRecord<{ updatedAt?: unknown }>[]): RecordVersions {
+  return new Map(records.map(record => [record.id, getRecordSignature(record.data, record.position)]));
+}
+
+const byPosition = (a: BookRecord<unknown>, b: BookRecord<unknown>) => a.position - b.position;
+
+// ========== ADAPTER ==========
+
+/**
+ * IndexedDB backend. Records are stored in the same serialized shape as the
+ * localStorage payload so `deserializeState` migrations keep applying.
+ * A book missing from IndexedDB is pulled from `fallback` (localStorage,
+ * including the legacy key chain) the first time it is loaded.
+ */
+export async function createIndexedDbAdapter(
+  fallback: KanbanStorageAdapter,
+  events: IndexedDbEvents = {}
+): Promise<KanbanStorageAdapter> {
+  const db = await openDatabase(events);
+  // What each book's board records look like on disk, so saves write only what
+  // changed. Known once the book was read cleanly or written by this tab;
+  // dropped when a write fails, so the next save rewrites the book
+  const storedVersions = new Map<string, BoardRecordVersions>();
+
+  async function readBook(bookId: string): Promise<LoadedKanbanState | null> {
+    const tx = db.transaction([BOARDS_STORE, ...RECORD_STORES], 'readonly');
+    // Issue every request before awaiting so the transaction stays active
+    const boardRequest = promisifyRequest<BoardRecord | undefined>(tx.objectStore(BOARDS_STORE).get(bookId));
+    const recordRequests = RECORD_STORES.map(name =>
+      promisifyRequest<BookRecord<unknown>[]>(tx.objectStore(name).index('bookId').getAll(bookId))
+    );
+    const [board, tasks, notes, automations, logs] = await Promise.all([boardRequest, ...recordRequests]) as [
+      BoardRecord | undefined,
+      BookRecord<SerializedTask>[],
+      BookRecord<SerializedNote>[],
+      BookRecord<Automation>[],
+      BookRecord<AutomationExecution>[],
+    ];
+    if (!board) return null;
+
+    const { data, report } = validateSerializedState({
+      tasks: tasks.sort(byPosition).map(r => r.data),
+      columns: board.columns,
+      tags: board.tags,
+      notes: notes.sort(byPosition).map(r => r.data),
+      filter: board.filter,
+      automations: automations.sort(byPosition).map(r => r.data),
+      settings: board.settings,
+    });
+    const state = deserializeState(data, bookId);
+    state.automationLogs = applyLogRetention(logs.sort(byPosition).map(r => r.data));
+
+    // Repaired records are only written back once the repair is confirmed
+    if (hasValidationIssues(report)) {
+      return { state, repair: quarantineInvalidRecords(bookId, report.repairs, report.invalid) };
+    }
+    if (board.version !== STORAGE_VERSION) {
+      console.warn('[Kanban Storage] Version mismatch, migrating...');
+      await writeBoard(state, bookId);
+    } else {
+      storedVersions.set(bookId, {
+        tasks: getStoredVersions(tasks),
+        notes: getStoredVersions(notes),
+        automations: getStoredVersions(automations),
+      });
+    }
+    return { state, repair: null };
+  }
+
+  async function writeBoard(state: KanbanState, bookId: string): Promise<void> {
+    const serialized = serializeState(state);
+    const tx = db.transaction([BOARDS_STORE, 'tasks', 'notes', 'automations'], 'readwrite');
+    const board: BoardRecord = {
+      bookId,
+      version: STORAGE_VERSION,
+      columns: serialized.columns,
+      tags: serialized.tags,
+      filter: serialized.filter,
+      settings: serialized.settings,
+      savedAt: new Date().toISOString(),
+    };
+    tx.objectStore(BOARDS_STORE).put(board);
+    const stored = storedVersions.get(bookId);
+    // Set before committing so a save issued meanwhile diffs against this one
+    storedVersions.set(bookId, {
+      tasks: writeRecords(tx.objectStore('tasks'), bookId, serialized.tasks, stored?.tasks),
+      notes: writeRecords(tx.objectStore('notes'), bookId, serialized.notes, stored?.notes),
+      automations: writeRecords(tx.objectStore('automations'), bookId, serialized.automations, stored?.automations),
+    });
+    try {
+      await transactionDone(tx);
+    } catch (error) {
+      storedVersions.delete(bookId);
+      throw error;
+    }
+  }
+
+  async function writeLogs(logs: AutomationExecution[], bookId: string): Promise<void> {
+    const tx = db.transaction('logs', 'readwrite');
+    // Positions shift with every new entry (newest first), so the log is rewritten whole
+    writeRecords(tx.objectStore('logs'), bookId, applyLogRetention(logs));
+    await transactionDone(tx);
+  }
+
+  return {
+    name: 'indexeddb',
+    async load(bookId) {
+      const stored = await readBook(bookId);
+      if (stored) return stored;
+
+      const migrated = await fallback.load(bookId);
+      // A repaired book reaches IndexedDB through the first save after the repair is confirmed
+      if (migrated && !migrated.repair) {
+        console.log(`[Kanban Storage] Migrating book ${bookId} from ${fallback.name} to IndexedDB...`);
+        await writeBoard(migrated.state, bookId);
+        await writeLogs(migrated.state.automationLogs, bookId);
+        // Both transactions have committed: free the localStorage space the book used
+        clearMigratedKanbanState(bookId);
+        clearAutomationLogs(bookId);
+      }
+      return migrated;
+    },
+    save: writeBoard,
+    saveLogs: writeLogs,
+    async clear(bookId) {
+      const tx = db.transaction([BOARDS_STORE, ...RECORD_STORES, SNAPSHOTS_STORE], 'readwrite');
+      tx.objectStore(BOARDS_STORE).delete(bookId);
+      for (const name of [...RECORD_STORES, SNAPSHOTS_STORE]) {
+        tx.objectStore(name).delete(bookKeyRange(bookId));
+      }
+      await transactionDone(tx);
+      storedVersions.delete(bookId);
+      clearAutomationLedger(bookId);
+    },
+    async list() {
+      const keys = await promisifyRequest(db.transaction(BOARDS_STORE).objectStore(BOARDS_STORE).getAllKeys());
+      return keys.map(String);
+    },
+    async listSnapshots(bookId) {
+      const store = db.transaction(SNAPSHOTS_STORE).objectStore(SNAPSHOTS_STORE);
+      const snapshots = await promisifyRequest<BoardSnapshot[]>(store.index('bookId').getAll(bookId));
+      return snapshots.map(toSnapshotInfo).sort((a, b) => b.takenAt.localeCompare(a.takenAt));
+    },
+    async loadSnapshot(bookId, snapshotId) {
+      const store = db.transaction(SNAPSHOTS_STORE).objectStore(SNAPSHOTS_STORE);
+      return (await promisifyRequest<BoardSnapshot | undefined>(store.get([bookId, snapshotId]))) ?? null;
+    },
+    async saveSnapshot(snapshot) {
+      const tx = db.transaction(SNAPSHOTS_STORE, 'readwrite');
+      tx.objectStore(SNAPSHOTS_STORE).put(snapshot);
+      await transactionDone(tx);
+    },
+    async deleteSnapshots(bookId, snapshotIds) {
+      const tx = db.transaction(SNAPSHOTS_STORE, 'readwrite');
+      const store = tx.objectStore(SNAPSHOTS_STORE);
+      snapshotIds.forEach(id => store.delete([bookId, id]));
+      await transactionDone(tx);
+    },
+    async measureUsage() {
+      const tx = db.transaction([BOARDS_STORE, ...RECORD_STORES, SNAPSHOTS_STORE], 'readonly');
+      const requests = [BOARDS_STORE, ...RECORD_STORES, SNAPSHOTS_STORE].map(name =>
+        promisifyRequest<{ bookId: string }[]>(tx.objectStore(name).getAll())
+      );
+      const [boards, tasks, notes, automations, logs, snapshots] = await Promise.all(requests) as [
+        BoardRecord[],
+        BookRecord<SerializedTask>[],
+        BookRecord<SerializedNote>[],
+        BookRecord<Automation>[],
+        BookRecord<AutomationExecution>[],
+        BoardSnapshot[],
+      ];
+
+      const books = new Map<string, BookUsage>();
+      const usageFor = (bookId: string) => {
+        if (!books.has(bookId)) books.set(bookId, createBookUsage(bookId));
+        return books.get(bookId)!;
+      };
+      boards.forEach(board => { usageFor(board.bookId).bytes.other += byteSize(board); });
+      tasks.forEach(record => addTasks(usageFor(record.bookId), [record.data]));
+      notes.forEach(record => { usageFor(record.bookId).bytes.notes += byteSize(record.data); });
+      automations.forEach(record => { usageFor(record.bookId).bytes.other += byteSize(record.data); });
+      logs.forEach(record => addLogs(usageFor(record.bookId), [record.data]));
+      snapshots.forEach(snapshot => {
+        const usage = usageFor(snapshot.bookId);
+        usage.bytes.snapshots += byteSize(snapshot);
+        usage.snapshots++;
+      });
+
+      // The rule ledger, recovery bin, sync metadata and conflict log stay in localStorage
+      return mergeBookUsage([...books.values()], measureLocalStorage(['automationLedger', 'recovery', 'sync', 'conflicts']));
+    },
+  };
+}
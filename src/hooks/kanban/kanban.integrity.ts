@@ -0,0 +1,152 @@
+import { Task, Tag } from '@/types/kanban';
+import { KanbanState } from './kanban.types';
+import { wouldCreateCycle } from './kanban.dependencies';
+
+export type IntegrityIssueKind = 'orphaned_dependency' | 'missing_column' | 'missing_tag';
+
+export interface IntegrityIssue {
+  /** Stable key, e.g. `missing_tag:<taskId>:<tagId>` */
+  id: string;
+  kind: IntegrityIssueKind;
+  taskId: string;
+  taskTitle: string;
+  /** ID of the dependency target, column or tag that no longer exists */
+  missingId: string;
+  dependencyId?: string;
+  /** The tag as stored on the task, so it can be re-registered */
+  tag?: Tag;
+}
+
+// ========== DELETION ==========
+
+/**
+ * Detach dependents from a task that is about to be deleted.
+ *
+ * Without `repointTo` the links are dropped. With it, each dependent now
+ * depends on `repointTo` instead, keeping type and lag; links that would
+ * duplicate an existing one or close a cycle are dropped.
+ */
+export function detachDependents(state: KanbanState, taskId: string, repointTo?: string): Task[] {
+  const target = repointTo && repointTo !== taskId ? state.tasks.find(t => t.id === repointTo) : undefined;
+  let tasks = state.tasks;
+
+  for (const dependent of state.tasks) {
+    const deps = dependent.taskDependencies || [];
+    if (!deps.some(d => d.dependsOnTaskId === taskId)) continue;
+
+    const kept = deps.filter(d => d.dependsOnTaskId !== taskId);
+    if (target && dependent.id !== target.id && !kept.some(d => d.dependsOnTaskId === target.id)) {
+      const link = deps.find(d => d.dependsOnTaskId === taskId)!;
+      // Check against the graph as it stands so far, without the deleted task's links
+      const current: KanbanState = {
+        ...state,
+        tasks: tasks.map(t => (t.id === dependent.id ? { ...t, taskDependencies: kept } : t)),
+      };
+      if (!wouldCreateCycle(dependent.id, target.id, current, link.type)) {
+        kept.push({ ...link, dependsOnTaskId: target.id });
+      }
+    }
+
+    tasks = tasks.map(t => (t.id === dependent.id ? { ...t, taskDependencies: kept } : t));
+  }
+
+  return tasks;
+}
+
+/** Tasks that list `taskId` as a prerequisite */
+export function getDependents(state: KanbanState, taskId: string): Task[] {
+  return state.tasks.filter(t => t.taskDependencies?.some(d => d.dependsOnTaskId === taskId));
+}
+
+// ========== INTEGRITY REPORT ==========
+
+/**
+ * Find references that point nowhere: dependencies on deleted tasks,
+ * tasks in columns that no longer exist and tags missing from `state.tags`.
+ */
+export function getIntegrityReport(state: KanbanState): IntegrityIssue[] {
+  const taskIds = new Set(state.tasks.map(t => t.id));
+  const columnIds = new Set(state.columns.map(c => c.id));
+  const tagIds = new Set(state.tags.map(t => t.id));
+  const issues: IntegrityIssue[] = [];
+
+  for (const task of state.tasks) {
+    for (const dep of task.taskDependencies || []) {
+      if (taskIds.has(dep.dependsOnTaskId)) continue;
+      issues.push({
+        id: `orphaned_dependency:${task.id}:${dep.id}`,
+        kind: 'orphaned_dependency',
+        taskId: task.id,
+        taskTitle: task.title,
+        missingId: dep.dependsOnTaskId,
+        dependencyId: dep.id,
+      });
+    }
+
+    if (!columnIds.has(task.columnId)) {
+      issues.push({
+        id: `missing_column:${task.id}:${task.columnId}`,
+        kind: 'missing_column',
+        taskId: task.id,
+        taskTitle: task.title,
+        missingId: task.columnId,
+      });
+    }
+
+    for (const tag of task.tags || []) {
+      if (tagIds.has(tag.id)) continue;
+      issues.push({
+        id: `missing_tag:${task.id}:${tag.id}`,
+        kind: 'missing_tag',
+        taskId: task.id,
+        taskTitle: task.title,
+        missingId: tag.id,
+        tag,
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Fix the given issues (all of them when `issueIds` is omitted):
+ * orphaned dependencies are removed, stray tasks go to the end of the first
+ * visible column and missing tags are re-registered from the task's copy.
+ */
+export function repairIntegrityIssues(state: KanbanState, issueIds?: string[]): KanbanState {
+  const selected = new Set(issueIds);
+  const issues = getIntegrityReport(state).filter(i => !issueIds || selected.has(i.id));
+  if (issues.length === 0) return state;
+
+  const orphanedDependencyIds = new Set(
+    issues.filter(i => i.kind === 'orphaned_dependency').map(i => i.dependencyId)
+  );
+  const strayTaskIds = new Set(issues.filter(i => i.kind === 'missing_column').map(i => i.taskId));
+
+  const sortedColumns = [...state.columns].sort((a, b) => a.order - b.order);
+  const fallbackColumn = sortedColumns.find(c => !c.isHidden) ?? sortedColumns[0];
+  let nextOrder = fallbackColumn
+    ? Math.max(-1, ...state.tasks.filter(t => t.columnId === fallbackColumn.id).map(t => t.order)) + 1
+    : 0;
+
+  const tasks = state.tasks.map(task => {
+    let repaired = task;
+    if (task.taskDependencies?.some(d => orphanedDependencyIds.has(d.id))) {
+      repaired = { ...repaired, taskDependencies: task.taskDependencies.filter(d => !orphanedDependencyIds.has(d.id)) };
+    }
+    if (fallbackColumn && strayTaskIds.has(task.id)) {
+      repaired = { ...repaired, columnId: fallbackColumn.id, order: nextOrder++, columnEnteredAt: new Date() };
+    }
+    return repaired;
+  });
+
+  const tags = [...state.tags];
+  for (const issue of issues) {
+    if (issue.kind === 'missing_tag' && issue.tag && !tags.some(t => t.id === issue.tag!.id)) {
+      tags.push(issue.tag);
+    }
+  }
+
+  return { ...state, tasks, tags };
+}
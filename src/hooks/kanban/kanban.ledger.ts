@@ -0,0 +1,222 @@
+import { Task } from '@/types/kanban';
+import { AutomationExecution } from '@/types/automation';
+
+/**
+ * What each automation has already done, kept apart from the execution log.
+ * Logs are capped and purged, so rate limits and scheduled windows derived
+ * from them would let a rule fire again once its entries roll out. The
+ * ledger is pruned of tasks and rules that no longer exist, and of scheduled
+ * windows that can't come round again.
+ */
+export interface AutomationLedgerEntry {
+  /** Last applied run per task id (ISO) */
+  taskRuns: Record<string, string>;
+  /** Last applied run on any task (ISO) */
+  lastRunAt: string | null;
+  /** Applied runs on `day` (local YYYY-MM-DD) */
+  runsToday: { day: string; count: number };
+  /** Scheduled windows already fired, as `${taskId}|${window}` */
+  firedWindows: string[];
+}
+
+/** Ledger entries by automation id */
+export type AutomationLedger = Record<string, AutomationLedgerEntry>;
+
+const LEDGER_STORAGE_VERSION = 1;
+
+function getLedgerStorageKey(bookId: string): string {
+  return `publify.book.${bookId}.automationLedger.v${LEDGER_STORAGE_VERSION}`;
+}
+
+export function toLedgerDay(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+export function getWindowKey(taskId: string, window: string): string {
+  return `${taskId}|${window}`;
+}
+
+function createEntry(): AutomationLedgerEntry {
+  return { taskRuns: {}, lastRunAt: null, runsToday: { day: '', count: 0 }, firedWindows: [] };
+}
+
+const laterOf = (a: string | null | undefined, b: string | null | undefined): string | null => {
+  if (!a) return b ?? null;
+  if (!b) return a;
+  return new Date(a).getTime() >= new Date(b).getTime() ? a : b;
+};
+
+// ========== RECORDING ==========
+
+/** Record an applied run, and the scheduled window it fired for if any */
+export function recordLedgerRun(
+  ledger: AutomationLedger,
+  automationId: string,
+  taskId: string,
+  now: Date = new Date(),
+  scheduleWindow?: string
+): AutomationLedger {
+  const entry = ledger[automationId] ?? createEntry();
+  const at = now.toISOString();
+  const day = toLedgerDay(now);
+  const windowKey = scheduleWindow ? getWindowKey(taskId, scheduleWindow) : null;
+  return {
+    ...ledger,
+    [automationId]: {
+      taskRuns: { ...entry.taskRuns, [taskId]: at },
+      lastRunAt: at,
+      runsToday: { day, count: entry.runsToday.day === day ? entry.runsToday.count + 1 : 1 },
+      firedWindows: windowKey && !entry.firedWindows.includes(windowKey)
+        ? [...entry.firedWindows, windowKey]
+        : entry.firedWindows,
+    },
+  };
+}
+
+/** Rebuild a ledger from execution logs, for books stored before the ledger existed */
+export function createLedgerFromLogs(logs: AutomationExecution[]): AutomationLedger {
+  let ledger: AutomationLedger = {};
+  // Oldest first so the day count and last run end up on the newest entry
+  [...logs]
+    .filter(log => log.result === 'applied' || (log.scheduleWindow && log.result === 'error'))
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+    .forEach(log => {
+      ledger = log.result === 'applied'
+        ? recordLedgerRun(ledger, log.automationId, log.taskId, new Date(log.timestamp), log.scheduleWindow)
+        // Failed scheduled runs also close their window
+        : recordLedgerWindow(ledger, log.automationId, log.taskId, log.scheduleWindow!);
+    });
+  return ledger;
+}
+
+/** Close a scheduled window without counting a run (the rule failed for it) */
+export function recordLedgerWindow(
+  ledger: AutomationLedger,
+  automationId: string,
+  taskId: string,
+  scheduleWindow: string
+): AutomationLedger {
+  const entry = ledger[automationId] ?? createEntry();
+  const windowKey = getWindowKey(taskId, scheduleWindow);
+  if (entry.firedWindows.includes(windowKey)) return ledger;
+  return { ...ledger, [automationId]: { ...entry, firedWindows: [...entry.firedWindows, windowKey] } };
+}
+
+/**
+ * Combine two tabs' ledgers. Entries only ever grow, so the union of windows
+ * and the later of each timestamp is what both tabs would have recorded.
+ */
+export function mergeLedgers(a: AutomationLedger, b: AutomationLedger): AutomationLedger {
+  const merged: AutomationLedger = { ...a };
+  Object.entries(b).forEach(([automationId, theirs]) => {
+    const ours = merged[automationId];
+    if (!ours) {
+      merged[automationId] = theirs;
+      return;
+    }
+    const taskRuns = { ...ours.taskRuns };
+    Object.entries(theirs.taskRuns).forEach(([taskId, at]) => {
+      taskRuns[taskId] = laterOf(taskRuns[taskId], at)!;
+    });
+    let runsToday = ours.runsToday;
+    if (theirs.runsToday.day > ours.runsToday.day) runsToday = theirs.runsToday;
+    else if (theirs.runsToday.day === ours.runsToday.day) {
+      runsToday = { day: ours.runsToday.day, count: Math.max(ours.runsToday.count, theirs.runsToday.count) };
+    }
+    merged[automationId] = {
+      taskRuns,
+      lastRunAt: laterOf(ours.lastRunAt, theirs.lastRunAt),
+      runsToday,
+      firedWindows: [...new Set([...ours.firedWindows, ...theirs.firedWindows])],
+    };
+  });
+  return merged;
+}
+
+// ========== PRUNING ==========
+
+/**
+ * Whether a fired window (as built by `getScheduleWindow`) can still match
+ * its task. DAILY windows end with their day; a stale window ends when the
+ * task leaves that column stay. Due-date windows are kept: moving the date
+ * back would otherwise fire the rule again.
+ */
+function isWindowLive(window: string, task: Task | undefined, today: string): boolean {
+  if (window.startsWith('daily:')) return window.slice('daily:'.length) >= today;
+  if (window.startsWith('stale:') && task) {
+    const enteredAt = new Date(task.columnEnteredAt ?? task.createdAt).toISOString();
+    return window === `stale:${task.columnId}:${enteredAt}`;
+  }
+  return true;
+}
+
+/** Drop fired windows that can't come round again; returns the same ledger when none are */
+export function pruneFiredWindows(ledger: AutomationLedger, tasks: Task[], now: Date = new Date()): AutomationLedger {
+  const tasksById = new Map(tasks.map(task => [task.id, task]));
+  const today = toLedgerDay(now);
+  let changed = false;
+  const pruned: AutomationLedger = {};
+  Object.entries(ledger).forEach(([automationId, entry]) => {
+    const firedWindows = entry.firedWindows.filter(key => {
+      const separator = key.indexOf('|');
+      return isWindowLive(key.slice(separator + 1), tasksById.get(key.slice(0, separator)), today);
+    });
+    if (firedWindows.length === entry.firedWindows.length) {
+      pruned[automationId] = entry;
+      return;
+    }
+    changed = true;
+    pruned[automationId] = { ...entry, firedWindows };
+  });
+  return changed ? pruned : ledger;
+}
+
+/** Drop entries for rules and tasks that no longer exist, and windows that are over */
+export function pruneLedger(
+  ledger: AutomationLedger,
+  automationIds: string[],
+  tasks: Task[],
+  now: Date = new Date()
+): AutomationLedger {
+  const automations = new Set(automationIds);
+  const taskIds = new Set(tasks.map(task => task.id));
+  const pruned: AutomationLedger = {};
+  Object.entries(ledger).forEach(([automationId, entry]) => {
+    if (!automations.has(automationId)) return;
+    pruned[automationId] = {
+      ...entry,
+      taskRuns: Object.fromEntries(Object.entries(entry.taskRuns).filter(([taskId]) => taskIds.has(taskId))),
+      firedWindows: entry.firedWindows.filter(key => taskIds.has(key.slice(0, key.indexOf('|')))),
+    };
+  });
+  return pruneFiredWindows(pruned, tasks, now);
+}
+
+// ========== PERSISTENCE ==========
+
+// Kept in localStorage on both backends, like the sync metadata and recovery bin
+export function loadAutomationLedger(bookId: string): AutomationLedger | null {
+  try {
+    const stored = localStorage.getItem(getLedgerStorageKey(bookId));
+    return stored ? (JSON.parse(stored) as AutomationLedger) : null;
+  } catch (error) {
+    console.error('[Kanban Storage] Error loading automation ledger:', error);
+    return null;
+  }
+}
+
+export function saveAutomationLedger(ledger: AutomationLedger, bookId: string): void {
+  try {
+    localStorage.setItem(getLedgerStorageKey(bookId), JSON.stringify(ledger));
+  } catch (error) {
+    console.error('[Kanban Storage] Error saving automation ledger:', error);
+  }
+}
+
+export function clearAutomationLedger(bookId: string): void {
+  try {
+    localStorage.removeItem(getLedgerStorageKey(bookId));
+  } catch (error) {
+    console.error('[Kanban Storage] Error clearing automation ledger:', error);
+  }
+}
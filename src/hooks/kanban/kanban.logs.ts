@@ -0,0 +1,189 @@
+import { AutomationExecution, AutomationExecutionResult, TRIGGER_LABELS, ACTION_LABELS } from '@/types/automation';
+
+// ========== RETENTION ==========
+
+/** Logs older than this are dropped on save/load */
+export const LOG_RETENTION_DAYS = 90;
+/** Hard cap on stored entries per book (newest first) */
+export const LOG_RETENTION_MAX_ENTRIES = 1000;
+
+const LOG_STORAGE_VERSION = 1;
+
+// Execution logs live in their own key so the board payload stays small
+function getLogStorageKey(bookId: string): string {
+  return `publify.book.${bookId}.automationLogs.v${LOG_STORAGE_VERSION}`;
+}
+
+interface LogStoragePayload {
+  version: number;
+  logs: SerializedExecution[];
+  savedAt: string;
+}
+
+interface SerializedExecution extends Omit<AutomationExecution, 'timestamp'> {
+  timestamp: string;
+}
+
+/** Drop logs past the retention window and cap the total count */
+export function applyLogRetention(
+  logs: AutomationExecution[],
+  now: Date = new Date()
+): AutomationExecution[] {
+  const cutoff = now.getTime() - LOG_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+  return logs
+    .filter(log => new Date(log.timestamp).getTime() >= cutoff)
+    .slice(0, LOG_RETENTION_MAX_ENTRIES);
+}
+
+// ========== PERSISTENCE ==========
+
+/** Throws when the write fails (see saveKanbanState) */
+export function saveAutomationLogs(logs: AutomationExecution[], bookId: string): void {
+  const payload: LogStoragePayload = {
+    version: LOG_STORAGE_VERSION,
+    logs: applyLogRetention(logs).map(log => ({
+      ...log,
+      timestamp: new Date(log.timestamp).toISOString(),
+    })),
+    savedAt: new Date().toISOString(),
+  };
+  localStorage.setItem(getLogStorageKey(bookId), JSON.stringify(payload));
+}
+
+export function loadAutomationLogs(bookId: string): AutomationExecution[] {
+  try {
+    const stored = localStorage.getItem(getLogStorageKey(bookId));
+    if (!stored) return [];
+    const payload: LogStoragePayload = JSON.parse(stored);
+    const logs = (payload.logs || [])
+      .map(log => ({ ...log, timestamp: new Date(log.timestamp) }))
+      .filter(log => !isNaN(log.timestamp.getTime()));
+    return applyLogRetention(logs);
+  } catch (error) {
+    console.error('[Kanban Storage] Error loading automation logs:', error);
+    return [];
+  }
+}
+
+export function clearAutomationLogs(bookId: string): void {
+  try {
+    localStorage.removeItem(getLogStorageKey(bookId));
+  } catch (error) {
+    console.error('[Kanban Storage] Error clearing automation logs:', error);
+  }
+}
+
+// ========== SEARCH ==========
+
+export interface AutomationLogFilter {
+  automationId?: string;
+  /** Matches task id or (case-insensitive) task title */
+  taskQuery?: string;
+  results?: AutomationExecutionResult[];
+  from?: Date | null;
+  to?: Date | null;
+}
+
+export function filterAutomationLogs(
+  logs: AutomationExecution[],
+  filter: AutomationLogFilter
+): AutomationExecution[] {
+  const query = filter.taskQuery?.trim().toLowerCase();
+  const from = filter.from?.getTime();
+  const to = filter.to?.getTime();
+
+  return logs.filter(log => {
+    if (filter.automationId && log.automationId !== filter.automationId) return false;
+    if (query && log.taskId !== query && !log.taskTitle.toLowerCase().includes(query)) return false;
+    if (filter.results && filter.results.length > 0 && !filter.results.includes(log.result)) return false;
+    const time = new Date(log.timestamp).getTime();
+    if (from !== undefined && time < from) return false;
+    if (to !== undefined && time > to) return false;
+    return true;
+  });
+}
+
+// ========== STATS ==========
+
+export interface AutomationRunStats {
+  /** Executions that applied their actions */
+  applied: number;
+  /** Evaluations that were skipped for any reason */
+  skipped: number;
+  errors: number;
+  lastFiredAt: Date | null;
+  /** applied / (applied + skipped + errors), or null with no executions */
+  appliedRatio: number | null;
+}
+
+/** Per-automation run statistics computed from the execution log */
+export function getAutomationRunStats(logs: AutomationExecution[]): Map<string, AutomationRunStats> {
+  const stats = new Map<string, AutomationRunStats>();
+  for (const log of logs) {
+    let entry = stats.get(log.automationId);
+    if (!entry) {
+      entry = { applied: 0, skipped: 0, errors: 0, lastFiredAt: null, appliedRatio: null };
+      stats.set(log.automationId, entry);
+    }
+    if (log.result === 'applied') {
+      entry.applied++;
+      const timestamp = new Date(log.timestamp);
+      if (!entry.lastFiredAt || timestamp > entry.lastFiredAt) entry.lastFiredAt = timestamp;
+    } else if (log.result === 'error') {
+      entry.errors++;
+    } else {
+      entry.skipped++;
+    }
+  }
+  stats.forEach(entry => {
+    entry.appliedRatio = entry.applied / (entry.applied + entry.skipped + entry.errors);
+  });
+  return stats;
+}
+
+// ========== EXPORT ==========
+
+const CSV_COLUMNS = [
+  'timestamp',
+  'automationId',
+  'automationName',
+  'taskId',
+  'taskTitle',
+  'trigger',
+  'result',
+  'actions',
+  'affectedTaskIds',
+  'scheduleWindow',
+  'errorMessage',
+  'skipReason',
+] as const;
+
+function escapeCsv(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function automationLogsToCsv(logs: AutomationExecution[]): string {
+  const rows = logs.map(log => [
+    new Date(log.timestamp).toISOString(),
+    log.automationId,
+    log.automationName,
+    log.taskId,
+    log.taskTitle,
+    TRIGGER_LABELS[log.triggerType] ?? log.triggerType,
+    log.result,
+    log.actionsApplied.map(a => ACTION_LABELS[a.type] ?? a.type).join(' | '),
+    (log.affectedTaskIds || []).join(' | '),
+    log.scheduleWindow ?? '',
+    log.errorMessage ?? '',
+    log.skipReason ?? '',
+  ].map(escapeCsv).join(','));
+  return [CSV_COLUMNS.join(','), ...rows].join('\n');
+}
+
+export function automationLogsToJson(logs: AutomationExecution[]): string {
+  return JSON.stringify(
+    logs.map(log => ({ ...log, timestamp: new Date(log.timestamp).toISOString() })),
+    null,
+    2
+  );
+}
@@ -0,0 +1,212 @@
+import { FieldRevisions } from '@/types/kanban';
+import { KanbanState } from './kanban.types';
+import {
+  SyncChange,
+  SyncEntityType,
+  getEntityKey,
+  nextVersion,
+  isSameValue,
+  collectSyncEntities,
+  applyRemoteChanges,
+  VERSION_FIELDS,
+} from './kanban.sync';
+
+/** Entity types merged field by field; the rest keep server-wins on conflict */
+export const FIELD_MERGED_TYPES: SyncEntityType[] = ['task', 'column', 'note', 'automation'];
+
+/** The same field edited on both sides since the last sync */
+export interface FieldConflict {
+  /** `${entityType}:${entityId}:${field}` */
+  id: string;
+  entityType: SyncEntityType;
+  entityId: string;
+  /** Title or name at detection time, for display */
+  entityTitle: string;
+  field: string;
+  /** Serialized values; the remote one is applied until the conflict is resolved */
+  localValue: unknown;
+  remoteValue: unknown;
+  detectedAt: string;
+}
+
+export type ConflictChoice = 'local' | 'remote';
+
+export interface ConflictResolution extends FieldConflict {
+  choice: ConflictChoice;
+  resolvedAt: string;
+}
+
+export interface ConflictLog {
+  pending: FieldConflict[];
+  resolved: ConflictResolution[];
+}
+
+type SerializedEntity = { id: string; updatedAt?: string; fieldRevisions?: FieldRevisions } & Record<string, unknown>;
+
+const CONFLICT_LOG_VERSION = 1;
+const MAX_RESOLVED_CONFLICTS = 100;
+
+function getConflictLogKey(bookId: string): string {
+  return `publify.book.${bookId}.conflicts.v${CONFLICT_LOG_VERSION}`;
+}
+
+export function getEntityTitle(data: unknown): string {
+  const entity = (data || {}) as { title?: string; name?: string; id?: string };
+  return entity.title || entity.name || entity.id || '';
+}
+
+// ========== MERGE ==========
+
+/**
+ * Three-way merge of one entity using field revisions: a field counts as
+ * edited on a side when its revision is newer than `baseVersion` (the
+ * version both sides last shared). Fields edited on one side only take that
+ * side's value; fields edited on both with different values are conflicts
+ * and keep the remote value until resolved.
+ */
+export function mergeEntityFields(
+  local: SerializedEntity,
+  remote: SerializedEntity,
+  baseVersion: string | null
+): { merged: SerializedEntity; conflictingFields: string[]; takesLocal: boolean } {
+  const base = baseVersion ?? '';
+  const localRevisions = local.fieldRevisions || {};
+  const remoteRevisions = remote.fieldRevisions || {};
+  const merged: SerializedEntity = { ...remote };
+  const fieldRevisions: FieldRevisions = { ...remoteRevisions };
+  const conflictingFields: string[] = [];
+  let takesLocal = false;
+
+  const fields = new Set([...Object.keys(local), ...Object.keys(remote)]);
+  fields.forEach(field => {
+    if (VERSION_FIELDS.includes(field) || isSameValue(local[field], remote[field])) return;
+    const localEdited = (localRevisions[field] ?? '') > base;
+    const remoteEdited = (remoteRevisions[field] ?? '') > base;
+    if (localEdited && remoteEdited) {
+      conflictingFields.push(field);
+    } else if (localEdited) {
+      merged[field] = local[field];
+      fieldRevisions[field] = localRevisions[field];
+      takesLocal = true;
+    }
+  });
+
+  merged.fieldRevisions = fieldRevisions;
+  return { merged, conflictingFields, takesLocal };
+}
+
+/**
+ * Resolve the server's rejections of a push. Field-merged entities that both
+ * sides still have are merged; when the result keeps local edits it gets a
+ * version after the remote one so the next push sends it. Everything else
+ * (deletions, tags, settings) takes the server version as is.
+ *
+ * Returns the changes to apply locally and the field conflicts found.
+ */
+export function mergeRemoteConflicts(
+  localEntities: Map<string, SyncChange>,
+  conflicts: SyncChange[],
+  baseVersions: Record<string, string | null>,
+  now: Date = new Date()
+): { changes: SyncChange[]; fieldConflicts: FieldConflict[] } {
+  const changes: SyncChange[] = [];
+  const fieldConflicts: FieldConflict[] = [];
+  const detectedAt = now.toISOString();
+
+  for (const remote of conflicts) {
+    const key = getEntityKey(remote);
+    const local = localEntities.get(key);
+    if (!FIELD_MERGED_TYPES.includes(remote.entityType) || remote.deleted || !local) {
+      changes.push(remote);
+      continue;
+    }
+
+    const { merged, conflictingFields, takesLocal } = mergeEntityFields(
+      local.data as SerializedEntity,
+      remote.data as SerializedEntity,
+      baseVersions[key] ?? null
+    );
+    const updatedAt = takesLocal ? nextVersion(remote.updatedAt, now).toISOString() : remote.updatedAt;
+    changes.push({ ...remote, updatedAt, data: { ...merged, updatedAt } });
+
+    for (const field of conflictingFields) {
+      fieldConflicts.push({
+        id: `${key}:${field}`,
+        entityType: remote.entityType,
+        entityId: remote.id,
+        entityTitle: getEntityTitle(local.data),
+        field,
+        localValue: (local.data as SerializedEntity)[field],
+        remoteValue: (remote.data as SerializedEntity)[field],
+        detectedAt,
+      });
+    }
+  }
+
+  return { changes, fieldConflicts };
+}
+
+/**
+ * Write the local values back for conflicts resolved in favour of this side.
+ * Runs as a regular local edit, so the fields get new revisions and are pushed.
+ */
+export function applyLocalConflictChoices(state: KanbanState, conflicts: FieldConflict[], bookId: string): KanbanState {
+  const entities = collectSyncEntities(state);
+  const patched = new Map<string, SyncChange>();
+  for (const conflict of conflicts) {
+    const key = getEntityKey({ entityType: conflict.entityType, id: conflict.entityId });
+    const entity = patched.get(key) ?? entities.get(key);
+    if (!entity) continue;
+    patched.set(key, { ...entity, data: { ...(entity.data as SerializedEntity), [conflict.field]: conflict.localValue } });
+  }
+  if (patched.size === 0) return state;
+  return applyRemoteChanges(state, [...patched.values()], { cursor: 0, base: {} }, bookId, { force: true });
+}
+
+// ========== CONFLICT LOG ==========
+
+/** Add newly detected conflicts; a newer conflict on the same field replaces the older one */
+export function addPendingConflicts(log: ConflictLog, conflicts: FieldConflict[]): ConflictLog {
+  if (conflicts.length === 0) return log;
+  const ids = new Set(conflicts.map(c => c.id));
+  return {
+    ...log,
+    pending: [...log.pending.filter(c => !ids.has(c.id)), ...conflicts],
+  };
+}
+
+export function recordConflictResolutions(
+  log: ConflictLog,
+  choices: Record<string, ConflictChoice>,
+  now: Date = new Date()
+): ConflictLog {
+  const resolvedAt = now.toISOString();
+  const resolved = log.pending
+    .filter(conflict => choices[conflict.id])
+    .map(conflict => ({ ...conflict, choice: choices[conflict.id], resolvedAt }));
+  return {
+    pending: log.pending.filter(conflict => !choices[conflict.id]),
+    resolved: [...resolved, ...log.resolved].slice(0, MAX_RESOLVED_CONFLICTS),
+  };
+}
+
+export function loadConflictLog(bookId: string): ConflictLog {
+  try {
+    const stored = localStorage.getItem(getConflictLogKey(bookId));
+    if (stored) {
+      const log = JSON.parse(stored) as ConflictLog;
+      return { pending: log.pending || [], resolved: log.resolved || [] };
+    }
+  } catch (error) {
+    console.error('[Kanban Sync] Error loading conflict log:', error);
+  }
+  return { pending: [], resolved: [] };
+}
+
+export function saveConflictLog(log: ConflictLog, bookId: string): void {
+  try {
+    localStorage.setItem(getConflictLogKey(bookId), JSON.stringify(log));
+  } catch (error) {
+    console.error('[Kanban Sync] Error saving conflict log:', error);
+  }
+}
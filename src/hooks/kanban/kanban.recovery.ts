@@ -0,0 +1,111 @@
+import { FieldRepair, InvalidRecord, RecordCollection } from './kanban.schema';
+
+/**
+ * Records that could not be loaded are kept here instead of being dropped,
+ * so they can be inspected and downloaded. `payload` items hold a whole
+ * stored board that couldn't be parsed at all.
+ */
+export interface RecoveryItem {
+  id: string;
+  bookId: string;
+  collection: RecordCollection | 'payload';
+  quarantinedAt: string;
+  reason: string;
+  recordId?: string;
+  label?: string;
+  /** The record exactly as it was stored */
+  raw: unknown;
+}
+
+/**
+ * What a load had to fix. While one is pending the board is shown but not
+ * saved, so the original data stays in storage until the user confirms.
+ */
+export interface LoadRepair {
+  repairs: FieldRepair[];
+  quarantined: RecoveryItem[];
+  /** The stored board couldn't be read; a fresh one is shown instead */
+  unreadable: boolean;
+}
+
+const RECOVERY_STORAGE_VERSION = 1;
+/** Oldest items are dropped past this many */
+const RECOVERY_MAX_ITEMS = 200;
+
+const generateId = () => Math.random().toString(36).substr(2, 9);
+
+function getRecoveryStorageKey(bookId: string): string {
+  return `publify.book.${bookId}.recovery.v${RECOVERY_STORAGE_VERSION}`;
+}
+
+export function createRecoveryItems(bookId: string, invalid: InvalidRecord[], now: Date = new Date()): RecoveryItem[] {
+  return invalid.map(record => ({
+    id: generateId(),
+    bookId,
+    collection: record.collection,
+    quarantinedAt: now.toISOString(),
+    reason: record.reason,
+    recordId: record.id,
+    label: record.label,
+    raw: record.raw,
+  }));
+}
+
+/** A whole stored payload that couldn't be parsed */
+export function createPayloadRecoveryItem(bookId: string, raw: string, reason: string, now: Date = new Date()): RecoveryItem {
+  return { id: generateId(), bookId, collection: 'payload', quarantinedAt: now.toISOString(), reason, raw };
+}
+
+/** Build the load report for a repaired board and move its unusable records to the bin */
+export function quarantineInvalidRecords(
+  bookId: string,
+  repairs: FieldRepair[],
+  invalid: InvalidRecord[]
+): LoadRepair {
+  const quarantined = createRecoveryItems(bookId, invalid);
+  addToRecoveryBin(bookId, quarantined);
+  return { repairs, quarantined, unreadable: false };
+}
+
+// ========== PERSISTENCE ==========
+
+export function loadRecoveryBin(bookId: string): RecoveryItem[] {
+  try {
+    const stored = localStorage.getItem(getRecoveryStorageKey(bookId));
+    return stored ? (JSON.parse(stored) as RecoveryItem[]) : [];
+  } catch (error) {
+    console.error('[Kanban Storage] Error loading recovery bin:', error);
+    return [];
+  }
+}
+
+export function saveRecoveryBin(items: RecoveryItem[], bookId: string): void {
+  try {
+    if (items.length === 0) {
+      localStorage.removeItem(getRecoveryStorageKey(bookId));
+      return;
+    }
+    localStorage.setItem(getRecoveryStorageKey(bookId), JSON.stringify(items.slice(-RECOVERY_MAX_ITEMS)));
+  } catch (error) {
+    console.error('[Kanban Storage] Error saving recovery bin:', error);
+  }
+}
+
+/**
+ * Add items, skipping records already in the bin: an unconfirmed repair
+ * quarantines the same records again on every load.
+ */
+export function addToRecoveryBin(bookId: string, items: RecoveryItem[]): void {
+  if (items.length === 0) return;
+  const existing = loadRecoveryBin(bookId);
+  const known = new Set(existing.map(item => `${item.collection}:${JSON.stringify(item.raw)}`));
+  const added = items.filter(item => !known.has(`${item.collection}:${JSON.stringify(item.raw)}`));
+  if (added.length > 0) saveRecoveryBin([...existing, ...added], bookId);
+}
+
+export function removeFromRecoveryBin(bookId: string, itemIds: string[]): RecoveryItem[] {
+  const ids = new Set(itemIds);
+  const remaining = loadRecoveryBin(bookId).filter(item => !ids.has(item.id));
+  saveRecoveryBin(remaining, bookId);
+  return remaining;
+}
@@ -1,6 +1,12 @@
-import { Task, Column, Tag, Note, Filter, Subtask, Automation, AutomationExecution, AutomationNotification, TaskDependency } from '@/types/kanban';
+import { Task, TaskStatus, Column, Tag, Note, Filter, Subtask, Automation, AutomationExecution, AutomationNotification, TaskDependency, DependencyType, BoardSettings } from '@/types/kanban';
 import { KanbanState, HistoryState, KanbanAction } from './kanban.types';
-import { wouldCreateCycle } from './kanban.dependencies';
+import { wouldCreateCycle, getTransitionBlock, TaskTransition } from './kanban.dependencies';
+import { LOG_RETENTION_MAX_ENTRIES } from './kanban.logs';
+import { detachDependents, repairIntegrityIssues } from './kanban.integrity';
+import { applyRemoteChanges, ApplyRemoteOptions, SyncChange, SyncMeta } from './kanban.sync';
+import { applyLocalConflictChoices, FieldConflict } from './kanban.merge';
+import { applyCrossTabChanges, CrossTabPayload } from './kanban.crossTab';
+import { filterLogsBefore } from './kanban.usage';
 
 const MAX_HISTORY_LENGTH = 50;
 
@@ -30,28 +36,93 @@ function hasIncompleteSubtasks(task: Task): boolean {
   return task.subtasks.some(s => !s.completed);
 }
 
-// Sync task status based on subtasks completion
-function syncTaskStatusWithSubtasks(task: Task): Task {
-  if (!task.subtasks || task.subtasks.length === 0) return task;
-  
-  const allCompleted = areAllSubtasksCompleted(task);
-  const hasIncomplete = hasIncompleteSubtasks(task);
-  
-  // If all subtasks are completed, mark task as completed
-  if (allCompleted && task.status !== 'completed') {
-    return { ...task, status: 'completed' };
-  }
-  
-  // If task is marked completed but has incomplete subtasks, revert to in_progress
-  if (task.status === 'completed' && hasIncomplete) {
-    return { ...task, status: 'in_progress' };
-  }
-  
-  return task;
+/** The status a task's subtasks imply: completed when all are done, back to in progress when one reopens */
+export function getSubtaskDerivedStatus(task: Task): TaskStatus {
+  if (!task.subtasks || task.subtasks.length === 0) return task.status;
+  if (areAllSubtasksCompleted(task)) return 'completed';
+  if (task.status === 'completed' && hasIncompleteSubtasks(task)) return 'in_progress';
+  return task.status;
+}
+
+// Sync task status based on subtasks completion. The derived change goes
+// through the same prerequisite gate as a manual one. In strict mode a change
+// that would complete the task is rejected (null), since a task with every
+// subtask done counts as finished; a blocked reopen keeps the old status.
+// Warn mode lets both through (the board shows the warning)
+function syncTaskStatusWithSubtasks(task: Task, state: KanbanState): Task | null {
+  const status = getSubtaskDerivedStatus(task);
+  if (status === task.status) return task;
+
+  const block = getTransitionBlock(task, { status }, state);
+  if (block.blocked && block.mode === 'strict') return status === 'completed' ? null : task;
+  return { ...task, status };
+}
+
+// Apply a subtask edit to one task, leaving history untouched when strict
+// mode rejects the status it implies
+function applySubtaskChange(history: HistoryState, taskId: string, change: (task: Task) => Task): HistoryState {
+  const { present } = history;
+  const task = present.tasks.find(t => t.id === taskId);
+  if (!task) return history;
+  const changedTask = change(task);
+  // A task whose subtasks were already all done (stored before the gate) keeps
+  // taking unrelated edits; only the edit that completes them is rejected
+  const updatedTask = syncTaskStatusWithSubtasks(changedTask, present)
+    ?? (areAllSubtasksCompleted(task) ? changedTask : null);
+  if (!updatedTask) return history;
+
+  const historyWithPast = pushToHistory(history);
+  return {
+    ...historyWithPast,
+    present: {
+      ...present,
+      tasks: present.tasks.map(t => (t.id === taskId ? updatedTask : t)),
+    },
+  };
+}
+
+// ========== DEPENDENCY ENFORCEMENT ==========
+
+/** Payload flag to force a transition past open prerequisites */
+export interface DependencyOverrideRequest {
+  reason: string;
+}
+
+/**
+ * Gate a status change or column move on the task's prerequisites.
+ * Returns null when strict mode rejects it; otherwise the task, with the
+ * override recorded on it when one was given for a blocked transition.
+ */
+function guardTransition(
+  task: Task,
+  transition: TaskTransition,
+  state: KanbanState,
+  override?: DependencyOverrideRequest
+): Task | null {
+  const block = getTransitionBlock(task, transition, state);
+  if (!block.blocked) return task;
+  if (!override) return block.mode === 'strict' ? null : task;
+
+  const recorded: TaskTransition = {};
+  if (transition.status) recorded.status = transition.status;
+  if (transition.columnId) recorded.columnId = transition.columnId;
+  return {
+    ...task,
+    dependencyOverrides: [
+      ...(task.dependencyOverrides || []),
+      {
+        id: generateId(),
+        transition: recorded,
+        blockingTaskIds: block.blockingTasks.map(t => t.id),
+        reason: override.reason.trim(),
+        createdAt: new Date(),
+      },
+    ],
+  };
 }
 
 // Helper to push state to history
-function pushToHistory(history: HistoryState, skipHistory = false): HistoryState {
+export function pushToHistory(history: HistoryState, skipHistory = false): HistoryState {
   if (skipHistory) return history;
   
   const newPast = [...history.past, history.present].slice(-MAX_HISTORY_LENGTH);
@@ -74,7 +145,9 @@ export function kanbanReducer(history: HistoryState, action: KanbanAction): Hist
       const newPast = history.past.slice(0, -1);
       return {
         past: newPast,
-        present: previous,
+        // Undoing a rule's effects doesn't let it fire again, and the execution
+        // log stays as it is (purged entries don't come back)
+        present: { ...previous, automationLogs: present.automationLogs, automationLedger: present.automationLedger },
         future: [history.present, ...history.future],
       };
     }
@@ -85,7 +158,7 @@ export function kanbanReducer(history: HistoryState, action: KanbanAction): Hist
       const newFuture = history.future.slice(1);
       return {
         past: [...history.past, history.present],
-        present: next,
+        present: { ...next, automationLogs: present.automationLogs, automationLedger: present.automationLedger },
         future: newFuture,
       };
     }
@@ -126,6 +199,7 @@ export function kanbanReducer(history: HistoryState, action: KanbanAction): Hist
         dependencies: task.dependencies || [],
         order: present.tasks.filter(t => t.columnId === columnId).length,
         isArchived: false,
+        columnEnteredAt: now,
       };
       const historyWithPast = pushToHistory(history);
       return {
@@ -138,43 +212,78 @@ export function kanbanReducer(history: HistoryState, action: KanbanAction): Hist
     }
 
     case 'TASK_UPDATED': {
-      const { taskId, updates } = action.payload as { taskId: string; updates: Partial<Task> };
+      const { taskId, updates, override } = action.payload as {
+        taskId: string;
+        updates: Partial<Task>;
+        override?: DependencyOverrideRequest;
+      };
+      const currentTask = present.tasks.find(t => t.id === taskId);
+      if (!currentTask) return history;
+      const guardedTask = guardTransition(
+        currentTask,
+        { status: updates.status, columnId: updates.columnId },
+        present,
+        override
+      );
+      if (!guardedTask) return history;
+
+      // Sync status with subtasks if subtasks exist
+      return applySubtaskChange(history, taskId, task => {
+        const updatedTask = { ...guardedTask, ...updates };
+        if (updates.columnId && updates.columnId !== task.columnId) {
+          updatedTask.columnEnteredAt = new Date();
+        }
+        return updatedTask;
+      });
+    }
+
+    case 'TASKS_RESCHEDULED': {
+      // All cascaded date shifts land in one history entry so a single undo reverts them
+      const { shifts } = action.payload as { shifts: { taskId: string; startDate: Date | null; dueDate: Date | null }[] };
+      if (!shifts || shifts.length === 0) return history;
+      const shiftById = new Map(shifts.map(s => [s.taskId, s]));
       const historyWithPast = pushToHistory(history);
       return {
         ...historyWithPast,
         present: {
           ...present,
           tasks: present.tasks.map(task => {
-            if (task.id !== taskId) return task;
-            let updatedTask = { ...task, ...updates };
-            // Sync status with subtasks if subtasks exist
-            updatedTask = syncTaskStatusWithSubtasks(updatedTask);
-            return updatedTask;
+            const shift = shiftById.get(task.id);
+            if (!shift) return task;
+            return { ...task, startDate: shift.startDate, dueDate: shift.dueDate };
           }),
         },
       };
     }
 
     case 'TASK_DELETED': {
-      const taskId = action.payload as string;
+      // Plain ID, or options to re-point the tasks that depended on it
+      const { taskId, repointDependenciesTo } = typeof action.payload === 'string'
+        ? { taskId: action.payload, repointDependenciesTo: undefined }
+        : action.payload as { taskId: string; repointDependenciesTo?: string };
       const historyWithPast = pushToHistory(history);
+      // Dependents are detached in the same step so undo brings the links back too
+      const tasks = detachDependents(present, taskId, repointDependenciesTo);
       return {
         ...historyWithPast,
         present: {
           ...present,
-          tasks: present.tasks.filter(task => task.id !== taskId),
+          tasks: tasks.filter(task => task.id !== taskId),
         },
       };
     }
 
     case 'TASK_MOVED': {
-      const { taskId, targetColumnId, targetIndex } = action.payload as {
+      const { taskId, targetColumnId, targetIndex, override } = action.payload as {
         taskId: string;
         targetColumnId: string;
         targetIndex: number;
+        override?: DependencyOverrideRequest;
       };
       
-      const task = present.tasks.find(t => t.id === taskId);
+      const currentTask = present.tasks.find(t => t.id === taskId);
+      if (!currentTask) return history;
+      const task = guardTransition(currentTask, { columnId: targetColumnId }, present, override);
       if (!task) return history;
 
       // Check if there's actually a change
@@ -194,7 +303,9 @@ export function kanbanReducer(history: HistoryState, action: KanbanAction): Hist
         .filter(t => t.columnId === targetColumnId)
         .sort((a, b) => a.order - b.order);
       
-      const updatedTask = { ...task, columnId: targetColumnId };
+      const updatedTask = isInSameColumn
+        ? task
+        : { ...task, columnId: targetColumnId, columnEnteredAt: new Date() };
       
       const reorderedTargetTasks = [
         ...targetColumnTasks.slice(0, targetIndex),
@@ -282,29 +393,20 @@ export function kanbanReducer(history: HistoryState, action: KanbanAction): Hist
         assignedTo?: string;
         dueDate?: Date;
       };
-      const historyWithPast = pushToHistory(history);
-      return {
-        ...historyWithPast,
-        present: {
-          ...present,
-          tasks: present.tasks.map(task => {
-            if (task.id !== taskId) return task;
-            const newSubtask: Subtask = {
-              id: generateId(),
-              title,
-              completed: false,
-              assignedTo: assignedTo || null,
-              dueDate: dueDate || null,
-              createdAt: new Date(),
-            };
-            const updatedTask = {
-              ...task,
-              subtasks: [...task.subtasks, newSubtask],
-            };
-            return syncTaskStatusWithSubtasks(updatedTask);
-          }),
-        },
-      };
+      return applySubtaskChange(history, taskId, task => {
+        const newSubtask: Subtask = {
+          id: generateId(),
+          title,
+          completed: false,
+          assignedTo: assignedTo || null,
+          dueDate: dueDate || null,
+          createdAt: new Date(),
+        };
+        return {
+          ...task,
+          subtasks: [...task.subtasks, newSubtask],
+        };
+      });
     }
 
     case 'SUBTASK_UPDATED': {
@@ -313,63 +415,30 @@ export function kanbanReducer(history: HistoryState, action: KanbanAction): Hist
         subtaskId: string;
         updates: Partial<Subtask>;
       };
-      const historyWithPast = pushToHistory(history);
-      return {
-        ...historyWithPast,
-        present: {
-          ...present,
-          tasks: present.tasks.map(task => {
-            if (task.id !== taskId) return task;
-            const updatedTask = {
-              ...task,
-              subtasks: task.subtasks.map(s =>
-                s.id === subtaskId ? { ...s, ...updates } : s
-              ),
-            };
-            return syncTaskStatusWithSubtasks(updatedTask);
-          }),
-        },
-      };
+      return applySubtaskChange(history, taskId, task => ({
+        ...task,
+        subtasks: task.subtasks.map(s =>
+          s.id === subtaskId ? { ...s, ...updates } : s
+        ),
+      }));
     }
 
     case 'SUBTASK_TOGGLED': {
       const { taskId, subtaskId } = action.payload as { taskId: string; subtaskId: string };
-      const historyWithPast = pushToHistory(history);
-      return {
-        ...historyWithPast,
-        present: {
-          ...present,
-          tasks: present.tasks.map(task => {
-            if (task.id !== taskId) return task;
-            const updatedTask = {
-              ...task,
-              subtasks: task.subtasks.map(s =>
-                s.id === subtaskId ? { ...s, completed: !s.completed } : s
-              ),
-            };
-            return syncTaskStatusWithSubtasks(updatedTask);
-          }),
-        },
-      };
+      return applySubtaskChange(history, taskId, task => ({
+        ...task,
+        subtasks: task.subtasks.map(s =>
+          s.id === subtaskId ? { ...s, completed: !s.completed } : s
+        ),
+      }));
     }
 
     case 'SUBTASK_DELETED': {
       const { taskId, subtaskId } = action.payload as { taskId: string; subtaskId: string };
-      const historyWithPast = pushToHistory(history);
-      return {
-        ...historyWithPast,
-        present: {
-          ...present,
-          tasks: present.tasks.map(task => {
-            if (task.id !== taskId) return task;
-            const updatedTask = {
-              ...task,
-              subtasks: task.subtasks.filter(s => s.id !== subtaskId),
-            };
-            return syncTaskStatusWithSubtasks(updatedTask);
-          }),
-        },
-      };
+      return applySubtaskChange(history, taskId, task => ({
+        ...task,
+        subtasks: task.subtasks.filter(s => s.id !== subtaskId),
+      }));
     }
 
     // ========== LEGACY CHECKLIST ACTIONS (deprecated, kept for compatibility) ==========
@@ -403,43 +472,21 @@ export function kanbanReducer(history: HistoryState, action: KanbanAction): Hist
     case 'CHECKLIST_ITEM_TOGGLED': {
       const { taskId, itemId } = action.payload as { taskId: string; itemId: string };
       // Redirect to subtask toggle
-      const historyWithPast = pushToHistory(history);
-      return {
-        ...historyWithPast,
-        present: {
-          ...present,
-          tasks: present.tasks.map(task => {
-            if (task.id !== taskId) return task;
-            const updatedTask = {
-              ...task,
-              subtasks: task.subtasks.map(s =>
-                s.id === itemId ? { ...s, completed: !s.completed } : s
-              ),
-            };
-            return syncTaskStatusWithSubtasks(updatedTask);
-          }),
-        },
-      };
+      return applySubtaskChange(history, taskId, task => ({
+        ...task,
+        subtasks: task.subtasks.map(s =>
+          s.id === itemId ? { ...s, completed: !s.completed } : s
+        ),
+      }));
     }
 
     case 'CHECKLIST_ITEM_DELETED': {
       const { taskId, itemId } = action.payload as { taskId: string; itemId: string };
       // Redirect to subtask deletion
-      const historyWithPast = pushToHistory(history);
-      return {
-        ...historyWithPast,
-        present: {
-          ...present,
-          tasks: present.tasks.map(task => {
-            if (task.id !== taskId) return task;
-            const updatedTask = {
-              ...task,
-              subtasks: task.subtasks.filter(s => s.id !== itemId),
-            };
-            return syncTaskStatusWithSubtasks(updatedTask);
-          }),
-        },
-      };
+      return applySubtaskChange(history, taskId, task => ({
+        ...task,
+        subtasks: task.subtasks.filter(s => s.id !== itemId),
+      }));
     }
 
     // ========== COLUMN ACTIONS ==========
@@ -501,7 +548,7 @@ export function kanbanReducer(history: HistoryState, action: KanbanAction): Hist
         if (firstAvailableColumn) {
           updatedTasks = present.tasks.map(task =>
             task.columnId === columnId
-              ? { ...task, columnId: firstAvailableColumn.id }
+              ? { ...task, columnId: firstAvailableColumn.id, columnEnteredAt: new Date() }
               : task
           );
         } else {
@@ -654,15 +701,130 @@ export function kanbanReducer(history: HistoryState, action: KanbanAction): Hist
       };
     }
 
+    case 'SETTINGS_UPDATED': {
+      const updates = action.payload as Partial<BoardSettings>;
+      const historyWithPast = pushToHistory(history);
+      return {
+        ...historyWithPast,
+        present: {
+          ...present,
+          settings: { ...present.settings, ...updates },
+        },
+      };
+    }
+
+    case 'SYNC_REMOTE_APPLIED': {
+      const { changes, meta, bookId, options } = action.payload as {
+        changes: SyncChange[];
+        meta: SyncMeta;
+        bookId: string;
+        options?: ApplyRemoteOptions;
+      };
+      // Edits from other devices are not local undo steps
+      return {
+        ...history,
+        present: applyRemoteChanges(present, changes, meta, bookId, options),
+      };
+    }
+
+    case 'BOOK_RESTORED': {
+      const restored = action.payload as KanbanState;
+      const historyWithPast = pushToHistory(history);
+      return {
+        ...historyWithPast,
+        present: {
+          ...restored,
+          // Filters and pending toasts belong to the session, not the backup;
+          // rules keep what they already did
+          filter: present.filter,
+          notifications: present.notifications,
+          automationLedger: present.automationLedger,
+        },
+      };
+    }
+
+    case 'TASKS_RESTORED': {
+      // Individual tasks picked from a snapshot: replace the current version or bring back a deleted one
+      const { tasks } = action.payload as { tasks: Task[] };
+      if (!tasks || tasks.length === 0) return history;
+      const columnIds = new Set(present.columns.map(c => c.id));
+      const fallbackColumn = [...present.columns].sort((a, b) => a.order - b.order).find(c => !c.isHidden);
+      const restoredById = new Map(
+        tasks.map(task => [
+          task.id,
+          columnIds.has(task.columnId) || !fallbackColumn ? task : { ...task, columnId: fallbackColumn.id },
+        ])
+      );
+      const historyWithPast = pushToHistory(history);
+      return {
+        ...historyWithPast,
+        present: {
+          ...present,
+          tasks: [
+            ...present.tasks.map(task => restoredById.get(task.id) ?? task),
+            ...[...restoredById.values()].filter(task => !present.tasks.some(t => t.id === task.id)),
+          ],
+        },
+      };
+    }
+
+    case 'ARCHIVED_TASKS_PURGED': {
+      const archivedIds = present.tasks.filter(task => task.isArchived).map(task => task.id);
+      if (archivedIds.length === 0) return history;
+      const historyWithPast = pushToHistory(history);
+      // Same as deleting each one: links from remaining tasks are dropped too
+      const detached = archivedIds.reduce(
+        (state, taskId) => ({ ...state, tasks: detachDependents(state, taskId) }),
+        present
+      );
+      return {
+        ...historyWithPast,
+        present: {
+          ...present,
+          tasks: detached.tasks.filter(task => !task.isArchived),
+        },
+      };
+    }
+
+    case 'CROSS_TAB_APPLIED':
+      return applyCrossTabChanges(history, action.payload as CrossTabPayload);
+
+    case 'SYNC_CONFLICTS_RESOLVED': {
+      const { conflicts, bookId } = action.payload as { conflicts: FieldConflict[]; bookId: string };
+      const resolved = applyLocalConflictChoices(present, conflicts, bookId);
+      if (resolved === present) return history;
+      const historyWithPast = pushToHistory(history);
+      return {
+        ...historyWithPast,
+        present: resolved,
+      };
+    }
+
+    case 'INTEGRITY_REPAIRED': {
+      const { issueIds } = (action.payload || {}) as { issueIds?: string[] };
+      const repaired = repairIntegrityIssues(present, issueIds);
+      if (repaired === present) return history;
+      const historyWithPast = pushToHistory(history);
+      return {
+        ...historyWithPast,
+        present: repaired,
+      };
+    }
+
     // ========== DEPENDENCY ACTIONS (Phase 7) ==========
     case 'DEPENDENCY_ADDED': {
-      const { taskId, dependsOnTaskId } = action.payload as { taskId: string; dependsOnTaskId: string };
+      const { taskId, dependsOnTaskId, type = 'FS', lagDays = 0 } = action.payload as {
+        taskId: string;
+        dependsOnTaskId: string;
+        type?: DependencyType;
+        lagDays?: number;
+      };
       
       // Validate: prevent self-dependency
       if (taskId === dependsOnTaskId) return history;
       
       // Validate: prevent cycles
-      if (wouldCreateCycle(taskId, dependsOnTaskId, present)) return history;
+      if (wouldCreateCycle(taskId, dependsOnTaskId, present, type)) return history;
       
       const task = present.tasks.find(t => t.id === taskId);
       if (!task) return history;
@@ -673,8 +835,9 @@ export function kanbanReducer(history: HistoryState, action: KanbanAction): Hist
       
       const newDependency: TaskDependency = {
         id: generateId(),
-        type: 'FS',
+        type,
         dependsOnTaskId,
+        lagDays,
         createdAt: new Date(),
       };
       
@@ -692,6 +855,46 @@ export function kanbanReducer(history: HistoryState, action: KanbanAction): Hist
       };
     }
 
+    case 'DEPENDENCY_UPDATED': {
+      const { taskId, dependencyId, updates } = action.payload as {
+        taskId: string;
+        dependencyId: string;
+        updates: Partial<Pick<TaskDependency, 'type' | 'lagDays'>>;
+      };
+      const task = present.tasks.find(t => t.id === taskId);
+      const dependency = task?.taskDependencies?.find(d => d.id === dependencyId);
+      if (!task || !dependency) return history;
+
+      // Changing the type moves the edge's anchors, so re-check for cycles without it
+      if (updates.type && updates.type !== dependency.type) {
+        const withoutDependency: KanbanState = {
+          ...present,
+          tasks: present.tasks.map(t =>
+            t.id === taskId
+              ? { ...t, taskDependencies: t.taskDependencies!.filter(d => d.id !== dependencyId) }
+              : t
+          ),
+        };
+        if (wouldCreateCycle(taskId, dependency.dependsOnTaskId, withoutDependency, updates.type)) return history;
+      }
+
+      const historyWithPast = pushToHistory(history);
+      return {
+        ...historyWithPast,
+        present: {
+          ...present,
+          tasks: present.tasks.map(t =>
+            t.id === taskId
+              ? {
+                  ...t,
+                  taskDependencies: t.taskDependencies!.map(d => (d.id === dependencyId ? { ...d, ...updates } : d)),
+                }
+              : t
+          ),
+        },
+      };
+    }
+
     case 'DEPENDENCY_REMOVED': {
       const { taskId, dependencyId } = action.payload as { taskId: string; dependencyId: string };
       const task = present.tasks.find(t => t.id === taskId);
@@ -764,19 +967,41 @@ export function kanbanReducer(history: HistoryState, action: KanbanAction): Hist
       };
     }
 
+    case 'AUTOMATIONS_IMPORTED': {
+      const automations = action.payload as Automation[];
+      if (automations.length === 0) return history;
+      const historyWithPast = pushToHistory(history);
+      return {
+        ...historyWithPast,
+        present: {
+          ...present,
+          automations: [...present.automations, ...automations],
+        },
+      };
+    }
+
     case 'AUTOMATION_LOGS_ADDED': {
       const logs = action.payload as AutomationExecution[];
       // Logs don't go to history (not undoable)
-      const MAX_LOGS = 200;
       return {
         ...history,
         present: {
           ...present,
-          automationLogs: [...logs, ...present.automationLogs].slice(0, MAX_LOGS),
+          automationLogs: [...logs, ...present.automationLogs].slice(0, LOG_RETENTION_MAX_ENTRIES),
         },
       };
     }
 
+    case 'AUTOMATION_LOGS_PURGED': {
+      const { before } = action.payload as { before: Date | null };
+      const automationLogs = filterLogsBefore(present.automationLogs, before);
+      if (automationLogs.length === present.automationLogs.length) return history;
+      return {
+        ...history,
+        present: { ...present, automationLogs },
+      };
+    }
+
     case 'NOTIFICATION_ADDED': {
       const notification = action.payload as AutomationNotification;
       return {
@@ -0,0 +1,158 @@
+import { addDays, differenceInCalendarDays, startOfDay } from 'date-fns';
+import { Task, TaskDependency } from '@/types/kanban';
+import { KanbanState } from './kanban.types';
+import { isTaskCompleted } from './kanban.dependencies';
+
+/** Upper bound on propagation passes; dependency cycles are rejected upstream */
+const MAX_RESCHEDULE_PASSES = 50;
+
+export interface RescheduleShift {
+  taskId: string;
+  taskTitle: string;
+  previousStartDate: Date | null;
+  previousDueDate: Date | null;
+  startDate: Date | null;
+  dueDate: Date | null;
+  /** Calendar days the task moves forward */
+  shiftDays: number;
+  /** Prerequisite that forced the move */
+  causedByTaskId: string;
+}
+
+// ========== WORKING DAYS ==========
+
+export function isWorkingDay(date: Date): boolean {
+  const day = date.getDay();
+  return day !== 0 && day !== 6;
+}
+
+/** Same day if it's a working day, otherwise the next one */
+export function nextWorkingDay(date: Date): Date {
+  let current = date;
+  while (!isWorkingDay(current)) current = addDays(current, 1);
+  return current;
+}
+
+/** Move by `amount` working days (negative goes backwards), starting from a working day */
+export function addWorkingDays(date: Date, amount: number): Date {
+  let current = nextWorkingDay(date);
+  const step = amount < 0 ? -1 : 1;
+  for (let remaining = Math.abs(amount); remaining > 0; ) {
+    current = addDays(current, step);
+    if (isWorkingDay(current)) remaining--;
+  }
+  return current;
+}
+
+/** Working days in the inclusive range, at least one */
+export function countWorkingDays(start: Date, end: Date): number {
+  let count = 0;
+  for (let current = startOfDay(start); current <= end; current = addDays(current, 1)) {
+    if (isWorkingDay(current)) count++;
+  }
+  return Math.max(1, count);
+}
+
+// ========== PROPAGATION ==========
+
+interface PlannedDates {
+  start: Date;
+  due: Date;
+  /** Duration in working days, kept when the task moves */
+  workingDays: number;
+}
+
+function getPlannedDates(task: Task): PlannedDates | null {
+  if (!task.dueDate) return null;
+  const due = new Date(task.dueDate);
+  const start = task.startDate ? new Date(task.startDate) : due;
+  return { start, due, workingDays: countWorkingDays(start, due) };
+}
+
+/** Earliest start day the dependency allows for the dependent. Lag is counted in working days. */
+function getRequiredStart(dependency: TaskDependency, prerequisite: PlannedDates, dependent: PlannedDates): Date {
+  const lag = dependency.lagDays ?? 0;
+  switch (dependency.type) {
+    case 'SS':
+      return startOfDay(addWorkingDays(prerequisite.start, lag));
+    case 'FF':
+      return startOfDay(addWorkingDays(addWorkingDays(prerequisite.due, lag), -(dependent.workingDays - 1)));
+    case 'SF':
+      return startOfDay(addWorkingDays(addWorkingDays(prerequisite.start, lag), -(dependent.workingDays - 1)));
+    case 'FS':
+    default:
+      return startOfDay(addWorkingDays(prerequisite.due, lag + 1));
+  }
+}
+
+/**
+ * Work out which dependents must move after `taskId`'s dates changed.
+ *
+ * Dependents are only ever pushed later, never pulled in, and keep their
+ * duration in working days; shifted dates land on working days. Shifts
+ * cascade through the whole dependency graph. Completed and undated tasks
+ * are left alone.
+ */
+export function calculateReschedule(state: KanbanState, taskId: string): RescheduleShift[] {
+  const planned = new Map<string, PlannedDates>();
+  const dependentsOf = new Map<string, Task[]>();
+  for (const task of state.tasks) {
+    if (task.isArchived) continue;
+    const dates = getPlannedDates(task);
+    if (dates) planned.set(task.id, dates);
+    for (const dep of task.taskDependencies || []) {
+      const list = dependentsOf.get(dep.dependsOnTaskId);
+      if (list) list.push(task);
+      else dependentsOf.set(dep.dependsOnTaskId, [task]);
+    }
+  }
+
+  const shifts = new Map<string, RescheduleShift>();
+  let queue = [taskId];
+
+  for (let pass = 0; queue.length > 0 && pass < MAX_RESCHEDULE_PASSES; pass++) {
+    const nextQueue: string[] = [];
+    for (const prerequisiteId of queue) {
+      const prerequisite = planned.get(prerequisiteId);
+      if (!prerequisite) continue;
+
+      for (const dependent of dependentsOf.get(prerequisiteId) || []) {
+        const current = planned.get(dependent.id);
+        if (!current || isTaskCompleted(dependent, state)) continue;
+
+        let latestRequired: Date | null = null;
+        for (const dep of dependent.taskDependencies || []) {
+          if (dep.dependsOnTaskId !== prerequisiteId) continue;
+          const required = getRequiredStart(dep, prerequisite, current);
+          if (!latestRequired || required > latestRequired) latestRequired = required;
+        }
+        if (!latestRequired || latestRequired <= startOfDay(current.start)) continue;
+
+        // Keep the time of day; only the calendar day moves
+        const newStartDay = nextWorkingDay(latestRequired);
+        const startShift = differenceInCalendarDays(newStartDay, current.start);
+        const start = addDays(current.start, startShift);
+        const dueDay = addWorkingDays(newStartDay, current.workingDays - 1);
+        const due = addDays(current.due, differenceInCalendarDays(dueDay, current.due));
+        planned.set(dependent.id, { start, due, workingDays: current.workingDays });
+
+        // `dependent` is the untouched task, so "previous" always means before the cascade
+        const original = getPlannedDates(dependent)!;
+        shifts.set(dependent.id, {
+          taskId: dependent.id,
+          taskTitle: dependent.title,
+          previousStartDate: dependent.startDate,
+          previousDueDate: dependent.dueDate,
+          startDate: dependent.startDate ? start : null,
+          dueDate: due,
+          shiftDays: differenceInCalendarDays(start, original.start),
+          causedByTaskId: prerequisiteId,
+        });
+        nextQueue.push(dependent.id);
+      }
+    }
+    queue = nextQueue;
+  }
+
+  return Array.from(shifts.values());
+}
@@ -0,0 +1,144 @@
+import { Task, Automation } from '@/types/kanban';
+import { AutomationExecution, AutomationNotification, SCHEDULED_TRIGGER_TYPES } from '@/types/automation';
+import { KanbanState, HistoryState } from './kanban.types';
+import { runAutomations, addExecutionLogs, addNotifications, getDaysUntilDue } from './kanban.automations';
+import { isTaskCompleted } from './kanban.progress';
+import { pushToHistory } from './kanban.reducer';
+import { getWindowKey, recordLedgerWindow, pruneFiredWindows } from './kanban.ledger';
+
+/** How often the board re-evaluates scheduled automations while open */
+export const SCHEDULER_INTERVAL_MS = 60 * 1000;
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+function toDayKey(date: Date): string {
+  const d = new Date(date);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+export function isScheduledAutomation(automation: Pick<Automation, 'trigger'>): boolean {
+  return SCHEDULED_TRIGGER_TYPES.includes(automation.trigger.type);
+}
+
+/**
+ * Return the schedule window a task currently falls in for a scheduled
+ * automation, or null if the trigger doesn't match the task right now.
+ * A rule fires at most once per (automation, task, window).
+ */
+export function getScheduleWindow(automation: Automation, task: Task, now: Date): string | null {
+  const { trigger } = automation;
+
+  switch (trigger.type) {
+    case 'DUE_DATE_APPROACHING': {
+      if (!task.dueDate || isTaskCompleted(task)) return null;
+      const days = getDaysUntilDue(task);
+      if (days === null || days < 0 || days > (trigger.days ?? 1)) return null;
+      // One window per due date: rescheduling the task opens a new window
+      return `due:${toDayKey(task.dueDate)}`;
+    }
+
+    case 'OVERDUE': {
+      if (!task.dueDate || isTaskCompleted(task)) return null;
+      if (new Date(task.dueDate).getTime() >= now.getTime()) return null;
+      return `overdue:${toDayKey(task.dueDate)}`;
+    }
+
+    case 'STALE_IN_COLUMN_FOR_DAYS': {
+      const enteredAt = new Date(task.columnEnteredAt ?? task.createdAt);
+      const daysInColumn = Math.floor((now.getTime() - enteredAt.getTime()) / DAY_MS);
+      if (daysInColumn < (trigger.days ?? 1)) return null;
+      return `stale:${task.columnId}:${enteredAt.toISOString()}`;
+    }
+
+    case 'DAILY': {
+      if (now.getHours() < (trigger.hour ?? 9)) return null;
+      return `daily:${toDayKey(now)}`;
+    }
+
+    default:
+      return null;
+  }
+}
+
+export interface ScheduledRunResult {
+  nextState: KanbanState;
+  executionLogs: AutomationExecution[];
+  notifications: AutomationNotification[];
+}
+
+/**
+ * Evaluate every scheduled automation against every active task.
+ * Matches go through the regular `runAutomations` pipeline; windows already
+ * in the automation's ledger entry are skipped.
+ */
+export function runScheduledAutomations(state: KanbanState, now: Date = new Date()): ScheduledRunResult {
+  const scheduled = state.automations.filter(a => a.enabled && isScheduledAutomation(a));
+  let currentState = state;
+  const executionLogs: AutomationExecution[] = [];
+  const notifications: AutomationNotification[] = [];
+
+  if (scheduled.length === 0) {
+    return { nextState: state, executionLogs, notifications };
+  }
+
+  for (const automation of scheduled) {
+    for (const task of state.tasks) {
+      if (task.isArchived) continue;
+
+      const currentTask = currentState.tasks.find(t => t.id === task.id);
+      if (!currentTask) continue;
+
+      const window = getScheduleWindow(automation, currentTask, now);
+      if (!window) continue;
+
+      if (currentState.automationLedger[automation.id]?.firedWindows.includes(getWindowKey(task.id, window))) continue;
+
+      const result = runAutomations(
+        { type: automation.trigger.type, taskId: task.id, automationId: automation.id, scheduleWindow: window },
+        currentState
+      );
+
+      // Only record windows where the rule actually did something; tasks that
+      // didn't meet the conditions are re-checked on the next tick.
+      const effectiveLogs = result.executionLogs.filter(
+        log => log.result === 'applied' || log.result === 'error'
+      );
+      if (effectiveLogs.length === 0) continue;
+
+      // Applied runs are already in the ledger; failed ones close the window too
+      currentState = {
+        ...result.nextState,
+        automationLedger: recordLedgerWindow(result.nextState.automationLedger, automation.id, task.id, window),
+      };
+      executionLogs.push(...effectiveLogs);
+      notifications.push(...result.notifications);
+    }
+  }
+
+  // Windows that can't come round again are dropped as new ones are recorded,
+  // so DAILY rules don't grow the ledger by a key per task per day
+  if (currentState !== state) {
+    currentState = { ...currentState, automationLedger: pruneFiredWindows(currentState.automationLedger, currentState.tasks, now) };
+  }
+
+  return { nextState: currentState, executionLogs, notifications };
+}
+
+/**
+ * Apply a scheduled run to the undo history. Task changes made by the
+ * scheduler are undoable as a single step; log-only runs are not.
+ */
+export function applyScheduledAutomations(history: HistoryState, now: Date = new Date()): HistoryState {
+  const { nextState, executionLogs, notifications } = runScheduledAutomations(history.present, now);
+  if (executionLogs.length === 0 && notifications.length === 0) return history;
+
+  const base = nextState.tasks !== history.present.tasks ? pushToHistory(history) : history;
+  return {
+    ...base,
+    present: {
+      ...nextState,
+      automationLogs: addExecutionLogs(nextState.automationLogs, executionLogs),
+      notifications: addNotifications(nextState.notifications, notifications),
+    },
+  };
+}
@@ -0,0 +1,379 @@
+import { Priority, TaskStatus, DependencyType } from '@/types/kanban';
+import type { SerializedKanbanState } from './kanban.storage';
+import { defaultColumns, defaultFilter } from './kanban.seed';
+
+/**
+ * Runtime schemas for the serialized board. Stored JSON can be anything
+ * (older versions, manual edits, half-written payloads), so every record is
+ * checked field by field before `deserializeState` sees it: invalid fields
+ * get their fallback, and records missing a field without one are set aside.
+ */
+
+export type StateSection = 'tasks' | 'columns' | 'tags' | 'notes' | 'automations' | 'filter' | 'settings';
+export type RecordCollection = Exclude<StateSection, 'filter' | 'settings'>;
+
+type FieldKind = 'string' | 'number' | 'boolean' | 'date' | 'array' | 'object';
+
+interface FieldSchema {
+  kind: FieldKind | FieldKind[];
+  nullable?: boolean;
+  /** May be absent, as in payloads written before the field existed */
+  optional?: boolean;
+  /** Allowed values for enum-like strings */
+  values?: readonly string[];
+  /** Replacement for a missing or invalid value; fields without one are required */
+  fallback?: (index: number) => unknown;
+  /** Schema for each element of a list of records; invalid elements are dropped */
+  items?: EntitySchema;
+  /** Schema for a nested object */
+  fields?: EntitySchema;
+}
+
+type EntitySchema = Record<string, FieldSchema>;
+
+/** A field that was replaced or dropped while loading */
+export interface FieldRepair {
+  section: StateSection;
+  id?: string;
+  label?: string;
+  field: string;
+  reason: string;
+}
+
+/** A record that could not be repaired */
+export interface InvalidRecord {
+  collection: RecordCollection;
+  /** Position in the stored array */
+  index: number;
+  id?: string;
+  label?: string;
+  reason: string;
+  raw: unknown;
+}
+
+export interface StateValidationReport {
+  repairs: FieldRepair[];
+  invalid: InvalidRecord[];
+}
+
+const PRIORITIES: Priority[] = ['low', 'medium', 'high', 'critical'];
+const TASK_STATUSES: TaskStatus[] = ['not_started', 'in_progress', 'paused', 'waiting', 'archived', 'completed'];
+const DEPENDENCY_TYPES: DependencyType[] = ['FS', 'SS', 'FF', 'SF'];
+
+// ========== SCHEMAS ==========
+
+const required = (kind: FieldKind): FieldSchema => ({ kind });
+const withFallback = (kind: FieldKind, fallback: (index: number) => unknown, extra?: Partial<FieldSchema>): FieldSchema =>
+  ({ kind, fallback, ...extra });
+const nullable = (kind: FieldKind, extra?: Partial<FieldSchema>): FieldSchema =>
+  ({ kind, nullable: true, fallback: () => null, ...extra });
+const optional = (kind: FieldKind, extra?: Partial<FieldSchema>): FieldSchema =>
+  ({ kind, optional: true, ...extra });
+const now = () => new Date().toISOString();
+const emptyList = () => [];
+
+const tagSchema: EntitySchema = {
+  id: required('string'),
+  name: withFallback('string', () => 'Etiqueta'),
+  color: withFallback('string', () => '#94A3B8'),
+  updatedAt: optional('date', { nullable: true }),
+};
+
+const subtaskSchema: EntitySchema = {
+  id: required('string'),
+  title: withFallback('string', () => 'Sin título'),
+  completed: withFallback('boolean', () => false),
+  assignedTo: optional('string', { nullable: true }),
+  dueDate: optional('date', { nullable: true }),
+  createdAt: withFallback('date', now),
+};
+
+const dependencySchema: EntitySchema = {
+  id: required('string'),
+  dependsOnTaskId: required('string'),
+  type: optional('string', { values: DEPENDENCY_TYPES }),
+  lagDays: optional('number'),
+  createdAt: withFallback('date', now),
+};
+
+const overrideSchema: EntitySchema = {
+  id: required('string'),
+  transition: withFallback('object', () => ({})),
+  blockingTaskIds: withFallback('array', emptyList),
+  reason: withFallback('string', () => ''),
+  createdAt: withFallback('date', now),
+};
+
+const taskSchema: EntitySchema = {
+  id: required('string'),
+  title: withFallback('string', () => 'Sin título'),
+  description: withFallback('string', () => ''),
+  // An unknown column is moved to the first one by `deserializeState`
+  columnId: withFallback('string', () => ''),
+  priority: withFallback('string', () => 'medium', { values: PRIORITIES }),
+  status: withFallback('string', () => 'not_started', { values: TASK_STATUSES }),
+  tags: withFallback('array', emptyList, { items: tagSchema }),
+  dueDate: nullable('date'),
+  startDate: nullable('date'),
+  createdAt: withFallback('date', now),
+  assignee: nullable('string'),
+  checklist: withFallback('array', emptyList),
+  subtasks: withFallback('array', emptyList, { items: subtaskSchema }),
+  estimatedTime: nullable('number'),
+  actualTime: nullable('number'),
+  relatedBook: nullable('string'),
+  relatedMarket: nullable('string'),
+  attachments: withFallback('array', emptyList),
+  dependencies: withFallback('array', emptyList),
+  taskDependencies: optional('array', { items: dependencySchema }),
+  dependencyOverrides: optional('array', { items: overrideSchema }),
+  order: withFallback('number', index => index),
+  isArchived: withFallback('boolean', () => false),
+  columnEnteredAt: optional('date', { nullable: true }),
+  updatedAt: optional('date', { nullable: true }),
+  fieldRevisions: optional('object'),
+};
+
+const columnSchema: EntitySchema = {
+  id: required('string'),
+  title: withFallback('string', () => 'Sin título'),
+  subtitle: withFallback('string', () => ''),
+  color: withFallback('string', () => '#94A3B8'),
+  icon: withFallback('string', () => 'circle'),
+  wipLimit: nullable('number'),
+  order: withFallback('number', index => index),
+  isHidden: withFallback('boolean', () => false),
+  isDoneColumn: optional('boolean'),
+  isSystemColumn: optional('boolean'),
+  requiresPrerequisites: optional('boolean'),
+  updatedAt: optional('date', { nullable: true }),
+  fieldRevisions: optional('object'),
+};
+
+const noteSchema: EntitySchema = {
+  id: required('string'),
+  title: withFallback('string', () => 'Sin título'),
+  shortDescription: withFallback('string', () => ''),
+  content: withFallback('string', () => ''),
+  priority: withFallback('string', () => 'medium', { values: PRIORITIES }),
+  createdAt: withFallback('date', now),
+  updatedAt: withFallback('date', now),
+  fieldRevisions: optional('object'),
+};
+
+const automationSchema: EntitySchema = {
+  id: required('string'),
+  name: withFallback('string', () => 'Automatización'),
+  // A repaired rule stays off until someone reviews it
+  enabled: withFallback('boolean', () => false),
+  trigger: required('object'),
+  // Legacy payloads store a flat list (see migrateConditionTree)
+  conditions: { kind: ['object', 'array'], fallback: () => ({ operator: 'AND', children: [] }) },
+  actions: required('array'),
+  scope: optional('object'),
+  limits: optional('object'),
+  createdAt: withFallback('date', now),
+  updatedAt: withFallback('date', now),
+  fieldRevisions: optional('object'),
+};
+
+const filterSchema: EntitySchema = {
+  priority: withFallback('array', emptyList),
+  tags: withFallback('array', emptyList),
+  assignee: nullable('string'),
+  dueDate: withFallback('object', () => ({ from: null, to: null }), {
+    fields: { from: nullable('date'), to: nullable('date') },
+  }),
+  search: withFallback('string', () => ''),
+  market: nullable('string'),
+  showArchived: withFallback('boolean', () => false),
+};
+
+const COLLECTION_SCHEMAS: Record<RecordCollection, EntitySchema> = {
+  tasks: taskSchema,
+  columns: columnSchema,
+  tags: tagSchema,
+  notes: noteSchema,
+  automations: automationSchema,
+};
+
+// ========== VALIDATION ==========
+
+type RawRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is RawRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+
+function matchesKind(value: unknown, kind: FieldKind): boolean {
+  switch (kind) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'date':
+      // IndexedDB keeps automations as structured clones, with real Dates
+      return (typeof value === 'string' || value instanceof Date) && !isNaN(new Date(value).getTime());
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return isRecord(value);
+  }
+}
+
+const recordLabel = (record: RawRecord) => {
+  const label = record.title ?? record.name;
+  return typeof label === 'string' ? label : undefined;
+};
+
+/** Why `value` doesn't fit `field`, or null when it does */
+function checkField(value: unknown, field: FieldSchema): string | null {
+  if (value === undefined) return field.optional ? null : 'Falta el campo';
+  if (value === null) return field.nullable ? null : 'Valor vacío';
+  const kinds = Array.isArray(field.kind) ? field.kind : [field.kind];
+  if (!kinds.some(kind => matchesKind(value, kind))) {
+    return kinds.includes('date') ? 'Fecha no válida' : 'Tipo de dato no válido';
+  }
+  if (field.values && !field.values.includes(value as string)) return `Valor desconocido "${String(value)}"`;
+  return null;
+}
+
+interface RecordResult {
+  record: RawRecord | null;
+  /** Set when the record can't be used */
+  reason?: string;
+}
+
+/**
+ * Check one record against its schema. Fields outside the schema are kept
+ * as they are; nested lists and objects are repaired recursively.
+ */
+function validateRecord(
+  raw: unknown,
+  schema: EntitySchema,
+  index: number,
+  section: StateSection,
+  repairs: FieldRepair[],
+  path = ''
+): RecordResult {
+  if (!isRecord(raw)) return { record: null, reason: 'No es un objeto' };
+  if ('id' in schema && !isNonEmptyString(raw.id)) return { record: null, reason: 'Falta el identificador' };
+
+  const record: RawRecord = { ...raw };
+  const owner = { id: typeof raw.id === 'string' ? raw.id : undefined, label: recordLabel(raw) };
+  const repair = (field: string, reason: string) =>
+    repairs.push({ section, ...owner, field: `${path}${field}`, reason });
+
+  for (const [name, field] of Object.entries(schema)) {
+    const problem = checkField(record[name], field);
+    if (problem) {
+      if (!field.fallback && !field.optional) {
+        return { record: null, reason: `${problem} en "${path}${name}"` };
+      }
+      // Fields added after the payload was written are filled in silently
+      if (record[name] !== undefined) repair(name, problem);
+      record[name] = field.fallback ? field.fallback(index) : undefined;
+      continue;
+    }
+
+    const value = record[name];
+    if (field.items && Array.isArray(value)) {
+      const kept: RawRecord[] = [];
+      value.forEach((item, itemIndex) => {
+        const result = validateRecord(item, field.items!, itemIndex, section, repairs, `${path}${name}[${itemIndex}].`);
+        if (result.record) kept.push(result.record);
+        else repair(`${name}[${itemIndex}]`, `Elemento descartado: ${result.reason}`);
+      });
+      record[name] = kept;
+    } else if (field.fields && isRecord(value)) {
+      record[name] = validateRecord(value, field.fields, index, section, repairs, `${path}${name}.`).record;
+    }
+  }
+  return { record };
+}
+
+function validateCollection(
+  collection: RecordCollection,
+  items: unknown,
+  report: StateValidationReport
+): RawRecord[] {
+  if (items === undefined) return [];
+  if (!Array.isArray(items)) {
+    report.invalid.push({ collection, index: -1, reason: 'La sección no es una lista', raw: items });
+    return [];
+  }
+
+  const seen = new Set<string>();
+  const valid: RawRecord[] = [];
+  items.forEach((item, index) => {
+    const result = validateRecord(item, COLLECTION_SCHEMAS[collection], index, collection, report.repairs);
+    const record = result.record;
+    const reason = result.reason ?? (record && seen.has(record.id as string) ? 'Identificador duplicado' : undefined);
+    if (!record || reason) {
+      const raw = isRecord(item) ? item : {};
+      report.invalid.push({
+        collection,
+        index,
+        id: typeof raw.id === 'string' ? raw.id : undefined,
+        label: recordLabel(raw),
+        reason: reason ?? 'No es un objeto',
+        raw: item,
+      });
+      return;
+    }
+    seen.add(record.id as string);
+    valid.push(record);
+  });
+  return valid;
+}
+
+/**
+ * Validate and repair a serialized board. Throws only when `raw` isn't an
+ * object at all; everything else is repaired or listed in `report.invalid`.
+ */
+export function validateSerializedState(raw: unknown): { data: SerializedKanbanState; report: StateValidationReport } {
+  if (!isRecord(raw)) {
+    throw new Error('Los datos del tablero no son un objeto');
+  }
+  const report: StateValidationReport = { repairs: [], invalid: [] };
+
+  let columns = validateCollection('columns', raw.columns, report);
+  if (columns.length === 0) {
+    // A board without columns is unusable; start from the default set
+    columns = defaultColumns.map(column => ({ ...column }));
+    report.repairs.push({ section: 'columns', field: 'columns', reason: 'Sin columnas válidas; se usan las predeterminadas' });
+  }
+
+  let filter: RawRecord;
+  if (isRecord(raw.filter)) {
+    filter = validateRecord(raw.filter, filterSchema, 0, 'filter', report.repairs).record!;
+  } else {
+    filter = { ...defaultFilter, dueDate: { from: null, to: null } };
+    if (raw.filter !== undefined) report.repairs.push({ section: 'filter', field: 'filter', reason: 'Filtro no válido' });
+  }
+
+  let settings: RawRecord | undefined;
+  if (isRecord(raw.settings)) {
+    settings = raw.settings;
+  } else if (raw.settings !== undefined) {
+    report.repairs.push({ section: 'settings', field: 'settings', reason: 'Ajustes no válidos' });
+  }
+
+  const data = {
+    tasks: validateCollection('tasks', raw.tasks, report),
+    columns,
+    tags: validateCollection('tags', raw.tags, report),
+    notes: validateCollection('notes', raw.notes, report),
+    filter,
+    automations: validateCollection('automations', raw.automations, report),
+    settings,
+  } as unknown as SerializedKanbanState;
+
+  return { data, report };
+}
+
+export const hasValidationIssues = (report: StateValidationReport) =>
+  report.repairs.length > 0 || report.invalid.length > 0;
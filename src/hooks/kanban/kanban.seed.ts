@@ -1,4 +1,4 @@
-import { Task, Column, Tag, Note, Filter, Subtask, Automation } from '@/types/kanban';
+import { Task, Column, Tag, Note, Filter, Subtask, Automation, AutomationDraft, BoardSettings } from '@/types/kanban';
 import { KanbanState } from './kanban.types';
 
 const generateId = () => Math.random().toString(36).substr(2, 9);
@@ -80,7 +80,162 @@ export const defaultColumns: Column[] = [
   },
 ];
 
-const defaultFilter: Filter = {
+export interface SubtaskTemplate {
+  id: string;
+  name: string;
+  subtasks: string[];
+}
+
+/**
+ * Built-in subtask checklists used by the ADD_SUBTASKS_FROM_TEMPLATE
+ * automation action.
+ */
+export const subtaskTemplates: SubtaskTemplate[] = [
+  {
+    id: 'kdp-upload',
+    name: 'Subida a KDP',
+    subtasks: [
+      'Subir manuscrito PDF',
+      'Subir portada en alta resolución',
+      'Configurar metadata y descripción',
+      'Seleccionar categorías y keywords',
+      'Configurar pricing',
+      'Revisar vista previa',
+    ],
+  },
+  {
+    id: 'proofreading',
+    name: 'Corrección',
+    subtasks: [
+      'Corrección ortotipográfica',
+      'Corrección de estilo',
+      'Revisión de índices y referencias',
+    ],
+  },
+  {
+    id: 'cover-design',
+    name: 'Diseño de portada',
+    subtasks: [
+      'Diseñar portada frontal',
+      'Diseñar lomo',
+      'Diseñar contraportada',
+      'Exportar en alta resolución',
+    ],
+  },
+  {
+    id: 'launch',
+    name: 'Lanzamiento',
+    subtasks: [
+      'Preparar campaña de Ads',
+      'Solicitar reseñas iniciales',
+      'Anunciar en redes sociales',
+    ],
+  },
+];
+
+export interface AutomationTemplate {
+  id: string;
+  name: string;
+  description: string;
+  /** References the default columns/tags; remapped by name on install */
+  automation: AutomationDraft;
+}
+
+/**
+ * Built-in library of editorial automation rules, installable in one click
+ * from the automations panel.
+ */
+export const automationTemplates: AutomationTemplate[] = [
+  {
+    id: 'subtasks-done-to-review',
+    name: 'Subtareas completadas → Mover a Revisión',
+    description: 'Cuando se completan todas las subtareas, la tarea pasa a Revisión.',
+    automation: {
+      name: 'Subtareas completadas → Mover a Revisión',
+      enabled: true,
+      trigger: { type: 'PROGRESS_CHANGED' },
+      conditions: { operator: 'AND', children: [{ type: 'SUBTASKS_ALL_COMPLETED' }] },
+      actions: [{ type: 'MOVE_TO_COLUMN', columnId: 'review' }],
+    },
+  },
+  {
+    id: 'urgent-tag-to-critical',
+    name: 'Etiqueta Urgente → Prioridad crítica',
+    description: 'Al etiquetar una tarea como Urgente, su prioridad pasa a crítica.',
+    automation: {
+      name: 'Etiqueta Urgente → Prioridad crítica',
+      enabled: true,
+      trigger: { type: 'TAGS_CHANGED' },
+      conditions: { operator: 'AND', children: [{ type: 'HAS_TAG', tagId: '2' }] },
+      actions: [{ type: 'SET_PRIORITY', value: 'critical' }],
+    },
+  },
+  {
+    id: 'review-proofreading-checklist',
+    name: 'Entra en Revisión → Checklist de corrección',
+    description: 'Añade las subtareas de corrección al entrar en Revisión.',
+    automation: {
+      name: 'Entra en Revisión → Checklist de corrección',
+      enabled: true,
+      trigger: { type: 'TASK_MOVED' },
+      conditions: { operator: 'AND', children: [{ type: 'COLUMN_IS', columnId: 'review' }] },
+      actions: [{ type: 'ADD_SUBTASKS_FROM_TEMPLATE', templateId: 'proofreading' }],
+    },
+  },
+  {
+    id: 'publishing-kdp-checklist',
+    name: 'Entra en Publicación → Checklist de subida a KDP',
+    description: 'Añade los pasos de subida a KDP al entrar en Publicación.',
+    automation: {
+      name: 'Entra en Publicación → Checklist de subida a KDP',
+      enabled: true,
+      trigger: { type: 'TASK_MOVED' },
+      conditions: { operator: 'AND', children: [{ type: 'COLUMN_IS', columnId: 'publishing' }] },
+      actions: [{ type: 'ADD_SUBTASKS_FROM_TEMPLATE', templateId: 'kdp-upload' }],
+    },
+  },
+  {
+    id: 'published-launch-follow-up',
+    name: 'Entra en Optimización → Tarea de lanzamiento',
+    description: 'Crea una tarea de lanzamiento con su checklist cuando un libro llega a Optimización.',
+    automation: {
+      name: 'Entra en Optimización → Tarea de lanzamiento',
+      enabled: true,
+      trigger: { type: 'TASK_MOVED' },
+      conditions: { operator: 'AND', children: [{ type: 'COLUMN_IS', columnId: 'optimization' }] },
+      actions: [{ type: 'CREATE_FOLLOW_UP_TASK', columnId: 'optimization', title: 'Lanzamiento: {title}' }],
+    },
+  },
+  {
+    id: 'overdue-urgent',
+    name: 'Tarea vencida → Urgente y aviso',
+    description: 'Marca como Urgente las tareas vencidas y avisa en la app.',
+    automation: {
+      name: 'Tarea vencida → Urgente y aviso',
+      enabled: true,
+      trigger: { type: 'OVERDUE' },
+      conditions: { operator: 'AND', children: [] },
+      actions: [
+        { type: 'ADD_TAG', tagId: '2' },
+        { type: 'NOTIFY_IN_APP', message: 'Tarea vencida' },
+      ],
+    },
+  },
+  {
+    id: 'stale-notify',
+    name: 'Sin moverse 7 días → Aviso',
+    description: 'Avisa cuando una tarea lleva una semana en la misma columna.',
+    automation: {
+      name: 'Sin moverse 7 días → Aviso',
+      enabled: true,
+      trigger: { type: 'STALE_IN_COLUMN_FOR_DAYS', days: 7 },
+      conditions: { operator: 'AND', children: [] },
+      actions: [{ type: 'NOTIFY_IN_APP', message: 'La tarea lleva 7 días sin avanzar' }],
+    },
+  },
+];
+
+export const defaultFilter: Filter = {
   priority: [],
   tags: [],
   assignee: null,
@@ -90,6 +245,10 @@ const defaultFilter: Filter = {
   showArchived: false,
 };
 
+export const defaultSettings: BoardSettings = {
+  dependencyEnforcement: 'strict',
+};
+
 // Helper to create subtask
 function createSubtask(text: string, completed: boolean): Subtask {
   return {
@@ -274,15 +433,16 @@ export function createSeedState(bookId?: string): KanbanState {
     },
   ];
 
-  // Default seed automations (disabled by default)
-  const seedTime = new Date();
+  // Default seed automations (disabled by default). They share the sample
+  // tasks' timestamp, which is how sync recognizes an untouched seed board
+  const seedTime = now;
   const seedAutomations: Automation[] = [
     {
       id: generateId(),
       name: 'Subtareas completadas → Marcar como completada',
       enabled: false,
       trigger: { type: 'PROGRESS_CHANGED' },
-      conditions: [{ type: 'SUBTASKS_ALL_COMPLETED' }],
+      conditions: { operator: 'AND', children: [{ type: 'SUBTASKS_ALL_COMPLETED' }] },
       actions: [{ type: 'ARCHIVE_TASK' }],
       createdAt: seedTime,
       updatedAt: seedTime,
@@ -292,7 +452,7 @@ export function createSeedState(bookId?: string): KanbanState {
       name: 'Prioridad crítica → Añadir etiqueta Urgente',
       enabled: false,
       trigger: { type: 'PRIORITY_CHANGED' },
-      conditions: [{ type: 'PRIORITY_IS', value: 'critical' }],
+      conditions: { operator: 'AND', children: [{ type: 'PRIORITY_IS', value: 'critical' }] },
       actions: [{ type: 'ADD_TAG', tagId: '2' }],
       createdAt: seedTime,
       updatedAt: seedTime,
@@ -302,7 +462,7 @@ export function createSeedState(bookId?: string): KanbanState {
       name: 'Fecha límite cercana → Notificar',
       enabled: false,
       trigger: { type: 'DUE_DATE_CHANGED' },
-      conditions: [{ type: 'DUE_IN_DAYS_LESS_THAN', value: 2 }],
+      conditions: { operator: 'AND', children: [{ type: 'DUE_IN_DAYS_LESS_THAN', value: 2 }] },
       actions: [
         { type: 'ADD_TAG', tagId: '2' },
         { type: 'NOTIFY_IN_APP', message: 'Tarea próxima a vencer' },
@@ -310,6 +470,16 @@ export function createSeedState(bookId?: string): KanbanState {
       createdAt: seedTime,
       updatedAt: seedTime,
     },
+    {
+      id: generateId(),
+      name: 'Entra en Publicación → Checklist de subida a KDP',
+      enabled: false,
+      trigger: { type: 'TASK_MOVED' },
+      conditions: { operator: 'AND', children: [{ type: 'COLUMN_IS', columnId: 'publishing' }] },
+      actions: [{ type: 'ADD_SUBTASKS_FROM_TEMPLATE', templateId: 'kdp-upload' }],
+      createdAt: seedTime,
+      updatedAt: seedTime,
+    },
   ];
 
   return {
@@ -320,6 +490,8 @@ export function createSeedState(bookId?: string): KanbanState {
     filter: defaultFilter,
     automations: seedAutomations,
     automationLogs: [],
+    automationLedger: {},
     notifications: [],
+    settings: defaultSettings,
   };
 }
@@ -0,0 +1,142 @@
+import { Task, Priority } from '@/types/kanban';
+import { Automation, AutomationDraft, AutomationExecution, AutomationNotification } from '@/types/automation';
+import { KanbanState } from './kanban.types';
+import { runAutomations, toEventSnapshot } from './kanban.automations';
+import { getScheduleWindow, isScheduledAutomation } from './kanban.scheduler';
+import { getWindowKey } from './kanban.ledger';
+
+/** Id used for a rule that doesn't exist yet while it is being simulated */
+export const SIMULATED_AUTOMATION_ID = '__simulation__';
+
+export type SimulatedField = 'columnId' | 'priority' | 'tagIds' | 'isArchived';
+
+export interface SimulatedTaskFields {
+  columnId: string;
+  priority: Priority;
+  tagIds: string[];
+  isArchived: boolean;
+}
+
+export interface SimulationTaskDiff {
+  taskId: string;
+  taskTitle: string;
+  /** Task spawned by the simulation (e.g. a follow-up task) */
+  created: boolean;
+  before: SimulatedTaskFields | null;
+  after: SimulatedTaskFields;
+  changedFields: SimulatedField[];
+}
+
+export interface SimulationResult {
+  diffs: SimulationTaskDiff[];
+  executionLogs: AutomationExecution[];
+  notifications: AutomationNotification[];
+  /** Tasks the rule was replayed against */
+  evaluatedTasks: number;
+  /** Tasks where the simulated rule itself applied */
+  matchedTasks: number;
+}
+
+function pickFields(task: Task): SimulatedTaskFields {
+  return {
+    columnId: task.columnId,
+    priority: task.priority,
+    tagIds: task.tags.map(t => t.id).sort(),
+    isArchived: !!task.isArchived,
+  };
+}
+
+function diffFields(before: SimulatedTaskFields, after: SimulatedTaskFields): SimulatedField[] {
+  const changed: SimulatedField[] = [];
+  if (before.columnId !== after.columnId) changed.push('columnId');
+  if (before.priority !== after.priority) changed.push('priority');
+  if (before.tagIds.join(',') !== after.tagIds.join(',')) changed.push('tagIds');
+  if (before.isArchived !== after.isArchived) changed.push('isArchived');
+  return changed;
+}
+
+/**
+ * Dry-run a proposed or edited rule against every task of a book.
+ *
+ * The rule is fired once per task through the regular `runAutomations`
+ * pipeline on a cloned state, so cascades into the book's other enabled
+ * rules are included. Nothing is committed; the caller gets a per-task diff.
+ */
+export function simulateAutomation(
+  draft: AutomationDraft & { id?: string },
+  state: KanbanState,
+  bookId: string,
+  now: Date = new Date()
+): SimulationResult {
+  const automationId = draft.id ?? SIMULATED_AUTOMATION_ID;
+  const simulated: Automation = {
+    ...draft,
+    id: automationId,
+    enabled: true,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  const cloned = structuredClone(state);
+  let currentState: KanbanState = {
+    ...cloned,
+    automations: draft.id
+      ? cloned.automations.map(a => (a.id === draft.id ? simulated : a))
+      : [...cloned.automations, simulated],
+  };
+
+  const bookTasks = state.tasks.filter(t => t.relatedBook === bookId && !t.isArchived);
+  const firedWindows = new Set(state.automationLedger[automationId]?.firedWindows ?? []);
+
+  const executionLogs: AutomationExecution[] = [];
+  const notifications: AutomationNotification[] = [];
+  let matchedTasks = 0;
+
+  for (const original of bookTasks) {
+    const task = currentState.tasks.find(t => t.id === original.id);
+    if (!task) continue;
+
+    let scheduleWindow: string | undefined;
+    if (isScheduledAutomation(simulated)) {
+      scheduleWindow = getScheduleWindow(simulated, task, now) ?? undefined;
+      // Scheduled rules only fire for tasks inside a window they haven't fired in yet
+      if (!scheduleWindow || firedWindows.has(getWindowKey(task.id, scheduleWindow))) continue;
+    }
+
+    const result = runAutomations(
+      {
+        type: simulated.trigger.type,
+        taskId: task.id,
+        automationId,
+        scheduleWindow,
+        previousTask: toEventSnapshot(task),
+      },
+      currentState
+    );
+
+    currentState = result.nextState;
+    executionLogs.push(...result.executionLogs);
+    notifications.push(...result.notifications);
+    if (result.executionLogs.some(log => log.automationId === automationId && log.result === 'applied')) {
+      matchedTasks++;
+    }
+  }
+
+  const originalById = new Map(state.tasks.map(t => [t.id, t]));
+  const diffs: SimulationTaskDiff[] = [];
+  for (const task of currentState.tasks) {
+    const original = originalById.get(task.id);
+    const after = pickFields(task);
+    if (!original) {
+      diffs.push({ taskId: task.id, taskTitle: task.title, created: true, before: null, after, changedFields: [] });
+      continue;
+    }
+    const before = pickFields(original);
+    const changedFields = diffFields(before, after);
+    if (changedFields.length > 0) {
+      diffs.push({ taskId: task.id, taskTitle: task.title, created: false, before, after, changedFields });
+    }
+  }
+
+  return { diffs, executionLogs, notifications, evaluatedTasks: bookTasks.length, matchedTasks };
+}
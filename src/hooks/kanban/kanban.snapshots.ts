@@ -0,0 +1,217 @@
+import { Task } from '@/types/kanban';
+import { KanbanState } from './kanban.types';
+import { STORAGE_VERSION, SerializedKanbanState, serializeState, deserializeState } from './kanban.storage';
+import type { KanbanStorageAdapter } from './kanban.storageAdapter';
+import { byteSize } from './kanban.usage';
+
+export type SnapshotTier = 'hourly' | 'daily' | 'weekly';
+
+/** Snapshot metadata, as listed in the Versions panel */
+export interface BoardSnapshotInfo {
+  id: string;
+  bookId: string;
+  takenAt: string;
+  /** Tiers this snapshot counts for; the first snapshot of a book fills all three */
+  tiers: SnapshotTier[];
+  storageVersion: number;
+  taskCount: number;
+}
+
+export interface BoardSnapshot extends BoardSnapshotInfo {
+  data: SerializedKanbanState;
+}
+
+/** How many snapshots each tier keeps */
+export const SNAPSHOT_RETENTION: Record<SnapshotTier, number> = {
+  hourly: 24,
+  daily: 7,
+  weekly: 4,
+};
+
+const TIER_INTERVAL_MS: Record<SnapshotTier, number> = {
+  hourly: 60 * 60 * 1000,
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000,
+};
+
+const SNAPSHOT_TIERS: SnapshotTier[] = ['hourly', 'daily', 'weekly'];
+
+/**
+ * localStorage shares its ~5 MB with the board itself, so the fallback
+ * backend keeps a handful of copies and caps their total size.
+ */
+export const LOCAL_SNAPSHOT_RETENTION: Record<SnapshotTier, number> = {
+  hourly: 2,
+  daily: 1,
+  weekly: 1,
+};
+export const LOCAL_SNAPSHOT_BUDGET_BYTES = 1024 * 1024;
+
+export function getSnapshotRetention(backend: KanbanStorageAdapter['name']): Record<SnapshotTier, number> {
+  return backend === 'localstorage' ? LOCAL_SNAPSHOT_RETENTION : SNAPSHOT_RETENTION;
+}
+
+/** How often an open board checks whether a snapshot is due */
+export const SNAPSHOT_CHECK_INTERVAL_MS = 5 * 60 * 1000;
+
+const SNAPSHOT_STORAGE_VERSION = 1;
+
+const generateId = () => Math.random().toString(36).substr(2, 9);
+
+function getSnapshotStorageKey(bookId: string): string {
+  return `publify.book.${bookId}.snapshots.v${SNAPSHOT_STORAGE_VERSION}`;
+}
+
+export const toSnapshotInfo = ({ data, ...info }: BoardSnapshot): BoardSnapshotInfo => info;
+
+// ========== SCHEDULING ==========
+
+/** Tiers whose newest snapshot is older than the tier's interval */
+export function getDueSnapshotTiers(snapshots: BoardSnapshotInfo[], now: Date = new Date()): SnapshotTier[] {
+  return SNAPSHOT_TIERS.filter(tier => {
+    const latest = Math.max(
+      0,
+      ...snapshots.filter(s => s.tiers.includes(tier)).map(s => new Date(s.takenAt).getTime())
+    );
+    return now.getTime() - latest >= TIER_INTERVAL_MS[tier];
+  });
+}
+
+/** Snapshots outside every tier's retention window */
+export function getExpiredSnapshotIds(
+  snapshots: BoardSnapshotInfo[],
+  retention: Record<SnapshotTier, number> = SNAPSHOT_RETENTION
+): string[] {
+  const newestFirst = [...snapshots].sort((a, b) => b.takenAt.localeCompare(a.takenAt));
+  const kept = new Set<string>();
+  for (const tier of SNAPSHOT_TIERS) {
+    newestFirst
+      .filter(s => s.tiers.includes(tier))
+      .slice(0, retention[tier])
+      .forEach(s => kept.add(s.id));
+  }
+  return newestFirst.filter(s => !kept.has(s.id)).map(s => s.id);
+}
+
+export function createSnapshot(
+  state: KanbanState,
+  bookId: string,
+  tiers: SnapshotTier[],
+  now: Date = new Date()
+): BoardSnapshot {
+  return {
+    id: generateId(),
+    bookId,
+    takenAt: now.toISOString(),
+    tiers,
+    storageVersion: STORAGE_VERSION,
+    taskCount: state.tasks.length,
+    data: serializeState(state),
+  };
+}
+
+/**
+ * Take a snapshot if any tier is due and prune the ones past retention.
+ * Returns the new snapshot, or null when none was due.
+ */
+export async function takeScheduledSnapshot(
+  adapter: KanbanStorageAdapter,
+  state: KanbanState,
+  bookId: string,
+  now: Date = new Date()
+): Promise<BoardSnapshotInfo | null> {
+  const existing = await adapter.listSnapshots(bookId);
+  const due = getDueSnapshotTiers(existing, now);
+  if (due.length === 0) return null;
+
+  const snapshot = createSnapshot(state, bookId, due, now);
+  // Prune first so a nearly full store still has room for the new one
+  const expired = getExpiredSnapshotIds([...existing, toSnapshotInfo(snapshot)], getSnapshotRetention(adapter.name));
+  if (expired.length > 0) await adapter.deleteSnapshots(bookId, expired);
+  await adapter.saveSnapshot(snapshot);
+  return toSnapshotInfo(snapshot);
+}
+
+/** The board a snapshot holds, migrated through the regular load path */
+export function restoreSnapshotState(snapshot: BoardSnapshot): KanbanState {
+  return deserializeState(snapshot.data, snapshot.bookId);
+}
+
+// ========== DIFF ==========
+
+export interface SnapshotDiff {
+  /** In the current board but not in the snapshot */
+  added: Task[];
+  /** In the snapshot but no longer in the board */
+  removed: Task[];
+  /** In a different column now (snapshot version) */
+  moved: Task[];
+  /** Other edits since the snapshot (snapshot version) */
+  changed: Task[];
+}
+
+/** What changed in the board since the snapshot was taken */
+export function diffSnapshot(snapshotState: KanbanState, current: KanbanState): SnapshotDiff {
+  const currentById = new Map(current.tasks.map(t => [t.id, t]));
+  const snapshotIds = new Set(snapshotState.tasks.map(t => t.id));
+  // Loading fills optional fields with null/[]; a task created this session may still lack them
+  const serialize = (task: Task) =>
+    JSON.stringify({ ...task, updatedAt: undefined, fieldRevisions: undefined }, (_key, value) =>
+      value === null || (Array.isArray(value) && value.length === 0) ? undefined : value
+    );
+
+  const diff: SnapshotDiff = {
+    added: current.tasks.filter(t => !snapshotIds.has(t.id)),
+    removed: [],
+    moved: [],
+    changed: [],
+  };
+  for (const task of snapshotState.tasks) {
+    const now = currentById.get(task.id);
+    if (!now) diff.removed.push(task);
+    else if (now.columnId !== task.columnId) diff.moved.push(task);
+    else if (serialize(now) !== serialize(task)) diff.changed.push(task);
+  }
+  return diff;
+}
+
+// ========== LOCALSTORAGE ==========
+
+export function loadStoredSnapshots(bookId: string): BoardSnapshot[] {
+  try {
+    const stored = localStorage.getItem(getSnapshotStorageKey(bookId));
+    return stored ? (JSON.parse(stored) as BoardSnapshot[]) : [];
+  } catch (error) {
+    console.error('[Kanban Storage] Error loading snapshots:', error);
+    return [];
+  }
+}
+
+/**
+ * Keep the newest snapshots that fit in `budgetBytes` together; older ones
+ * go first. One that is larger than what's left is skipped.
+ */
+export function fitSnapshotsToBudget(snapshots: BoardSnapshot[], budgetBytes: number): BoardSnapshot[] {
+  const newestFirst = [...snapshots].sort((a, b) => b.takenAt.localeCompare(a.takenAt));
+  const kept: BoardSnapshot[] = [];
+  let total = 0;
+  for (const snapshot of newestFirst) {
+    const bytes = byteSize(snapshot);
+    if (total + bytes > budgetBytes) continue;
+    kept.push(snapshot);
+    total += bytes;
+  }
+  return kept;
+}
+
+export function saveStoredSnapshots(snapshots: BoardSnapshot[], bookId: string): void {
+  localStorage.setItem(getSnapshotStorageKey(bookId), JSON.stringify(snapshots));
+}
+
+export function clearStoredSnapshots(bookId: string): void {
+  try {
+    localStorage.removeItem(getSnapshotStorageKey(bookId));
+  } catch (error) {
+    console.error('[Kanban Storage] Error clearing snapshots:', error);
+  }
+}
@@ -1,7 +1,9 @@
 import { KanbanState } from './kanban.types';
-import { Task, Column, Tag, Note, Filter, Automation, Subtask, ChecklistItem, TaskDependency } from '@/types/kanban';
+import { Task, Column, Tag, Note, Filter, Automation, Subtask, ChecklistItem, TaskDependency, DependencyType, DependencyOverride, DependencyEnforcementMode, BoardSettings, AutomationCondition, AutomationConditionGroup } from '@/types/kanban';
+import { validateSerializedState, hasValidationIssues } from './kanban.schema';
+import { LoadRepair, quarantineInvalidRecords, createPayloadRecoveryItem, addToRecoveryBin } from './kanban.recovery';
 
-const STORAGE_VERSION = 6; // Bumped for flexible columns + Investigación template
+export const STORAGE_VERSION = 8; // Bumped for dependency enforcement settings + overrides
 
 // Build storage key for a specific book
 function getStorageKey(bookId: string): string {
@@ -38,38 +40,66 @@ interface SerializedSubtask {
 }
 
 // Serialized dependency with ISO date string
+// (v6 and earlier only stored 'FS' and had no lag)
 interface SerializedDependency {
   id: string;
-  type: 'FS';
+  type?: DependencyType;
   dependsOnTaskId: string;
+  lagDays?: number;
   createdAt: string;
 }
 
+const DEPENDENCY_TYPES: DependencyType[] = ['FS', 'SS', 'FF', 'SF'];
+
+interface SerializedDependencyOverride extends Omit<DependencyOverride, 'createdAt'> {
+  createdAt: string;
+}
+
+const ENFORCEMENT_MODES: DependencyEnforcementMode[] = ['strict', 'warn', 'off'];
+
 // Serialized versions with ISO date strings instead of Date objects
-interface SerializedTask extends Omit<Task, 'createdAt' | 'dueDate' | 'startDate' | 'subtasks' | 'taskDependencies'> {
+export interface SerializedTask extends Omit<Task, 'createdAt' | 'dueDate' | 'startDate' | 'subtasks' | 'taskDependencies' | 'columnEnteredAt' | 'dependencyOverrides' | 'updatedAt'> {
   createdAt: string;
+  updatedAt?: string | null;
   dueDate: string | null;
   startDate: string | null;
+  columnEnteredAt?: string | null;
   subtasks: SerializedSubtask[];
   taskDependencies?: SerializedDependency[];
+  dependencyOverrides?: SerializedDependencyOverride[];
 }
 
-interface SerializedNote extends Omit<Note, 'createdAt' | 'updatedAt'> {
+export interface SerializedNote extends Omit<Note, 'createdAt' | 'updatedAt'> {
   createdAt: string;
   updatedAt: string;
 }
 
+// Columns, tags and settings only carry a sync version as a date
+export interface SerializedColumn extends Omit<Column, 'updatedAt'> {
+  updatedAt?: string | null;
+}
+
+export interface SerializedTag extends Omit<Tag, 'updatedAt'> {
+  updatedAt?: string | null;
+}
+
+interface SerializedBoardSettings extends Omit<BoardSettings, 'updatedAt'> {
+  updatedAt?: string | null;
+}
+
 interface SerializedFilter extends Omit<Filter, 'dueDate'> {
   dueDate: { from: string | null; to: string | null };
 }
 
-interface SerializedKanbanState {
+export interface SerializedKanbanState {
   tasks: SerializedTask[];
-  columns: Column[];
-  tags: Tag[];
+  columns: SerializedColumn[];
+  tags: SerializedTag[];
   notes: SerializedNote[];
   filter: SerializedFilter;
   automations: Automation[];
+  // Absent before v8
+  settings?: Partial<SerializedBoardSettings>;
 }
 
 // Serialize Date objects to ISO strings
@@ -113,6 +143,15 @@ function migrateLegacyDependencies(dependencies: string[]): TaskDependency[] {
   }));
 }
 
+// Migrate legacy flat condition lists (implicit AND) to a condition tree
+function migrateConditionTree(
+  conditions: AutomationConditionGroup | AutomationCondition[] | undefined
+): AutomationConditionGroup {
+  if (!conditions) return { operator: 'AND', children: [] };
+  if (Array.isArray(conditions)) return { operator: 'AND', children: conditions };
+  return conditions;
+}
+
 // Serialize subtasks for storage
 function serializeSubtasks(subtasks: Subtask[]): SerializedSubtask[] {
   if (!subtasks) return [];
@@ -142,28 +181,36 @@ function serializeDependencies(deps: TaskDependency[] | undefined): SerializedDe
   }));
 }
 
-// Deserialize dependencies from storage
+// Deserialize dependencies from storage, defaulting pre-v7 entries to FS with no lag
 function deserializeDependencies(serialized: SerializedDependency[] | undefined): TaskDependency[] {
   if (!serialized) return [];
   return serialized.map(dep => ({
     ...dep,
+    type: DEPENDENCY_TYPES.includes(dep.type) ? dep.type : 'FS',
+    lagDays: Number.isFinite(dep.lagDays) ? Math.round(dep.lagDays) : 0,
     createdAt: deserializeDate(dep.createdAt) as Date,
   }));
 }
 
 // Serialize the entire state for storage
-function serializeState(state: KanbanState): SerializedKanbanState {
+export function serializeState(state: KanbanState): SerializedKanbanState {
   return {
     tasks: state.tasks.map(task => ({
       ...task,
       createdAt: serializeDate(task.createdAt) as string,
       dueDate: serializeDate(task.dueDate),
       startDate: serializeDate(task.startDate),
+      columnEnteredAt: serializeDate(task.columnEnteredAt),
+      updatedAt: serializeDate(task.updatedAt),
       subtasks: serializeSubtasks(task.subtasks || []),
       taskDependencies: serializeDependencies(task.taskDependencies),
+      dependencyOverrides: (task.dependencyOverrides || []).map(o => ({
+        ...o,
+        createdAt: serializeDate(o.createdAt) as string,
+      })),
     })),
-    columns: state.columns,
-    tags: state.tags,
+    columns: state.columns.map(column => ({ ...column, updatedAt: serializeDate(column.updatedAt) })),
+    tags: state.tags.map(tag => ({ ...tag, updatedAt: serializeDate(tag.updatedAt) })),
     notes: state.notes.map(note => ({
       ...note,
       createdAt: serializeDate(note.createdAt) as string,
@@ -177,6 +224,7 @@ function serializeState(state: KanbanState): SerializedKanbanState {
       },
     },
     automations: state.automations,
+    settings: { ...state.settings, updatedAt: serializeDate(state.settings.updatedAt) },
   };
 }
 
@@ -184,7 +232,7 @@ function serializeState(state: KanbanState): SerializedKanbanState {
  * New template column definitions for migration.
  * When old editorial columns are detected, they get replaced with these.
  */
-import { defaultColumns } from './kanban.seed';
+import { defaultColumns, defaultSettings, createSeedState } from './kanban.seed';
 
 const NEW_TEMPLATE_BY_ID: Record<string, Column> = {};
 for (const col of defaultColumns) {
@@ -271,12 +319,15 @@ function migrateColumns(columns: Column[]): Column[] {
   return result;
 }
 
-// Deserialize the state from storage with migration support
-function deserializeState(serialized: SerializedKanbanState, bookId: string): KanbanState {
+// Deserialize the state from storage with migration support (validate raw JSON with kanban.schema.ts first)
+export function deserializeState(serialized: SerializedKanbanState, bookId: string): KanbanState {
   const now = new Date();
   
   // Migrate columns (soft — respect user customizations)
-  const migratedColumns = migrateColumns(serialized.columns);
+  const migratedColumns = migrateColumns(serialized.columns.map(column => ({
+    ...column,
+    updatedAt: deserializeDate(column.updatedAt) ?? undefined,
+  })));
 
   // Build set of valid column IDs from migrated columns
   const validColumnIds = new Set(migratedColumns.map(c => c.id));
@@ -286,6 +337,7 @@ function deserializeState(serialized: SerializedKanbanState, bookId: string): Ka
     if ('conditions' in a && 'actions' in a) {
       return {
         ...a,
+        conditions: migrateConditionTree(a.conditions),
         createdAt: a.createdAt ? new Date(a.createdAt as unknown as string) : now,
         updatedAt: a.updatedAt ? new Date(a.updatedAt as unknown as string) : now,
       };
@@ -303,7 +355,7 @@ function deserializeState(serialized: SerializedKanbanState, bookId: string): Ka
       }
 
       // Migrate legacy string[] dependencies to TaskDependency[]
-      let taskDependencies = deserializeDependencies((task as any).taskDependencies);
+      let taskDependencies = deserializeDependencies(task.taskDependencies);
       if (task.dependencies && task.dependencies.length > 0 && taskDependencies.length === 0) {
         taskDependencies = migrateLegacyDependencies(task.dependencies);
       }
@@ -325,14 +377,20 @@ function deserializeState(serialized: SerializedKanbanState, bookId: string): Ka
         createdAt: deserializeDate(task.createdAt) as Date,
         dueDate: deserializeDate(task.dueDate),
         startDate: deserializeDate(task.startDate),
+        columnEnteredAt: deserializeDate(task.columnEnteredAt),
+        updatedAt: deserializeDate(task.updatedAt) ?? undefined,
         subtasks,
         taskDependencies,
+        dependencyOverrides: (task.dependencyOverrides || []).map(o => ({
+          ...o,
+          createdAt: deserializeDate(o.createdAt) as Date,
+        })),
         checklist: task.checklist || [],
         relatedBook: task.relatedBook || bookId,
       };
     }),
     columns: migratedColumns,
-    tags: serialized.tags,
+    tags: serialized.tags.map(tag => ({ ...tag, updatedAt: deserializeDate(tag.updatedAt) ?? undefined })),
     notes: serialized.notes.map(note => ({
       ...note,
       createdAt: deserializeDate(note.createdAt) as Date,
@@ -346,30 +404,93 @@ function deserializeState(serialized: SerializedKanbanState, bookId: string): Ka
       },
     },
     automations: migratedAutomations,
-    automationLogs: (serialized as any).automationLogs || [],
+    // Execution logs are persisted separately (see kanban.logs.ts)
+    automationLogs: [],
+    // Loaded from its own key by the hook (see kanban.ledger.ts)
+    automationLedger: {},
     notifications: [],
+    settings: {
+      dependencyEnforcement: ENFORCEMENT_MODES.includes(serialized.settings?.dependencyEnforcement)
+        ? serialized.settings.dependencyEnforcement
+        : defaultSettings.dependencyEnforcement,
+      updatedAt: deserializeDate(serialized.settings?.updatedAt) ?? undefined,
+    },
   };
 }
 
-// Save state to localStorage for a specific book
+// Save state to localStorage for a specific book. Throws when the write fails
+// (usually QuotaExceededError) so the caller can report it.
 export function saveKanbanState(state: KanbanState, bookId: string): void {
+  const payload: StoragePayload = {
+    version: STORAGE_VERSION,
+    data: serializeState(state),
+    savedAt: new Date().toISOString(),
+  };
+  localStorage.setItem(getStorageKey(bookId), JSON.stringify(payload));
+}
+
+// Migration writes are best effort: the old payload is migrated again on the next load
+function saveMigratedState(state: KanbanState, bookId: string): void {
   try {
-    const payload: StoragePayload = {
-      version: STORAGE_VERSION,
-      data: serializeState(state),
-      savedAt: new Date().toISOString(),
-    };
-    localStorage.setItem(getStorageKey(bookId), JSON.stringify(payload));
+    saveKanbanState(state, bookId);
   } catch (error) {
-    console.error('[Kanban Storage] Error saving state:', error);
+    console.error('[Kanban Storage] Error saving migrated state:', error);
   }
 }
 
-// Load state from localStorage for a specific book with migration support
-export function loadKanbanState(bookId: string): KanbanState | null {
+export interface LoadedKanbanState {
+  state: KanbanState;
+  /** Set when the stored data needed repairs; nothing has been written back yet */
+  repair: LoadRepair | null;
+}
+
+/** A fresh board standing in for one that couldn't be read; the original goes to the recovery bin */
+export function recoverUnreadableState(bookId: string, raw: string, reason: string): LoadedKanbanState {
+  const item = createPayloadRecoveryItem(bookId, raw, reason);
+  addToRecoveryBin(bookId, [item]);
+  return {
+    state: createSeedState(bookId),
+    repair: { repairs: [], quarantined: [item], unreadable: true },
+  };
+}
+
+/** Decode a stored payload through the runtime schemas (see kanban.schema.ts) */
+function readStoredPayload(stored: string, bookId: string): { loaded: LoadedKanbanState; version: number } {
+  try {
+    const payload = JSON.parse(stored) as Partial<StoragePayload> | null;
+    const { data, report } = validateSerializedState(payload?.data);
+    const state = deserializeState(data, bookId);
+    const repair = hasValidationIssues(report)
+      ? quarantineInvalidRecords(bookId, report.repairs, report.invalid)
+      : null;
+    return { loaded: { state, repair }, version: Number(payload.version) || 0 };
+  } catch (error) {
+    console.error('[Kanban Storage] Stored board is unreadable:', error);
+    const reason = error instanceof Error ? error.message : String(error);
+    return { loaded: recoverUnreadableState(bookId, stored, reason), version: STORAGE_VERSION };
+  }
+}
+
+// Move an older payload to the current key, unless it needed repairs
+function migrateStoredPayload(stored: string, bookId: string): LoadedKanbanState {
+  const { loaded } = readStoredPayload(stored, bookId);
+  loaded.state.tasks = loaded.state.tasks.map(task => ({
+    ...task,
+    relatedBook: task.relatedBook || bookId,
+  }));
+  if (!loaded.repair) saveMigratedState(loaded.state, bookId);
+  return loaded;
+}
+
+/**
+ * Load state from localStorage for a specific book with migration support.
+ * A repaired board is returned with its `repair` report and is not written
+ * back: the stored payload stays as it was until the repair is confirmed.
+ */
+export function loadKanbanState(bookId: string): LoadedKanbanState | null {
   try {
     const storageKey = getStorageKey(bookId);
-    let stored = localStorage.getItem(storageKey);
+    const stored = localStorage.getItem(storageKey);
     
     // If no current version data, try previous per-book versions
     if (!stored) {
@@ -378,14 +499,7 @@ export function loadKanbanState(bookId: string): KanbanState | null {
         const oldStored = localStorage.getItem(oldBookKey);
         if (oldStored) {
           console.log(`[Kanban Storage] Migrating from per-book v${v} to v${STORAGE_VERSION}...`);
-          const oldPayload = JSON.parse(oldStored);
-          const migratedState = deserializeState(oldPayload.data, bookId);
-          migratedState.tasks = migratedState.tasks.map(task => ({
-            ...task,
-            relatedBook: task.relatedBook || bookId,
-          }));
-          saveKanbanState(migratedState, bookId);
-          return migratedState;
+          return migrateStoredPayload(oldStored, bookId);
         }
       }
 
@@ -394,30 +508,22 @@ export function loadKanbanState(bookId: string): KanbanState | null {
         const legacyStored = localStorage.getItem(legacyKey);
         if (legacyStored) {
           console.log(`[Kanban Storage] Migrating from legacy global ${legacyKey}...`);
-          const legacyPayload = JSON.parse(legacyStored);
-          const migratedState = deserializeState(legacyPayload.data, bookId);
-          migratedState.tasks = migratedState.tasks.map(task => ({
-            ...task,
-            relatedBook: task.relatedBook || bookId,
-          }));
-          saveKanbanState(migratedState, bookId);
-          return migratedState;
+          return migrateStoredPayload(legacyStored, bookId);
         }
       }
       
       return null;
     }
 
-    const payload: StoragePayload = JSON.parse(stored);
-    const migratedState = deserializeState(payload.data, bookId);
+    const { loaded, version } = readStoredPayload(stored, bookId);
     
     // If version mismatch, save migrated state
-    if (payload.version !== STORAGE_VERSION) {
+    if (version !== STORAGE_VERSION && !loaded.repair) {
       console.warn('[Kanban Storage] Version mismatch, migrating...');
-      saveKanbanState(migratedState, bookId);
+      saveMigratedState(loaded.state, bookId);
     }
 
-    return migratedState;
+    return loaded;
   } catch (error) {
     console.error('[Kanban Storage] Error loading state:', error);
     return null;
@@ -433,6 +539,21 @@ export function clearKanbanState(bookId: string): void {
   }
 }
 
+/**
+ * Remove a book's localStorage payloads once another backend holds it:
+ * every per-book version and the legacy global keys it could migrate from
+ */
+export function clearMigratedKanbanState(bookId: string): void {
+  try {
+    for (let v = STORAGE_VERSION; v >= 1; v--) {
+      localStorage.removeItem(getLegacyBookKey(bookId, v));
+    }
+    LEGACY_KEYS.forEach(key => localStorage.removeItem(key));
+  } catch (error) {
+    console.error('[Kanban Storage] Error clearing migrated state:', error);
+  }
+}
+
 // Check if storage has data for a book
 export function hasStoredState(bookId: string): boolean {
   try {
@@ -441,3 +562,17 @@ export function hasStoredState(bookId: string): boolean {
     return false;
   }
 }
+
+// Books with a per-book board in localStorage, any version
+export function listStoredBookIds(): string[] {
+  const bookIds = new Set<string>();
+  try {
+    for (let i = 0; i < localStorage.length; i++) {
+      const match = localStorage.key(i)?.match(/^publify\.book\.(.+)\.kanban\.v\d+$/);
+      if (match) bookIds.add(match[1]);
+    }
+  } catch (error) {
+    console.error('[Kanban Storage] Error listing stored books:', error);
+  }
+  return Array.from(bookIds);
+}
@@ -0,0 +1,146 @@
+import { AutomationExecution } from '@/types/kanban';
+import { KanbanState } from './kanban.types';
+import { loadKanbanState, saveKanbanState, clearKanbanState, listStoredBookIds, LoadedKanbanState } from './kanban.storage';
+import { loadAutomationLogs, saveAutomationLogs, clearAutomationLogs } from './kanban.logs';
+import { clearAutomationLedger } from './kanban.ledger';
+import { createIndexedDbAdapter, isIndexedDbAvailable } from './kanban.indexedDb';
+import {
+  BoardSnapshot,
+  BoardSnapshotInfo,
+  loadStoredSnapshots,
+  saveStoredSnapshots,
+  clearStoredSnapshots,
+  fitSnapshotsToBudget,
+  toSnapshotInfo,
+  LOCAL_SNAPSHOT_BUDGET_BYTES,
+} from './kanban.snapshots';
+import { BookUsage, measureLocalStorage, mergeBookUsage } from './kanban.usage';
+
+/**
+ * Where a book's board is persisted. `load` returns the full state including
+ * automation logs, plus a repair report when the stored data had to be
+ * fixed; logs are saved on their own since they change on a different
+ * rhythm than the board.
+ */
+export interface KanbanStorageAdapter {
+  readonly name: 'indexeddb' | 'localstorage';
+  load(bookId: string): Promise<LoadedKanbanState | null>;
+  save(state: KanbanState, bookId: string): Promise<void>;
+  saveLogs(logs: AutomationExecution[], bookId: string): Promise<void>;
+  clear(bookId: string): Promise<void>;
+  /** IDs of the books with stored data */
+  list(): Promise<string[]>;
+  /** Point-in-time copies of a book (see kanban.snapshots.ts), newest first */
+  listSnapshots(bookId: string): Promise<BoardSnapshotInfo[]>;
+  loadSnapshot(bookId: string, snapshotId: string): Promise<BoardSnapshot | null>;
+  saveSnapshot(snapshot: BoardSnapshot): Promise<void>;
+  deleteSnapshots(bookId: string, snapshotIds: string[]): Promise<void>;
+  /** Stored bytes per book, broken down by kind of data */
+  measureUsage(): Promise<BookUsage[]>;
+}
+
+// ========== LOCALSTORAGE ==========
+
+/** The original single-key-per-book backend, kept as fallback and migration source */
+export const localStorageAdapter: KanbanStorageAdapter = {
+  name: 'localstorage',
+  async load(bookId) {
+    const loaded = loadKanbanState(bookId);
+    if (loaded) loaded.state.automationLogs = loadAutomationLogs(bookId);
+    return loaded;
+  },
+  async save(state, bookId) {
+    saveKanbanState(state, bookId);
+  },
+  async saveLogs(logs, bookId) {
+    saveAutomationLogs(logs, bookId);
+  },
+  async clear(bookId) {
+    clearKanbanState(bookId);
+    clearAutomationLogs(bookId);
+    clearAutomationLedger(bookId);
+    clearStoredSnapshots(bookId);
+  },
+  async list() {
+    return listStoredBookIds();
+  },
+  async listSnapshots(bookId) {
+    return loadStoredSnapshots(bookId)
+      .map(toSnapshotInfo)
+      .sort((a, b) => b.takenAt.localeCompare(a.takenAt));
+  },
+  async loadSnapshot(bookId, snapshotId) {
+    return loadStoredSnapshots(bookId).find(s => s.id === snapshotId) ?? null;
+  },
+  async saveSnapshot(snapshot) {
+    const kept = fitSnapshotsToBudget([...loadStoredSnapshots(snapshot.bookId), snapshot], LOCAL_SNAPSHOT_BUDGET_BYTES);
+    if (!kept.some(s => s.id === snapshot.id)) {
+      console.warn(`[Kanban Storage] Board too large for a localStorage snapshot (${snapshot.bookId}); skipped`);
+    }
+    saveStoredSnapshots(kept, snapshot.bookId);
+  },
+  async deleteSnapshots(bookId, snapshotIds) {
+    const ids = new Set(snapshotIds);
+    saveStoredSnapshots(loadStoredSnapshots(bookId).filter(s => !ids.has(s.id)), bookId);
+  },
+  async measureUsage() {
+    return mergeBookUsage(measureLocalStorage());
+  },
+};
+
+// ========== RESOLUTION ==========
+
+/**
+ * Whether the resolved backend can be used right now. `blocked` while an
+ * older tab holds the database open during an upgrade; `outdated` once a
+ * newer version opened elsewhere and this tab's connection was closed.
+ */
+export type StorageAvailability = 'ready' | 'blocked' | 'outdated';
+
+let availability: StorageAvailability = 'ready';
+const availabilityListeners: Array<(availability: StorageAvailability) => void> = [];
+
+function setAvailability(next: StorageAvailability): void {
+  availability = next;
+  availabilityListeners.forEach(listener => listener(next));
+}
+
+export function getStorageAvailability(): StorageAvailability {
+  return availability;
+}
+
+export function subscribeToStorageAvailability(listener: (availability: StorageAvailability) => void): () => void {
+  availabilityListeners.push(listener);
+  return () => {
+    const index = availabilityListeners.indexOf(listener);
+    if (index > -1) availabilityListeners.splice(index, 1);
+  };
+}
+
+let adapterPromise: Promise<KanbanStorageAdapter> | null = null;
+
+/**
+ * The backend for this browser: IndexedDB when it can be opened (private
+ * modes may refuse), localStorage otherwise. Resolved once per session.
+ * A blocked upgrade is waited out rather than falling back: a migrated book
+ * is removed from localStorage, so the fallback would open it empty.
+ */
+export function getStorageAdapter(): Promise<KanbanStorageAdapter> {
+  if (!adapterPromise) {
+    adapterPromise = (async () => {
+      if (!isIndexedDbAvailable()) return localStorageAdapter;
+      try {
+        const adapter = await createIndexedDbAdapter(localStorageAdapter, {
+          onBlocked: () => setAvailability('blocked'),
+          onClosed: () => setAvailability('outdated'),
+        });
+        if (availability === 'blocked') setAvailability('ready');
+        return adapter;
+      } catch (error) {
+        console.error('[Kanban Storage] IndexedDB unavailable, using localStorage:', error);
+        return localStorageAdapter;
+      }
+    })();
+  }
+  return adapterPromise;
+}
@@ -0,0 +1,286 @@
+import { FieldRevisions } from '@/types/kanban';
+import { KanbanState } from './kanban.types';
+import { serializeState, deserializeState, SerializedKanbanState } from './kanban.storage';
+import { createSeedState } from './kanban.seed';
+
+export type SyncEntityType = 'task' | 'column' | 'tag' | 'note' | 'automation' | 'settings';
+
+/** One entity version as exchanged with the sync server; `data` is the serialized entity */
+export interface SyncChange {
+  entityType: SyncEntityType;
+  id: string;
+  /** ISO timestamp; the entity's version */
+  updatedAt: string;
+  deleted?: boolean;
+  data?: unknown;
+}
+
+export interface OutgoingSyncChange extends SyncChange {
+  /** Version this client last synced; the server rejects the change if it has moved on */
+  baseUpdatedAt: string | null;
+}
+
+/** Entity versions at the last successful sync, plus the server's change cursor */
+export interface SyncMeta {
+  cursor: number;
+  base: Record<string, string>;
+}
+
+const SYNC_META_VERSION = 1;
+/** The settings object is synced as a single entity */
+const SETTINGS_ENTITY_ID = 'settings';
+
+function getSyncMetaKey(bookId: string): string {
+  return `publify.book.${bookId}.sync.v${SYNC_META_VERSION}`;
+}
+
+export function getEntityKey(change: Pick<SyncChange, 'entityType' | 'id'>): string {
+  return `${change.entityType}:${change.id}`;
+}
+
+function toIso(value: unknown): string {
+  const date = value ? new Date(value as string) : null;
+  return date && !isNaN(date.getTime()) ? date.toISOString() : new Date(0).toISOString();
+}
+
+// ========== VERSIONING ==========
+
+type VersionedEntity = { id: string; updatedAt?: Date; fieldRevisions?: FieldRevisions };
+
+/** Fields that describe the version itself rather than the entity's content */
+export const VERSION_FIELDS = ['id', 'updatedAt', 'fieldRevisions'];
+
+/** A new version strictly after `previous`, so local edits always move an entity forward */
+export function nextVersion(previous: Date | string | undefined, now: Date): Date {
+  return previous && new Date(previous).getTime() >= now.getTime() ? new Date(new Date(previous).getTime() + 1) : now;
+}
+
+export function isSameValue(a: unknown, b: unknown): boolean {
+  return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
+
+/** Content fields whose value differs between two versions of an entity */
+export function getChangedFields(before: object, after: object): string[] {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  return [...keys].filter(key =>
+    !VERSION_FIELDS.includes(key) &&
+    !isSameValue((before as Record<string, unknown>)[key], (after as Record<string, unknown>)[key])
+  );
+}
+
+function stampCollection<T extends VersionedEntity>(prev: T[], next: T[], now: Date, trackFields: boolean): T[] {
+  if (prev === next) return next;
+  const previous = new Map(prev.map(entity => [entity.id, entity]));
+  let changed = false;
+  const stamped = next.map(entity => {
+    const before = previous.get(entity.id);
+    if (before === entity) return entity;
+    const changedFields = before ? getChangedFields(before, entity) : [];
+    // Rebuilt but identical (e.g. after deserializing): keep its version
+    if (before && changedFields.length === 0) return entity;
+    changed = true;
+    const updatedAt = nextVersion(before?.updatedAt, now);
+    if (!trackFields) return { ...entity, updatedAt };
+    const version = updatedAt.toISOString();
+    const fieldRevisions = { ...before?.fieldRevisions };
+    for (const field of changedFields) fieldRevisions[field] = version;
+    return { ...entity, updatedAt, fieldRevisions };
+  });
+  return changed ? stamped : next;
+}
+
+/**
+ * Bump `updatedAt` on every task, column, tag, note, automation and the
+ * settings that changed between two states. Tasks, columns, notes and
+ * automations also get the changed fields' revisions bumped.
+ */
+export function stampEntityVersions(prev: KanbanState, next: KanbanState, now: Date = new Date()): KanbanState {
+  if (prev === next) return next;
+  return {
+    ...next,
+    tasks: stampCollection(prev.tasks, next.tasks, now, true),
+    columns: stampCollection(prev.columns, next.columns, now, true),
+    tags: stampCollection(prev.tags, next.tags, now, false),
+    notes: stampCollection(prev.notes, next.notes, now, true),
+    automations: stampCollection(prev.automations, next.automations, now, true),
+    settings: prev.settings === next.settings || getChangedFields(prev.settings, next.settings).length === 0
+      ? next.settings
+      : { ...next.settings, updatedAt: nextVersion(prev.settings.updatedAt, now) },
+  };
+}
+
+// ========== DIFF ==========
+
+/** Every syncable entity in its serialized (JSON-safe) form, by entity key */
+export function collectSyncEntities(state: KanbanState): Map<string, SyncChange> {
+  const serialized = JSON.parse(JSON.stringify(serializeState(state))) as SerializedKanbanState;
+  const entities = new Map<string, SyncChange>();
+  const add = (entityType: SyncEntityType, items: { id: string; updatedAt?: unknown; createdAt?: unknown }[]) => {
+    for (const item of items) {
+      const change: SyncChange = { entityType, id: item.id, updatedAt: toIso(item.updatedAt ?? item.createdAt), data: item };
+      entities.set(getEntityKey(change), change);
+    }
+  };
+  add('task', serialized.tasks);
+  add('column', serialized.columns);
+  add('tag', serialized.tags);
+  add('note', serialized.notes);
+  add('automation', serialized.automations);
+  add('settings', [{ ...serialized.settings, id: SETTINGS_ENTITY_ID }]);
+  return entities;
+}
+
+/**
+ * Whether the board is still the seed a new book starts with. Seed entities
+ * carry no version newer than the seed's own timestamp, and every local edit
+ * (creating, changing or reordering anything) stamps a newer one; deletions
+ * show up as missing seed entities.
+ */
+export function isUntouchedSeedBoard(state: KanbanState): boolean {
+  const seed = createSeedState();
+  if (
+    state.tasks.length !== seed.tasks.length ||
+    state.notes.length !== seed.notes.length ||
+    state.automations.length !== seed.automations.length ||
+    !isSameValue(state.columns.map(c => c.id), seed.columns.map(c => c.id)) ||
+    !isSameValue(state.tags.map(t => t.id), seed.tags.map(t => t.id))
+  ) {
+    return false;
+  }
+
+  const seededAt = new Date(state.tasks[0]?.createdAt ?? 0).getTime();
+  if (state.tasks.some(task => new Date(task.createdAt).getTime() !== seededAt)) return false;
+  return [...collectSyncEntities(state).values()].every(entity => new Date(entity.updatedAt).getTime() <= seededAt);
+}
+
+/**
+ * Local changes not yet on the server: entities whose version is newer than
+ * the synced one (or that were never synced), and synced entities that are
+ * gone locally. This is the offline queue; it survives reloads because both
+ * the board and the sync meta are persisted.
+ */
+export function getPendingChanges(state: KanbanState, meta: SyncMeta, now: Date = new Date()): OutgoingSyncChange[] {
+  const entities = collectSyncEntities(state);
+  const pending: OutgoingSyncChange[] = [];
+
+  entities.forEach((entity, key) => {
+    const base = meta.base[key];
+    if (!base || entity.updatedAt > base) {
+      pending.push({ ...entity, baseUpdatedAt: base ?? null });
+    }
+  });
+
+  for (const [key, base] of Object.entries(meta.base)) {
+    if (entities.has(key)) continue;
+    const separator = key.indexOf(':');
+    pending.push({
+      entityType: key.slice(0, separator) as SyncEntityType,
+      id: key.slice(separator + 1),
+      updatedAt: nextVersion(new Date(base), now).toISOString(),
+      deleted: true,
+      baseUpdatedAt: base,
+    });
+  }
+
+  return pending;
+}
+
+// ========== APPLY ==========
+
+export interface ApplyRemoteOptions {
+  /** Drop local entities the server doesn't know (first sync of an untouched seed board) */
+  replace?: boolean;
+  /** Overwrite unsynced local edits too (server versions returned as conflicts) */
+  force?: boolean;
+}
+
+/**
+ * Merge server versions into the local state. Entities with unsynced local
+ * changes are left alone unless `force` is set; the next push surfaces them
+ * as conflicts instead.
+ */
+export function applyRemoteChanges(
+  state: KanbanState,
+  changes: SyncChange[],
+  meta: SyncMeta,
+  bookId: string,
+  { replace = false, force = false }: ApplyRemoteOptions = {}
+): KanbanState {
+  const pendingKeys = new Set(replace || force ? [] : getPendingChanges(state, meta).map(getEntityKey));
+  const serialized = JSON.parse(JSON.stringify(serializeState(state))) as SerializedKanbanState;
+  if (replace) {
+    serialized.tasks = [];
+    serialized.columns = [];
+    serialized.tags = [];
+    serialized.notes = [];
+    serialized.automations = [];
+  }
+
+  const collections: Record<Exclude<SyncEntityType, 'settings'>, { id: string }[]> = {
+    task: serialized.tasks,
+    column: serialized.columns,
+    tag: serialized.tags,
+    note: serialized.notes,
+    automation: serialized.automations,
+  };
+
+  for (const change of changes) {
+    if (pendingKeys.has(getEntityKey(change))) continue;
+    if (change.entityType === 'settings') {
+      if (!change.deleted) serialized.settings = change.data as SerializedKanbanState['settings'];
+      continue;
+    }
+    const collection = collections[change.entityType];
+    if (!collection) continue;
+    const index = collection.findIndex(item => item.id === change.id);
+    if (change.deleted) {
+      if (index >= 0) collection.splice(index, 1);
+    } else if (index >= 0) {
+      collection[index] = change.data as { id: string };
+    } else {
+      collection.push(change.data as { id: string });
+    }
+  }
+
+  return {
+    ...deserializeState(serialized, bookId),
+    filter: state.filter,
+    automationLogs: state.automationLogs,
+    automationLedger: state.automationLedger,
+    notifications: state.notifications,
+  };
+}
+
+/** Record the versions now shared with the server */
+export function advanceSyncBase(meta: SyncMeta, synced: SyncChange[], cursor?: number): SyncMeta {
+  const base = { ...meta.base };
+  for (const change of synced) {
+    const key = getEntityKey(change);
+    if (change.deleted) delete base[key];
+    else base[key] = change.updatedAt;
+  }
+  return { cursor: cursor ?? meta.cursor, base };
+}
+
+// ========== PERSISTENCE ==========
+
+export function loadSyncMeta(bookId: string): SyncMeta {
+  try {
+    const stored = localStorage.getItem(getSyncMetaKey(bookId));
+    if (stored) {
+      const meta = JSON.parse(stored) as SyncMeta;
+      return { cursor: Number(meta.cursor) || 0, base: meta.base || {} };
+    }
+  } catch (error) {
+    console.error('[Kanban Sync] Error loading sync meta:', error);
+  }
+  return { cursor: 0, base: {} };
+}
+
+export function saveSyncMeta(meta: SyncMeta, bookId: string): void {
+  try {
+    localStorage.setItem(getSyncMetaKey(bookId), JSON.stringify(meta));
+  } catch (error) {
+    console.error('[Kanban Sync] Error saving sync meta:', error);
+  }
+}
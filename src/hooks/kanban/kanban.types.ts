@@ -1,4 +1,5 @@
-import { Task, Column, Tag, Note, Filter, Automation, AutomationExecution, AutomationNotification, TaskDependency } from '@/types/kanban';
+import { Task, Column, Tag, Note, Filter, Automation, AutomationExecution, AutomationNotification, TaskDependency, BoardSettings } from '@/types/kanban';
+import type { AutomationLedger } from './kanban.ledger';
 
 export interface KanbanState {
   tasks: Task[];
@@ -8,7 +9,10 @@ export interface KanbanState {
   filter: Filter;
   automations: Automation[];
   automationLogs: AutomationExecution[];
+  /** What each rule already did, for rate limits and scheduled windows (see kanban.ledger.ts) */
+  automationLedger: AutomationLedger;
   notifications: AutomationNotification[];
+  settings: BoardSettings;
 }
 
 export type KanbanActionType =
@@ -20,6 +24,7 @@ export type KanbanActionType =
   | 'TASK_ARCHIVED'
   | 'TASK_UNARCHIVED'
   | 'TASK_DUPLICATED'
+  | 'TASKS_RESCHEDULED'
   | 'COLUMN_CREATED'
   | 'COLUMN_UPDATED'
   | 'COLUMN_DELETED'
@@ -31,6 +36,14 @@ export type KanbanActionType =
   | 'NOTE_UPDATED'
   | 'NOTE_DELETED'
   | 'FILTER_UPDATED'
+  | 'SETTINGS_UPDATED'
+  | 'INTEGRITY_REPAIRED'
+  | 'SYNC_REMOTE_APPLIED'
+  | 'SYNC_CONFLICTS_RESOLVED'
+  | 'CROSS_TAB_APPLIED'
+  | 'BOOK_RESTORED'
+  | 'TASKS_RESTORED'
+  | 'ARCHIVED_TASKS_PURGED'
   // Subtask actions
   | 'SUBTASK_CREATED'
   | 'SUBTASK_UPDATED'
@@ -38,16 +51,20 @@ export type KanbanActionType =
   | 'SUBTASK_DELETED'
   // Dependency actions (Phase 7)
   | 'DEPENDENCY_ADDED'
+  | 'DEPENDENCY_UPDATED'
   | 'DEPENDENCY_REMOVED'
   // Automation actions
   | 'AUTOMATION_CREATED'
   | 'AUTOMATION_UPDATED'
   | 'AUTOMATION_DELETED'
   | 'AUTOMATION_TOGGLED'
+  | 'AUTOMATIONS_IMPORTED'
   | 'AUTOMATION_LOGS_ADDED'
+  | 'AUTOMATION_LOGS_PURGED'
   | 'NOTIFICATION_ADDED'
   | 'NOTIFICATION_DISMISSED'
   | 'NOTIFICATIONS_CLEARED'
+  | 'AUTOMATIONS_SCHEDULED_RUN'
   // Legacy checklist (deprecated, kept for compatibility)
   | 'CHECKLIST_ITEM_ADDED'
   | 'CHECKLIST_ITEM_TOGGLED'
@@ -64,6 +81,9 @@ export interface HistoryState {
   past: KanbanState[];
   present: KanbanState;
   future: KanbanState[];
+  /** Bumped by every action that originates in this tab; other tabs are told about these */
+  localChanges?: number;
 }
 
-export type SaveStatus = 'idle' | 'saving' | 'saved' | 'error';
+/** `quota`: the last write failed because storage is full */
+export type SaveStatus = 'idle' | 'saving' | 'saved' | 'error' | 'quota' | 'syncing' | 'offline' | 'conflict';
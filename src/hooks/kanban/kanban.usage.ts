@@ -0,0 +1,203 @@
+import { AutomationExecution } from '@/types/kanban';
+import { KanbanState } from './kanban.types';
+import { serializeState } from './kanban.storage';
+import type { KanbanStorageAdapter } from './kanban.storageAdapter';
+
+/** What the usage screen breaks a book's bytes down into */
+export type UsageCategory = 'tasks' | 'attachments' | 'notes' | 'logs' | 'snapshots' | 'other';
+
+export interface BookUsage {
+  bookId: string;
+  bytes: Record<UsageCategory, number>;
+  total: number;
+  archivedTasks: number;
+  logEntries: number;
+  snapshots: number;
+}
+
+export interface StorageEstimate {
+  backend: KanbanStorageAdapter['name'];
+  /** Bytes used by this origin (or by localStorage), when the browser reports it */
+  used: number | null;
+  quota: number | null;
+}
+
+/** Typical per-origin localStorage limit; browsers don't expose the real one */
+export const LOCAL_STORAGE_QUOTA_BYTES = 5 * 1024 * 1024;
+
+/** Matches every per-book key: board, logs, rule ledger, snapshots, recovery bin, sync meta, conflict log */
+const BOOK_KEY_PATTERN = /^publify\.book\.(.+)\.(kanban|automationLogs|automationLedger|snapshots|recovery|sync|conflicts)\.v\d+$/;
+
+const encoder = new TextEncoder();
+
+/** UTF-8 size of a value as stored (JSON) */
+export function byteSize(value: unknown): number {
+  if (value === undefined) return 0;
+  return encoder.encode(typeof value === 'string' ? value : JSON.stringify(value)).length;
+}
+
+/**
+ * True for the errors browsers raise when a write doesn't fit: the standard
+ * `QuotaExceededError`, Firefox's legacy name and the old numeric codes.
+ */
+export function isQuotaExceededError(error: unknown): boolean {
+  if (!(error instanceof DOMException)) return false;
+  return error.name === 'QuotaExceededError'
+    || error.name === 'NS_ERROR_DOM_QUOTA_REACHED'
+    || error.code === 22
+    || error.code === 1014;
+}
+
+// ========== MEASURING ==========
+
+export function createBookUsage(bookId: string): BookUsage {
+  return {
+    bookId,
+    bytes: { tasks: 0, attachments: 0, notes: 0, logs: 0, snapshots: 0, other: 0 },
+    total: 0,
+    archivedTasks: 0,
+    logEntries: 0,
+    snapshots: 0,
+  };
+}
+
+const finalize = (usage: BookUsage): BookUsage => ({
+  ...usage,
+  total: Object.values(usage.bytes).reduce((sum, bytes) => sum + bytes, 0),
+});
+
+/** Attachments are counted on their own; the rest of each task counts as `tasks` */
+export function addTasks(usage: BookUsage, tasks: unknown[]): void {
+  for (const task of tasks) {
+    const record = (task ?? {}) as { attachments?: unknown; isArchived?: unknown };
+    const attachments = byteSize(record.attachments);
+    usage.bytes.attachments += attachments;
+    usage.bytes.tasks += byteSize(task) - attachments;
+    if (record.isArchived === true) usage.archivedTasks++;
+  }
+}
+
+/** Split a serialized board into tasks, notes and everything else */
+export function addSerializedBoard(usage: BookUsage, board: Record<string, unknown>): void {
+  const { tasks, notes, ...rest } = board;
+  addTasks(usage, Array.isArray(tasks) ? tasks : []);
+  usage.bytes.notes += byteSize(notes);
+  usage.bytes.other += byteSize(rest);
+}
+
+export function addLogs(usage: BookUsage, logs: unknown[]): void {
+  usage.bytes.logs += byteSize(logs);
+  usage.logEntries += logs.length;
+}
+
+/** A book as it would be saved from memory (board and logs) */
+export function measureState(state: KanbanState, bookId: string): BookUsage {
+  const usage = createBookUsage(bookId);
+  addSerializedBoard(usage, serializeState(state) as unknown as Record<string, unknown>);
+  addLogs(usage, state.automationLogs);
+  return finalize(usage);
+}
+
+/** Usage per book of everything kept in localStorage */
+export function measureLocalStorage(kinds?: string[]): BookUsage[] {
+  const books = new Map<string, BookUsage>();
+  try {
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      const match = key?.match(BOOK_KEY_PATTERN);
+      if (!match || (kinds && !kinds.includes(match[2]))) continue;
+      const [, bookId, kind] = match;
+      const raw = localStorage.getItem(key!) ?? '';
+      const usage = books.get(bookId) ?? createBookUsage(bookId);
+      books.set(bookId, usage);
+
+      try {
+        const parsed = JSON.parse(raw);
+        if (kind === 'kanban' && parsed?.data) {
+          addSerializedBoard(usage, parsed.data);
+          usage.bytes.other += byteSize(raw) - byteSize(parsed.data);
+          continue;
+        }
+        if (kind === 'automationLogs' && Array.isArray(parsed?.logs)) {
+          addLogs(usage, parsed.logs);
+          usage.bytes.logs += byteSize(raw) - byteSize(parsed.logs);
+          continue;
+        }
+        if (kind === 'snapshots' && Array.isArray(parsed)) {
+          usage.bytes.snapshots += byteSize(raw);
+          usage.snapshots += parsed.length;
+          continue;
+        }
+      } catch {
+        // Unparseable values still take space
+      }
+      usage.bytes.other += byteSize(raw);
+    }
+  } catch (error) {
+    console.error('[Kanban Storage] Error measuring localStorage:', error);
+  }
+  return [...books.values()].map(finalize);
+}
+
+/** Sum of all localStorage keys and values, this app's or not */
+export function getLocalStorageBytes(): number {
+  let bytes = 0;
+  try {
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i) ?? '';
+      bytes += byteSize(key) + byteSize(localStorage.getItem(key) ?? '');
+    }
+  } catch (error) {
+    console.error('[Kanban Storage] Error measuring localStorage:', error);
+  }
+  return bytes;
+}
+
+/** Merge usage lists from several places (e.g. IndexedDB plus localStorage side keys) */
+export function mergeBookUsage(...lists: BookUsage[][]): BookUsage[] {
+  const merged = new Map<string, BookUsage>();
+  for (const usage of lists.flat()) {
+    const current = merged.get(usage.bookId) ?? createBookUsage(usage.bookId);
+    (Object.keys(usage.bytes) as UsageCategory[]).forEach(category => {
+      current.bytes[category] += usage.bytes[category];
+    });
+    current.archivedTasks += usage.archivedTasks;
+    current.logEntries += usage.logEntries;
+    current.snapshots += usage.snapshots;
+    merged.set(usage.bookId, current);
+  }
+  return [...merged.values()].map(finalize).sort((a, b) => b.total - a.total);
+}
+
+export async function estimateStorage(adapter: KanbanStorageAdapter): Promise<StorageEstimate> {
+  if (adapter.name === 'localstorage') {
+    return { backend: adapter.name, used: getLocalStorageBytes(), quota: LOCAL_STORAGE_QUOTA_BYTES };
+  }
+  try {
+    const estimate = await navigator.storage?.estimate?.();
+    return { backend: adapter.name, used: estimate?.usage ?? null, quota: estimate?.quota ?? null };
+  } catch {
+    return { backend: adapter.name, used: null, quota: null };
+  }
+}
+
+// ========== PURGING ==========
+
+/** The entries left after dropping those older than `before` (all of them when null) */
+export function filterLogsBefore(logs: AutomationExecution[], before: Date | null): AutomationExecution[] {
+  if (!before) return [];
+  return logs.filter(log => new Date(log.timestamp).getTime() >= before.getTime());
+}
+
+/** Drop a stored book's old log entries without opening it */
+export async function purgeStoredLogs(adapter: KanbanStorageAdapter, bookId: string, before: Date | null): Promise<void> {
+  const loaded = await adapter.load(bookId);
+  if (!loaded) return;
+  await adapter.saveLogs(filterLogsBefore(loaded.state.automationLogs, before), bookId);
+}
+
+/** Delete every snapshot but the newest */
+export async function purgeOldSnapshots(adapter: KanbanStorageAdapter, bookId: string): Promise<void> {
+  const [, ...older] = await adapter.listSnapshots(bookId);
+  if (older.length > 0) await adapter.deleteSnapshots(bookId, older.map(s => s.id));
+}
@@ -0,0 +1,127 @@
+import { useEffect, useRef, useState, Dispatch } from 'react';
+import { HistoryState, KanbanAction } from './kanban.types';
+import { collectSyncEntities } from './kanban.sync';
+import {
+  openCrossTabChannel,
+  diffSyncEntities,
+  getNewLogs,
+  getRemovedLogIds,
+  requestSchedulerLeadership,
+  CrossTabChannel,
+  CrossTabPayload,
+} from './kanban.crossTab';
+
+const generateId = () => Math.random().toString(36).substr(2, 9);
+
+/** How long a newly opened tab waits for a sibling's snapshot */
+const SNAPSHOT_WAIT_MS = 2000;
+
+/**
+ * Live sync between tabs showing the same book. Each local action is
+ * broadcast as the changes it made and applied in sibling tabs without
+ * touching their undo stacks. A tab that opens late asks its siblings for a
+ * snapshot, since storage may not have the latest debounced save yet.
+ *
+ * Scheduled automations run in a single leader tab, and only once the
+ * snapshot handshake is over, so two tabs never fire the same window.
+ * Returns whether this tab may run the scheduler.
+ */
+export function useKanbanCrossTab(
+  bookId: string,
+  history: HistoryState,
+  isLoaded: boolean,
+  dispatch: Dispatch<KanbanAction>
+) {
+  const tabIdRef = useRef(generateId());
+  const historyRef = useRef(history);
+  const channelRef = useRef<CrossTabChannel | null>(null);
+  const lastBroadcastRef = useRef<HistoryState | null>(null);
+  const awaitingSnapshotRef = useRef(false);
+  const [handshakeDone, setHandshakeDone] = useState(false);
+  const [isLeader, setIsLeader] = useState(false);
+
+  historyRef.current = history;
+
+  useEffect(() => {
+    if (!isLoaded) return;
+    const tabId = tabIdRef.current;
+    const apply = (payload: Omit<CrossTabPayload, 'bookId'>) => {
+      dispatch({ type: 'CROSS_TAB_APPLIED', payload: { ...payload, bookId } });
+    };
+
+    const channel = openCrossTabChannel(bookId, message => {
+      if (message.tabId === tabId) return;
+      switch (message.type) {
+        case 'changes':
+          apply({
+            changes: message.changes,
+            newLogs: message.newLogs,
+            removedLogIds: message.removedLogIds,
+            ledger: message.ledger,
+          });
+          break;
+        case 'snapshot-request': {
+          const { present } = historyRef.current;
+          channel.post({
+            type: 'snapshot',
+            tabId,
+            to: message.tabId,
+            changes: [...collectSyncEntities(present).values()],
+            logs: present.automationLogs,
+            ledger: present.automationLedger,
+          });
+          break;
+        }
+        case 'snapshot':
+          // First answer wins; ignored once this tab has made its own changes
+          if (message.to !== tabId || !awaitingSnapshotRef.current) return;
+          awaitingSnapshotRef.current = false;
+          apply({ changes: message.changes, logs: message.logs, ledger: message.ledger, replace: true });
+          setHandshakeDone(true);
+          break;
+      }
+    });
+
+    channelRef.current = channel;
+    lastBroadcastRef.current = historyRef.current;
+    awaitingSnapshotRef.current = true;
+    channel.post({ type: 'snapshot-request', tabId });
+    const timeoutId = window.setTimeout(() => {
+      awaitingSnapshotRef.current = false;
+      setHandshakeDone(true);
+    }, SNAPSHOT_WAIT_MS);
+    const releaseLeadership = requestSchedulerLeadership(bookId, () => setIsLeader(true));
+
+    return () => {
+      window.clearTimeout(timeoutId);
+      releaseLeadership();
+      channel.close();
+      channelRef.current = null;
+      lastBroadcastRef.current = null;
+      setHandshakeDone(false);
+      setIsLeader(false);
+    };
+  }, [bookId, isLoaded, dispatch]);
+
+  // Broadcast what this tab's own actions changed
+  useEffect(() => {
+    const channel = channelRef.current;
+    const last = lastBroadcastRef.current;
+    if (!channel || !last || last === history) return;
+    lastBroadcastRef.current = history;
+    if ((history.localChanges ?? 0) === (last.localChanges ?? 0)) return;
+
+    awaitingSnapshotRef.current = false;
+    const changes = diffSyncEntities(last.present, history.present);
+    const newLogs = getNewLogs(last.present.automationLogs, history.present.automationLogs);
+    const removedLogIds = getRemovedLogIds(last.present.automationLogs, history.present.automationLogs);
+    const ledger = last.present.automationLedger !== history.present.automationLedger
+      ? history.present.automationLedger
+      : undefined;
+    if (changes.length > 0 || newLogs.length > 0 || removedLogIds.length > 0 || ledger) {
+      channel.post({ type: 'changes', tabId: tabIdRef.current, changes, newLogs, removedLogIds, ledger });
+    }
+  }, [history]);
+
+  return { canRunScheduler: handshakeDone && isLeader };
+}
@@ -1,76 +1,185 @@
 import { useReducer, useCallback, useEffect, useRef, useState, useMemo } from 'react';
-import { Task, Column, Tag, Note, Filter, Subtask, Automation, AutomationExecution, AutomationNotification } from '@/types/kanban';
-import { KanbanState, HistoryState, SaveStatus } from './kanban.types';
-import { kanbanReducer } from './kanban.reducer';
-import { loadKanbanState, saveKanbanState } from './kanban.storage';
+import { Task, Column, Tag, Note, Filter, Subtask, Automation, AutomationDraft, AutomationExecution, AutomationNotification, TaskDependency, DependencyType, BoardSettings } from '@/types/kanban';
+import { KanbanState, HistoryState, SaveStatus, KanbanAction } from './kanban.types';
+import { kanbanReducer, DependencyOverrideRequest } from './kanban.reducer';
+import { applyAutomationsToHistory, testAutomation, validateAutomation } from './kanban.automations';
+import { applyScheduledAutomations, SCHEDULER_INTERVAL_MS } from './kanban.scheduler';
+import { simulateAutomation } from './kanban.simulator';
+import {
+  getStorageAdapter,
+  getStorageAvailability,
+  subscribeToStorageAvailability,
+  KanbanStorageAdapter,
+  StorageAvailability,
+} from './kanban.storageAdapter';
+import {
+  createAutomationBundle,
+  parseAutomationBundle,
+  remapAutomationBundle,
+  installAutomationTemplate,
+  AutomationImportResult,
+} from './kanban.automationBundle';
 import { createSeedState } from './kanban.seed';
-import { wouldCreateCycle, getDependencyEdges } from './kanban.dependencies';
-import { calculateTaskProgress, calculateBookProgress, calculateColumnProgress, isTaskCompleted, canArchiveTask } from './kanban.progress';
+import {
+  wouldCreateCycle,
+  getDependencyEdges,
+  isTaskBlocked,
+  shouldBlockMoveToColumn,
+  getTransitionBlock,
+  DependencyAnchor,
+  TaskTransition,
+} from './kanban.dependencies';
+import { calculateTaskProgress, calculateBookProgress, calculateColumnProgress, canArchiveTask } from './kanban.progress';
+import { calculateCriticalPath } from './kanban.criticalPath';
+import { calculateReschedule, RescheduleShift } from './kanban.reschedule';
+import { getIntegrityReport, getDependents } from './kanban.integrity';
+import { stampEntityVersions } from './kanban.sync';
+import { useKanbanSync } from './useKanbanSync';
+import { useKanbanCrossTab } from './useKanbanCrossTab';
+import {
+  createBookArchive,
+  parseBookArchive,
+  createRestoredBookId,
+  saveAsNewBook,
+  BookArchiveImport,
+  RestoreMode,
+} from './kanban.backup';
+import {
+  takeScheduledSnapshot,
+  restoreSnapshotState,
+  diffSnapshot,
+  BoardSnapshotInfo,
+  SnapshotDiff,
+  SNAPSHOT_CHECK_INTERVAL_MS,
+} from './kanban.snapshots';
+import { LoadedKanbanState } from './kanban.storage';
+import { LoadRepair, RecoveryItem, loadRecoveryBin, removeFromRecoveryBin, saveRecoveryBin } from './kanban.recovery';
+import { loadAutomationLedger, saveAutomationLedger, createLedgerFromLogs, pruneLedger } from './kanban.ledger';
+import {
+  BookUsage,
+  StorageEstimate,
+  estimateStorage,
+  isQuotaExceededError,
+  filterLogsBefore,
+  purgeStoredLogs,
+  purgeOldSnapshots,
+} from './kanban.usage';
 
 const generateId = () => Math.random().toString(36).substr(2, 9);
 
-// Factory to create initializer for a specific book
-function createInitialHistory(bookId: string): () => HistoryState {
-  return () => {
-    try {
-      const stored = loadKanbanState(bookId);
-      const initialState = stored || createSeedState(bookId);
-      
-      // Ensure all tasks belong to this book
-      initialState.tasks = initialState.tasks.map(task => ({
-        ...task,
-        relatedBook: bookId,
-      }));
-      
-      return {
-        past: [],
-        present: initialState,
-        future: [],
-      };
-    } catch (error) {
-      console.error('Error loading kanban state:', error);
-      return {
-        past: [],
-        present: createSeedState(bookId),
-        future: [],
-      };
-    }
+// Reducer + automation engine: task mutations fire matching rules in the same step
+function applyKanbanAction(history: HistoryState, action: KanbanAction): HistoryState {
+  if (action.type === 'AUTOMATIONS_SCHEDULED_RUN') {
+    return applyScheduledAutomations(history, action.payload as Date);
+  }
+  const next = kanbanReducer(history, action);
+  return applyAutomationsToHistory(history, next, action);
+}
+
+// Loaded, synced and other tabs' states carry their own entity versions
+const UNVERSIONED_ACTIONS: KanbanAction['type'][] = ['INIT_STATE', 'SYNC_REMOTE_APPLIED', 'CROSS_TAB_APPLIED'];
+
+// Every local edit (including undo/redo) bumps `updatedAt` on the entities it touched
+function automatedKanbanReducer(history: HistoryState, action: KanbanAction): HistoryState {
+  const next = applyKanbanAction(history, action);
+  if (next === history || UNVERSIONED_ACTIONS.includes(action.type)) return next;
+  return {
+    ...next,
+    present: stampEntityVersions(history.present, next.present),
+    localChanges: (history.localChanges ?? 0) + 1,
+  };
+}
+
+// Placeholder until the storage backend has loaded the book (see `isLoaded`)
+function createPlaceholderHistory(bookId: string): HistoryState {
+  return {
+    past: [],
+    present: createSeedState(bookId),
+    future: [],
   };
 }
 
 export function useKanbanReducer(bookId: string) {
-  // Use lazy initialization with bookId
-  const [history, dispatch] = useReducer(kanbanReducer, undefined, createInitialHistory(bookId));
+  const [history, dispatch] = useReducer(automatedKanbanReducer, bookId, createPlaceholderHistory);
   const [saveStatus, setSaveStatus] = useState<SaveStatus>('idle');
+  const [loadedBookId, setLoadedBookId] = useState<string | null>(null);
+  // Saving is held while a repaired load waits for confirmation
+  const [pendingRepair, setPendingRepair] = useState<LoadRepair | null>(null);
+  const [recoveryItems, setRecoveryItems] = useState<RecoveryItem[]>([]);
+  // Bumped to retry a failed save without waiting for the next edit
+  const [saveAttempt, setSaveAttempt] = useState(0);
+  const [storageAvailability, setStorageAvailability] = useState<StorageAvailability>(getStorageAvailability);
+  const adapterRef = useRef<KanbanStorageAdapter | null>(null);
   const saveTimeoutRef = useRef<number | null>(null);
   const lastSavedRef = useRef<string>('');
-  const currentBookIdRef = useRef(bookId);
+  const logsSaveTimeoutRef = useRef<number | null>(null);
 
   const { present: state, past, future } = history;
-
-  // Reload state if bookId changes
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  // Saving and scheduled automations wait until the book is loaded
+  const isLoaded = loadedBookId === bookId;
+  const {
+    syncStatus,
+    pendingChanges,
+    conflicts: syncConflicts,
+    resolvedConflicts,
+    resolveConflicts,
+  } = useKanbanSync(bookId, state, isLoaded, dispatch);
+  const { canRunScheduler } = useKanbanCrossTab(bookId, history, isLoaded, dispatch);
+
+  // Another tab can hold up a storage upgrade, or close this tab's connection for its own
+  useEffect(() => subscribeToStorageAvailability(setStorageAvailability), []);
+
+  // Load the book from the storage backend (migrating localStorage data on first run)
   useEffect(() => {
-    if (currentBookIdRef.current !== bookId) {
-      currentBookIdRef.current = bookId;
-      const stored = loadKanbanState(bookId);
-      const newState = stored || createSeedState(bookId);
+    let cancelled = false;
+    (async () => {
+      let loaded: LoadedKanbanState | null;
+      try {
+        const adapter = await getStorageAdapter();
+        adapterRef.current = adapter;
+        loaded = await adapter.load(bookId);
+      } catch (error) {
+        console.error('Error loading kanban state:', error);
+        // Whatever is stored stays untouched until the user accepts the fresh board
+        loaded = { state: createSeedState(bookId), repair: { repairs: [], quarantined: [], unreadable: true } };
+      }
+      if (cancelled) return;
+      const newState = loaded?.state ?? createSeedState(bookId);
       // Ensure all tasks belong to this book
       newState.tasks = newState.tasks.map(task => ({
         ...task,
         relatedBook: bookId,
       }));
+      // Books saved before the ledger existed rebuild it from their logs
+      newState.automationLedger = pruneLedger(
+        loadAutomationLedger(bookId) ?? createLedgerFromLogs(newState.automationLogs),
+        newState.automations.map(a => a.id),
+        newState.tasks
+      );
       dispatch({ type: 'INIT_STATE', payload: newState });
-    }
+      setPendingRepair(loaded?.repair ?? null);
+      setRecoveryItems(loadRecoveryBin(bookId));
+      setLoadedBookId(bookId);
+    })();
+    return () => {
+      cancelled = true;
+    };
   }, [bookId]);
 
   // Auto-save on state changes (debounced)
   useEffect(() => {
+    if (!isLoaded || !adapterRef.current || pendingRepair) return;
+    const adapter = adapterRef.current;
+
     const stateHash = JSON.stringify({
       tasks: state.tasks,
       columns: state.columns,
       tags: state.tags,
       notes: state.notes,
       automations: state.automations,
+      settings: state.settings,
     });
 
     if (stateHash === lastSavedRef.current) return;
@@ -81,12 +190,16 @@ export function useKanbanReducer(bookId: string) {
       clearTimeout(saveTimeoutRef.current);
     }
 
-    saveTimeoutRef.current = window.setTimeout(() => {
-      saveKanbanState(state, bookId);
-      lastSavedRef.current = stateHash;
-      setSaveStatus('saved');
-      
-      setTimeout(() => setSaveStatus('idle'), 2000);
+    saveTimeoutRef.current = window.setTimeout(async () => {
+      try {
+        await adapter.save(state, bookId);
+        lastSavedRef.current = stateHash;
+        setSaveStatus('saved');
+        setTimeout(() => setSaveStatus('idle'), 2000);
+      } catch (error) {
+        console.error('[Kanban Storage] Error saving state:', error);
+        setSaveStatus(isQuotaExceededError(error) ? 'quota' : 'error');
+      }
     }, 500);
 
     return () => {
@@ -94,7 +207,60 @@ export function useKanbanReducer(bookId: string) {
         clearTimeout(saveTimeoutRef.current);
       }
     };
-  }, [state.tasks, state.columns, state.tags, state.notes, state.automations, bookId]);
+  }, [state.tasks, state.columns, state.tags, state.notes, state.automations, state.settings, bookId, isLoaded, pendingRepair, saveAttempt]);
+
+  // Persist automation execution logs separately (debounced, no save indicator).
+  // Held with the board while a repaired load waits for confirmation
+  useEffect(() => {
+    if (!isLoaded || !adapterRef.current || pendingRepair) return;
+    const adapter = adapterRef.current;
+
+    if (logsSaveTimeoutRef.current) {
+      clearTimeout(logsSaveTimeoutRef.current);
+    }
+    logsSaveTimeoutRef.current = window.setTimeout(() => {
+      adapter.saveLogs(state.automationLogs, bookId).catch(error => {
+        console.error('[Kanban Storage] Error saving automation logs:', error);
+        setSaveStatus(isQuotaExceededError(error) ? 'quota' : 'error');
+      });
+    }, 1000);
+
+    return () => {
+      if (logsSaveTimeoutRef.current) {
+        clearTimeout(logsSaveTimeoutRef.current);
+      }
+    };
+  }, [state.automationLogs, bookId, isLoaded, pendingRepair]);
+
+  // The ledger is small and only changes when a rule applies, so it is written
+  // right away (once a repaired load is confirmed: it was pruned against that board)
+  useEffect(() => {
+    if (!isLoaded || pendingRepair) return;
+    saveAutomationLedger(state.automationLedger, bookId);
+  }, [state.automationLedger, bookId, isLoaded, pendingRepair]);
+
+  // Scheduled automations: evaluate once this tab leads (see useKanbanCrossTab), then periodically
+  useEffect(() => {
+    if (!isLoaded || !canRunScheduler) return;
+    const runScheduler = () => dispatch({ type: 'AUTOMATIONS_SCHEDULED_RUN', payload: new Date() });
+    runScheduler();
+    const intervalId = window.setInterval(runScheduler, SCHEDULER_INTERVAL_MS);
+    return () => window.clearInterval(intervalId);
+  }, [bookId, isLoaded, canRunScheduler]);
+
+  // Rolling snapshots: check on load and then periodically whether a tier is due
+  useEffect(() => {
+    if (!isLoaded || !adapterRef.current || pendingRepair) return;
+    const adapter = adapterRef.current;
+    const runSnapshot = () => {
+      takeScheduledSnapshot(adapter, stateRef.current, bookId).catch(error => {
+        console.error('[Kanban Storage] Error taking snapshot:', error);
+      });
+    };
+    runSnapshot();
+    const intervalId = window.setInterval(runSnapshot, SNAPSHOT_CHECK_INTERVAL_MS);
+    return () => window.clearInterval(intervalId);
+  }, [bookId, isLoaded, pendingRepair]);
 
   // Keyboard shortcuts for undo/redo
   useEffect(() => {
@@ -134,16 +300,23 @@ export function useKanbanReducer(bookId: string) {
     });
   }, [bookId]);
 
-  const updateTask = useCallback((taskId: string, updates: Partial<Task>) => {
-    dispatch({ type: 'TASK_UPDATED', payload: { taskId, updates } });
+  // `override` forces a transition past open prerequisites and is recorded on the task
+  const updateTask = useCallback((taskId: string, updates: Partial<Task>, override?: DependencyOverrideRequest) => {
+    dispatch({ type: 'TASK_UPDATED', payload: { taskId, updates, override } });
   }, []);
 
-  const deleteTask = useCallback((taskId: string) => {
-    dispatch({ type: 'TASK_DELETED', payload: taskId });
+  // Tasks that depended on the deleted one are re-pointed to `repointDependenciesTo`, or unlinked
+  const deleteTask = useCallback((taskId: string, repointDependenciesTo?: string) => {
+    dispatch({ type: 'TASK_DELETED', payload: { taskId, repointDependenciesTo } });
   }, []);
 
-  const moveTask = useCallback((taskId: string, targetColumnId: string, targetIndex: number) => {
-    dispatch({ type: 'TASK_MOVED', payload: { taskId, targetColumnId, targetIndex } });
+  const moveTask = useCallback((
+    taskId: string,
+    targetColumnId: string,
+    targetIndex: number,
+    override?: DependencyOverrideRequest
+  ) => {
+    dispatch({ type: 'TASK_MOVED', payload: { taskId, targetColumnId, targetIndex, override } });
   }, []);
 
   const archiveTask = useCallback((taskId: string) => {
@@ -236,6 +409,11 @@ export function useKanbanReducer(bookId: string) {
     dispatch({ type: 'FILTER_UPDATED', payload: filter });
   }, []);
 
+  // Board settings
+  const updateSettings = useCallback((updates: Partial<BoardSettings>) => {
+    dispatch({ type: 'SETTINGS_UPDATED', payload: updates });
+  }, []);
+
   // ========== Computed / Getters ==========
   
   // Only get tasks for the current book
@@ -296,6 +474,15 @@ export function useKanbanReducer(bookId: string) {
     return calculateBookProgress(state, bookId);
   }, [state, bookId]);
 
+  // Critical path over the book's dependency graph (also yields the projected end date)
+  const criticalPath = useMemo(() => {
+    return calculateCriticalPath(state, bookId);
+  }, [state, bookId]);
+
+  const integrityIssues = useMemo(() => {
+    return getIntegrityReport(state);
+  }, [state]);
+
   const getColumnProgress = useCallback((columnId: string) => {
     return calculateColumnProgress(state, bookId, columnId);
   }, [state, bookId]);
@@ -313,45 +500,27 @@ export function useKanbanReducer(bookId: string) {
     return canArchiveTask(task);
   }, [bookTasks]);
 
-  // Dependency helpers - updated to use new completion logic
-  const isTaskBlockedFn = useCallback((taskId: string) => {
+  // Dependency helpers - type/lag aware, see kanban.dependencies
+  const isTaskBlockedFn = useCallback((taskId: string, intent: DependencyAnchor = 'start') => {
     const task = bookTasks.find(t => t.id === taskId);
-    if (!task) return { blocked: false, blockingTaskIds: [], blockingTasks: [] };
-    
-    const dependencies = task.taskDependencies || [];
-    if (dependencies.length === 0) {
-      return { blocked: false, blockingTaskIds: [], blockingTasks: [] };
-    }
+    if (!task) return { blocked: false, blockingTaskIds: [], blockingTasks: [] as Task[], blockingDependencies: [] as TaskDependency[] };
+    return isTaskBlocked(task, state, intent);
+  }, [bookTasks, state]);
 
-    const blockingTasks: Task[] = [];
-    const blockingTaskIds: string[] = [];
-
-    for (const dep of dependencies) {
-      const dependsOnTask = bookTasks.find(t => t.id === dep.dependsOnTaskId);
-      if (!dependsOnTask) continue;
-      
-      // Use new completion logic instead of isDoneColumn
-      if (!isTaskCompleted(dependsOnTask)) {
-        blockingTaskIds.push(dep.dependsOnTaskId);
-        blockingTasks.push(dependsOnTask);
-      }
-    }
-
-    return {
-      blocked: blockingTaskIds.length > 0,
-      blockingTaskIds,
-      blockingTasks,
-    };
-  }, [bookTasks]);
+  const shouldBlockMoveToColumnFn = useCallback((taskId: string, targetColumnId: string) => {
+    const task = bookTasks.find(t => t.id === taskId);
+    if (!task) return { blocked: false, reason: '', blockingTasks: [] as Task[] };
+    return shouldBlockMoveToColumn(task, targetColumnId, state);
+  }, [bookTasks, state]);
 
-  const shouldBlockMoveToColumn = useCallback((taskId: string, targetColumnId: string) => {
-    // No longer block moves to any column since there's no "done" column
-    // Blocking is now based on task status/progress, not column
-    return { blocked: false, reason: '', blockingTasks: [] as Task[] };
-  }, []);
+  const getTransitionBlockFn = useCallback((taskId: string, transition: TaskTransition) => {
+    const task = bookTasks.find(t => t.id === taskId);
+    if (!task) return { blocked: false, reason: '', blockingTasks: [] as Task[], mode: state.settings.dependencyEnforcement };
+    return getTransitionBlock(task, transition, state);
+  }, [bookTasks, state]);
 
-  const wouldCreateCycleFn = useCallback((taskId: string, dependsOnTaskId: string) => {
-    return wouldCreateCycle(taskId, dependsOnTaskId, state);
+  const wouldCreateCycleFn = useCallback((taskId: string, dependsOnTaskId: string, type: DependencyType = 'FS') => {
+    return wouldCreateCycle(taskId, dependsOnTaskId, state, type);
   }, [state]);
 
   const getDependencyEdgesFn = useCallback(() => {
@@ -368,17 +537,32 @@ export function useKanbanReducer(bookId: string) {
     allColumns: state.columns.sort((a, b) => a.order - b.order),
     availableTags: state.tags,
     filter: state.filter,
+    settings: state.settings,
     automations: state.automations,
+    automationLogs: state.automationLogs,
+    notifications: state.notifications,
     notes: state.notes,
     
     // Progress
     bookProgress,
+    criticalPath,
     getColumnProgress,
     getTaskProgress,
     canArchive,
     
-    // Save status
-    saveStatus,
+    // Save status (local saving takes precedence over sync)
+    saveStatus: saveStatus === 'saving' || saveStatus === 'error' || saveStatus === 'quota' || syncStatus === 'disabled' || syncStatus === 'idle'
+      ? saveStatus
+      : syncStatus,
+    pendingChanges,
+    isLoaded,
+    /** 'blocked' while another tab holds up a storage upgrade, 'outdated' once a newer tab took over */
+    storageAvailability,
+
+    // Sync conflicts
+    syncConflicts,
+    resolvedConflicts,
+    resolveConflicts,
     
     // Undo / Redo
     undo,
@@ -424,9 +608,12 @@ export function useKanbanReducer(bookId: string) {
     
     // Filter
     setFilter,
+
+    // Settings
+    updateSettings,
     
     // Automation actions
-    addAutomation: useCallback((automation: Omit<Automation, 'id' | 'createdAt' | 'updatedAt'>) => {
+    addAutomation: useCallback((automation: AutomationDraft) => {
       const now = new Date();
       dispatch({
         type: 'AUTOMATION_CREATED',
@@ -442,6 +629,44 @@ export function useKanbanReducer(bookId: string) {
     toggleAutomation: useCallback((automationId: string) => {
       dispatch({ type: 'AUTOMATION_TOGGLED', payload: automationId });
     }, []),
+    /** Serialize automations (all, or the given ids) as a portable JSON bundle */
+    exportAutomations: useCallback((automationIds?: string[]) => {
+      const selected = automationIds
+        ? state.automations.filter(a => automationIds.includes(a.id))
+        : state.automations;
+      return JSON.stringify(createAutomationBundle(selected, state), null, 2);
+    }, [state]),
+    /** Import a bundle into this book as a single undoable step. Throws on invalid input. */
+    importAutomations: useCallback((json: string): AutomationImportResult => {
+      const result = remapAutomationBundle(parseAutomationBundle(json), state);
+      const now = new Date();
+      dispatch({
+        type: 'AUTOMATIONS_IMPORTED',
+        payload: result.drafts.map(draft => ({ ...draft, id: generateId(), createdAt: now, updatedAt: now })),
+      });
+      return result;
+    }, [state]),
+    installAutomationTemplate: useCallback((templateId: string): AutomationImportResult | null => {
+      const result = installAutomationTemplate(templateId, state);
+      if (!result) return null;
+      const now = new Date();
+      dispatch({
+        type: 'AUTOMATIONS_IMPORTED',
+        payload: result.drafts.map(draft => ({ ...draft, id: generateId(), createdAt: now, updatedAt: now })),
+      });
+      return result;
+    }, [state]),
+    validateAutomation: useCallback((automation: AutomationDraft) => {
+      return validateAutomation(automation, state);
+    }, [state]),
+    testAutomation: useCallback((automation: AutomationDraft, taskId: string) => {
+      const task = state.tasks.find(t => t.id === taskId);
+      if (!task) return null;
+      return testAutomation(automation, task, state);
+    }, [state]),
+    simulateAutomation: useCallback((automation: AutomationDraft & { id?: string }) => {
+      return simulateAutomation(automation, state, bookId);
+    }, [state, bookId]),
     dismissNotification: useCallback((notificationId: string) => {
       dispatch({ type: 'NOTIFICATION_DISMISSED', payload: notificationId });
     }, []),
@@ -450,16 +675,134 @@ export function useKanbanReducer(bookId: string) {
     }, []),
     
     // Dependency actions
-    addDependency: useCallback((taskId: string, dependsOnTaskId: string) => {
-      dispatch({ type: 'DEPENDENCY_ADDED', payload: { taskId, dependsOnTaskId } });
+    addDependency: useCallback((taskId: string, dependsOnTaskId: string, type: DependencyType = 'FS', lagDays = 0) => {
+      dispatch({ type: 'DEPENDENCY_ADDED', payload: { taskId, dependsOnTaskId, type, lagDays } });
+    }, []),
+    updateDependency: useCallback((
+      taskId: string,
+      dependencyId: string,
+      updates: Partial<Pick<TaskDependency, 'type' | 'lagDays'>>
+    ) => {
+      dispatch({ type: 'DEPENDENCY_UPDATED', payload: { taskId, dependencyId, updates } });
     }, []),
     removeDependency: useCallback((taskId: string, dependencyId: string) => {
       dispatch({ type: 'DEPENDENCY_REMOVED', payload: { taskId, dependencyId } });
     }, []),
     isTaskBlocked: isTaskBlockedFn,
-    shouldBlockMoveToColumn,
+    shouldBlockMoveToColumn: shouldBlockMoveToColumnFn,
+    getTransitionBlock: getTransitionBlockFn,
     wouldCreateCycle: wouldCreateCycleFn,
     getDependencyEdges: getDependencyEdgesFn,
+
+    // Auto-scheduling
+    previewReschedule: useCallback((taskId: string) => {
+      return calculateReschedule(state, taskId);
+    }, [state]),
+    applyReschedule: useCallback((shifts: RescheduleShift[]) => {
+      dispatch({ type: 'TASKS_RESCHEDULED', payload: { shifts } });
+    }, []),
+    getDependents: useCallback((taskId: string) => {
+      return getDependents(state, taskId);
+    }, [state]),
+
+    // Integrity
+    integrityIssues,
+    repairIntegrity: useCallback((issueIds?: string[]) => {
+      dispatch({ type: 'INTEGRITY_REPAIRED', payload: { issueIds } });
+    }, []),
+
+    // Backup / restore
+    /** The whole book (board and automation logs) as a versioned JSON archive */
+    exportBook: useCallback(() => {
+      return JSON.stringify(createBookArchive(state, bookId), null, 2);
+    }, [state, bookId]),
+    /** Validate an archive for this book. Throws if the file isn't an archive. */
+    parseBackup: useCallback((json: string): BookArchiveImport => {
+      return parseBookArchive(json, bookId);
+    }, [bookId]),
+    /** Replace this book (one undoable step) or store the archive as a new book; resolves to the target book id */
+    restoreBackup: useCallback(async (imported: BookArchiveImport, mode: RestoreMode): Promise<string> => {
+      if (mode === 'replace') {
+        dispatch({ type: 'BOOK_RESTORED', payload: imported.state });
+        return bookId;
+      }
+      const newBookId = createRestoredBookId(imported.sourceBookId || bookId);
+      await saveAsNewBook(imported.state, newBookId);
+      return newBookId;
+    }, [bookId]),
+
+    // Versions (local snapshots)
+    /** Backend the book was loaded from (null until loaded) */
+    storageBackend: isLoaded ? adapterRef.current?.name ?? null : null,
+    listSnapshots: useCallback(async (): Promise<BoardSnapshotInfo[]> => {
+      return adapterRef.current ? adapterRef.current.listSnapshots(bookId) : [];
+    }, [bookId]),
+    /** The board as it was when the snapshot was taken */
+    loadSnapshot: useCallback(async (snapshotId: string): Promise<KanbanState | null> => {
+      const snapshot = adapterRef.current ? await adapterRef.current.loadSnapshot(bookId, snapshotId) : null;
+      return snapshot ? restoreSnapshotState(snapshot) : null;
+    }, [bookId]),
+    diffSnapshot: useCallback((snapshotState: KanbanState): SnapshotDiff => {
+      return diffSnapshot(snapshotState, state);
+    }, [state]),
+    /** Replace the board with a snapshot (one undoable step); automation logs are kept */
+    restoreSnapshot: useCallback((snapshotState: KanbanState) => {
+      dispatch({
+        type: 'BOOK_RESTORED',
+        payload: { ...snapshotState, automationLogs: stateRef.current.automationLogs },
+      });
+    }, []),
+    restoreSnapshotTasks: useCallback((tasks: Task[]) => {
+      dispatch({ type: 'TASKS_RESTORED', payload: { tasks } });
+    }, []),
+
+    // Load repair / recovery bin
+    /** What the last load had to fix; nothing is saved until it is confirmed */
+    pendingRepair,
+    /** Accept the repaired board; the next auto-save overwrites the stored data */
+    confirmRepair: useCallback(() => {
+      setPendingRepair(null);
+    }, []),
+    recoveryItems,
+    discardRecoveryItems: useCallback((itemIds: string[]) => {
+      setRecoveryItems(removeFromRecoveryBin(bookId, itemIds));
+    }, [bookId]),
+
+    // Storage usage
+    /** Stored bytes per book (what is on disk, not unsaved edits) and the browser's quota */
+    measureStorage: useCallback(async (): Promise<{ books: BookUsage[]; estimate: StorageEstimate } | null> => {
+      const adapter = adapterRef.current;
+      if (!adapter) return null;
+      const [books, estimate] = await Promise.all([adapter.measureUsage(), estimateStorage(adapter)]);
+      return { books, estimate };
+    }, []),
+    retrySave: useCallback(() => {
+      setSaveAttempt(attempt => attempt + 1);
+    }, []),
+    /** Drop automation log entries older than `before` (all when null) from any stored book */
+    purgeLogs: useCallback(async (targetBookId: string, before: Date | null) => {
+      const adapter = adapterRef.current;
+      if (!adapter) return;
+      if (targetBookId !== bookId) {
+        await purgeStoredLogs(adapter, targetBookId, before);
+        return;
+      }
+      dispatch({ type: 'AUTOMATION_LOGS_PURGED', payload: { before } });
+      // Written right away so the freed space shows up when measuring again
+      await adapter.saveLogs(filterLogsBefore(stateRef.current.automationLogs, before), bookId);
+    }, [bookId]),
+    /** Keep only the newest snapshot of a book */
+    purgeSnapshots: useCallback(async (targetBookId: string) => {
+      if (adapterRef.current) await purgeOldSnapshots(adapterRef.current, targetBookId);
+    }, []),
+    /** Delete this book's archived tasks (one undoable step) */
+    purgeArchivedTasks: useCallback(() => {
+      dispatch({ type: 'ARCHIVED_TASKS_PURGED' });
+    }, []),
+    emptyRecoveryBin: useCallback((targetBookId: string) => {
+      saveRecoveryBin([], targetBookId);
+      if (targetBookId === bookId) setRecoveryItems([]);
+    }, [bookId]),
     
     // Getters
     getFilteredTasks,
@@ -0,0 +1,264 @@
+import { useEffect, useRef, useState, useCallback, Dispatch } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { KanbanState, KanbanAction } from './kanban.types';
+import {
+  SyncChange,
+  SyncMeta,
+  OutgoingSyncChange,
+  ApplyRemoteOptions,
+  getPendingChanges,
+  getEntityKey,
+  collectSyncEntities,
+  advanceSyncBase,
+  isUntouchedSeedBoard,
+  loadSyncMeta,
+  saveSyncMeta,
+} from './kanban.sync';
+import {
+  ConflictChoice,
+  ConflictLog,
+  FIELD_MERGED_TYPES,
+  mergeRemoteConflicts,
+  addPendingConflicts,
+  recordConflictResolutions,
+  loadConflictLog,
+  saveConflictLog,
+} from './kanban.merge';
+
+/** Base URL of the sync API; sync is off when unset */
+const SYNC_API_URL = import.meta.env.VITE_KANBAN_SYNC_URL?.replace(/\/+$/, '') || '';
+const PULL_INTERVAL_MS = 15000;
+const PUSH_DEBOUNCE_MS = 1000;
+const MAX_RETRIES = 4;
+
+export type SyncStatus = 'disabled' | 'idle' | 'syncing' | 'offline' | 'conflict' | 'error';
+
+interface PullResponse {
+  changes: SyncChange[];
+  cursor: number;
+}
+
+interface PushResponse {
+  /** Changes the server accepted (without data) */
+  applied: SyncChange[];
+  /** Server versions that won over the pushed ones */
+  conflicts: SyncChange[];
+  cursor: number;
+}
+
+/** A dispatched batch of server versions, committed to the sync base once rendered */
+interface RemoteBatch {
+  stateBefore: KanbanState;
+  synced: SyncChange[];
+  cursor?: number;
+  resetBase?: boolean;
+}
+
+// Exponential backoff: 1s, 2s, 4s... capped at 30s
+const retryDelay = (attempt: number) => Math.min(1000 * 2 ** attempt, 30000);
+
+// fetch rejects with a TypeError when the request never reaches the server
+const isNetworkError = (error: unknown) => error instanceof TypeError;
+
+async function requestSync<T>(path: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(`${SYNC_API_URL}${path}`, {
+    ...init,
+    headers: { 'Content-Type': 'application/json' },
+  });
+  if (!response.ok) {
+    throw new Error(`Sync request failed: ${response.status} ${response.statusText}`);
+  }
+  return response.json() as Promise<T>;
+}
+
+/**
+ * Keeps a book in sync with the HTTP API set in `VITE_KANBAN_SYNC_URL`.
+ * Local edits are pushed (debounced) as per-entity versions; remote changes
+ * are pulled on an interval. Unpushed edits are derived from the board and
+ * the persisted sync base, so they form an offline queue that survives
+ * reloads. Concurrent edits to tasks, columns, notes and automations are
+ * merged field by field; fields edited on both sides wait in the conflict log
+ * for the user to pick a value. Other entities take the server version.
+ */
+export function useKanbanSync(
+  bookId: string,
+  state: KanbanState,
+  isLoaded: boolean,
+  dispatch: Dispatch<KanbanAction>
+) {
+  const enabled = !!SYNC_API_URL && isLoaded;
+  const metaRef = useRef<SyncMeta | null>(null);
+  const stateRef = useRef(state);
+  const remoteBatchesRef = useRef<RemoteBatch[]>([]);
+  const [isOnline, setIsOnline] = useState(() => typeof navigator === 'undefined' || navigator.onLine);
+  const [hasConflicts, setHasConflicts] = useState(false);
+  const [conflictLog, setConflictLog] = useState<ConflictLog>(() => loadConflictLog(bookId));
+  const [pendingCount, setPendingCount] = useState(0);
+
+  stateRef.current = state;
+  if (!metaRef.current) {
+    metaRef.current = loadSyncMeta(bookId);
+  }
+
+  useEffect(() => {
+    metaRef.current = loadSyncMeta(bookId);
+    remoteBatchesRef.current = [];
+    setHasConflicts(false);
+    setConflictLog(loadConflictLog(bookId));
+  }, [bookId]);
+
+  const updateMeta = useCallback((meta: SyncMeta) => {
+    metaRef.current = meta;
+    saveSyncMeta(meta, bookId);
+  }, [bookId]);
+
+  const updateConflictLog = useCallback((update: (log: ConflictLog) => ConflictLog) => {
+    setConflictLog(log => {
+      const next = update(log);
+      if (next !== log) saveConflictLog(next, bookId);
+      return next;
+    });
+  }, [bookId]);
+
+  const applyRemote = useCallback((changes: SyncChange[], batch: Omit<RemoteBatch, 'stateBefore'>, options?: ApplyRemoteOptions) => {
+    remoteBatchesRef.current.push({ ...batch, stateBefore: stateRef.current });
+    dispatch({
+      type: 'SYNC_REMOTE_APPLIED',
+      payload: { changes, meta: metaRef.current, bookId, options },
+    });
+  }, [bookId, dispatch]);
+
+  // Advance the base only once the remote versions are in the rendered state,
+  // otherwise a push in between would see them as missing local entities
+  useEffect(() => {
+    const settled = remoteBatchesRef.current.filter(batch => batch.stateBefore !== state);
+    if (settled.length === 0) return;
+    remoteBatchesRef.current = remoteBatchesRef.current.filter(batch => batch.stateBefore === state);
+    for (const batch of settled) {
+      const meta = batch.resetBase ? { cursor: 0, base: {} } : metaRef.current!;
+      updateMeta(advanceSyncBase(meta, batch.synced, batch.cursor));
+    }
+  }, [state, updateMeta]);
+
+  useEffect(() => {
+    const handleOnline = () => setIsOnline(true);
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  // ========== PULL ==========
+
+  const pull = useQuery({
+    queryKey: ['kanban-sync', bookId],
+    enabled,
+    refetchInterval: PULL_INTERVAL_MS,
+    retry: MAX_RETRIES,
+    retryDelay,
+    queryFn: async () => {
+      const meta = metaRef.current!;
+      const response = await requestSync<PullResponse>(
+        `/api/books/${encodeURIComponent(bookId)}/changes?since=${meta.cursor}`
+      );
+
+      // First sync of a book the server already has: a local seed board is
+      // replaced by the server copy instead of being pushed as new entities.
+      // Any other board merges below, and its entities are pushed as new versions
+      const isFirstSync = meta.cursor === 0 && Object.keys(meta.base).length === 0;
+      if (isFirstSync && response.changes.length > 0 && isUntouchedSeedBoard(stateRef.current)) {
+        applyRemote(response.changes, { synced: response.changes, cursor: response.cursor, resetBase: true }, { replace: true });
+        return response.cursor;
+      }
+
+      // Skip versions this client already has (typically its own pushes coming back)
+      const incoming = response.changes.filter(change => {
+        const base = meta.base[getEntityKey(change)];
+        return change.deleted ? base !== undefined : base !== change.updatedAt;
+      });
+      if (incoming.length > 0) {
+        // Entities edited locally keep their pending version; the push resolves them
+        const pendingKeys = new Set(getPendingChanges(stateRef.current, meta).map(getEntityKey));
+        const synced = incoming.filter(change => !pendingKeys.has(getEntityKey(change)));
+        applyRemote(incoming, { synced, cursor: response.cursor });
+      } else if (response.cursor !== meta.cursor) {
+        updateMeta({ ...meta, cursor: response.cursor });
+      }
+      return response.cursor;
+    },
+  });
+
+  // ========== PUSH ==========
+
+  const { mutate: pushChanges, isPending: isPushing, isPaused: isPushPaused, error: pushError } = useMutation({
+    mutationFn: (changes: OutgoingSyncChange[]) =>
+      requestSync<PushResponse>(`/api/books/${encodeURIComponent(bookId)}/changes`, {
+        method: 'POST',
+        body: JSON.stringify({ changes }),
+      }),
+    retry: MAX_RETRIES,
+    retryDelay,
+    onSuccess: (response, pushed) => {
+      updateMeta(advanceSyncBase(metaRef.current!, response.applied));
+      // Only wholesale overwrites count here; field conflicts are tracked in the log
+      setHasConflicts(response.conflicts.some(c => c.deleted || !FIELD_MERGED_TYPES.includes(c.entityType)));
+      if (response.conflicts.length === 0) return;
+
+      const baseVersions = Object.fromEntries(pushed.map(change => [getEntityKey(change), change.baseUpdatedAt]));
+      const { changes, fieldConflicts } = mergeRemoteConflicts(
+        collectSyncEntities(stateRef.current),
+        response.conflicts,
+        baseVersions
+      );
+      applyRemote(changes, { synced: response.conflicts }, { force: true });
+      updateConflictLog(log => addPendingConflicts(log, fieldConflicts));
+    },
+  });
+
+  useEffect(() => {
+    if (!enabled) return;
+    const timeoutId = window.setTimeout(() => {
+      const pending = getPendingChanges(stateRef.current, metaRef.current!);
+      setPendingCount(pending.length);
+      // Wait for in-flight pushes and unsettled remote batches; this effect reruns after both
+      if (pending.length === 0 || isPushing || remoteBatchesRef.current.length > 0) return;
+      pushChanges(pending);
+    }, PUSH_DEBOUNCE_MS);
+    return () => window.clearTimeout(timeoutId);
+  }, [state, enabled, isPushing, pushChanges]);
+
+  /** Settle pending field conflicts; choosing 'local' writes that value back as a new edit */
+  const resolveConflicts = useCallback((choices: Record<string, ConflictChoice>) => {
+    const keepLocal = conflictLog.pending.filter(conflict => choices[conflict.id] === 'local');
+    if (keepLocal.length > 0) {
+      dispatch({ type: 'SYNC_CONFLICTS_RESOLVED', payload: { conflicts: keepLocal, bookId } });
+    }
+    updateConflictLog(log => recordConflictResolutions(log, choices));
+  }, [conflictLog, bookId, dispatch, updateConflictLog]);
+
+  let syncStatus: SyncStatus = 'disabled';
+  if (SYNC_API_URL) {
+    if (!isOnline || isPushPaused || isNetworkError(pushError) || isNetworkError(pull.error)) {
+      syncStatus = 'offline';
+    } else if (hasConflicts || conflictLog.pending.length > 0) {
+      syncStatus = 'conflict';
+    } else if (isPushing || pull.isLoading) {
+      syncStatus = 'syncing';
+    } else if (pushError || pull.isError) {
+      syncStatus = 'error';
+    } else {
+      syncStatus = 'idle';
+    }
+  }
+
+  return {
+    syncStatus,
+    pendingChanges: pendingCount,
+    conflicts: conflictLog.pending,
+    resolvedConflicts: conflictLog.resolved,
+    resolveConflicts,
+  };
+}
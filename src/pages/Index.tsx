@@ -1,10 +1,13 @@
+import { useSearchParams } from 'react-router-dom';
 import { KanbanBoard } from '@/components/kanban/KanbanBoard';
 
 const Index = () => {
-  // Default book ID - in a real app this would come from routing or context
-  const defaultBookId = 'default-book';
+  const [searchParams] = useSearchParams();
+  // Default book ID - in a real app this would come from routing or context.
+  // `?book=` opens another stored book (e.g. one restored from a backup).
+  const bookId = searchParams.get('book') || 'default-book';
   
-  return <KanbanBoard bookId={defaultBookId} />;
+  return <KanbanBoard bookId={bookId} />;
 };
 
 export default Index;
@@ -1,4 +1,4 @@
-import { Priority } from './kanban';
+import { Priority, TaskStatus, FieldRevisions } from './kanban';
 
 // ========== TRIGGERS ==========
 export type AutomationTriggerType =
@@ -9,12 +9,28 @@ export type AutomationTriggerType =
   | 'DUE_DATE_CHANGED'
   | 'PRIORITY_CHANGED'
   | 'TAGS_CHANGED'
-  | 'PROGRESS_CHANGED';
+  | 'PROGRESS_CHANGED'
+  // Scheduled (time-based) triggers, evaluated periodically by the scheduler
+  | 'DUE_DATE_APPROACHING'
+  | 'OVERDUE'
+  | 'STALE_IN_COLUMN_FOR_DAYS'
+  | 'DAILY';
 
 export interface AutomationTrigger {
   type: AutomationTriggerType;
+  /** DUE_DATE_APPROACHING: days before the due date; STALE_IN_COLUMN_FOR_DAYS: days in the same column */
+  days?: number;
+  /** DAILY: hour of the day (0-23) from which the rule may fire */
+  hour?: number;
 }
 
+export const SCHEDULED_TRIGGER_TYPES: AutomationTriggerType[] = [
+  'DUE_DATE_APPROACHING',
+  'OVERDUE',
+  'STALE_IN_COLUMN_FOR_DAYS',
+  'DAILY',
+];
+
 // ========== CONDITIONS ==========
 export type AutomationConditionType =
   | 'PRIORITY_IS'
@@ -24,7 +40,8 @@ export type AutomationConditionType =
   | 'DUE_IN_DAYS_LESS_THAN'
   | 'PROGRESS_EQUALS'
   | 'SUBTASKS_ALL_COMPLETED'
-  | 'SUBTASKS_INCOMPLETE';
+  | 'SUBTASKS_INCOMPLETE'
+  | 'STATUS_IS';
 
 export type AutomationCondition =
   | { type: 'PRIORITY_IS'; value: Priority }
@@ -34,7 +51,28 @@ export type AutomationCondition =
   | { type: 'DUE_IN_DAYS_LESS_THAN'; value: number }
   | { type: 'PROGRESS_EQUALS'; value: 0 | 25 | 50 | 75 | 100 }
   | { type: 'SUBTASKS_ALL_COMPLETED' }
-  | { type: 'SUBTASKS_INCOMPLETE' };
+  | { type: 'SUBTASKS_INCOMPLETE' }
+  | { type: 'STATUS_IS'; value: TaskStatus };
+
+/**
+ * Boolean operator of a condition group:
+ * - AND: every child must match
+ * - OR: at least one child must match
+ * - NOT: none of the children may match
+ * Empty groups always match.
+ */
+export type ConditionGroupOperator = 'AND' | 'OR' | 'NOT';
+
+export interface AutomationConditionGroup {
+  operator: ConditionGroupOperator;
+  children: AutomationConditionNode[];
+}
+
+export type AutomationConditionNode = AutomationCondition | AutomationConditionGroup;
+
+export function isConditionGroup(node: AutomationConditionNode): node is AutomationConditionGroup {
+  return 'operator' in node && Array.isArray((node as AutomationConditionGroup).children);
+}
 
 // ========== ACTIONS ==========
 export type AutomationActionType =
@@ -45,9 +83,32 @@ export type AutomationActionType =
   | 'ARCHIVE_TASK'
   | 'UNARCHIVE_TASK'
   | 'SET_DUE_DATE_IN_DAYS'
-  | 'NOTIFY_IN_APP';
+  | 'NOTIFY_IN_APP'
+  | 'SET_STATUS'
+  | 'SET_ASSIGNEE'
+  | 'ADD_SUBTASKS_FROM_TEMPLATE'
+  | 'SET_START_DATE_IN_DAYS'
+  | 'CREATE_FOLLOW_UP_TASK'
+  | 'ADD_DEPENDENCY'
+  | 'SHIFT_DATES_BY_SOURCE_SLIP';
+
+/**
+ * Which tasks an action applies to, relative to the task that fired the rule.
+ * - SELF: the triggering task (default)
+ * - DEPENDENTS: tasks that depend on the triggering task
+ * - PREREQUISITES: tasks the triggering task depends on
+ * - TASKS_WITH_TAG: every other task carrying `tagId`
+ */
+export type AutomationTargetKind = 'SELF' | 'DEPENDENTS' | 'PREREQUISITES' | 'TASKS_WITH_TAG';
+
+export interface AutomationActionTarget {
+  kind: AutomationTargetKind;
+  tagId?: string;
+  /** Only act on target tasks matching these conditions */
+  conditions?: AutomationConditionGroup;
+}
 
-export type AutomationAction =
+type AutomationActionBase =
   | { type: 'MOVE_TO_COLUMN'; columnId: string }
   | { type: 'SET_PRIORITY'; value: Priority }
   | { type: 'ADD_TAG'; tagId: string }
@@ -55,7 +116,19 @@ export type AutomationAction =
   | { type: 'ARCHIVE_TASK' }
   | { type: 'UNARCHIVE_TASK' }
   | { type: 'SET_DUE_DATE_IN_DAYS'; value: number }
-  | { type: 'NOTIFY_IN_APP'; message: string };
+  | { type: 'NOTIFY_IN_APP'; message: string }
+  | { type: 'SET_STATUS'; value: TaskStatus }
+  | { type: 'SET_ASSIGNEE'; assignee: string | null }
+  | { type: 'ADD_SUBTASKS_FROM_TEMPLATE'; templateId: string }
+  | { type: 'SET_START_DATE_IN_DAYS'; value: number }
+  /** Creates a new task in `columnId` that depends on the triggering task */
+  | { type: 'CREATE_FOLLOW_UP_TASK'; columnId: string; title: string }
+  /** Makes the triggering task depend on `dependsOnTaskId` */
+  | { type: 'ADD_DEPENDENCY'; dependsOnTaskId: string }
+  /** Shifts start/due dates by as much as the triggering task's due date moved */
+  | { type: 'SHIFT_DATES_BY_SOURCE_SLIP' };
+
+export type AutomationAction = AutomationActionBase & { target?: AutomationActionTarget };
 
 // ========== SCOPE ==========
 export interface AutomationScope {
@@ -63,19 +136,37 @@ export interface AutomationScope {
   tagIds?: string[];
 }
 
+// ========== RATE LIMITS ==========
+export interface AutomationLimits {
+  /** Minimum minutes between two runs on the same task */
+  cooldownMinutesPerTask?: number;
+  /** Minimum minutes between two runs on any task */
+  cooldownMinutesGlobal?: number;
+  /** Max applied runs per calendar day, across all tasks */
+  maxRunsPerDay?: number;
+  /** Apply at most once to each task */
+  oncePerTask?: boolean;
+}
+
 // ========== MAIN AUTOMATION TYPE ==========
 export interface Automation {
   id: string;
   name: string;
   enabled: boolean;
   trigger: AutomationTrigger;
-  conditions: AutomationCondition[];
+  /** Root of the condition tree */
+  conditions: AutomationConditionGroup;
   actions: AutomationAction[];
   scope?: AutomationScope;
+  limits?: AutomationLimits;
   createdAt: Date;
   updatedAt: Date;
+  fieldRevisions?: FieldRevisions;
 }
 
+/** An automation as edited in the rule builder, before it gets an id and timestamps */
+export type AutomationDraft = Omit<Automation, 'id' | 'createdAt' | 'updatedAt' | 'fieldRevisions'>;
+
 // ========== EXECUTION LOG ==========
 export type AutomationExecutionResult =
   | 'applied'
@@ -83,6 +174,7 @@ export type AutomationExecutionResult =
   | 'skipped_disabled'
   | 'skipped_no_change'
   | 'skipped_scope'
+  | 'skipped_rate_limit'
   | 'error';
 
 export interface AutomationExecution {
@@ -96,12 +188,22 @@ export interface AutomationExecution {
   actionsApplied: AutomationAction[];
   result: AutomationExecutionResult;
   errorMessage?: string;
+  /** Which limit stopped the run, for skipped_rate_limit */
+  skipReason?: string;
+  /** Other tasks changed or created by cross-task actions */
+  affectedTaskIds?: string[];
+  /** Time window of a scheduled run, used to avoid firing twice for the same window */
+  scheduleWindow?: string;
 }
 
 // ========== AUTOMATION EVENT ==========
 export interface AutomationEvent {
   type: AutomationTriggerType;
   taskId: string;
+  /** Restrict the run to a single automation (used by scheduled triggers) */
+  automationId?: string;
+  /** Scheduled window this event belongs to, copied into the execution logs */
+  scheduleWindow?: string;
   previousTask?: {
     columnId?: string;
     priority?: Priority;
@@ -130,6 +232,10 @@ export const TRIGGER_LABELS: Record<AutomationTriggerType, string> = {
   PRIORITY_CHANGED: 'Prioridad cambiada',
   TAGS_CHANGED: 'Etiquetas cambiadas',
   PROGRESS_CHANGED: 'Progreso cambiado',
+  DUE_DATE_APPROACHING: 'Fecha límite se acerca',
+  OVERDUE: 'Tarea vencida',
+  STALE_IN_COLUMN_FOR_DAYS: 'Días sin moverse de columna',
+  DAILY: 'Cada día',
 };
 
 export const CONDITION_LABELS: Record<AutomationConditionType, string> = {
@@ -141,6 +247,13 @@ export const CONDITION_LABELS: Record<AutomationConditionType, string> = {
   PROGRESS_EQUALS: 'Progreso es',
   SUBTASKS_ALL_COMPLETED: 'Todas las subtareas completadas',
   SUBTASKS_INCOMPLETE: 'Tiene subtareas incompletas',
+  STATUS_IS: 'Estado es',
+};
+
+export const CONDITION_GROUP_LABELS: Record<ConditionGroupOperator, string> = {
+  AND: 'Se cumplen todas',
+  OR: 'Se cumple alguna',
+  NOT: 'No se cumple ninguna',
 };
 
 export const ACTION_LABELS: Record<AutomationActionType, string> = {
@@ -152,4 +265,18 @@ export const ACTION_LABELS: Record<AutomationActionType, string> = {
   UNARCHIVE_TASK: 'Desarchivar tarea',
   SET_DUE_DATE_IN_DAYS: 'Establecer fecha límite',
   NOTIFY_IN_APP: 'Notificar en app',
+  SET_STATUS: 'Cambiar estado',
+  SET_ASSIGNEE: 'Asignar a',
+  ADD_SUBTASKS_FROM_TEMPLATE: 'Añadir subtareas de plantilla',
+  SET_START_DATE_IN_DAYS: 'Establecer fecha de inicio',
+  CREATE_FOLLOW_UP_TASK: 'Crear tarea de seguimiento',
+  ADD_DEPENDENCY: 'Añadir dependencia',
+  SHIFT_DATES_BY_SOURCE_SLIP: 'Desplazar fechas según el retraso de la tarea origen',
+};
+
+export const TARGET_LABELS: Record<AutomationTargetKind, string> = {
+  SELF: 'Esta tarea',
+  DEPENDENTS: 'Tareas que dependen de esta',
+  PREREQUISITES: 'Tareas de las que depende',
+  TASKS_WITH_TAG: 'Tareas con etiqueta',
 };
@@ -1,6 +1,6 @@
 export type Priority = 'low' | 'medium' | 'high' | 'critical';
 export type TaskStatus = 'not_started' | 'in_progress' | 'paused' | 'waiting' | 'archived' | 'completed';
-export type ViewType = 'kanban' | 'list' | 'calendar' | 'timeline' | 'notes';
+export type ViewType = 'kanban' | 'list' | 'calendar' | 'timeline' | 'notes' | 'graph';
 
 // Legacy checklist item - kept for migration compatibility
 export interface ChecklistItem {
@@ -23,15 +23,33 @@ export interface Tag {
   id: string;
   name: string;
   color: string;
+  /** Last local or remote change, used to version the entity for sync */
+  updatedAt?: Date;
 }
 
 // Dependency types - Phase 7
-export type DependencyType = 'FS'; // Finish-to-Start (only type for now)
+// FS: finish-to-start, SS: start-to-start, FF: finish-to-finish, SF: start-to-finish
+export type DependencyType = 'FS' | 'SS' | 'FF' | 'SF';
+
+/** Version (ISO timestamp) of each field's last change, used to merge concurrent edits field by field */
+export type FieldRevisions = Record<string, string>;
 
 export interface TaskDependency {
   id: string;
   type: DependencyType;
   dependsOnTaskId: string; // prerequisite task ID
+  /** Signed lag in days after the prerequisite's anchor (negative = lead) */
+  lagDays?: number;
+  createdAt: Date;
+}
+
+/** Record of a status/column transition forced past unmet prerequisites */
+export interface DependencyOverride {
+  id: string;
+  /** Status or column the task was moved into */
+  transition: { status?: TaskStatus; columnId?: string };
+  blockingTaskIds: string[];
+  reason: string;
   createdAt: Date;
 }
 
@@ -59,8 +77,15 @@ export interface Task {
   dependencies: string[];
   /** Task dependencies with full metadata */
   taskDependencies?: TaskDependency[];
+  /** Transitions forced while prerequisites were still open */
+  dependencyOverrides?: DependencyOverride[];
   order: number;
   isArchived: boolean;
+  /** When the task entered its current column (used by stale-in-column automations) */
+  columnEnteredAt?: Date | null;
+  /** Last local or remote change, used to version the entity for sync */
+  updatedAt?: Date;
+  fieldRevisions?: FieldRevisions;
 }
 
 export interface Column {
@@ -77,6 +102,21 @@ export interface Column {
   isDoneColumn?: boolean;
   /** System columns cannot be deleted */
   isSystemColumn?: boolean;
+  /** Tasks can only enter once all their prerequisites are met */
+  requiresPrerequisites?: boolean;
+  /** Last local or remote change, used to version the entity for sync */
+  updatedAt?: Date;
+  fieldRevisions?: FieldRevisions;
+}
+
+/** How unmet prerequisites gate starting or completing a task */
+export type DependencyEnforcementMode = 'strict' | 'warn' | 'off';
+
+/** Per-book board settings */
+export interface BoardSettings {
+  dependencyEnforcement: DependencyEnforcementMode;
+  /** Last local or remote change, used to version the settings for sync */
+  updatedAt?: Date;
 }
 
 export interface Filter {
@@ -97,6 +137,7 @@ export interface Note {
   priority: Priority;
   createdAt: Date;
   updatedAt: Date;
+  fieldRevisions?: FieldRevisions;
 }
 
 // Re-export Automation types from automation.ts
@@ -104,7 +145,11 @@ export type {
   Automation,
   AutomationTrigger,
   AutomationCondition,
+  AutomationConditionGroup,
+  AutomationConditionNode,
   AutomationAction,
+  AutomationActionTarget,
+  AutomationTargetKind,
   AutomationExecution,
   AutomationNotification,
   AutomationEvent,
@@ -112,4 +157,6 @@ export type {
   AutomationConditionType,
   AutomationActionType,
   AutomationScope,
+  AutomationLimits,
+  AutomationDraft,
 } from './automation';
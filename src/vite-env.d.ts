@@ -1 +1,6 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Base URL of the kanban sync API (e.g. http://localhost:8787); sync is off when unset */
+  readonly VITE_KANBAN_SYNC_URL?: string;
+}